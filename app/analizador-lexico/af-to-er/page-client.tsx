@@ -2,7 +2,8 @@
 
 /**
  * Página de conversión de Autómata Finito a Expresión Regular
- * Implementa el método de Arden (ecuaciones) para la conversión
+ * Usa el método de eliminación de estados con un orden elegible (o una heurística)
+ * y compara el tamaño de la ER entre órdenes y frente a los métodos de Arden y Kleene
  */
 
 import { useState, useCallback, useMemo, useEffect } from 'react';
@@ -10,24 +11,46 @@ import { useQueryStates } from 'nuqs';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { 
   LanguageInput, 
   AutomataEditor, 
   AutomataHelpModal,
   TransitionTableEditor,
   AutomataGraphCytoscape,
+  EquivalenceChecker,
+  EliminationOrderEditor,
+  StateEliminationSteps,
+  EliminationOrderComparisonTable,
+  KleeneTables,
+  RegexSimplificationSteps,
+  AutomatonToGrammarView,
 } from '@/components/analizador-lexico';
 import { 
   CollapsibleSection, 
   SegmentedControl, 
   CopyButton,
 } from '@/components/shared';
-import { createExampleAutomaton } from '@/lib/algorithms/lexical/af-to-er';
+import { compareEliminationOrders, createExampleAutomaton, eliminationHeuristicLabels } from '@/lib/algorithms/lexical/af-to-er';
+import { lintAutomaton } from '@/lib/algorithms/lexical/automaton-lint';
 import { useHistory } from '@/lib/context';
-import { useAutomata } from '@/hooks';
-import { Loader2, Play, RotateCcw, Sparkles, ChevronRight, Check } from 'lucide-react';
+import { useAutomata, useAutomatonHistory } from '@/hooks';
+import { Loader2, Play, RotateCcw, Sparkles, ChevronRight, Check, Scale, BarChart3, Grid3x3, WandSparkles, ScrollText } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import type { Automaton } from '@/lib/types';
+import type {
+  EliminationHeuristic,
+  EliminationOrderComparison,
+  KleeneResult,
+  StateEliminationOptions,
+  StateEliminationResult,
+} from '@/lib/types/automata';
 import { afToErSearchParams } from '@/lib/nuqs';
 
 // Opciones para el control segmentado
@@ -41,13 +64,19 @@ const alphabetOptions = [
   { value: 'custom', label: 'Personalizado' },
 ];
 
+const heuristics = Object.keys(eliminationHeuristicLabels) as EliminationHeuristic[];
+
 export default function AFtoERClientPage() {
   // Usar nuqs para manejar el estado de la URL
-  const [{ inputMode, alphabetMode, customAlphabet, automaton: automatonJson }, setParams] = useQueryStates(afToErSearchParams);
+  const [
+    { inputMode, alphabetMode, customAlphabet, automaton: automatonJson, heuristic, eliminationOrder },
+    setParams,
+  ] = useQueryStates(afToErSearchParams);
   
   // Usar el hook de autómata
-  const { convertToER, clearAutomaton, error: hookError, isProcessing } = useAutomata();
+  const { convertToER, clearAutomaton, checkEquivalence, error: hookError, isProcessing } = useAutomata();
   const { addEntry } = useHistory();
+  const editorHistory = useAutomatonHistory(); // Compartido por el editor visual y la tabla
   
   // Estado local (no persistido en URL)
   const [resetKey, setResetKey] = useState(0);
@@ -63,11 +92,14 @@ export default function AFtoERClientPage() {
   }, [automatonJson]);
   
   // Estado de resultado
-  const [result, setResult] = useState<{
-    regex: string;
-    steps: any[];
-    ardenEquations: any[];
-  } | null>(null);
+  const [result, setResult] = useState<StateEliminationResult | null>(null);
+  const [ardenRegex, setArdenRegex] = useState<string | null>(null);
+  const [methodLengths, setMethodLengths] = useState<{ arden: number; stateElimination: number; difference: number } | null>(null);
+  // Comparación de órdenes: se calcula al abrir su sección (prueba todos los órdenes) y se
+  // conserva mientras no cambie el autómata
+  const [comparisonCache, setComparisonCache] = useState<{ automaton: string; comparisons: EliminationOrderComparison[] } | null>(null);
+  const comparisons = comparisonCache?.automaton === automatonJson ? comparisonCache.comparisons : null;
+  const [kleene, setKleene] = useState<{ result: KleeneResult | null; error: string | null } | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   // Alfabeto efectivo (auto-detectado o personalizado)
@@ -104,7 +136,9 @@ export default function AFtoERClientPage() {
       automaton: null, 
       customAlphabet: [], 
       inputMode: 'visual', 
-      alphabetMode: 'auto' 
+      alphabetMode: 'auto',
+      heuristic: 'definition',
+      eliminationOrder: [],
     });
     setResult(null);
     setError(null);
@@ -112,8 +146,20 @@ export default function AFtoERClientPage() {
     clearAutomaton();
   }, [clearAutomaton, setParams]);
 
-  // Realizar la conversión
-  const handleConvert = async () => {
+  // Cambiar el criterio de eliminación
+  const handleHeuristicChange = (value: EliminationHeuristic) => {
+    setParams({ heuristic: value });
+    setResult(null);
+  };
+
+  // Cambiar el orden personalizado
+  const handleOrderChange = (order: string[]) => {
+    setParams({ eliminationOrder: order });
+    setResult(null);
+  };
+
+  // Realizar la conversión (opcionalmente con un orden distinto al de la URL)
+  const handleConvert = async (override?: StateEliminationOptions) => {
     if (!automaton) {
       setError('Debes definir un autómata primero');
       return;
@@ -122,12 +168,14 @@ export default function AFtoERClientPage() {
     try {
       setError(null);
 
-      // Validaciones
-      const hasInitial = automaton.states.some(s => s.isInitial);
+      // Validaciones (los problemas del editor que impiden la conversión)
+      const initialIssue = lintAutomaton(automaton).find(
+        issue => issue.code === 'missing-initial' || issue.code === 'multiple-initial'
+      );
       const hasFinal = automaton.states.some(s => s.isFinal);
 
-      if (!hasInitial) {
-        throw new Error('El autómata debe tener un estado inicial');
+      if (initialIssue) {
+        throw new Error(`${initialIssue.message}. Corrígelo en el panel de problemas del editor.`);
       }
 
       if (!hasFinal) {
@@ -150,10 +198,34 @@ export default function AFtoERClientPage() {
       // Usar el hook para convertir (pasando el autómata manualmente)
       // Como el hook usa el contexto, necesitamos una forma de pasarle el autómata
       // Por ahora, usaremos el método directo
-      const { afToERByStateElimination } = await import('@/lib/algorithms/lexical/af-to-er');
-      const conversionResult = afToERByStateElimination(automaton);
+      const {
+        afToERByStateElimination,
+        afToERBothMethods,
+        afToERByKleene,
+      } = await import('@/lib/algorithms/lexical/af-to-er');
+
+      const options: StateEliminationOptions = override
+        ?? (heuristic === 'custom' ? { heuristic, order: eliminationOrder } : { heuristic });
+      const conversionResult = afToERByStateElimination(automaton, options);
       setResult(conversionResult);
 
+      // Resultado de Arden como referencia alternativa para comparar respuestas y longitudes
+      try {
+        const methods = afToERBothMethods(automaton, options);
+        setArdenRegex(methods.ardenResult.regex);
+        setMethodLengths(methods.lengths);
+      } catch {
+        setArdenRegex(null);
+        setMethodLengths(null);
+      }
+
+      // Método de Kleene (sobre el autómata recortado o su AFD mínimo; se omite si las tablas crecen demasiado)
+      try {
+        setKleene({ result: afToERByKleene(automaton), error: null });
+      } catch (err) {
+        setKleene({ result: null, error: err instanceof Error ? err.message : 'Error en el método de Kleene' });
+      }
+
       addEntry({
         type: 'lexical-af-to-er',
         input: `AF con ${automaton.states.length} estados → ER`,
@@ -165,6 +237,8 @@ export default function AFtoERClientPage() {
           alphabetMode,
           customAlphabet: customAlphabet.length > 0 ? customAlphabet : undefined,
           automatonJson: JSON.stringify(automaton),
+          eliminationHeuristic: conversionResult.heuristic,
+          eliminationOrder: conversionResult.heuristic === 'custom' ? conversionResult.order : undefined,
         },
       });
     } catch (err: any) {
@@ -172,6 +246,22 @@ export default function AFtoERClientPage() {
     }
   };
 
+  // Usar un orden de la tabla comparativa como orden personalizado
+  const handleApplyOrder = (order: string[]) => {
+    setParams({ heuristic: 'custom', eliminationOrder: order });
+    handleConvert({ heuristic: 'custom', order });
+  };
+
+  // Calcular la comparación de órdenes la primera vez que se abre la sección
+  const handleComparisonOpen = (open: boolean) => {
+    if (!open || comparisons || !automaton || !automatonJson) return;
+    try {
+      setComparisonCache({ automaton: automatonJson, comparisons: compareEliminationOrders(automaton) });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al comparar los órdenes de eliminación');
+    }
+  };
+
   // Validación del autómata
   const automatonValidation = useMemo(() => {
     if (!automaton) return { valid: false, message: 'No hay autómata definido' };
@@ -196,7 +286,7 @@ export default function AFtoERClientPage() {
         <h1 className="text-2xl font-bold">Autómata Finito → Expresión Regular</h1>
         <p className="text-muted-foreground">
           Convierte un autómata finito a su expresión regular equivalente usando el <strong>método de eliminación de estados</strong>.
-          Este método es más sistemático y eficiente que el método algebraico de Arden.
+          Este método es más sistemático y eficiente que el método algebraico de Arden; también se muestran las tablas R(i,j,k) del método de Kleene.
         </p>
       </div>
 
@@ -274,6 +364,7 @@ export default function AFtoERClientPage() {
               key={`visual-${resetKey}`}
               onChange={handleAutomatonChange}
               initialAutomaton={automaton || undefined}
+              history={editorHistory}
             />
           ) : (
             <TransitionTableEditor
@@ -281,6 +372,7 @@ export default function AFtoERClientPage() {
               alphabet={alphabetMode === 'custom' ? customAlphabet : undefined}
               onChange={handleAutomatonChange}
               initialAutomaton={automaton || undefined}
+              history={editorHistory}
             />
           )}
 
@@ -299,10 +391,47 @@ export default function AFtoERClientPage() {
             {automatonValidation.message}
           </div>
 
+          {/* Orden de eliminación */}
+          <div className="space-y-3 rounded-lg border p-4">
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+              <label className="text-sm font-medium">Orden de eliminación</label>
+              <Select
+                value={heuristic}
+                onValueChange={(v) => handleHeuristicChange(v as EliminationHeuristic)}
+              >
+                <SelectTrigger className="w-full sm:w-80">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {heuristics.map(h => (
+                    <SelectItem key={h} value={h}>
+                      {eliminationHeuristicLabels[h]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {heuristic === 'custom' && automaton && automaton.states.length > 0 && (
+              <EliminationOrderEditor
+                states={automaton.states}
+                order={eliminationOrder}
+                onChange={handleOrderChange}
+              />
+            )}
+
+            {heuristic !== 'custom' && heuristic !== 'definition' && (
+              <p className="text-xs text-muted-foreground">
+                En cada paso se elimina el estado de menor costo según el criterio elegido;
+                los empates se resuelven por orden de definición.
+              </p>
+            )}
+          </div>
+
           {/* Botones de acción */}
           <div className="flex flex-wrap gap-2">
             <Button
-              onClick={handleConvert}
+              onClick={() => handleConvert()}
               disabled={!automatonValidation.valid || isProcessing}
               className="gap-2"
             >
@@ -369,6 +498,24 @@ export default function AFtoERClientPage() {
             </CardContent>
           </Card>
 
+          {/* Comparar con la respuesta del estudiante */}
+          <CollapsibleSection
+            title="Comparar con tu Respuesta"
+            icon={<Scale className="h-5 w-5 text-primary" />}
+            defaultOpen={false}
+          >
+            <EquivalenceChecker
+              key={result.regex}
+              references={[
+                { value: 'state-elimination', label: 'Eliminación de Estados', regex: result.regex },
+                ...(ardenRegex ? [{ value: 'arden', label: 'Arden', regex: ardenRegex }] : []),
+                ...(kleene?.result ? [{ value: 'kleene', label: 'Kleene', regex: kleene.result.regex }] : []),
+              ]}
+              onCheck={checkEquivalence}
+              error={hookError}
+            />
+          </CollapsibleSection>
+
           {/* Ecuaciones generadas (de Arden) */}
           <CollapsibleSection 
             title="Ecuaciones de Arden (Generadas)" 
@@ -386,7 +533,7 @@ export default function AFtoERClientPage() {
                 que es más eficiente y produce expresiones más legibles.
               </p>
               <div className="space-y-2">
-                {result.ardenEquations.map((eq: any, idx: number) => (
+                {result.ardenEquations.map((eq, idx) => (
                   <div 
                     key={idx} 
                     className={cn(
@@ -426,83 +573,95 @@ export default function AFtoERClientPage() {
               <ol className="text-sm text-muted-foreground list-decimal list-inside space-y-1">
                 <li>Agregar nuevo estado inicial I con transición ε al estado inicial original</li>
                 <li>Agregar nuevo estado final F con transiciones ε desde estados finales</li>
-                <li>Eliminar estados usando: R(p→r) = R(p→q)·R(q→q)*·R(q→r) + R(p→r)</li>
+                <li>Eliminar los estados en el orden elegido usando: R(p→r) = R(p→q)·R(q→q)*·R(q→r) + R(p→r)</li>
                 <li>La ER final es R(I→F)</li>
               </ol>
             </div>
-            <div className="space-y-4">
-              {result.steps.map((step, idx) => {
-                // Saltar el paso 0 (ecuaciones de Arden de referencia)
-                if (step.stepNumber === 0) return null;
-                
-                return (
-                  <div 
-                    key={idx} 
-                    className={cn(
-                      "rounded-lg border bg-card overflow-hidden",
-                      step.action === 'final' && "border-primary bg-primary/5"
-                    )}
-                  >
-                    <div className={cn(
-                      "flex items-center gap-2 px-4 py-2 border-b",
-                      step.action === 'eliminate' && "bg-yellow-500/10",
-                      step.action === 'add-states' && "bg-blue-500/10",
-                      step.action === 'final' && "bg-green-500/10"
-                    )}>
-                      <Badge variant="outline" className="font-mono">
-                        Paso {step.stepNumber}
-                      </Badge>
-                      <Badge 
-                        variant="secondary"
-                        className={cn(
-                          step.action === 'eliminate' && "bg-yellow-500/20 text-yellow-700 dark:text-yellow-400",
-                          step.action === 'add-states' && "bg-blue-500/20 text-blue-700 dark:text-blue-400",
-                          step.action === 'final' && "bg-green-500/20 text-green-700 dark:text-green-400"
-                        )}
-                      >
-                        {step.action === 'init' && 'Inicial'}
-                        {step.action === 'add-states' && 'Agregar Estados'}
-                        {step.action === 'eliminate' && 'Eliminar Estado'}
-                        {step.action === 'final' && 'Final'}
-                      </Badge>
-                      <span className="font-medium text-sm">{step.description}</span>
-                    </div>
-                    
-                    <div className="p-4 space-y-3">
-                      {step.explanation && (
-                        <p className="text-sm text-muted-foreground whitespace-pre-line">
-                          {step.explanation}
-                        </p>
-                      )}
-                      
-                      {step.transitions && step.transitions.length > 0 && (
-                        <div>
-                          <p className="text-xs font-medium text-muted-foreground mb-2">Transiciones:</p>
-                          <div className="space-y-1">
-                            {step.transitions
-                              .filter((t: any) => t.regex !== '∅')
-                              .map((t: any, tIdx: number) => (
-                                <div 
-                                  key={tIdx}
-                                  className="rounded-md bg-muted px-3 py-2 font-mono text-sm flex items-center gap-2"
-                                >
-                                  <span className="font-semibold">{t.from}</span>
-                                  <span className="text-muted-foreground">→</span>
-                                  <span className="font-semibold">{t.to}</span>
-                                  <span className="text-muted-foreground">:</span>
-                                  <span className="text-primary">{t.regex}</span>
-                                </div>
-                              ))
-                            }
-                          </div>
-                        </div>
-                      )}
-                    </div>
-                  </div>
-                );
-              })}
-            </div>
+            <StateEliminationSteps
+              key={`${result.regex}-${result.order.join(',')}`}
+              steps={result.steps}
+            />
           </CollapsibleSection>
+
+          {/* Simplificación algebraica de la ER obtenida */}
+          {result.simplification && (
+            <CollapsibleSection
+              title="Simplificación de la ER"
+              icon={<WandSparkles className="h-5 w-5 text-primary" />}
+              defaultOpen={false}
+              badge={
+                <Badge variant="secondary">
+                  {result.simplification.steps.length} reescrituras
+                </Badge>
+              }
+            >
+              <RegexSimplificationSteps
+                simplification={result.simplification}
+                alphabet={automaton?.alphabet}
+              />
+            </CollapsibleSection>
+          )}
+
+          {/* Método de Kleene */}
+          {kleene && automaton && (
+            <CollapsibleSection
+              title="Método de Kleene R(i,j,k)"
+              icon={<Grid3x3 className="h-5 w-5 text-primary" />}
+              defaultOpen={false}
+              badge={kleene.result ? undefined : <Badge variant="outline">Omitido</Badge>}
+            >
+              {kleene.result ? (
+                <KleeneTables
+                  key={kleene.result.regex}
+                  result={kleene.result}
+                  references={[
+                    { label: 'Eliminación de estados', regex: result.regex },
+                    ...(ardenRegex ? [{ label: 'Arden', regex: ardenRegex }] : []),
+                  ]}
+                />
+              ) : (
+                <div className="rounded-md bg-muted/50 border p-3 text-sm text-muted-foreground">
+                  {kleene.error}
+                </div>
+              )}
+            </CollapsibleSection>
+          )}
+
+          {/* Comparación de órdenes y de métodos (se calcula al abrir la sección) */}
+          {automaton && (
+            <CollapsibleSection
+              title="Comparación de Órdenes de Eliminación"
+              icon={<BarChart3 className="h-5 w-5 text-primary" />}
+              defaultOpen={false}
+              onOpenChange={handleComparisonOpen}
+            >
+              {comparisons ? (
+                <EliminationOrderComparisonTable
+                  comparisons={comparisons}
+                  states={automaton.states}
+                  currentOrder={result.order}
+                  methods={ardenRegex && methodLengths ? { ardenRegex, lengths: methodLengths } : undefined}
+                  onApply={handleApplyOrder}
+                />
+              ) : (
+                <Button variant="outline" onClick={() => handleComparisonOpen(true)} className="gap-2">
+                  <BarChart3 className="h-4 w-4" />
+                  Comparar órdenes
+                </Button>
+              )}
+            </CollapsibleSection>
+          )}
+
+          {/* Gramática regular equivalente */}
+          {automaton && (
+            <CollapsibleSection
+              title="Gramática Regular Equivalente"
+              icon={<ScrollText className="h-5 w-5 text-primary" />}
+              defaultOpen={false}
+            >
+              <AutomatonToGrammarView automaton={automaton} />
+            </CollapsibleSection>
+          )}
         </>
       )}
     </div>
@@ -4,7 +4,7 @@ import { Metadata } from 'next';
 
 export const metadata: Metadata = {
   title: 'AF a ER - Analizador Léxico - CompiMC',
-  description: 'Convierte un autómata finito (AFN o AFD) a su expresión regular equivalente mediante el método de eliminación de estados.',
+  description: 'Convierte un autómata finito (AFN o AFD) a su expresión regular equivalente mediante eliminación de estados y lo compara con los métodos de Arden y de Kleene (R(i,j,k)).',
 };
 
 export default function AFtoERPage() {
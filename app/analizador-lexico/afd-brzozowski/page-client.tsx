@@ -0,0 +1,268 @@
+'use client';
+
+/**
+ * Página de construcción de AFD por derivadas de Brzozowski
+ * Muestra el cálculo de cada derivada y compara el AFD con los de
+ * Thompson + subconjuntos y del árbol sintáctico
+ */
+
+import { useState } from 'react';
+import { useQueryStates } from 'nuqs';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import {
+  LanguageInput,
+  TransitionTable,
+  AutomataGraphCytoscape,
+  DerivativeSteps,
+  DFAConstructionComparisonView,
+  MinimizationSteps,
+  ScannerCodePreview,
+  LanguageSummary,
+  DistinguishabilityTableView,
+} from '@/components/analizador-lexico';
+import { SymbolSlider, commonSymbols, CollapsibleSection, SegmentedControl } from '@/components/shared';
+import { compareDFAConstructions } from '@/lib/algorithms/lexical/brzozowski';
+import { useAutomata, useHistory } from '@/hooks';
+import { Loader2, Sigma, GitGraph, Columns3, Minimize2, FileCode, ListOrdered, Grid3X3 } from 'lucide-react';
+import { afdBrzozowskiSearchParams } from '@/lib/nuqs';
+
+const minimizationOptions = [
+  { value: 'none', label: 'Ninguna' },
+  { value: 'moore', label: 'Moore' },
+  { value: 'hopcroft', label: 'Hopcroft' },
+];
+
+type Comparison = ReturnType<typeof compareDFAConstructions>;
+
+export default function AFDBrzozowskiClientPage() {
+  // Usar nuqs para manejar el estado de la URL
+  const [{ regex, languages, minimize }, setParams] = useQueryStates(afdBrzozowskiSearchParams);
+
+  const { automaton, isProcessing, error, buildAutomaton } = useAutomata();
+  const { addEntry } = useHistory();
+
+  const [comparison, setComparison] = useState<{ result: Comparison | null; error: string | null } | null>(null);
+
+  const handleAnalyze = async () => {
+    setComparison(null);
+
+    const result = await buildAutomaton({
+      regex,
+      languages,
+      minimization: minimize === 'none' ? undefined : minimize,
+      algorithm: 'afd-brzozowski',
+    });
+
+    if (result) {
+      // Las tres construcciones del mismo lenguaje, lado a lado
+      try {
+        setComparison({ result: compareDFAConstructions(regex, result.automatonAFD.alphabet), error: null });
+      } catch (err) {
+        setComparison({ result: null, error: err instanceof Error ? err.message : 'Error al comparar las construcciones' });
+      }
+
+      addEntry({
+        type: 'lexical-afd-brzozowski',
+        input: regex,
+        metadata: {
+          success: true,
+          algorithm: 'AFD por Derivadas (Brzozowski)',
+          regex,
+          languages,
+          minimizationMethod: minimize === 'none' ? undefined : minimize,
+        },
+      });
+    }
+  };
+
+  const dfa = automaton?.automatonAFD.brzozowski ? automaton.automatonAFD : null;
+
+  return (
+    <div className="space-y-6">
+      {/* Configuración */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Configuración</CardTitle>
+          <CardDescription>
+            Ingrese una expresión regular para construir el AFD derivándola respecto de cada símbolo
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <LanguageInput
+            languages={languages}
+            onChange={(newLangs) => setParams({ languages: newLangs })}
+            placeholder="Ej: L={a,d}"
+            maxLanguages={5}
+          />
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Expresión Regular</label>
+            <Input
+              value={regex}
+              onChange={(e) => setParams({ regex: e.target.value })}
+              placeholder="Ej: (a|b)*abb"
+              className="font-mono"
+            />
+            <SymbolSlider
+              symbols={commonSymbols.regex}
+              onSelect={(symbol) => setParams({ regex: regex + symbol })}
+              variant="outline"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Minimización posterior</label>
+            <SegmentedControl
+              options={minimizationOptions}
+              value={minimize}
+              onChange={(v) => setParams({ minimize: v as 'none' | 'moore' | 'hopcroft' })}
+            />
+          </div>
+
+          <Button
+            onClick={handleAnalyze}
+            disabled={!regex || isProcessing}
+            className="w-full sm:w-auto"
+          >
+            {isProcessing ? (
+              <>
+                <Loader2 className="mr-2 animate-spin" />
+                Construyendo AFD...
+              </>
+            ) : (
+              'Construir AFD (Derivadas de Brzozowski)'
+            )}
+          </Button>
+
+          {error && (
+            <div className="rounded-md bg-destructive/10 border border-destructive/20 p-3 text-sm text-destructive">
+              {error}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Resultados */}
+      {automaton && dfa && (
+        <div className="space-y-6">
+          {/* Cálculo de las derivadas */}
+          <CollapsibleSection
+            title="Cálculo de Derivadas"
+            icon={<Sigma className="h-5 w-5 text-amber-500" />}
+            defaultOpen
+          >
+            <div className="space-y-4">
+              <div className="rounded-lg border border-amber-200 dark:border-amber-800 bg-amber-50/50 dark:bg-amber-950/20 p-4">
+                <h4 className="text-sm font-semibold text-amber-700 dark:text-amber-400 mb-2">
+                  Método de las Derivadas de Brzozowski
+                </h4>
+                <p className="text-sm text-muted-foreground">
+                  La derivada <span className="font-mono">∂a(r)</span> describe lo que queda por leer de las cadenas
+                  de <span className="font-mono">r</span> que empiezan por <span className="font-mono">a</span>.
+                  El estado inicial es la propia expresión; cada derivada nueva es un estado, y es final si
+                  es anulable. Antes de compararlas, las derivadas se normalizan por similitud (asociatividad,
+                  conmutatividad e idempotencia de la unión), lo que garantiza que haya un número finito.
+                </p>
+              </div>
+              <DerivativeSteps key={regex} automaton={dfa} />
+            </div>
+          </CollapsibleSection>
+
+          {/* AFD resultante */}
+          <CollapsibleSection
+            title="AFD por Derivadas"
+            icon={<GitGraph className="h-5 w-5 text-green-500" />}
+            defaultOpen
+          >
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+                <div className="bg-muted/50 rounded-lg p-3">
+                  <span className="text-muted-foreground block">Estados</span>
+                  <span className="font-medium">{dfa.states.length}</span>
+                </div>
+                <div className="bg-muted/50 rounded-lg p-3">
+                  <span className="text-muted-foreground block">Transiciones</span>
+                  <span className="font-medium">{dfa.transitions.length}</span>
+                </div>
+                <div className="bg-muted/50 rounded-lg p-3">
+                  <span className="text-muted-foreground block">Alfabeto</span>
+                  <span className="font-medium font-mono">{'{' + dfa.alphabet.join(', ') + '}'}</span>
+                </div>
+              </div>
+
+              <CollapsibleSection title="Tabla de Transiciones (Estado × Símbolo)" defaultOpen>
+                <TransitionTable automaton={dfa} />
+              </CollapsibleSection>
+            </div>
+          </CollapsibleSection>
+
+          {/* Comparación de las tres construcciones */}
+          {comparison && (
+            <CollapsibleSection
+              title="Comparar las Tres Construcciones"
+              icon={<Columns3 className="h-5 w-5 text-primary" />}
+              defaultOpen
+            >
+              {comparison.result ? (
+                <DFAConstructionComparisonView
+                  constructions={comparison.result.constructions}
+                  minimalStates={comparison.result.minimalStates}
+                />
+              ) : (
+                <div className="rounded-md bg-destructive/10 border border-destructive/20 p-3 text-sm text-destructive">
+                  {comparison.error}
+                </div>
+              )}
+            </CollapsibleSection>
+          )}
+
+          {/* Minimización posterior (Moore / Hopcroft) */}
+          {automaton.minimization && (
+            <CollapsibleSection
+              title={`Minimización del AFD (${automaton.minimization.method === 'moore' ? 'Moore' : 'Hopcroft'})`}
+              icon={<Minimize2 className="h-5 w-5 text-emerald-500" />}
+              defaultOpen
+            >
+              <div className="space-y-4">
+                <MinimizationSteps result={automaton.minimization} />
+
+                <CollapsibleSection title="Grafo del AFD Mínimo" defaultOpen>
+                  <AutomataGraphCytoscape automaton={automaton.minimization.automaton} />
+                </CollapsibleSection>
+              </div>
+            </CollapsibleSection>
+          )}
+
+          {/* Tabla de distinguibilidad (Myhill–Nerode) */}
+          <CollapsibleSection
+            title="Tabla de Distinguibilidad (Myhill–Nerode)"
+            icon={<Grid3X3 className="h-5 w-5 text-teal-500" />}
+            defaultOpen={false}
+          >
+            <DistinguishabilityTableView automaton={automaton.minimization?.original ?? dfa} />
+          </CollapsibleSection>
+
+          {/* Resumen del lenguaje reconocido */}
+          <CollapsibleSection
+            title="Resumen del Lenguaje"
+            icon={<ListOrdered className="h-5 w-5 text-violet-500" />}
+            defaultOpen={false}
+          >
+            <LanguageSummary automaton={automaton.minimization?.automaton ?? dfa} />
+          </CollapsibleSection>
+
+          {/* Generación de código del escáner */}
+          <CollapsibleSection
+            title={automaton.minimization ? 'Generar Escáner del AFD Mínimo' : 'Generar Escáner del AFD por Derivadas'}
+            icon={<FileCode className="h-5 w-5 text-sky-500" />}
+            defaultOpen={false}
+          >
+            <ScannerCodePreview automaton={automaton.minimization?.automaton ?? dfa} />
+          </CollapsibleSection>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { Suspense } from 'react';
+import { HeroSection } from '@/components/layout';
+import AFDBrzozowskiClientPage from './page-client';
+import { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: 'AFD por Derivadas - Analizador Léxico - CompiMC',
+  description: 'Construir un Autómata Finito Determinista con derivadas de Brzozowski, donde cada estado es la derivada de la expresión regular, y compararlo con Thompson + subconjuntos y el árbol sintáctico.',
+};
+
+export default function AFDBrzozowskiPage() {
+  return (
+    <>
+      <HeroSection
+        title="Construir AFD por derivadas"
+        description="Construye el AFD derivando la expresión regular símbolo a símbolo: cada estado es una derivada ∂a(r), normalizada por similitud, y es final si es anulable. Compara el resultado con los AFD de Thompson + subconjuntos y del árbol sintáctico."
+      />
+
+      <section className="container mx-auto px-4 py-8 sm:px-6 lg:px-8">
+        <Suspense fallback={<div className="flex items-center justify-center p-8">Cargando...</div>}>
+          <AFDBrzozowskiClientPage />
+        </Suspense>
+      </section>
+    </>
+  );
+}
@@ -9,16 +9,43 @@ import {
   LanguageInput, 
   AutomataGraphCytoscape, 
   TransitionTable,
-  SubsetStatesTable 
+  SubsetStatesTable,
+  MinimizationSteps,
+  ScannerCodePreview,
+  LanguageSummary,
+  DistinguishabilityTableView,
+  ThompsonSteps,
+  EpsilonEliminationSteps,
 } from '@/components/analizador-lexico';
-import { SymbolSlider, commonSymbols, CollapsibleSection } from '@/components/shared';
+import { SymbolSlider, commonSymbols, CollapsibleSection, SegmentedControl } from '@/components/shared';
 import { useAutomata, useHistory } from '@/hooks';
-import { Loader2, GitBranch, Layers, Minimize2 } from 'lucide-react';
+import { Loader2, GitBranch, Layers, Minimize2, FileCode, ListOrdered, Grid3X3, Eraser } from 'lucide-react';
 import { afdFullSearchParams } from '@/lib/nuqs';
+import { removeEpsilonTransitions } from '@/lib/algorithms/lexical/epsilon-elimination';
+import { afnToAfd } from '@/lib/algorithms/lexical/afd-construction';
+import { Automaton } from '@/lib/types/automata';
+
+const minimizationOptions = [
+  { value: 'none', label: 'Ninguna' },
+  { value: 'moore', label: 'Moore' },
+  { value: 'hopcroft', label: 'Hopcroft' },
+];
+
+const stagesOptions = [
+  { value: 'direct', label: 'Directo (AFN-ε → AFD)' },
+  { value: 'three-stage', label: 'Tres etapas (AFN-ε → AFN → AFD)' },
+];
+
+/**
+ * Cantidad de transiciones ε de un autómata
+ */
+function countEpsilon(automaton: Automaton): number {
+  return automaton.transitions.filter(t => t.symbol === 'ε').length;
+}
 
 export default function AFDFullClientPage() {
   // Usar nuqs para manejar el estado de la URL
-  const [{ regex, languages }, setParams] = useQueryStates(afdFullSearchParams);
+  const [{ regex, languages, minimize, stages }, setParams] = useQueryStates(afdFullSearchParams);
   
   const { automaton, isProcessing, error, buildAutomaton } = useAutomata();
   const { addEntry } = useHistory();
@@ -43,11 +70,23 @@ export default function AFDFullClientPage() {
     return removed;
   }, [automaton]);
 
+  // Modo en tres etapas: se eliminan las transiciones ε antes de aplicar subconjuntos
+  const threeStage = useMemo(() => {
+    if (stages !== 'three-stage' || !automaton?.automatonAFN) return null;
+    try {
+      const elimination = removeEpsilonTransitions(automaton.automatonAFN);
+      return { elimination, dfa: afnToAfd(elimination.automaton), error: null };
+    } catch (err) {
+      return { elimination: null, dfa: null, error: err instanceof Error ? err.message : 'Error al eliminar las transiciones ε' };
+    }
+  }, [stages, automaton]);
+
   const handleAnalyze = async () => {
     // Construir AFD Full mediante algoritmo de subconjuntos
     const result = await buildAutomaton({
       regex,
       languages,
+      minimization: minimize === 'none' ? undefined : minimize,
       algorithm: 'afd-full',
     });
 
@@ -60,6 +99,7 @@ export default function AFDFullClientPage() {
           algorithm: 'AFD Full (Subconjuntos)',
           regex,
           languages,
+          minimizationMethod: minimize === 'none' ? undefined : minimize,
         },
       });
     }
@@ -98,6 +138,24 @@ export default function AFDFullClientPage() {
             />
           </div>
 
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Minimización posterior</label>
+            <SegmentedControl
+              options={minimizationOptions}
+              value={minimize}
+              onChange={(v) => setParams({ minimize: v as 'none' | 'moore' | 'hopcroft' })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Etapas del método de subconjuntos</label>
+            <SegmentedControl
+              options={stagesOptions}
+              value={stages}
+              onChange={(v) => setParams({ stages: v as 'direct' | 'three-stage' })}
+            />
+          </div>
+
           <Button
             onClick={handleAnalyze}
             disabled={!regex || isProcessing}
@@ -168,13 +226,105 @@ export default function AFDFullClientPage() {
               <CollapsibleSection title="Tabla de Transiciones del AFN" defaultOpen={false}>
                 <TransitionTable automaton={automaton.automatonAFN} />
               </CollapsibleSection>
+
+              {/* Construcción nodo a nodo */}
+              {automaton.automatonAFN.thompson && (
+                <CollapsibleSection title="Construcción de Thompson Paso a Paso" defaultOpen={false}>
+                  <ThompsonSteps construction={automaton.automatonAFN.thompson} />
+                </CollapsibleSection>
+              )}
             </div>
           </CollapsibleSection>
 
+          {/* ============================================= */}
+          {/* SECCIÓN 2 (tres etapas): AFN-ε → AFN → AFD */}
+          {/* ============================================= */}
+          {threeStage?.error && (
+            <div className="rounded-md bg-destructive/10 border border-destructive/20 p-3 text-sm text-destructive">
+              {threeStage.error}
+            </div>
+          )}
+
+          {threeStage?.elimination && threeStage.dfa && (
+            <>
+              <CollapsibleSection
+                title="Eliminación de Transiciones ε (AFN-ε → AFN)"
+                icon={<Eraser className="h-5 w-5 text-purple-500" />}
+                defaultOpen
+              >
+                <div className="space-y-4">
+                  <EpsilonEliminationSteps source={automaton.automatonAFN} elimination={threeStage.elimination} />
+
+                  <CollapsibleSection title="Tabla de Transiciones del AFN (sin ε)" defaultOpen={false}>
+                    <TransitionTable automaton={threeStage.elimination.automaton} />
+                  </CollapsibleSection>
+                </div>
+              </CollapsibleSection>
+
+              <CollapsibleSection
+                title="Método de Subconjuntos sobre el AFN (AFD no óptimo)"
+                icon={<Layers className="h-5 w-5 text-orange-500" />}
+                defaultOpen
+              >
+                <div className="space-y-4">
+                  {/* Comparación de las tres etapas */}
+                  <div className="rounded-lg border border-orange-200 dark:border-orange-800 bg-orange-50/50 dark:bg-orange-950/20 p-4">
+                    <h4 className="text-sm font-semibold text-orange-700 dark:text-orange-400 mb-3">
+                      Comparación de Etapas
+                    </h4>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                      {[
+                        { label: 'AFN-ε (Thompson)', automaton: automaton.automatonAFN },
+                        { label: 'AFN (sin ε)', automaton: threeStage.elimination.automaton },
+                        { label: 'AFD (subconjuntos)', automaton: threeStage.dfa },
+                      ].map(stage => (
+                        <div key={stage.label} className="bg-white/50 dark:bg-black/20 rounded-lg p-3 space-y-1">
+                          <span className="font-medium block">{stage.label}</span>
+                          <span className="text-muted-foreground block">
+                            Estados: <span className="font-medium text-foreground">{stage.automaton.states.length}</span>
+                          </span>
+                          <span className="text-muted-foreground block">
+                            Transiciones: <span className="font-medium text-foreground">{stage.automaton.transitions.length}</span>
+                            {countEpsilon(stage.automaton) > 0 && ` (${countEpsilon(stage.automaton)} ε)`}
+                          </span>
+                          <span className="text-muted-foreground block">
+                            Finales: <span className="font-medium text-foreground">{stage.automaton.states.filter(s => s.isFinal).length}</span>
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                    {automaton.automatonAFDNonOptimized && (
+                      <p className="text-xs text-muted-foreground mt-3">
+                        Aplicando subconjuntos directamente sobre el AFN-ε se obtienen{' '}
+                        {automaton.automatonAFDNonOptimized.states.length} estados.
+                      </p>
+                    )}
+                  </div>
+
+                  <CollapsibleSection title="Grafo del AFD (no óptimo)" defaultOpen>
+                    <AutomataGraphCytoscape automaton={threeStage.dfa} />
+                  </CollapsibleSection>
+
+                  <CollapsibleSection title="Tabla de Transiciones (Estado × Símbolo)" defaultOpen>
+                    <TransitionTable automaton={threeStage.dfa} />
+                  </CollapsibleSection>
+
+                  <CollapsibleSection title="Tabla de Estados con Elementos del AFN" defaultOpen>
+                    <SubsetStatesTable
+                      automaton={threeStage.dfa}
+                      afn={threeStage.elimination.automaton}
+                      title="Estados del AFD y sus Elementos del AFN (sin ε)"
+                    />
+                  </CollapsibleSection>
+                </div>
+              </CollapsibleSection>
+            </>
+          )}
+
           {/* ============================================= */}
           {/* SECCIÓN 2: Método de Subconjuntos (AFD no óptimo) */}
           {/* ============================================= */}
-          {automaton.automatonAFDNonOptimized && (
+          {stages === 'direct' && automaton.automatonAFDNonOptimized && (
             <CollapsibleSection
               title="Método de Subconjuntos (AFD no óptimo)"
               icon={<Layers className="h-5 w-5 text-orange-500" />}
@@ -218,6 +368,7 @@ export default function AFDFullClientPage() {
                   <SubsetStatesTable 
                     automaton={automaton.automatonAFDNonOptimized}
                     highlightedStates={unifiedStates}
+                    afn={automaton.automatonAFN}
                     title="Estados del AFD y sus Elementos del AFN"
                   />
                 </CollapsibleSection>
@@ -321,6 +472,61 @@ export default function AFDFullClientPage() {
             </div>
           </CollapsibleSection>
 
+          {/* ============================================= */}
+          {/* Minimización posterior (Moore / Hopcroft) */}
+          {/* ============================================= */}
+          {automaton.minimization && (
+            <CollapsibleSection
+              title={`Minimización del AFD (${automaton.minimization.method === 'moore' ? 'Moore' : 'Hopcroft'})`}
+              icon={<Minimize2 className="h-5 w-5 text-emerald-500" />}
+              defaultOpen
+            >
+              <div className="space-y-4">
+                <MinimizationSteps result={automaton.minimization} />
+
+                <CollapsibleSection title="Grafo del AFD Mínimo" defaultOpen>
+                  <AutomataGraphCytoscape automaton={automaton.minimization.automaton} />
+                </CollapsibleSection>
+
+                <CollapsibleSection title="Tabla de Transiciones del AFD Mínimo" defaultOpen={false}>
+                  <TransitionTable automaton={automaton.minimization.automaton} />
+                </CollapsibleSection>
+              </div>
+            </CollapsibleSection>
+          )}
+
+          {/* ============================================= */}
+          {/* Tabla de distinguibilidad (Myhill–Nerode) */}
+          {/* ============================================= */}
+          <CollapsibleSection
+            title="Tabla de Distinguibilidad (Myhill–Nerode)"
+            icon={<Grid3X3 className="h-5 w-5 text-teal-500" />}
+            defaultOpen={false}
+          >
+            <DistinguishabilityTableView automaton={automaton.minimization?.original ?? automaton.automatonAFD} />
+          </CollapsibleSection>
+
+          {/* ============================================= */}
+          {/* Resumen del lenguaje reconocido */}
+          {/* ============================================= */}
+          <CollapsibleSection
+            title="Resumen del Lenguaje"
+            icon={<ListOrdered className="h-5 w-5 text-violet-500" />}
+            defaultOpen={false}
+          >
+            <LanguageSummary automaton={automaton.minimization?.automaton ?? automaton.automatonAFD} />
+          </CollapsibleSection>
+
+          {/* ============================================= */}
+          {/* Generación de código del escáner */}
+          {/* ============================================= */}
+          <CollapsibleSection
+            title={automaton.minimization ? 'Generar Escáner del AFD Mínimo' : 'Generar Escáner del AFD Óptimo'}
+            icon={<FileCode className="h-5 w-5 text-sky-500" />}
+            defaultOpen={false}
+          >
+            <ScannerCodePreview automaton={automaton.minimization?.automaton ?? automaton.automatonAFD} />
+          </CollapsibleSection>
         </div>
       )}
     </div>
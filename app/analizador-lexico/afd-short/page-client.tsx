@@ -9,16 +9,26 @@ import {
   SyntaxTreeCytoscape, 
   FollowposTable,
   TransitionTable,
-  AutomataGraphCytoscape 
+  AutomataGraphCytoscape,
+  MinimizationSteps,
+  ScannerCodePreview,
+  LanguageSummary,
+  DistinguishabilityTableView,
 } from '@/components/analizador-lexico';
-import { SymbolSlider, commonSymbols, CollapsibleSection } from '@/components/shared';
+import { SymbolSlider, commonSymbols, CollapsibleSection, SegmentedControl } from '@/components/shared';
 import { useAutomata, useHistory } from '@/hooks';
-import { Loader2, TreeDeciduous, Table2, GitGraph } from 'lucide-react';
+import { Loader2, TreeDeciduous, Table2, GitGraph, Minimize2, FileCode, ListOrdered, Grid3X3 } from 'lucide-react';
 import { afdShortSearchParams } from '@/lib/nuqs';
 
+const minimizationOptions = [
+  { value: 'none', label: 'Ninguna' },
+  { value: 'moore', label: 'Moore' },
+  { value: 'hopcroft', label: 'Hopcroft' },
+];
+
 export default function AFDShortClientPage() {
   // Usar nuqs para manejar el estado de la URL
-  const [{ regex, languages }, setParams] = useQueryStates(afdShortSearchParams);
+  const [{ regex, languages, minimize }, setParams] = useQueryStates(afdShortSearchParams);
   
   const { automaton, isProcessing, error, buildAutomaton } = useAutomata();
   const { addEntry } = useHistory();
@@ -28,6 +38,7 @@ export default function AFDShortClientPage() {
     const result = await buildAutomaton({
       regex,
       languages,
+      minimization: minimize === 'none' ? undefined : minimize,
       algorithm: 'afd-short',
     });
 
@@ -40,6 +51,7 @@ export default function AFDShortClientPage() {
           algorithm: 'AFD Óptimo (Árbol Sintáctico)',
           regex,
           languages,
+          minimizationMethod: minimize === 'none' ? undefined : minimize,
         },
       });
     }
@@ -78,6 +90,15 @@ export default function AFDShortClientPage() {
             />
           </div>
 
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Minimización posterior</label>
+            <SegmentedControl
+              options={minimizationOptions}
+              value={minimize}
+              onChange={(v) => setParams({ minimize: v as 'none' | 'moore' | 'hopcroft' })}
+            />
+          </div>
+
           <Button
             onClick={handleAnalyze}
             disabled={!regex || isProcessing}
@@ -214,6 +235,61 @@ export default function AFDShortClientPage() {
             </div>
           </CollapsibleSection>
 
+          {/* ============================================= */}
+          {/* Minimización posterior (Moore / Hopcroft) */}
+          {/* ============================================= */}
+          {automaton.minimization && (
+            <CollapsibleSection
+              title={`Minimización del AFD (${automaton.minimization.method === 'moore' ? 'Moore' : 'Hopcroft'})`}
+              icon={<Minimize2 className="h-5 w-5 text-emerald-500" />}
+              defaultOpen
+            >
+              <div className="space-y-4">
+                <MinimizationSteps result={automaton.minimization} />
+
+                <CollapsibleSection title="Grafo del AFD Mínimo" defaultOpen>
+                  <AutomataGraphCytoscape automaton={automaton.minimization.automaton} />
+                </CollapsibleSection>
+
+                <CollapsibleSection title="Tabla de Transiciones del AFD Mínimo" defaultOpen={false}>
+                  <TransitionTable automaton={automaton.minimization.automaton} />
+                </CollapsibleSection>
+              </div>
+            </CollapsibleSection>
+          )}
+
+          {/* ============================================= */}
+          {/* Tabla de distinguibilidad (Myhill–Nerode) */}
+          {/* ============================================= */}
+          <CollapsibleSection
+            title="Tabla de Distinguibilidad (Myhill–Nerode)"
+            icon={<Grid3X3 className="h-5 w-5 text-teal-500" />}
+            defaultOpen={false}
+          >
+            <DistinguishabilityTableView automaton={automaton.minimization?.original ?? automaton.automatonAFD} />
+          </CollapsibleSection>
+
+          {/* ============================================= */}
+          {/* Resumen del lenguaje reconocido */}
+          {/* ============================================= */}
+          <CollapsibleSection
+            title="Resumen del Lenguaje"
+            icon={<ListOrdered className="h-5 w-5 text-violet-500" />}
+            defaultOpen={false}
+          >
+            <LanguageSummary automaton={automaton.minimization?.automaton ?? automaton.automatonAFD} />
+          </CollapsibleSection>
+
+          {/* ============================================= */}
+          {/* Generación de código del escáner */}
+          {/* ============================================= */}
+          <CollapsibleSection
+            title={automaton.minimization ? 'Generar Escáner del AFD Mínimo' : 'Generar Escáner del AFD Óptimo'}
+            icon={<FileCode className="h-5 w-5 text-sky-500" />}
+            defaultOpen={false}
+          >
+            <ScannerCodePreview automaton={automaton.minimization?.automaton ?? automaton.automatonAFD} />
+          </CollapsibleSection>
         </div>
       )}
     </div>
@@ -0,0 +1,294 @@
+'use client';
+
+/**
+ * Página de minimización de AFD
+ * El autómata se obtiene de una expresión regular (AFN de Thompson) o se define
+ * con el editor visual / de tabla; si es un AFN se determiniza por subconjuntos
+ * (sin optimizar) antes de minimizarlo
+ */
+
+import { useState, useCallback, useMemo } from 'react';
+import { useQueryStates } from 'nuqs';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import {
+  AutomataEditor,
+  AutomataHelpModal,
+  TransitionTableEditor,
+  AutomataGraphCytoscape,
+  TransitionTable,
+  MinimizationSteps,
+  ScannerCodePreview,
+  LanguageSummary,
+  DistinguishabilityTableView,
+} from '@/components/analizador-lexico';
+import { SymbolSlider, commonSymbols, CollapsibleSection, SegmentedControl } from '@/components/shared';
+import { createExampleAutomaton } from '@/lib/algorithms/lexical/af-to-er';
+import { useAutomata, useAutomatonHistory, useHistory } from '@/hooks';
+import { FileCode, Grid3X3, ListOrdered, Loader2, Minimize2, Play, RotateCcw, Sparkles, Workflow } from 'lucide-react';
+import type { Automaton, MinimizationResult } from '@/lib/types';
+import { minimizarSearchParams } from '@/lib/nuqs';
+
+const sourceOptions = [
+  { value: 'regex', label: 'Expresión Regular' },
+  { value: 'visual', label: 'Modo Visual' },
+  { value: 'table', label: 'Modo Tabla' },
+];
+
+const methodOptions = [
+  { value: 'hopcroft', label: 'Hopcroft' },
+  { value: 'moore', label: 'Moore' },
+];
+
+export default function MinimizarClientPage() {
+  // Usar nuqs para manejar el estado de la URL
+  const [{ source, method, regex, automaton: automatonJson }, setParams] = useQueryStates(minimizarSearchParams);
+
+  const { isProcessing, error, minimizeAutomaton, clearError } = useAutomata();
+  const { addEntry } = useHistory();
+  const editorHistory = useAutomatonHistory(); // Compartido por el editor visual y la tabla
+
+  const [result, setResult] = useState<MinimizationResult | null>(null);
+  const [resetKey, setResetKey] = useState(0);
+
+  // Parsear automaton desde JSON
+  const editorAutomaton = useMemo(() => {
+    if (!automatonJson) return null;
+    try {
+      return JSON.parse(automatonJson) as Automaton;
+    } catch {
+      return null;
+    }
+  }, [automatonJson]);
+
+  const handleAutomatonChange = useCallback((newAutomaton: Automaton) => {
+    setParams({ automaton: JSON.stringify(newAutomaton) });
+    setResult(null);
+  }, [setParams]);
+
+  const loadExample = useCallback(() => {
+    setParams({ automaton: JSON.stringify(createExampleAutomaton()) });
+    setResult(null);
+    setResetKey(prev => prev + 1);
+  }, [setParams]);
+
+  const handleReset = useCallback(() => {
+    setParams({ automaton: null, regex: '' });
+    setResult(null);
+    setResetKey(prev => prev + 1);
+    clearError();
+  }, [setParams, clearError]);
+
+  const handleMinimize = () => {
+    const input = source === 'regex' ? regex : editorAutomaton;
+    if (!input) return;
+
+    const minimization = minimizeAutomaton(input, method);
+    setResult(minimization);
+
+    if (minimization) {
+      const inputAutomaton = minimization.nfa ?? minimization.original;
+      addEntry({
+        type: 'lexical-minimize',
+        input: source === 'regex'
+          ? regex
+          : `${minimization.nfa ? 'AFN' : 'AFD'} con ${inputAutomaton.states.length} estados`,
+        metadata: {
+          success: true,
+          algorithm: method === 'moore' ? 'Moore' : 'Hopcroft',
+          description: `${minimization.original.states.length} → ${minimization.automaton.states.length} estados`,
+          automatonSource: source,
+          minimizationMethod: method,
+          regex: source === 'regex' ? regex : undefined,
+          automatonJson: source === 'regex' ? undefined : JSON.stringify(inputAutomaton),
+        },
+      });
+    }
+  };
+
+  const canMinimize = source === 'regex'
+    ? regex.trim() !== ''
+    : !!editorAutomaton && editorAutomaton.states.length > 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Configuración */}
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <div>
+              <CardTitle>Configuración</CardTitle>
+              <CardDescription>
+                {source === 'regex'
+                  ? 'Se construye el AFN de Thompson, se determiniza por subconjuntos (sin optimizar) y luego se minimiza'
+                  : 'Define el AFD a minimizar (un AFN se determiniza antes por subconjuntos)'}
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <SegmentedControl
+                options={sourceOptions}
+                value={source}
+                onChange={(v) => {
+                  setParams({ source: v as 'regex' | 'visual' | 'table' });
+                  setResult(null);
+                }}
+              />
+              {source !== 'regex' && <AutomataHelpModal mode={source} />}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {source === 'regex' ? (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Expresión Regular</label>
+              <Input
+                value={regex}
+                onChange={(e) => setParams({ regex: e.target.value })}
+                placeholder="Ej: (a|b)*abb"
+                className="font-mono"
+              />
+              <SymbolSlider
+                symbols={commonSymbols.regex}
+                onSelect={(symbol) => setParams({ regex: regex + symbol })}
+                variant="outline"
+              />
+            </div>
+          ) : source === 'visual' ? (
+            <AutomataEditor
+              key={`visual-${resetKey}`}
+              onChange={handleAutomatonChange}
+              initialAutomaton={editorAutomaton || undefined}
+              history={editorHistory}
+            />
+          ) : (
+            <TransitionTableEditor
+              key={`table-${resetKey}`}
+              onChange={handleAutomatonChange}
+              initialAutomaton={editorAutomaton || undefined}
+              history={editorHistory}
+            />
+          )}
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Algoritmo</label>
+            <SegmentedControl
+              options={methodOptions}
+              value={method}
+              onChange={(v) => {
+                setParams({ method: v as 'moore' | 'hopcroft' });
+                setResult(null);
+              }}
+            />
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={handleMinimize} disabled={!canMinimize || isProcessing} className="gap-2">
+              {isProcessing ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Minimizando...
+                </>
+              ) : (
+                <>
+                  <Play className="h-4 w-4" />
+                  Minimizar AFD
+                </>
+              )}
+            </Button>
+
+            {source !== 'regex' && (
+              <Button variant="outline" onClick={loadExample} className="gap-2">
+                <Sparkles className="h-4 w-4" />
+                Cargar Ejemplo
+              </Button>
+            )}
+
+            <Button variant="ghost" onClick={handleReset} className="gap-2">
+              <RotateCcw className="h-4 w-4" />
+              Reiniciar
+            </Button>
+          </div>
+
+          {error && (
+            <div className="rounded-md bg-destructive/10 border border-destructive/20 p-3 text-sm text-destructive">
+              {error}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Resultados */}
+      {result && (
+        <div className="space-y-6">
+          {result.nfa && (
+            <CollapsibleSection
+              title={source === 'regex' ? 'AFN de Thompson' : 'AFN de Entrada'}
+              icon={<Workflow className="h-5 w-5 text-purple-500" />}
+              defaultOpen={false}
+            >
+              <div className="space-y-4">
+                <AutomataGraphCytoscape automaton={result.nfa} />
+                <TransitionTable automaton={result.nfa} />
+              </div>
+            </CollapsibleSection>
+          )}
+
+          <CollapsibleSection
+            title={result.nfa ? 'AFD por Subconjuntos' : 'AFD Original'}
+            icon={<Workflow className="h-5 w-5 text-orange-500" />}
+            defaultOpen={source === 'regex' || !!result.nfa}
+          >
+            <div className="space-y-4">
+              <AutomataGraphCytoscape automaton={result.original} />
+              <TransitionTable automaton={result.original} />
+            </div>
+          </CollapsibleSection>
+
+          <CollapsibleSection
+            title={`Refinamiento de Particiones (${method === 'moore' ? 'Moore' : 'Hopcroft'})`}
+            icon={<Minimize2 className="h-5 w-5 text-yellow-500" />}
+            defaultOpen
+          >
+            <MinimizationSteps result={result} />
+          </CollapsibleSection>
+
+          <CollapsibleSection
+            title="Tabla de Distinguibilidad (Myhill–Nerode)"
+            icon={<Grid3X3 className="h-5 w-5 text-teal-500" />}
+            defaultOpen={false}
+          >
+            <DistinguishabilityTableView automaton={result.original} />
+          </CollapsibleSection>
+
+          <CollapsibleSection
+            title="AFD Mínimo"
+            icon={<Minimize2 className="h-5 w-5 text-green-500" />}
+            defaultOpen
+          >
+            <div className="space-y-4">
+              <AutomataGraphCytoscape automaton={result.automaton} />
+              <TransitionTable automaton={result.automaton} />
+            </div>
+          </CollapsibleSection>
+
+          <CollapsibleSection
+            title="Resumen del Lenguaje"
+            icon={<ListOrdered className="h-5 w-5 text-violet-500" />}
+            defaultOpen={false}
+          >
+            <LanguageSummary automaton={result.automaton} />
+          </CollapsibleSection>
+
+          <CollapsibleSection
+            title="Generar Escáner del AFD Mínimo"
+            icon={<FileCode className="h-5 w-5 text-sky-500" />}
+            defaultOpen={false}
+          >
+            <ScannerCodePreview automaton={result.automaton} />
+          </CollapsibleSection>
+        </div>
+      )}
+    </div>
+  );
+}
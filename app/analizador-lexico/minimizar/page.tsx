@@ -0,0 +1,26 @@
+import { Suspense } from 'react';
+import { HeroSection } from '@/components/layout';
+import { Metadata } from 'next';
+import MinimizarClientPage from './page-client';
+
+export const metadata: Metadata = {
+  title: 'Minimizar AFD - Analizador Léxico - CompiMC',
+  description: 'Minimizar un Autómata Finito Determinista con los algoritmos de Moore y Hopcroft mostrando el refinamiento de particiones.',
+};
+
+export default function MinimizarPage() {
+  return (
+    <>
+      <HeroSection
+        title="Minimizar AFD"
+        description="Obtiene el AFD mínimo equivalente eliminando estados inalcanzables y refinando la partición de estados finales y no finales con los algoritmos de Moore o Hopcroft. Muestra cada ronda con la partición resultante y el símbolo que separa a los estados."
+      />
+
+      <section className="container mx-auto px-4 py-8 sm:px-6 lg:px-8">
+        <Suspense fallback={<div className="flex items-center justify-center p-8">Cargando...</div>}>
+          <MinimizarClientPage />
+        </Suspense>
+      </section>
+    </>
+  );
+}
@@ -0,0 +1,305 @@
+'use client';
+
+/**
+ * Página de operaciones con autómatas
+ * Combina uno o dos autómatas (desde ER, editor visual o tabla) con
+ * las operaciones de clausura de los lenguajes regulares
+ */
+
+import { useState, useCallback, useMemo } from 'react';
+import { useQueryStates } from 'nuqs';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AutomatonSourceInput,
+  AutomataGraphCytoscape,
+  TransitionTable,
+  LanguageInput,
+  LanguageSummary,
+} from '@/components/analizador-lexico';
+import { CollapsibleSection } from '@/components/shared';
+import { automatonOperationLabels, isBinaryOperation } from '@/lib/algorithms/lexical/automata-operations';
+import { useAutomata, useHistory } from '@/hooks';
+import { Combine, ListOrdered, Play, RotateCcw, Workflow } from 'lucide-react';
+import type { Automaton, AutomatonOperation } from '@/lib/types';
+import { operacionesSearchParams } from '@/lib/nuqs';
+
+const operations = Object.keys(automatonOperationLabels) as AutomatonOperation[];
+
+/**
+ * Parsea un autómata serializado en la URL
+ */
+function parseAutomaton(json: string | null): Automaton | null {
+  if (!json) return null;
+  try {
+    return JSON.parse(json) as Automaton;
+  } catch {
+    return null;
+  }
+}
+
+export default function OperacionesClientPage() {
+  // Usar nuqs para manejar el estado de la URL
+  const [params, setParams] = useQueryStates(operacionesSearchParams);
+  const { operation, sourceA, sourceB, regexA, regexB, alphabet, minimize } = params;
+
+  const { error, combineAutomata, minimizeAutomaton, clearError } = useAutomata();
+  const { addEntry } = useHistory();
+
+  const [result, setResult] = useState<Automaton | null>(null);
+  const [resetKey, setResetKey] = useState(0);
+
+  const automatonA = useMemo(() => parseAutomaton(params.automatonA), [params.automatonA]);
+  const automatonB = useMemo(() => parseAutomaton(params.automatonB), [params.automatonB]);
+
+  const binary = isBinaryOperation(operation);
+
+  const operandA = sourceA === 'regex' ? regexA : automatonA;
+  const operandB = sourceB === 'regex' ? regexB : automatonB;
+
+  const isReady = (operand: string | Automaton | null) =>
+    typeof operand === 'string' ? operand.trim() !== '' : !!operand && operand.states.length > 0;
+
+  const canCombine = isReady(operandA) && (!binary || isReady(operandB));
+
+  const handleReset = useCallback(() => {
+    setParams({
+      regexA: '',
+      regexB: '',
+      automatonA: null,
+      automatonB: null,
+      alphabet: [],
+    });
+    setResult(null);
+    setResetKey(prev => prev + 1);
+    clearError();
+  }, [setParams, clearError]);
+
+  const handleCombine = () => {
+    if (!operandA || (binary && !operandB)) return;
+
+    let combined = combineAutomata(
+      operation,
+      operandA,
+      binary ? operandB ?? undefined : undefined,
+      alphabet.length > 0 ? alphabet : undefined
+    );
+
+    // Minimizar el resultado (si es un AFN, minimizeAutomaton lo determiniza antes)
+    if (combined && minimize) {
+      combined = minimizeAutomaton(combined, 'hopcroft')?.automaton ?? combined;
+    }
+
+    setResult(combined);
+
+    if (combined) {
+      addEntry({
+        type: 'lexical-operations',
+        input: automatonOperationLabels[operation],
+        metadata: {
+          success: true,
+          description: `Resultado con ${combined.states.length} estados`,
+          automatonOperation: operation,
+          automatonSource: sourceA,
+          secondAutomatonSource: binary ? sourceB : undefined,
+          regex: sourceA === 'regex' ? regexA : undefined,
+          secondRegex: binary && sourceB === 'regex' ? regexB : undefined,
+          automatonJson: sourceA === 'regex' ? undefined : params.automatonA ?? undefined,
+          secondAutomatonJson: binary && sourceB !== 'regex' ? params.automatonB ?? undefined : undefined,
+          customAlphabet: alphabet.length > 0 ? alphabet : undefined,
+          minimizeResult: minimize,
+        },
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Configuración */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Operación</CardTitle>
+          <CardDescription>
+            Unión, intersección y diferencia usan la construcción producto; complemento completa el AFD con un
+            estado trampa; reverso, concatenación y cerradura generan un AFN-ε
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+            <div className="space-y-2 sm:w-72">
+              <label className="text-sm font-medium">Operación</label>
+              <Select
+                value={operation}
+                onValueChange={(v) => {
+                  setParams({ operation: v as AutomatonOperation });
+                  setResult(null);
+                }}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {operations.map(op => (
+                    <SelectItem key={op} value={op}>
+                      {automatonOperationLabels[op]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center gap-2 pb-2">
+              <Switch
+                id="minimize-switch"
+                checked={minimize}
+                onCheckedChange={(checked) => setParams({ minimize: checked })}
+              />
+              <Label htmlFor="minimize-switch" className="text-sm">
+                Minimizar resultado
+              </Label>
+            </div>
+          </div>
+
+          {operation === 'complement' && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Alfabeto Σ (opcional)</label>
+              <LanguageInput
+                languages={alphabet}
+                onChange={(newAlphabet) => setParams({ alphabet: newAlphabet })}
+                placeholder="Ej: a, b, c"
+                maxLanguages={10}
+              />
+              <p className="text-xs text-muted-foreground">
+                Símbolos adicionales a los del autómata; el complemento se calcula respecto a Σ*.
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Operandos */}
+      <div className={binary ? 'grid gap-6 xl:grid-cols-2' : 'grid gap-6'}>
+        <Card>
+          <CardContent className="pt-6">
+            <AutomatonSourceInput
+              title="Autómata A₁"
+              source={sourceA}
+              onSourceChange={(source) => {
+                setParams({ sourceA: source });
+                setResult(null);
+              }}
+              regex={regexA}
+              onRegexChange={(regex) => setParams({ regexA: regex })}
+              automaton={automatonA}
+              onAutomatonChange={(automaton) => {
+                setParams({ automatonA: JSON.stringify(automaton) });
+                setResult(null);
+              }}
+              resetKey={resetKey}
+            />
+          </CardContent>
+        </Card>
+
+        {binary && (
+          <Card>
+            <CardContent className="pt-6">
+              <AutomatonSourceInput
+                title="Autómata A₂"
+                source={sourceB}
+                onSourceChange={(source) => {
+                  setParams({ sourceB: source });
+                  setResult(null);
+                }}
+                regex={regexB}
+                onRegexChange={(regex) => setParams({ regexB: regex })}
+                automaton={automatonB}
+                onAutomatonChange={(automaton) => {
+                  setParams({ automatonB: JSON.stringify(automaton) });
+                  setResult(null);
+                }}
+                resetKey={resetKey}
+              />
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button onClick={handleCombine} disabled={!canCombine} className="gap-2">
+          <Play className="h-4 w-4" />
+          Aplicar operación
+        </Button>
+
+        <Button variant="ghost" onClick={handleReset} className="gap-2">
+          <RotateCcw className="h-4 w-4" />
+          Reiniciar
+        </Button>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-destructive/10 border border-destructive/20 p-3 text-sm text-destructive">
+          {error}
+        </div>
+      )}
+
+      {/* Resultado */}
+      {result && (
+        <CollapsibleSection
+          title={`Resultado: ${automatonOperationLabels[operation]}`}
+          icon={<Combine className="h-5 w-5 text-sky-500" />}
+          defaultOpen
+          badge={
+            <Badge variant="secondary">
+              {result.type === 'DFA' ? 'AFD' : result.type === 'EPSILON_NFA' ? 'AFN-ε' : 'AFN'}
+            </Badge>
+          }
+        >
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+              <div className="bg-muted/50 rounded-lg p-3">
+                <span className="text-muted-foreground block">Estados</span>
+                <span className="font-medium">{result.states.length}</span>
+              </div>
+              <div className="bg-muted/50 rounded-lg p-3">
+                <span className="text-muted-foreground block">Transiciones</span>
+                <span className="font-medium">{result.transitions.length}</span>
+              </div>
+              <div className="bg-muted/50 rounded-lg p-3">
+                <span className="text-muted-foreground block">Alfabeto</span>
+                <span className="font-medium font-mono">
+                  {'{' + result.alphabet.join(', ') + '}'}
+                </span>
+              </div>
+            </div>
+
+            <CollapsibleSection title="Grafo del Autómata Resultante" icon={<Workflow className="h-4 w-4" />} defaultOpen>
+              <AutomataGraphCytoscape automaton={result} />
+            </CollapsibleSection>
+
+            <CollapsibleSection title="Tabla de Transiciones" defaultOpen={false}>
+              <TransitionTable automaton={result} />
+            </CollapsibleSection>
+
+            <CollapsibleSection
+              title="Resumen del Lenguaje"
+              icon={<ListOrdered className="h-4 w-4" />}
+              defaultOpen={false}
+            >
+              <LanguageSummary automaton={result} />
+            </CollapsibleSection>
+          </div>
+        </CollapsibleSection>
+      )}
+    </div>
+  );
+}
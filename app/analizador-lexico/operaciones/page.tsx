@@ -0,0 +1,26 @@
+import { Suspense } from 'react';
+import { HeroSection } from '@/components/layout';
+import { Metadata } from 'next';
+import OperacionesClientPage from './page-client';
+
+export const metadata: Metadata = {
+  title: 'Operaciones con Autómatas - Analizador Léxico - CompiMC',
+  description: 'Combinar autómatas finitos con unión, intersección, diferencia (construcción producto), complemento, reverso, concatenación y cerradura de Kleene.',
+};
+
+export default function OperacionesPage() {
+  return (
+    <>
+      <HeroSection
+        title="Operaciones con Autómatas"
+        description="Los lenguajes regulares son cerrados bajo unión, intersección, diferencia, complemento, reverso, concatenación y cerradura de Kleene. Define uno o dos autómatas (desde una expresión regular, el editor visual o la tabla de transiciones) y observa el autómata resultante de cada construcción."
+      />
+
+      <section className="container mx-auto px-4 py-8 sm:px-6 lg:px-8">
+        <Suspense fallback={<div className="flex items-center justify-center p-8">Cargando...</div>}>
+          <OperacionesClientPage />
+        </Suspense>
+      </section>
+    </>
+  );
+}
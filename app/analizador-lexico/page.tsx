@@ -1,6 +1,6 @@
 import { HeroSection } from '@/components/layout';
 import { FeatureCard } from '@/components/home';
-import { Code2, GitBranch, Workflow, CheckCircle } from 'lucide-react';
+import { Code2, GitBranch, Workflow, CheckCircle, Minimize2, Combine, WandSparkles, Sigma } from 'lucide-react';
 import { Metadata } from 'next';
 
 export const metadata: Metadata = {title: 'Analizador Léxico',
@@ -61,6 +61,14 @@ export default function AnalizadorLexicoPage() {
             icon={Code2}
             gradient="from-green-500 to-emerald-500"
           />
+
+          <FeatureCard
+            title="AFD por derivadas"
+            description="Construir el AFD con derivadas de Brzozowski, donde cada estado es una expresión, y compararlo con los otros dos métodos"
+            href="/analizador-lexico/afd-brzozowski"
+            icon={Sigma}
+            gradient="from-amber-500 to-orange-500"
+          />
           
           <FeatureCard
             title="Reconocer cadena"
@@ -69,6 +77,30 @@ export default function AnalizadorLexicoPage() {
             icon={CheckCircle}
             gradient="from-orange-500 to-red-500"
           />
+
+          <FeatureCard
+            title="Minimizar AFD"
+            description="Minimizar un AFD con los algoritmos de Moore y Hopcroft mostrando cada ronda de refinamiento de particiones"
+            href="/analizador-lexico/minimizar"
+            icon={Minimize2}
+            gradient="from-emerald-500 to-teal-500"
+          />
+
+          <FeatureCard
+            title="Operaciones con AF"
+            description="Combinar autómatas con unión, intersección, diferencia, complemento, reverso, concatenación y cerradura de Kleene"
+            href="/analizador-lexico/operaciones"
+            icon={Combine}
+            gradient="from-sky-500 to-indigo-500"
+          />
+
+          <FeatureCard
+            title="Simplificar ER"
+            description="Simplificar una expresión regular aplicando identidades algebraicas paso a paso, verificando la equivalencia de cada reescritura"
+            href="/analizador-lexico/simplificar"
+            icon={WandSparkles}
+            gradient="from-fuchsia-500 to-pink-500"
+          />
         </div>
       </section>
 
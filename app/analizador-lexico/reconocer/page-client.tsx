@@ -1,18 +1,98 @@
 'use client';
 
+import { useMemo, useState } from 'react';
 import { useQueryStates } from 'nuqs';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { AutomataGraphCytoscape, StringRecognitionVisualizer } from '@/components/analizador-lexico';
-import { SymbolSlider, commonSymbols, CollapsibleSection } from '@/components/shared';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  AutomataGraphCytoscape,
+  StringRecognitionVisualizer,
+  TokenDefinitionsEditor,
+  LexerScanTrace,
+  LanguageSummary,
+  AutomatonSourceInput,
+  TestSuiteEditor,
+  BatchTestResults,
+} from '@/components/analizador-lexico';
+import type { AutomatonSource } from '@/components/analizador-lexico';
+import { SymbolSlider, commonSymbols, CollapsibleSection, SegmentedControl } from '@/components/shared';
 import { useHistory, useAutomata } from '@/hooks';
-import { Loader2 } from 'lucide-react';
+import { ListChecks, ListOrdered, Loader2, Play, ScanText, Workflow } from 'lucide-react';
 import { reconocerSearchParams } from '@/lib/nuqs';
+import { parseTestSuite, runTestSuite } from '@/lib/algorithms/lexical/batch-testing';
+import { erToAFD } from '@/lib/algorithms/lexical/er-to-af';
+import { validateRegex } from '@/lib/algorithms/lexical/regex-parser';
+import type { Automaton, CompiledLexer, LexerRunResult, LexerTokenDefinition, StringTestSuiteResult } from '@/lib/types';
+
+const modeOptions = [
+  { value: 'automaton', label: 'Una expresión' },
+  { value: 'lexer', label: 'Analizador léxico' },
+  { value: 'batch', label: 'Pruebas por lote' },
+];
+
+const recognizerOptions = [
+  { value: 'afd', label: 'AFD óptimo' },
+  { value: 'afn', label: 'AFN de Thompson' },
+];
+
+const defaultTokenDefinitions: LexerTokenDefinition[] = [
+  { name: 'IF', regex: 'if', priority: 1 },
+  { name: 'ID', regex: '[a-z][a-z0-9]*', priority: 0 },
+  { name: 'NUM', regex: '[0-9]+', priority: 0 },
+  { name: 'OP', regex: '<|<=|=|==', priority: 0 },
+  { name: 'WS', regex: '(\\ |\\n|\\t)+', priority: 0, ignore: true },
+];
+
+/**
+ * Parsea las definiciones de tokens serializadas en la URL
+ */
+function parseTokenDefinitions(json: string | null): LexerTokenDefinition[] {
+  if (!json) return defaultTokenDefinitions;
+  try {
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed) ? parsed : defaultTokenDefinitions;
+  } catch {
+    return defaultTokenDefinitions;
+  }
+}
+
+/**
+ * Parsea un autómata serializado en la URL
+ */
+function parseAutomaton(json: string | null): Automaton | null {
+  if (!json) return null;
+  try {
+    return JSON.parse(json) as Automaton;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Autómata a probar por lote: el AFD de la ER o el autómata editado
+ */
+function toTestAutomaton(name: string, source: AutomatonSource, regex: string, automaton: Automaton | null): Automaton {
+  if (source === 'regex') {
+    if (!regex.trim()) throw new Error(`${name}: falta la expresión regular`);
+    const validation = validateRegex(regex);
+    if (!validation.isValid) throw new Error(`${name}: ${validation.errors.join(', ')}`);
+    return { ...erToAFD(regex), name };
+  }
+
+  if (!automaton || automaton.states.length === 0) throw new Error(`${name}: el autómata no tiene estados`);
+  if (!automaton.states.some(s => s.isInitial)) throw new Error(`${name}: el autómata no tiene estado inicial`);
+  return { ...automaton, name };
+}
 
 export default function ReconocerClientPage() {
   // Usar nuqs para manejar el estado de la URL
-  const [{ regex, testString }, setParams] = useQueryStates(reconocerSearchParams);
+  const [params, setParams] = useQueryStates(reconocerSearchParams);
+  const { mode, regex, recognizer, testString, tokens, lexerInput } = params;
+  const { sourceA, sourceB, regexB, compare, suite } = params;
   
   const { 
     automaton, 
@@ -20,23 +100,78 @@ export default function ReconocerClientPage() {
     error,
     recognitionResult,
     buildAutomaton, 
-    testString: testStringFn 
+    testString: testStringFn,
+    createLexer,
+    tokenizeInput,
   } = useAutomata();
   
   const { addEntry } = useHistory();
 
+  const definitions = useMemo(() => parseTokenDefinitions(tokens), [tokens]);
+  const [lexer, setLexer] = useState<CompiledLexer | null>(null);
+  const [lexerResult, setLexerResult] = useState<LexerRunResult | null>(null);
+  // Cadena y autómata del último reconocimiento (el resultado no aplica si se cambia de autómata)
+  const [recognized, setRecognized] = useState<{ input: string; recognizer: 'afd' | 'afn' } | null>(null);
+
+  // Pruebas por lote: resultados junto con los autómatas con que se obtuvieron
+  const [batch, setBatch] = useState<{
+    result: StringTestSuiteResult;
+    automata: Array<{ name: string; automaton: Automaton }>;
+  } | null>(null);
+  const [batchError, setBatchError] = useState<string | null>(null);
+  const [batchRun, setBatchRun] = useState(0); // Reinicia la selección de la tabla en cada ejecución
+  const automatonA = useMemo(() => parseAutomaton(params.automatonA), [params.automatonA]);
+  const automatonB = useMemo(() => parseAutomaton(params.automatonB), [params.automatonB]);
+
+  // El AFN de Thompson solo se obtiene con la construcción completa (Thompson + subconjuntos)
+  const recognizerAutomaton = recognizer === 'afn' ? automaton?.automatonAFN : automaton?.automatonAFD;
+
+  const handleDefinitionsChange = (newDefinitions: LexerTokenDefinition[]) => {
+    setParams({ tokens: JSON.stringify(newDefinitions) });
+    setLexer(null);
+    setLexerResult(null);
+  };
+
+  const handleBuildLexer = () => {
+    setLexer(createLexer(definitions));
+    setLexerResult(null);
+  };
+
+  const handleTokenize = () => {
+    if (!lexer) return;
+
+    const result = tokenizeInput(lexer, lexerInput);
+    setLexerResult(result);
+
+    if (result) {
+      addEntry({
+        type: 'lexical-reconocer',
+        input: `${definitions.map(d => d.name).join(', ')} | ${lexerInput}`,
+        metadata: {
+          success: result.errors.length === 0,
+          description: `${result.tokens.length} tokens, ${result.errors.length} errores`,
+          recognitionMode: 'lexer',
+          tokenDefinitions: definitions,
+          testString: lexerInput,
+        },
+      });
+    }
+  };
+
   const handleBuildAutomaton = async () => {
     await buildAutomaton({
       regex,
       languages: [],
-      algorithm: 'afd-short', // Método del árbol sintáctico
+      // AFN: Thompson; AFD: método del árbol sintáctico
+      algorithm: recognizer === 'afn' ? 'afd-full' : 'afd-short',
     });
   };
 
   const handleRecognize = async () => {
     if (!automaton) return;
 
-    const result = await testStringFn(testString);
+    const result = await testStringFn(testString, recognizer);
+    setRecognized({ input: testString, recognizer });
     
     if (result) {
       addEntry({
@@ -51,14 +186,227 @@ export default function ReconocerClientPage() {
     }
   };
 
+  const handleRunBatch = () => {
+    try {
+      const candidates = [{ name: 'A₁', automaton: toTestAutomaton('A₁', sourceA, regex, automatonA) }];
+      if (compare) {
+        candidates.push({ name: 'A₂', automaton: toTestAutomaton('A₂', sourceB, regexB, automatonB) });
+      }
+
+      const result = runTestSuite(parseTestSuite(suite), candidates.map(c => c.automaton));
+      setBatch({ result, automata: candidates });
+      setBatchRun(prev => prev + 1);
+      setBatchError(null);
+
+      addEntry({
+        type: 'lexical-reconocer',
+        input: `${candidates.length} autómata(s) | ${result.rows.length} cadenas`,
+        metadata: {
+          success: result.scores.every(score => score.failed === 0),
+          description: result.labeled > 0
+            ? candidates.map((c, i) => `${c.name}: ${result.scores[i].passed}/${result.labeled} aciertos`).join(', ')
+            : `${result.rows.length} cadenas sin resultado esperado`,
+          recognitionMode: 'batch',
+          automatonSource: sourceA,
+          regex: sourceA === 'regex' ? regex : undefined,
+          automatonJson: sourceA === 'regex' ? undefined : params.automatonA ?? undefined,
+          secondAutomatonSource: compare ? sourceB : undefined,
+          secondRegex: compare && sourceB === 'regex' ? regexB : undefined,
+          secondAutomatonJson: compare && sourceB !== 'regex' ? params.automatonB ?? undefined : undefined,
+          testSuite: suite,
+        },
+      });
+    } catch (err) {
+      setBatch(null);
+      setBatchError(err instanceof Error ? err.message : 'Error al ejecutar las pruebas');
+    }
+  };
+
+  if (mode === 'batch') {
+    return (
+      <div className="space-y-6">
+        <SegmentedControl
+          options={modeOptions}
+          value={mode}
+          onChange={(v) => setParams({ mode: v as 'automaton' | 'lexer' | 'batch' })}
+        />
+
+        {/* Autómatas a probar */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Autómatas a Probar</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Prueba una batería de cadenas contra un autómata o compara dos (ej: una ER de referencia y el
+              autómata a evaluar)
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="compare-switch"
+                checked={compare}
+                onCheckedChange={(checked) => setParams({ compare: checked })}
+              />
+              <Label htmlFor="compare-switch" className="text-sm">
+                Comparar con un segundo autómata
+              </Label>
+            </div>
+
+            <div className={compare ? 'grid gap-6 xl:grid-cols-2' : 'grid gap-6'}>
+              <AutomatonSourceInput
+                title="Autómata A₁"
+                source={sourceA}
+                onSourceChange={(source) => setParams({ sourceA: source })}
+                regex={regex}
+                onRegexChange={(value) => setParams({ regex: value })}
+                automaton={automatonA}
+                onAutomatonChange={(automaton) => setParams({ automatonA: JSON.stringify(automaton) })}
+              />
+              {compare && (
+                <AutomatonSourceInput
+                  title="Autómata A₂"
+                  source={sourceB}
+                  onSourceChange={(source) => setParams({ sourceB: source })}
+                  regex={regexB}
+                  onRegexChange={(value) => setParams({ regexB: value })}
+                  automaton={automatonB}
+                  onAutomatonChange={(automaton) => setParams({ automatonB: JSON.stringify(automaton) })}
+                />
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Batería de pruebas */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Cadenas de Prueba</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <TestSuiteEditor value={suite} onChange={(value) => setParams({ suite: value })} />
+
+            <Button onClick={handleRunBatch} disabled={!suite.trim()} className="w-full sm:w-auto gap-2">
+              <Play className="h-4 w-4" />
+              Ejecutar pruebas
+            </Button>
+
+            {batchError && (
+              <div className="rounded-md bg-destructive/10 border border-destructive/20 p-3 text-sm text-destructive">
+                {batchError}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {batch && (
+          <CollapsibleSection
+            title="Resultados de las Pruebas"
+            icon={<ListChecks className="h-5 w-5 text-teal-500" />}
+            defaultOpen
+          >
+            <BatchTestResults key={batchRun} result={batch.result} automata={batch.automata} />
+          </CollapsibleSection>
+        )}
+      </div>
+    );
+  }
+
+  if (mode === 'lexer') {
+    return (
+      <div className="space-y-6">
+        <SegmentedControl
+          options={modeOptions}
+          value={mode}
+          onChange={(v) => setParams({ mode: v as 'automaton' | 'lexer' | 'batch' })}
+        />
+
+        {/* Definición de tokens */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Definición de Tokens</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Combina un AFN de Thompson por token, determiniza conservando el token ganador de cada estado
+              y tokeniza con la regla del lexema más largo
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <TokenDefinitionsEditor definitions={definitions} onChange={handleDefinitionsChange} />
+
+            <Button onClick={handleBuildLexer} disabled={definitions.length === 0} className="w-full sm:w-auto">
+              Construir analizador
+            </Button>
+
+            {error && (
+              <div className="rounded-md bg-destructive/10 border border-destructive/20 p-3 text-sm text-destructive">
+                {error}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {lexer && (
+          <>
+            <CollapsibleSection
+              title="AFN Combinado"
+              icon={<Workflow className="h-5 w-5 text-teal-500" />}
+              defaultOpen={false}
+            >
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">
+                  El estado <span className="font-mono">i</span> va con ε al AFN de cada token; el número tras el
+                  punto indica el token al que pertenece cada estado.
+                </p>
+                <AutomataGraphCytoscape automaton={lexer.nfa} />
+              </div>
+            </CollapsibleSection>
+
+            {/* Entrada a tokenizar */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Entrada</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Textarea
+                  value={lexerInput}
+                  onChange={(e) => setParams({ lexerInput: e.target.value })}
+                  placeholder="Ej: if x1 <= 42"
+                  className="font-mono min-h-24"
+                />
+                <Button onClick={handleTokenize} disabled={lexerInput.length === 0} className="w-full sm:w-auto">
+                  Tokenizar
+                </Button>
+              </CardContent>
+            </Card>
+
+            {lexerResult && (
+              <CollapsibleSection
+                title="Análisis Léxico"
+                icon={<ScanText className="h-5 w-5 text-teal-500" />}
+                defaultOpen
+              >
+                <LexerScanTrace key={lexerInput} lexer={lexer} result={lexerResult} />
+              </CollapsibleSection>
+            )}
+          </>
+        )}
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6">
+      <SegmentedControl
+        options={modeOptions}
+        value={mode}
+        onChange={(v) => setParams({ mode: v as 'automaton' | 'lexer' | 'batch' })}
+      />
+
       {/* Input de Expresión Regular */}
       <Card>
         <CardHeader>
           <CardTitle>Reconocer una Cadena</CardTitle>
           <p className="text-sm text-muted-foreground">
-            Construye un AFD óptimo y reconoce cadenas paso a paso
+            Construye un AFD óptimo o el AFN de Thompson y reconoce cadenas paso a paso
           </p>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -77,6 +425,15 @@ export default function ReconocerClientPage() {
             />
           </div>
 
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Autómata que reconoce</label>
+            <SegmentedControl
+              options={recognizerOptions}
+              value={recognizer}
+              onChange={(v) => setParams({ recognizer: v as 'afd' | 'afn' })}
+            />
+          </div>
+
           <Button
             onClick={handleBuildAutomaton}
             disabled={!regex || isProcessing}
@@ -88,7 +445,7 @@ export default function ReconocerClientPage() {
                 Construyendo...
               </>
             ) : (
-              'Construir AFD'
+              recognizer === 'afn' ? 'Construir AFN' : 'Construir AFD'
             )}
           </Button>
 
@@ -100,16 +457,31 @@ export default function ReconocerClientPage() {
         </CardContent>
       </Card>
 
-      {automaton && (
+      {automaton && !recognizerAutomaton && (
+        <p className="text-sm text-muted-foreground">
+          Vuelve a construir el autómata para reconocer con el AFN de Thompson.
+        </p>
+      )}
+
+      {automaton && recognizerAutomaton && (
         <>
-          {/* Sección colapsable: AFD Óptimo */}
-          <CollapsibleSection title="AFD Óptimo" defaultOpen>
+          {/* Sección colapsable: autómata que reconoce */}
+          <CollapsibleSection title={recognizer === 'afn' ? 'AFN de Thompson' : 'AFD Óptimo'} defaultOpen>
             <AutomataGraphCytoscape 
-              automaton={automaton.automatonAFD} 
+              automaton={recognizerAutomaton} 
               highlightedPath={recognitionResult?.steps.map((s) => s.currentState) || []} 
             />
           </CollapsibleSection>
 
+          {/* Sección colapsable: Resumen del lenguaje */}
+          <CollapsibleSection
+            title="Resumen del Lenguaje"
+            icon={<ListOrdered className="h-5 w-5 text-violet-500" />}
+            defaultOpen={false}
+          >
+            <LanguageSummary automaton={recognizerAutomaton} />
+          </CollapsibleSection>
+
           {/* Input de cadena a reconocer (NO colapsable) */}
           <Card>
             <CardHeader>
@@ -124,7 +496,7 @@ export default function ReconocerClientPage() {
                   className="font-mono"
                 />
                 <SymbolSlider
-                  symbols={automaton.automatonAFD.alphabet}
+                  symbols={recognizerAutomaton.alphabet}
                   onSelect={(symbol) => setParams({ testString: testString + symbol })}
                   variant="outline"
                 />
@@ -148,12 +520,13 @@ export default function ReconocerClientPage() {
           </Card>
 
           {/* Sección final: Pasos de reconocimiento con visualización */}
-          {recognitionResult && (
+          {recognitionResult && recognized?.recognizer === recognizer && (
             <StringRecognitionVisualizer
               className='h-full rounded-lg border bg-muted/20 overflow-hidden'
-              key={`${testString}-${recognitionResult.accepted}`}
-              automaton={automaton.automatonAFD}
+              key={`${recognized.input}-${recognitionResult.accepted}`}
+              automaton={recognizerAutomaton}
               result={recognitionResult}
+              input={recognized.input}
             />
           )}
         </>
@@ -5,7 +5,7 @@ import { Metadata } from 'next';
 
 export const metadata: Metadata = {
   title: 'Reconocer Cadena - Analizador Léxico - CompiMC',
-  description: 'Validar cadenas con AFD mostrando el proceso de reconocimiento paso a paso con transiciones.',
+  description: 'Validar cadenas con AFD mostrando el proceso de reconocimiento paso a paso con transiciones, tokenizar entradas con un analizador léxico de varios tokens y probar baterías de cadenas contra uno o dos autómatas.',
 };
 
 export default function ReconocerPage() {
@@ -14,7 +14,7 @@ export default function ReconocerPage() {
     <>
       <HeroSection
         title="Reconocer cadena"
-        description="Valida si una cadena pertenece al lenguaje definido por una expresión regular. Visualiza el proceso de reconocimiento paso a paso con las transiciones del AFD."
+        description="Valida si una cadena pertenece al lenguaje definido por una expresión regular, o define varios tokens y tokeniza una entrada completa con la regla del lexema más largo, o prueba una batería de cadenas con su resultado esperado contra uno o dos autómatas. Visualiza el proceso paso a paso con las transiciones del AFD."
       />
 
       <section className="container mx-auto px-4 py-8 sm:px-6 lg:px-8">
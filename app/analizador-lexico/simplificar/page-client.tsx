@@ -0,0 +1,143 @@
+'use client';
+
+/**
+ * Página de simplificación de expresiones regulares
+ * Aplica identidades algebraicas sobre el árbol sintáctico y muestra
+ * cada reescritura con su verificación de equivalencia
+ */
+
+import { useState, useCallback } from 'react';
+import { useQueryStates } from 'nuqs';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { RegexSimplificationSteps } from '@/components/analizador-lexico';
+import { SymbolSlider, commonSymbols, CollapsibleSection } from '@/components/shared';
+import { useAutomata, useHistory } from '@/hooks';
+import { Play, RotateCcw, Sparkles, WandSparkles } from 'lucide-react';
+import type { RegexSimplification } from '@/lib/types';
+import { simplificarSearchParams } from '@/lib/nuqs';
+
+const examples = ['(a*b*)*', 'ab|ac|a', '(ε|a)*b|(a*)*b', 'aa*|ε'];
+
+export default function SimplificarClientPage() {
+  // Usar nuqs para manejar el estado de la URL
+  const [{ regex }, setParams] = useQueryStates(simplificarSearchParams);
+
+  const { error, simplifyExpression, clearError } = useAutomata();
+  const { addEntry } = useHistory();
+
+  const [result, setResult] = useState<RegexSimplification | null>(null);
+
+  const handleSimplify = (expression = regex) => {
+    const simplification = simplifyExpression(expression);
+    setResult(simplification);
+
+    if (simplification) {
+      addEntry({
+        type: 'lexical-simplify',
+        input: expression,
+        metadata: {
+          success: true,
+          algorithm: 'Identidades algebraicas',
+          description: `${simplification.simplified} (${simplification.steps.length} reescrituras)`,
+          regex: expression,
+        },
+      });
+    }
+  };
+
+  const loadExample = (example: string) => {
+    setParams({ regex: example });
+    handleSimplify(example);
+  };
+
+  const handleReset = useCallback(() => {
+    setParams({ regex: '' });
+    setResult(null);
+    clearError();
+  }, [setParams, clearError]);
+
+  return (
+    <div className="space-y-6">
+      {/* Configuración */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle>Expresión Regular</CardTitle>
+          <CardDescription>
+            Se aplican identidades de afuera hacia adentro hasta que ninguna pueda aplicarse
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Input
+              value={regex}
+              onChange={(e) => {
+                setParams({ regex: e.target.value });
+                setResult(null);
+              }}
+              onKeyDown={(e) => e.key === 'Enter' && regex.trim() && handleSimplify()}
+              placeholder="Ej: (a*b*)*"
+              className="font-mono"
+            />
+            <SymbolSlider
+              symbols={commonSymbols.regex}
+              onSelect={(symbol) => setParams({ regex: regex + symbol })}
+              variant="outline"
+            />
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Button onClick={() => handleSimplify()} disabled={!regex.trim()} className="gap-2">
+              <Play className="h-4 w-4" />
+              Simplificar
+            </Button>
+
+            <Button variant="ghost" onClick={handleReset} className="gap-2">
+              <RotateCcw className="h-4 w-4" />
+              Reiniciar
+            </Button>
+
+            <div className="flex flex-wrap items-center gap-1 sm:ml-auto">
+              <Sparkles className="h-4 w-4 text-muted-foreground" />
+              {examples.map(example => (
+                <Button
+                  key={example}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => loadExample(example)}
+                  className="font-mono"
+                >
+                  {example}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {error && (
+            <div className="rounded-md bg-destructive/10 border border-destructive/20 p-3 text-sm text-destructive">
+              {error}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Resultado */}
+      {result && (
+        <CollapsibleSection
+          title="Reescrituras"
+          icon={<WandSparkles className="h-5 w-5 text-fuchsia-500" />}
+          badge={
+            <Badge variant="secondary">
+              {result.steps.length} pasos
+            </Badge>
+          }
+          defaultOpen
+        >
+          <RegexSimplificationSteps simplification={result} />
+        </CollapsibleSection>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { Suspense } from 'react';
+import { HeroSection } from '@/components/layout';
+import { Metadata } from 'next';
+import SimplificarClientPage from './page-client';
+
+export const metadata: Metadata = {
+  title: 'Simplificar ER - Analizador Léxico - CompiMC',
+  description: 'Simplificar expresiones regulares con identidades algebraicas (ε·r = r, ∅|r = r, (r*)* = r*, r|r = r, factorización) mostrando cada reescritura verificada.',
+};
+
+export default function SimplificarPage() {
+  return (
+    <>
+      <HeroSection
+        title="Simplificar Expresión Regular"
+        description="Reescribe el árbol sintáctico de la expresión aplicando identidades del álgebra de Kleene, una por paso: elementos neutros y absorbentes, idempotencia, cerraduras anidadas y factorización de prefijos y sufijos comunes. Cada reescritura se comprueba construyendo los autómatas de ambas subexpresiones."
+      />
+
+      <section className="container mx-auto px-4 py-8 sm:px-6 lg:px-8">
+        <Suspense fallback={<div className="flex items-center justify-center p-8">Cargando...</div>}>
+          <SimplificarClientPage />
+        </Suspense>
+      </section>
+    </>
+  );
+}
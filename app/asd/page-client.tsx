@@ -23,6 +23,8 @@ import {
   ParsingTable,
   StringRecognitionLL,
 } from '@/components/analizador-sintactico';
+import { GrammarToAutomatonView } from '@/components/analizador-lexico';
+import { checkRegularGrammar, regularGrammarKindLabels } from '@/lib/algorithms/lexical/regular-grammar';
 import { useDescendenteAnalysis, useHistory } from '@/hooks';
 import type { ParsingResult } from '@/lib/types';
 import { 
@@ -32,6 +34,7 @@ import {
   TextSearch,
   CheckCircle2,
   AlertTriangle,
+  Workflow,
 } from 'lucide-react';
 import { asdSearchParams } from '@/lib/nuqs';
 
@@ -58,6 +61,12 @@ export default function ASDClientPage() {
     autoDetect: autoDetect,
   }), [grammar, terminals, autoDetect]);
 
+  // Detección de gramática regular sobre la gramática tal como se ingresó
+  const regularCheck = useMemo(
+    () => (state.originalGrammar ? checkRegularGrammar(state.originalGrammar) : null),
+    [state.originalGrammar]
+  );
+
   // Ejecutar análisis automáticamente si hay parámetros válidos en la URL (navegación desde historial)
   const hasAutoAnalyzed = useRef(false);
   
@@ -258,6 +267,22 @@ export default function ASDClientPage() {
               />
             </CollapsibleSection>
           )}
+
+          {/* Sección 5: Gramática Regular → Autómata Finito */}
+          {state.originalGrammar && regularCheck && (
+            <CollapsibleSection
+              title="Gramática Regular → Autómata Finito"
+              icon={<Workflow className="h-5 w-5" />}
+              badge={
+                <Badge variant={regularCheck.kind ? 'secondary' : 'outline'} className="text-xs">
+                  {regularCheck.kind ? regularGrammarKindLabels[regularCheck.kind] : 'No regular'}
+                </Badge>
+              }
+              defaultOpen={false}
+            >
+              <GrammarToAutomatonView grammar={state.originalGrammar} />
+            </CollapsibleSection>
+          )}
         </div>
       )}
     </div>
@@ -2,7 +2,9 @@
 
 /**
  * Componente para crear autómatas finitos de forma interactiva usando Cytoscape.js
- * Permite agregar nodos, establecer estados inicial/final y crear transiciones
+ * Permite agregar nodos, establecer estados inicial/final y crear transiciones,
+ * deshacer/rehacer, seleccionar varios estados (Shift + arrastrar), copiarlos y
+ * pegarlos con nombres nuevos, alinearlos y ajustarlos a una cuadrícula
  */
 
 import { useEffect, useRef, useState, useMemo, useCallback } from 'react';
@@ -20,9 +22,15 @@ import {
 } from '@/components/ui/dialog';
 import { 
   ZoomIn, ZoomOut, Maximize2, Plus, Trash2, 
-  Circle, ArrowRight, Link2, MousePointer2
+  Circle, ArrowRight, Link2, MousePointer2,
+  Undo2, Redo2, Copy, ClipboardPaste, Magnet,
+  AlignCenterHorizontal, AlignCenterVertical,
+  AlignHorizontalDistributeCenter, AlignVerticalDistributeCenter,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { AutomatonFileActions } from './automaton-file-actions';
+import { AutomatonLintPanel } from './automaton-lint-panel';
+import { useAutomatonHistory, type UseAutomatonHistoryReturn } from '@/hooks/use-automaton-history';
 import CytoscapeComponent from 'react-cytoscapejs';
 import cytoscape from 'cytoscape';
 import coseBilkent from 'cytoscape-cose-bilkent';
@@ -38,9 +46,25 @@ if (typeof window !== 'undefined') {
 interface AutomataEditorProps {
   onChange: (automaton: Automaton) => void;
   initialAutomaton?: Automaton;
+  history?: UseAutomatonHistoryReturn; // Historial compartido con la tabla (si no se indica, uno propio)
   className?: string;
 }
 
+const GRID_SIZE = 20; // Separación de la cuadrícula de ajuste
+const PASTE_OFFSET = 40; // Desplazamiento de cada pegado respecto al original
+
+type ArrangeMode = 'row' | 'column' | 'distribute-x' | 'distribute-y';
+
+/**
+ * Ajusta una posición a la cuadrícula
+ */
+function snapPosition(position: { x: number; y: number }) {
+  return {
+    x: Math.round(position.x / GRID_SIZE) * GRID_SIZE,
+    y: Math.round(position.y / GRID_SIZE) * GRID_SIZE,
+  };
+}
+
 /**
  * Genera estilos de Cytoscape adaptados al tema
  */
@@ -182,6 +206,7 @@ function getStylesheet(isDarkMode: boolean): any[] {
 export function AutomataEditor({
   onChange,
   initialAutomaton,
+  history: externalHistory,
   className,
 }: AutomataEditorProps) {
   const cyRef = useRef<cytoscape.Core | null>(null);
@@ -206,6 +231,18 @@ export function AutomataEditor({
     return [];
   });
   const [transitions, setTransitions] = useState<Transition[]>(initialAutomaton?.transitions || []);
+  const [automatonType, setAutomatonType] = useState<Automaton['type']>(initialAutomaton?.type ?? 'DFA');
+
+  // Selección múltiple, portapapeles y cuadrícula
+  const [selectedNodeIds, setSelectedNodeIds] = useState<string[]>([]);
+  const [snapToGrid, setSnapToGrid] = useState(false);
+  const snapToGridRef = useRef(snapToGrid);
+  const clipboardRef = useRef<{ states: State[]; transitions: Transition[] } | null>(null);
+  const pasteCountRef = useRef(0);
+
+  // Historial de deshacer/rehacer (propio o compartido con la tabla)
+  const ownHistory = useAutomatonHistory();
+  const { record: recordHistory, undo, redo, canUndo, canRedo } = externalHistory ?? ownHistory;
   
   // Ref para evitar llamar onChange al inicializar
   const isInitializedRef = useRef(false);
@@ -228,6 +265,10 @@ export function AutomataEditor({
   useEffect(() => {
     transitionSourceRef.current = transitionSource;
   }, [transitionSource]);
+
+  useEffect(() => {
+    snapToGridRef.current = snapToGrid;
+  }, [snapToGrid]);
   
   // Sincronizar con initialAutomaton cuando cambia (al cambiar de modo)
   useEffect(() => {
@@ -244,6 +285,7 @@ export function AutomataEditor({
       }));
       setStates(statesWithPositions);
       setTransitions(initialAutomaton.transitions);
+      setAutomatonType(initialAutomaton.type);
       setStateCounter(initialAutomaton.states.length);
       isInitializedRef.current = true; // Marcar como inicializado para no llamar onChange
       
@@ -312,6 +354,15 @@ export function AutomataEditor({
   // Estilos de Cytoscape
   const stylesheet = useMemo(() => getStylesheet(isDarkMode), [isDarkMode]);
 
+  // Autómata actual del editor
+  const automaton = useMemo<Automaton>(() => ({
+    id: 'editor-' + Date.now(),
+    states,
+    transitions,
+    alphabet: [...new Set(transitions.map(t => t.symbol))].filter(s => s && s !== 'ε'),
+    type: automatonType,
+  }), [states, transitions, automatonType]);
+
   // Notificar cambios al padre (evitar llamar al inicializar desde initialAutomaton)
   useEffect(() => {
     // Si acabamos de inicializar desde initialAutomaton, no llamar onChange
@@ -320,49 +371,229 @@ export function AutomataEditor({
       return;
     }
     
-    const alphabet = [...new Set(transitions.map(t => t.symbol))].filter(s => s && s !== 'ε');
-    const automaton: Automaton = {
-      id: 'editor-' + Date.now(),
-      states,
-      transitions,
-      alphabet,
-      type: 'DFA',
-    };
     onChange(automaton);
-  }, [states, transitions, onChange]);
+  }, [automaton, onChange]);
+
+  // Registrar cada cambio en el historial
+  useEffect(() => {
+    recordHistory(automaton);
+  }, [automaton, recordHistory]);
+
+  // Cargar una instantánea del historial (deshacer/rehacer)
+  const restoreSnapshot = useCallback((snapshot: Automaton) => {
+    setStates(snapshot.states.map((state, idx) => ({
+      ...state,
+      position: state.position || {
+        x: 150 + (idx % 4) * 120,
+        y: 100 + Math.floor(idx / 4) * 120
+      }
+    })));
+    setTransitions(snapshot.transitions);
+    setAutomatonType(snapshot.type);
+    setSelectedElement(null);
+    setEditingTransition(null);
+    setSelectedNodeIds([]);
+  }, []);
+
+  const handleUndo = useCallback(() => {
+    const snapshot = undo();
+    if (snapshot) restoreSnapshot(snapshot);
+  }, [undo, restoreSnapshot]);
+
+  const handleRedo = useCallback(() => {
+    const snapshot = redo();
+    if (snapshot) restoreSnapshot(snapshot);
+  }, [redo, restoreSnapshot]);
+
+  // Reemplazar el autómata por uno importado (sí notifica al padre)
+  const handleImport = useCallback((imported: Automaton) => {
+    setStates(imported.states.map((state, idx) => ({
+      ...state,
+      position: state.position || {
+        x: 150 + (idx % 4) * 120,
+        y: 100 + Math.floor(idx / 4) * 120
+      }
+    })));
+    setTransitions(imported.transitions);
+    setAutomatonType(imported.type);
+    setStateCounter(imported.states.length);
+    setSelectedElement(null);
+    setEditingTransition(null);
+    setTransitionMode(false);
+    setTransitionSource(null);
+
+    setTimeout(() => {
+      cyRef.current?.fit(undefined, 40);
+    }, 100);
+  }, []);
+
+  // Aplicar una corrección del panel de problemas (sí notifica al padre)
+  const handleApplyFix = useCallback((fixed: Automaton) => {
+    // Los estados nuevos (ej: el estado trampa) se colocan a la derecha del resto
+    const maxX = Math.max(0, ...states.map(s => s.position?.x ?? 0));
+    setStates(fixed.states.map(state => ({
+      ...state,
+      position: state.position ?? { x: maxX + 120, y: 100 },
+    })));
+    setTransitions(fixed.transitions);
+    setAutomatonType(fixed.type);
+    setSelectedElement(null);
+    setEditingTransition(null);
+    setSelectedNodeIds([]);
+  }, [states]);
 
   // Agregar nuevo estado
   const addState = useCallback(() => {
-    const newId = `q${stateCounter}`;
+    // Saltar los nombres ya usados (ej: tras deshacer o pegar)
+    let counter = stateCounter;
+    while (states.some(s => s.id === `q${counter}` || s.label === `q${counter}`)) counter++;
+    const newId = `q${counter}`;
     const newState: State = {
       id: newId,
       label: newId,
       isInitial: states.length === 0, // El primer estado es inicial por defecto
       isFinal: false,
       position: { 
-        x: 100 + (stateCounter % 5) * 100, 
-        y: 100 + Math.floor(stateCounter / 5) * 100 
+        x: 100 + (counter % 5) * 100, 
+        y: 100 + Math.floor(counter / 5) * 100 
       },
     };
     
     shouldFitAfterAddRef.current = true;
     setStates(prev => [...prev, newState]);
-    setStateCounter(prev => prev + 1);
-  }, [stateCounter, states.length]);
+    setStateCounter(counter + 1);
+  }, [stateCounter, states]);
 
-  // Eliminar elemento seleccionado
+  // Eliminar los elementos seleccionados (uno o varios)
   const deleteSelected = useCallback(() => {
-    if (!selectedElement) return;
+    const nodeIds = new Set(selectedNodeIds);
+    const edgeIds = new Set<string>(cyRef.current?.edges(':selected').map(edge => edge.id()) ?? []);
+    if (selectedElement?.type === 'node') nodeIds.add(selectedElement.id);
+    if (selectedElement?.type === 'edge') edgeIds.add(selectedElement.id);
+    if (nodeIds.size === 0 && edgeIds.size === 0) return;
+    
+    setStates(prev => prev.filter(s => !nodeIds.has(s.id)));
+    setTransitions(prev => prev.filter(t => !edgeIds.has(t.id) && !nodeIds.has(t.from) && !nodeIds.has(t.to)));
+    setSelectedElement(null);
+    setEditingTransition(null);
+    setSelectedNodeIds([]);
+  }, [selectedElement, selectedNodeIds]);
+
+  // Copiar los estados seleccionados y las transiciones entre ellos
+  const copySelection = useCallback(() => {
+    const ids = new Set(
+      selectedNodeIds.length > 0 ? selectedNodeIds : selectedElement?.type === 'node' ? [selectedElement.id] : []
+    );
+    if (ids.size === 0) return;
+    
+    clipboardRef.current = {
+      states: states.filter(s => ids.has(s.id)),
+      transitions: transitions.filter(t => ids.has(t.from) && ids.has(t.to)),
+    };
+    pasteCountRef.current = 0;
+  }, [selectedNodeIds, selectedElement, states, transitions]);
+
+  // Pegar el subgrafo copiado con nombres nuevos (qN libres) y desplazado
+  const pasteClipboard = useCallback(() => {
+    const clipboard = clipboardRef.current;
+    if (!clipboard || clipboard.states.length === 0) return;
+    
+    pasteCountRef.current += 1;
+    const offset = PASTE_OFFSET * pasteCountRef.current;
+    const used = new Set(states.flatMap(s => [s.id, s.label]));
+    const renamed = new Map<string, string>();
+    let counter = stateCounter;
     
-    if (selectedElement.type === 'node') {
-      setStates(prev => prev.filter(s => s.id !== selectedElement.id));
-      setTransitions(prev => prev.filter(t => t.from !== selectedElement.id && t.to !== selectedElement.id));
+    const pastedStates: State[] = clipboard.states.map(state => {
+      while (used.has(`q${counter}`)) counter++;
+      const id = `q${counter++}`;
+      used.add(id);
+      renamed.set(state.id, id);
+      const position = {
+        x: (state.position?.x ?? 100) + offset,
+        y: (state.position?.y ?? 100) + offset,
+      };
+      return {
+        id,
+        label: id,
+        isInitial: false, // Solo puede haber un estado inicial
+        isFinal: state.isFinal,
+        position: snapToGrid ? snapPosition(position) : position,
+      };
+    });
+    
+    const stamp = Date.now();
+    const pastedTransitions: Transition[] = clipboard.transitions.map((t, i) => ({
+      id: `t-${stamp}-${i}`,
+      from: renamed.get(t.from)!,
+      to: renamed.get(t.to)!,
+      symbol: t.symbol,
+    }));
+    
+    setStates(prev => [...prev, ...pastedStates]);
+    setTransitions(prev => [...prev, ...pastedTransitions]);
+    setStateCounter(counter);
+    setSelectedElement(null);
+    setEditingTransition(null);
+    
+    // Dejar seleccionado lo pegado para moverlo o alinearlo
+    setTimeout(() => {
+      const cy = cyRef.current;
+      if (!cy) return;
+      cy.elements(':selected').unselect();
+      pastedStates.forEach(state => cy.getElementById(state.id).select());
+    }, 50);
+  }, [states, stateCounter, snapToGrid]);
+
+  // Seleccionar todos los estados
+  const selectAll = useCallback(() => {
+    cyRef.current?.nodes().select();
+  }, []);
+
+  // Alinear en fila o columna, o repartir a distancias iguales los estados seleccionados
+  const arrangeSelection = useCallback((mode: ArrangeMode) => {
+    const selected = states.filter(s => selectedNodeIds.includes(s.id) && s.position);
+    if (selected.length < 2) return;
+    
+    const positions = new Map<string, { x: number; y: number }>();
+    if (mode === 'row' || mode === 'column') {
+      const axis = mode === 'row' ? 'y' : 'x';
+      const average = selected.reduce((sum, s) => sum + s.position![axis], 0) / selected.length;
+      selected.forEach(s => positions.set(s.id, { ...s.position!, [axis]: average }));
     } else {
-      setTransitions(prev => prev.filter(t => t.id !== selectedElement.id));
+      const axis = mode === 'distribute-x' ? 'x' : 'y';
+      const sorted = [...selected].sort((a, b) => a.position![axis] - b.position![axis]);
+      const first = sorted[0].position![axis];
+      const step = (sorted[sorted.length - 1].position![axis] - first) / (sorted.length - 1);
+      sorted.forEach((s, i) => positions.set(s.id, { ...s.position!, [axis]: first + step * i }));
     }
     
-    setSelectedElement(null);
-  }, [selectedElement]);
+    setStates(prev => prev.map(s => {
+      const position = positions.get(s.id);
+      if (!position) return s;
+      return { ...s, position: snapToGrid ? snapPosition(position) : position };
+    }));
+  }, [states, selectedNodeIds, snapToGrid]);
+
+  // Atajos de teclado (solo con el foco dentro del editor y fuera de los campos de texto)
+  const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLDivElement>) => {
+    const target = e.target as HTMLElement;
+    if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || pendingTransition) return;
+    
+    const mod = e.ctrlKey || e.metaKey;
+    const key = e.key.toLowerCase();
+    let handled = true;
+    
+    if (mod && key === 'z' && !e.shiftKey) handleUndo();
+    else if (mod && (key === 'y' || (key === 'z' && e.shiftKey))) handleRedo();
+    else if (mod && key === 'c') copySelection();
+    else if (mod && key === 'v') pasteClipboard();
+    else if (mod && key === 'a') selectAll();
+    else if (key === 'delete' || key === 'backspace') deleteSelected();
+    else handled = false;
+    
+    if (handled) e.preventDefault();
+  }, [pendingTransition, handleUndo, handleRedo, copySelection, pasteClipboard, selectAll, deleteSelected]);
 
   // Toggle estado inicial
   const toggleInitial = useCallback(() => {
@@ -479,11 +710,17 @@ export function AutomataEditor({
       }
     });
     
-    // Guardar posiciones al mover nodos
+    // Selección múltiple (Shift + arrastrar, o Ctrl + clic)
+    cy.on('select unselect', 'node', () => {
+      setSelectedNodeIds(cy.nodes(':selected').map(node => node.id()));
+    });
+    
+    // Guardar posiciones al mover nodos (ajustadas a la cuadrícula si está activa)
     cy.on('dragfree', 'node', (evt) => {
       const node = evt.target;
-      const pos = node.position();
+      const pos = snapToGridRef.current ? snapPosition(node.position()) : node.position();
       const nodeId = node.id();
+      if (snapToGridRef.current) node.position(pos);
       
       setStates(prev => prev.map(s =>
         s.id === nodeId ? { ...s, position: { x: pos.x, y: pos.y } } : s
@@ -532,7 +769,7 @@ export function AutomataEditor({
     : null;
 
   return (
-    <div className={cn('flex flex-col gap-3', className)}>
+    <div className={cn('flex flex-col gap-3 outline-none', className)} tabIndex={-1} onKeyDown={handleKeyDown}>
       {/* Modal para crear transición */}
       <Dialog open={!!pendingTransition} onOpenChange={(open) => !open && setPendingTransition(null)}>
         <DialogContent className="max-w-xs" showCloseButton={false}>
@@ -666,8 +903,69 @@ export function AutomataEditor({
           </>
         )}
         
+        {!transitionMode && selectedNodeIds.length >= 2 && (
+          <>
+            <div className="h-5 w-px bg-border mx-1" />
+            <Button size="sm" variant="ghost" onClick={() => arrangeSelection('row')} title="Alinear en fila">
+              <AlignCenterHorizontal className="h-4 w-4" />
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => arrangeSelection('column')} title="Alinear en columna">
+              <AlignCenterVertical className="h-4 w-4" />
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => arrangeSelection('distribute-x')}
+              disabled={selectedNodeIds.length < 3}
+              title="Repartir horizontalmente"
+            >
+              <AlignHorizontalDistributeCenter className="h-4 w-4" />
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => arrangeSelection('distribute-y')}
+              disabled={selectedNodeIds.length < 3}
+              title="Repartir verticalmente"
+            >
+              <AlignVerticalDistributeCenter className="h-4 w-4" />
+            </Button>
+          </>
+        )}
+        
         <div className="flex-1" />
         
+        <Button size="sm" variant="ghost" onClick={handleUndo} disabled={!canUndo} title="Deshacer (Ctrl+Z)">
+          <Undo2 className="h-4 w-4" />
+        </Button>
+        <Button size="sm" variant="ghost" onClick={handleRedo} disabled={!canRedo} title="Rehacer (Ctrl+Shift+Z)">
+          <Redo2 className="h-4 w-4" />
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={copySelection}
+          disabled={selectedNodeIds.length === 0 && selectedElement?.type !== 'node'}
+          title="Copiar estados seleccionados (Ctrl+C)"
+        >
+          <Copy className="h-4 w-4" />
+        </Button>
+        <Button size="sm" variant="ghost" onClick={pasteClipboard} title="Pegar con nombres nuevos (Ctrl+V)">
+          <ClipboardPaste className="h-4 w-4" />
+        </Button>
+        <Button
+          size="sm"
+          variant={snapToGrid ? 'secondary' : 'ghost'}
+          onClick={() => setSnapToGrid(prev => !prev)}
+          title={snapToGrid ? 'Desactivar ajuste a la cuadrícula' : 'Ajustar a la cuadrícula'}
+        >
+          <Magnet className="h-4 w-4" />
+        </Button>
+        <div className="h-5 w-px bg-border mx-1" />
+        
+        <AutomatonFileActions automaton={automaton} onImport={handleImport} variant="ghost" />
+        <div className="h-5 w-px bg-border mx-1" />
+        
         <Button size="sm" variant="ghost" onClick={handleZoomIn} title="Acercar">
           <ZoomIn className="h-4 w-4" />
         </Button>
@@ -702,7 +1000,7 @@ export function AutomataEditor({
             minZoom={0.3}
             maxZoom={3}
             wheelSensitivity={0.2}
-            boxSelectionEnabled={false}
+            boxSelectionEnabled={true}
           />
         )}
       </div>
@@ -719,7 +1017,15 @@ export function AutomataEditor({
             <Badge key={s.id} variant="outline" className="border-orange-500 text-orange-600 ml-1">{s.label}</Badge>
           ))}</span>
         )}
+        {selectedNodeIds.length > 1 && (
+          <span>Seleccionados: <Badge variant="secondary">{selectedNodeIds.length}</Badge></span>
+        )}
+        <span className="hidden md:inline">Shift + arrastrar para seleccionar varios estados</span>
+        <span>Tipo: <Badge variant="outline">{automatonType === 'DFA' ? 'AFD' : automatonType === 'NFA' ? 'AFN' : 'AFN-ε'}</Badge></span>
       </div>
+
+      {/* Problemas del autómata y correcciones */}
+      <AutomatonLintPanel automaton={automaton} onApplyFix={handleApplyFix} />
     </div>
   );
 }
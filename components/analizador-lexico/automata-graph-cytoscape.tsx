@@ -8,14 +8,16 @@
  * - Compatible con SSR (Next.js)
  * - Soporte para modo oscuro y claro
  * - Visualización de autómatas con etiquetas en las aristas
- * - Exportación a PNG
+ * - Exportación a SVG, PNG y TikZ, y a JSON / JFLAP / DOT
  */
 
 import { useEffect, useRef, useState, useMemo } from 'react';
 import { Automaton, Transition } from '@/lib/types/automata';
 import { Button } from '@/components/ui/button';
-import { Download, ZoomIn, ZoomOut, Maximize2, Copy } from 'lucide-react';
+import { ZoomIn, ZoomOut, Maximize2, Copy } from 'lucide-react';
+import { GraphExportMenu } from '@/components/shared/graph-export-menu';
 import { cn } from '@/lib/utils';
+import { AutomatonFileActions } from './automaton-file-actions';
 import CytoscapeComponent from 'react-cytoscapejs';
 import cytoscape from 'cytoscape';
 import coseBilkent from 'cytoscape-cose-bilkent';
@@ -29,6 +31,9 @@ if (!(cytoscape as any).coseBilkentRegistered) {
 interface AutomataGraphCytoscapeProps {
   automaton: Automaton;
   highlightedPath?: string[];
+  highlightedStates?: string[]; // Conjunto de estados resaltado (ej: T en subconjuntos)
+  targetStates?: string[]; // Conjunto de estados destino (ej: ε-cerradura(move(T, a)))
+  highlightedTransitions?: Pick<Transition, 'from' | 'to' | 'symbol'>[]; // Transiciones resaltadas
   onNodeClick?: (stateId: string) => void;
   onEdgeClick?: (transition: Transition) => void;
   className?: string;
@@ -93,6 +98,10 @@ function getStylesheet(isDarkMode: boolean): any[] {
     highlightBorder: '#22c55e',
     highlightBg: '#065f46',
     selectedBorder: '#3b82f6',
+    subsetBorder: '#f59e0b',
+    subsetBg: '#78350f',
+    targetBorder: '#3b82f6',
+    targetBg: '#1e3a8a',
   } : {
     nodeBg: '#ffffff',
     nodeBorder: '#d97706',
@@ -105,6 +114,10 @@ function getStylesheet(isDarkMode: boolean): any[] {
     highlightBorder: '#16a34a',
     highlightBg: '#dcfce7',
     selectedBorder: '#2563eb',
+    subsetBorder: '#d97706',
+    subsetBg: '#fef3c7',
+    targetBorder: '#2563eb',
+    targetBg: '#dbeafe',
   };
 
   return [
@@ -207,7 +220,24 @@ function getStylesheet(isDarkMode: boolean): any[] {
       },
     },
     {
-      selector: 'edge.highlighted',
+      selector: 'node.subset-current',
+      style: {
+        'border-color': colors.subsetBorder,
+        'border-width': 4,
+        'background-color': colors.subsetBg,
+      },
+    },
+    {
+      selector: 'node.subset-target',
+      style: {
+        'border-color': colors.targetBorder,
+        'border-width': 4,
+        'border-style': 'dashed',
+        'background-color': colors.targetBg,
+      },
+    },
+    {
+      selector: 'edge.highlighted, edge.step-edge',
       style: {
         'line-color': colors.highlightBorder,
         'target-arrow-color': colors.highlightBorder,
@@ -221,6 +251,9 @@ function getStylesheet(isDarkMode: boolean): any[] {
 export function AutomataGraphCytoscape({
   automaton,
   highlightedPath = [],
+  highlightedStates = [],
+  targetStates = [],
+  highlightedTransitions = [],
   onNodeClick,
   onEdgeClick,
   className,
@@ -314,6 +347,30 @@ export function AutomataGraphCytoscape({
       }
     }
   }, [highlightedPath]);
+
+  // Resaltar conjuntos de estados y transiciones (paso a paso de algoritmos)
+  useEffect(() => {
+    if (!cyRef.current) return;
+
+    const cy = cyRef.current;
+    cy.nodes().removeClass('subset-current subset-target');
+    cy.edges().removeClass('step-edge');
+
+    targetStates.forEach(id => cy.getElementById(id).addClass('subset-target'));
+    highlightedStates.forEach(id => cy.getElementById(id).addClass('subset-current'));
+
+    highlightedTransitions.forEach(trans => {
+      cy.edges().forEach((edge) => {
+        if (
+          edge.data('source') === trans.from &&
+          edge.data('target') === trans.to &&
+          edge.data('label') === trans.symbol
+        ) {
+          edge.addClass('step-edge');
+        }
+      });
+    });
+  }, [highlightedStates, targetStates, highlightedTransitions]);
   
   // Actualizar estilos cuando cambia el tema
   useEffect(() => {
@@ -361,20 +418,6 @@ export function AutomataGraphCytoscape({
     }
   };
   
-  const handleExport = () => {
-    if (cyRef.current) {
-      const png = cyRef.current.png({
-        full: true,
-        scale: 2,
-        bg: isDarkMode ? '#1f2937' : '#ffffff',
-      });
-      const link = document.createElement('a');
-      link.href = png;
-      link.download = `automaton-${automaton.id}-${Date.now()}.png`;
-      link.click();
-    }
-  };
-  
   const handleCopyImage = async () => {
     if (cyRef.current) {
       try {
@@ -427,10 +470,14 @@ export function AutomataGraphCytoscape({
         <Button size="sm" variant="secondary" onClick={handleCopyImage} className="shadow-md h-8 w-8 p-0" title="Copiar imagen">
           <Copy className="h-4 w-4" />
         </Button>
-        <Button size="sm" variant="secondary" onClick={handleExport} className="shadow-md" title="Exportar imagen">
-          <Download className="h-4 w-4 mr-1" />
-          PNG
-        </Button>
+        <GraphExportMenu
+          getCy={() => cyRef.current}
+          fileName={`automata-${automaton.id}`}
+          background={isDarkMode ? '#1f2937' : '#ffffff'}
+          latex="tikz"
+          className="shadow-md"
+        />
+        <AutomatonFileActions automaton={automaton} variant="secondary" buttonClassName="shadow-md" />
       </div>
       
       {/* Leyenda */}
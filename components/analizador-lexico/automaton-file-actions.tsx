@@ -0,0 +1,164 @@
+'use client';
+
+/**
+ * Botones para importar y exportar autómatas
+ * Importa archivos JFLAP (.jff) y JSON versionado; exporta a JSON, JFLAP y
+ * Graphviz DOT. Los errores de validación se muestran campo por campo.
+ */
+
+import { useRef, useState } from 'react';
+import { Automaton, AutomatonFileFormat } from '@/lib/types/automata';
+import {
+  exportAutomaton,
+  importAutomaton,
+  automatonFormatLabels,
+  automatonFileTypes,
+} from '@/lib/algorithms/lexical/automaton-formats';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { FileDown, FileUp } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface AutomatonFileActionsProps {
+  automaton?: Automaton; // Autómata a exportar (sin él no se muestra la exportación)
+  onImport?: (automaton: Automaton) => void; // Sin él no se muestra la importación; puede lanzar para rechazar el archivo
+  variant?: 'outline' | 'secondary' | 'ghost';
+  buttonClassName?: string;
+  className?: string;
+}
+
+const exportFormats: AutomatonFileFormat[] = ['json', 'jff', 'dot'];
+
+/**
+ * Nombre de archivo a partir del nombre del autómata
+ */
+function fileBaseName(automaton: Automaton): string {
+  const base = (automaton.name || automaton.id)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\w-]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return base || 'automata';
+}
+
+export function AutomatonFileActions({
+  automaton,
+  onImport,
+  variant = 'outline',
+  buttonClassName,
+  className,
+}: AutomatonFileActionsProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [importErrors, setImportErrors] = useState<{ fileName: string; lines: string[] } | null>(null);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !onImport) return;
+
+    try {
+      const content = await file.text();
+      onImport(importAutomaton(content, file.name));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'No se pudo leer el archivo';
+      setImportErrors({ fileName: file.name, lines: message.split('\n') });
+    }
+  };
+
+  const handleExport = (format: AutomatonFileFormat) => {
+    if (!automaton) return;
+
+    const { extension, mimeType } = automatonFileTypes[format];
+    const blob = new Blob([exportAutomaton(automaton, format)], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${fileBaseName(automaton)}.${extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className={cn('flex items-center gap-1', className)}>
+      {onImport && (
+        <>
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".jff,.json,.xml"
+            className="hidden"
+            onChange={handleFile}
+          />
+          <Button
+            size="sm"
+            variant={variant}
+            onClick={() => inputRef.current?.click()}
+            className={buttonClassName}
+            title="Importar autómata (JFLAP .jff o JSON)"
+          >
+            <FileUp className="h-4 w-4 mr-1" />
+            Importar
+          </Button>
+        </>
+      )}
+
+      {automaton && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              size="sm"
+              variant={variant}
+              className={buttonClassName}
+              disabled={automaton.states.length === 0}
+              title="Exportar autómata"
+            >
+              <FileDown className="h-4 w-4 mr-1" />
+              Exportar
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuLabel>Exportar como</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {exportFormats.map(format => (
+              <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+                {automatonFormatLabels[format]}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+
+      <Dialog open={!!importErrors} onOpenChange={(open) => !open && setImportErrors(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>No se pudo importar el autómata</DialogTitle>
+            <DialogDescription>
+              {importErrors?.fileName} tiene {importErrors?.lines.length === 1 ? 'un error' : 'errores'}:
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="max-h-64 overflow-y-auto space-y-1 text-sm">
+            {importErrors?.lines.map((line, index) => (
+              <li key={index} className="font-mono text-destructive break-words">
+                {line}
+              </li>
+            ))}
+          </ul>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+'use client';
+
+/**
+ * Panel de problemas del autómata en edición
+ * Lista estados inalcanzables y muertos, transiciones faltantes o duplicadas,
+ * no determinismo en un AFD, etc., con botones de corrección automática
+ */
+
+import { useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { AlertCircle, AlertTriangle, CheckCircle2, Info, Wrench } from 'lucide-react';
+import { Automaton, AutomatonIssue, AutomatonQuickFix } from '@/lib/types/automata';
+import { applyQuickFix, automatonQuickFixLabels, lintAutomaton } from '@/lib/algorithms/lexical/automaton-lint';
+import { cn } from '@/lib/utils';
+
+interface AutomatonLintPanelProps {
+  automaton: Automaton;
+  onApplyFix: (fixed: Automaton, fix: AutomatonQuickFix) => void;
+  disabledFixes?: AutomatonQuickFix[]; // Correcciones que el editor no puede representar
+  className?: string;
+}
+
+const severityStyles: Record<AutomatonIssue['severity'], { icon: typeof Info; className: string }> = {
+  error: { icon: AlertCircle, className: 'text-red-600 dark:text-red-400' },
+  warning: { icon: AlertTriangle, className: 'text-amber-600 dark:text-amber-400' },
+  info: { icon: Info, className: 'text-blue-600 dark:text-blue-400' },
+};
+
+export function AutomatonLintPanel({ automaton, onApplyFix, disabledFixes = [], className }: AutomatonLintPanelProps) {
+  const issues = useMemo(() => lintAutomaton(automaton), [automaton]);
+
+  if (automaton.states.length === 0) return null;
+
+  if (issues.length === 0) {
+    return (
+      <div className={cn('flex items-center gap-2 text-xs text-green-700 dark:text-green-400', className)}>
+        <CheckCircle2 className="h-4 w-4" />
+        Sin problemas: todos los estados son alcanzables y útiles
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn('rounded-lg border bg-muted/20 divide-y', className)}>
+      {issues.map((issue, index) => {
+        const { icon: Icon, className: iconClassName } = severityStyles[issue.severity];
+        const fixes = issue.fixes.filter(fix => !disabledFixes.includes(fix));
+        return (
+          <div key={`${issue.code}-${index}`} className="flex flex-wrap items-center gap-2 px-3 py-2 text-sm">
+            <Icon className={cn('h-4 w-4 shrink-0', iconClassName)} />
+            <span className="flex-1 min-w-48">{issue.message}</span>
+            {fixes.map(fix => (
+              <Button
+                key={fix}
+                size="sm"
+                variant="outline"
+                className="h-7 gap-1 text-xs"
+                onClick={() => onApplyFix(applyQuickFix(automaton, fix), fix)}
+              >
+                <Wrench className="h-3 w-3" />
+                {automatonQuickFixLabels[fix]}
+              </Button>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+'use client';
+
+/**
+ * Entrada de un autómata desde una de tres fuentes:
+ * expresión regular, editor visual o editor de tabla de transiciones
+ */
+
+import { Automaton } from '@/lib/types/automata';
+import { Input } from '@/components/ui/input';
+import { SegmentedControl } from '@/components/shared/segmented-control';
+import { SymbolSlider, commonSymbols } from '@/components/shared/symbol-slider';
+import { AutomataEditor } from './automata-editor';
+import { TransitionTableEditor } from './transition-table-editor';
+import { AutomataHelpModal } from './automata-help-modal';
+import { cn } from '@/lib/utils';
+import { useAutomatonHistory } from '@/hooks/use-automaton-history';
+
+export type AutomatonSource = 'regex' | 'visual' | 'table';
+
+interface AutomatonSourceInputProps {
+  title: string;
+  source: AutomatonSource;
+  onSourceChange: (source: AutomatonSource) => void;
+  regex: string;
+  onRegexChange: (regex: string) => void;
+  automaton: Automaton | null;
+  onAutomatonChange: (automaton: Automaton) => void;
+  resetKey?: number; // Cambiarlo reinicia los editores
+  className?: string;
+}
+
+const sourceOptions = [
+  { value: 'regex', label: 'ER' },
+  { value: 'visual', label: 'Visual' },
+  { value: 'table', label: 'Tabla' },
+];
+
+export function AutomatonSourceInput({
+  title,
+  source,
+  onSourceChange,
+  regex,
+  onRegexChange,
+  automaton,
+  onAutomatonChange,
+  resetKey = 0,
+  className,
+}: AutomatonSourceInputProps) {
+  // Compartido por el editor visual y la tabla
+  const editorHistory = useAutomatonHistory();
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-sm font-semibold">{title}</h3>
+        <div className="flex items-center gap-2">
+          <SegmentedControl
+            options={sourceOptions}
+            value={source}
+            onChange={(v) => onSourceChange(v as AutomatonSource)}
+          />
+          {source !== 'regex' && <AutomataHelpModal mode={source} />}
+        </div>
+      </div>
+
+      {source === 'regex' ? (
+        <div className="space-y-2">
+          <Input
+            value={regex}
+            onChange={(e) => onRegexChange(e.target.value)}
+            placeholder="Ej: (a|b)*abb"
+            className="font-mono"
+          />
+          <SymbolSlider
+            symbols={commonSymbols.regex}
+            onSelect={(symbol) => onRegexChange(regex + symbol)}
+            variant="outline"
+          />
+        </div>
+      ) : source === 'visual' ? (
+        <AutomataEditor
+          key={`visual-${resetKey}`}
+          onChange={onAutomatonChange}
+          initialAutomaton={automaton || undefined}
+          history={editorHistory}
+        />
+      ) : (
+        <TransitionTableEditor
+          key={`table-${resetKey}`}
+          onChange={onAutomatonChange}
+          initialAutomaton={automaton || undefined}
+          history={editorHistory}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,273 @@
+'use client';
+
+/**
+ * Pruebas por lote de cadenas
+ * Editor de la batería de pruebas (texto o archivo .txt/.csv) y tabla de
+ * resultados contra uno o dos autómatas: resalta los casos que no coinciden con
+ * el resultado esperado o en que los autómatas difieren, y cada resultado abre
+ * el reconocimiento paso a paso
+ */
+
+import { useMemo, useRef, useState } from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { SegmentedControl } from '@/components/shared/segmented-control';
+import { CheckCircle2, Download, Upload, XCircle } from 'lucide-react';
+import { Automaton, StringTestSuiteResult } from '@/lib/types/automata';
+import { parseTestSuite } from '@/lib/algorithms/lexical/batch-testing';
+import { cn } from '@/lib/utils';
+import { StringRecognitionVisualizer } from './string-recognition-visualizer';
+
+interface TestSuiteEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  className?: string;
+}
+
+/**
+ * Texto de la batería de pruebas, con carga desde archivo
+ */
+export function TestSuiteEditor({ value, onChange, className }: TestSuiteEditorProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+
+  const cases = useMemo(() => parseTestSuite(value), [value]);
+  const labeled = cases.filter(c => c.expected !== null).length;
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      onChange(await file.text());
+      setReadError(null);
+    } catch (err) {
+      setReadError(err instanceof Error ? err.message : 'No se pudo leer el archivo');
+    }
+  };
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <label className="text-sm font-medium">Batería de pruebas</label>
+        <input ref={inputRef} type="file" accept=".txt,.csv" className="hidden" onChange={handleFile} />
+        <Button size="sm" variant="outline" onClick={() => inputRef.current?.click()} className="gap-1">
+          <Upload className="h-4 w-4" />
+          Cargar archivo
+        </Button>
+      </div>
+      <Textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={'abb +\naabb +\nε -\nab -'}
+        className="font-mono min-h-40"
+      />
+      <p className="text-xs text-muted-foreground">
+        Una cadena por línea seguida de su resultado esperado (+, 1, sí o acepta; -, 0, no o rechaza),
+        separados por espacio, coma o punto y coma. ε es la cadena vacía y las líneas que empiezan con # se ignoran.
+        {cases.length > 0 && ` ${cases.length} cadena(s), ${labeled} con resultado esperado.`}
+      </p>
+      {readError && <p className="text-sm text-destructive">{readError}</p>}
+    </div>
+  );
+}
+
+interface BatchTestResultsProps {
+  result: StringTestSuiteResult;
+  automata: Array<{ name: string; automaton: Automaton }>; // En el mismo orden que los resultados
+  className?: string;
+}
+
+type RowFilter = 'all' | 'mismatches' | 'disagreements';
+
+/**
+ * Texto de una cadena de prueba ('ε' para la cadena vacía)
+ */
+function displayInput(input: string): string {
+  return input === '' ? 'ε' : input;
+}
+
+/**
+ * Resumen, tabla de resultados y reconocimiento paso a paso del caso seleccionado
+ */
+export function BatchTestResults({ result, automata, className }: BatchTestResultsProps) {
+  const [filter, setFilter] = useState<RowFilter>('all');
+  const [selected, setSelected] = useState<{ row: number; automaton: number } | null>(null);
+
+  const compare = automata.length > 1;
+  const failedRows = result.rows.filter(row => row.mismatches.some(Boolean)).length;
+
+  const filterOptions = [
+    { value: 'all', label: `Todas (${result.rows.length})` },
+    { value: 'mismatches', label: `No coinciden con lo esperado (${failedRows})` },
+    ...(compare ? [{ value: 'disagreements', label: `Diferencias entre autómatas (${result.disagreements})` }] : []),
+  ];
+
+  const visibleRows = result.rows
+    .map((row, index) => ({ row, index }))
+    .filter(({ row }) =>
+      filter === 'mismatches' ? row.mismatches.some(Boolean)
+        : filter === 'disagreements' ? row.disagreement
+        : true
+    );
+
+  const selectedRow = selected ? result.rows[selected.row] : undefined;
+
+  const handleExport = () => {
+    let csv = `Línea,Cadena,Esperado,${automata.map(a => a.name).join(',')}\n`;
+    result.rows.forEach((row) => {
+      const expected = row.testCase.expected === null ? '' : row.testCase.expected ? 'acepta' : 'rechaza';
+      const results = row.results.map(r => (r.accepted ? 'acepta' : 'rechaza')).join(',');
+      csv += `${row.testCase.line},"${displayInput(row.testCase.input).replace(/"/g, '""')}",${expected},${results}\n`;
+    });
+
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'batch-test-results.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      {/* Resumen por autómata */}
+      <div className={cn('grid gap-4 text-sm', compare ? 'md:grid-cols-3' : 'md:grid-cols-2')}>
+        {automata.map((candidate, i) => {
+          const score = result.scores[i];
+          return (
+            <div key={candidate.name} className="bg-muted/50 rounded-lg p-3">
+              <span className="text-muted-foreground block">{candidate.name}</span>
+              {result.labeled > 0 ? (
+                <span className="font-medium">
+                  {score.passed}/{result.labeled} aciertos ({Math.round((score.passed / result.labeled) * 100)}%)
+                </span>
+              ) : (
+                <span className="font-medium">Sin resultados esperados</span>
+              )}
+              <span className="text-muted-foreground block text-xs">
+                Acepta {score.accepted} de {result.rows.length} cadenas
+              </span>
+            </div>
+          );
+        })}
+        {compare && (
+          <div className="bg-muted/50 rounded-lg p-3">
+            <span className="text-muted-foreground block">Diferencias entre autómatas</span>
+            <span className={cn('font-medium', result.disagreements > 0 && 'text-amber-600 dark:text-amber-400')}>
+              {result.disagreements === 0 ? 'Ninguna' : `${result.disagreements} cadena(s)`}
+            </span>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <SegmentedControl options={filterOptions} value={filter} onChange={(v) => setFilter(v as RowFilter)} />
+        <Button size="sm" variant="outline" onClick={handleExport}>
+          <Download className="mr-1" />
+          Exportar CSV
+        </Button>
+      </div>
+
+      <div className="rounded-md border overflow-x-auto max-h-[28rem] overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-16">Línea</TableHead>
+              <TableHead>Cadena</TableHead>
+              <TableHead>Esperado</TableHead>
+              {automata.map(candidate => (
+                <TableHead key={candidate.name}>{candidate.name}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visibleRows.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={3 + automata.length} className="text-center text-muted-foreground">
+                  No hay cadenas con este filtro
+                </TableCell>
+              </TableRow>
+            )}
+            {visibleRows.map(({ row, index }) => (
+              <TableRow
+                key={index}
+                className={cn(
+                  row.mismatches.some(Boolean) && 'bg-red-500/5',
+                  !row.mismatches.some(Boolean) && row.disagreement && 'bg-amber-500/5'
+                )}
+              >
+                <TableCell className="text-muted-foreground">{row.testCase.line}</TableCell>
+                <TableCell className="font-mono">{displayInput(row.testCase.input)}</TableCell>
+                <TableCell>
+                  {row.testCase.expected === null ? (
+                    <span className="text-muted-foreground">—</span>
+                  ) : (
+                    <Badge variant="outline">{row.testCase.expected ? 'Acepta' : 'Rechaza'}</Badge>
+                  )}
+                </TableCell>
+                {row.results.map((recognition, i) => {
+                  const isSelected = selected?.row === index && selected.automaton === i;
+                  return (
+                    <TableCell key={i}>
+                      <button
+                        type="button"
+                        onClick={() => setSelected(isSelected ? null : { row: index, automaton: i })}
+                        className={cn(
+                          'inline-flex items-center gap-1 rounded-md px-2 py-0.5 text-xs font-medium border transition-colors',
+                          row.mismatches[i]
+                            ? 'border-red-500/40 bg-red-500/10 text-red-700 dark:text-red-400'
+                            : 'border-transparent hover:bg-muted',
+                          isSelected && 'ring-2 ring-primary'
+                        )}
+                        title="Ver el reconocimiento paso a paso"
+                      >
+                        {recognition.accepted ? (
+                          <CheckCircle2 className="h-3.5 w-3.5 text-green-600 dark:text-green-400" />
+                        ) : (
+                          <XCircle className="h-3.5 w-3.5 text-red-600 dark:text-red-400" />
+                        )}
+                        {recognition.accepted ? 'Acepta' : 'Rechaza'}
+                      </button>
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {selected && selectedRow ? (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">
+            {automata[selected.automaton].name} con{' '}
+            <span className="font-mono">{displayInput(selectedRow.testCase.input)}</span>
+          </h4>
+          <StringRecognitionVisualizer
+            key={`${selected.row}-${selected.automaton}`}
+            className="h-full rounded-lg border bg-muted/20 overflow-hidden"
+            automaton={automata[selected.automaton].automaton}
+            result={selectedRow.results[selected.automaton]}
+            input={selectedRow.testCase.input}
+          />
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Selecciona un resultado de la tabla para ver el reconocimiento paso a paso.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+'use client';
+
+/**
+ * Árbol de cómputo de un AFN usando Cytoscape.js con layout dagre
+ * Cada nodo es una configuración (estado, entrada restante); las ramas que no
+ * llegan a aceptar se atenúan y las configuraciones del paso actual se resaltan
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ComputationTree, ComputationTreeNode } from '@/lib/types/automata';
+import { Button } from '@/components/ui/button';
+import { ZoomIn, ZoomOut, Maximize2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import CytoscapeComponent from 'react-cytoscapejs';
+import cytoscape from 'cytoscape';
+import dagre from 'cytoscape-dagre';
+
+cytoscape.use(dagre);
+
+interface ComputationTreeViewProps {
+  tree: ComputationTree;
+  currentPosition?: number; // Símbolos leídos en el paso actual (resalta esas configuraciones)
+  className?: string;
+}
+
+/**
+ * Convierte el árbol de cómputo a formato Cytoscape
+ */
+function computationTreeToCytoscape(tree: ComputationTree) {
+  const elements: cytoscape.ElementDefinition[] = [];
+  const separator = tree.input.some(s => s.length > 1) ? ' ' : '';
+
+  const traverse = (node: ComputationTreeNode, parentId?: string) => {
+    const remaining = tree.input.slice(node.consumed).join(separator) || 'ε';
+    elements.push({
+      data: { id: node.id, label: `${node.state}\n${remaining}`, consumed: node.consumed },
+      classes: cn(node.status, !node.leadsToAcceptance && node.status !== 'pruned' && 'dead-branch'),
+    });
+
+    if (parentId) {
+      elements.push({
+        data: { id: `edge-${parentId}-${node.id}`, source: parentId, target: node.id, label: node.symbol },
+        classes: cn(node.symbol === 'ε' && 'epsilon', !node.leadsToAcceptance && node.status !== 'pruned' && 'dead-branch'),
+      });
+    }
+
+    node.children.forEach(child => traverse(child, node.id));
+  };
+
+  traverse(tree.root);
+  return elements;
+}
+
+/**
+ * Genera los estilos de Cytoscape adaptados al tema
+ */
+function getStylesheet(isDarkMode: boolean): cytoscape.StylesheetJson {
+  const colors = isDarkMode ? {
+    nodeBg: '#1f2937',
+    nodeBorder: '#6b7280',
+    textColor: '#f9fafb',
+    edgeColor: '#9ca3af',
+    edgeLabelBg: '#374151',
+    accepted: '#22c55e',
+    acceptedBg: '#14532d',
+    rejected: '#ef4444',
+    currentBg: '#78350f',
+    current: '#fbbf24',
+  } : {
+    nodeBg: '#ffffff',
+    nodeBorder: '#9ca3af',
+    textColor: '#111827',
+    edgeColor: '#6b7280',
+    edgeLabelBg: '#f3f4f6',
+    accepted: '#16a34a',
+    acceptedBg: '#dcfce7',
+    rejected: '#dc2626',
+    currentBg: '#fef3c7',
+    current: '#d97706',
+  };
+
+  return [
+    {
+      selector: 'node',
+      style: {
+        'shape': 'round-rectangle',
+        'width': 70,
+        'height': 44,
+        'background-color': colors.nodeBg,
+        'border-width': 2,
+        'border-color': colors.nodeBorder,
+        'label': 'data(label)',
+        'text-valign': 'center',
+        'text-halign': 'center',
+        'text-wrap': 'wrap',
+        'font-size': 11,
+        'font-family': 'ui-monospace, monospace',
+        'color': colors.textColor,
+      },
+    },
+    {
+      selector: 'node.accepted',
+      style: {
+        'border-color': colors.accepted,
+        'background-color': colors.acceptedBg,
+        'border-width': 4,
+        'border-style': 'double',
+      },
+    },
+    {
+      selector: 'node.rejected, node.dead',
+      style: {
+        'border-color': colors.rejected,
+      },
+    },
+    {
+      selector: 'node.pruned',
+      style: {
+        'border-style': 'dashed',
+      },
+    },
+    {
+      selector: '.dead-branch',
+      style: {
+        'opacity': 0.45,
+      },
+    },
+    {
+      selector: 'node.current',
+      style: {
+        'opacity': 1,
+        'border-color': colors.current,
+        'background-color': colors.currentBg,
+        'border-width': 4,
+      },
+    },
+    {
+      selector: 'edge',
+      style: {
+        'width': 2,
+        'line-color': colors.edgeColor,
+        'target-arrow-color': colors.edgeColor,
+        'target-arrow-shape': 'triangle',
+        'curve-style': 'bezier',
+        'arrow-scale': 0.8,
+        'label': 'data(label)',
+        'font-size': 11,
+        'font-weight': 'bold',
+        'font-family': 'ui-monospace, monospace',
+        'color': colors.textColor,
+        'text-background-color': colors.edgeLabelBg,
+        'text-background-opacity': 1,
+        'text-background-padding': '2px',
+      },
+    },
+    {
+      selector: 'edge.epsilon',
+      style: {
+        'line-style': 'dashed',
+      },
+    },
+  ];
+}
+
+export function ComputationTreeView({ tree, currentPosition, className }: ComputationTreeViewProps) {
+  const cyRef = useRef<cytoscape.Core | null>(null);
+  const [isDarkMode, setIsDarkMode] = useState(false);
+
+  // Detectar modo oscuro
+  useEffect(() => {
+    const checkDarkMode = () => {
+      setIsDarkMode(document.documentElement.classList.contains('dark'));
+    };
+    checkDarkMode();
+
+    const observer = new MutationObserver(checkDarkMode);
+    observer.observe(document.documentElement, {
+      attributes: true,
+      attributeFilter: ['class'],
+    });
+
+    return () => observer.disconnect();
+  }, []);
+
+  const elements = useMemo(() => computationTreeToCytoscape(tree), [tree]);
+  const stylesheet = useMemo(() => getStylesheet(isDarkMode), [isDarkMode]);
+
+  // Aplicar layout cuando los elementos cambien
+  useEffect(() => {
+    if (cyRef.current && elements.length > 0) {
+      setTimeout(() => {
+        cyRef.current?.layout({
+          name: 'dagre',
+          rankDir: 'TB',
+          nodeSep: 30,
+          rankSep: 60,
+          padding: 20,
+          fit: true,
+        } as cytoscape.LayoutOptions).run();
+      }, 100);
+    }
+  }, [elements]);
+
+  // Actualizar estilos cuando cambia el tema
+  useEffect(() => {
+    cyRef.current?.style(stylesheet);
+  }, [stylesheet]);
+
+  // Resaltar las configuraciones del paso actual
+  useEffect(() => {
+    if (!cyRef.current) return;
+
+    cyRef.current.nodes().removeClass('current');
+    if (currentPosition !== undefined) {
+      cyRef.current.nodes(`[consumed = ${currentPosition}]`).addClass('current');
+    }
+  }, [elements, currentPosition]);
+
+  const handleZoom = (factor: number) => {
+    if (cyRef.current) {
+      cyRef.current.zoom(cyRef.current.zoom() * factor);
+      cyRef.current.center();
+    }
+  };
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="relative w-full h-96 rounded-lg border bg-muted/20 overflow-hidden">
+        <div className="absolute top-2 right-2 z-10 flex gap-1">
+          <Button size="sm" variant="outline" onClick={() => handleZoom(1.2)} title="Acercar">
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => handleZoom(1 / 1.2)} title="Alejar">
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => cyRef.current?.fit()} title="Ajustar">
+            <Maximize2 className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <CytoscapeComponent
+          elements={elements}
+          style={{ width: '100%', height: '100%' }}
+          stylesheet={stylesheet}
+          cy={(cy) => { cyRef.current = cy; }}
+          layout={{ name: 'dagre' }}
+          minZoom={0.2}
+          maxZoom={2}
+          wheelSensitivity={0.2}
+          autounselectify={true}
+        />
+
+        {/* Leyenda compacta */}
+        <div className="absolute bottom-2 left-2 bg-background/90 backdrop-blur-sm rounded-md border px-2 py-1.5 shadow-sm text-xs">
+          <div className="flex flex-wrap items-center gap-3">
+            <div className="flex items-center gap-1">
+              <div className="w-3 h-3 rounded-sm border-2 border-green-500 bg-green-100 dark:bg-green-900" />
+              <span>Acepta</span>
+            </div>
+            <div className="flex items-center gap-1">
+              <div className="w-3 h-3 rounded-sm border-2 border-red-500" />
+              <span>Rechaza / bloqueada</span>
+            </div>
+            <div className="flex items-center gap-1">
+              <div className="w-3 h-3 rounded-sm border-2 border-amber-500 bg-amber-100 dark:bg-amber-900" />
+              <span>Paso actual</span>
+            </div>
+            <span className="text-muted-foreground">Atenuadas: ramas muertas</span>
+          </div>
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {tree.nodeCount} configuraciones (estado / entrada restante).
+        {tree.truncated &&
+          ' El árbol se recortó: las configuraciones con borde punteado no se expandieron.'}
+      </p>
+    </div>
+  );
+}
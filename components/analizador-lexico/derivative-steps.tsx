@@ -0,0 +1,159 @@
+'use client';
+
+/**
+ * Traza del método de derivadas de Brzozowski
+ * Muestra la tabla estado ↔ derivada y, paso a paso, el cálculo de cada
+ * ∂a(r): la regla aplicada, la derivada sin simplificar y su forma normalizada
+ */
+
+import { useMemo, useState } from 'react';
+import { Automaton } from '@/lib/types/automata';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AutomataGraphCytoscape } from './automata-graph-cytoscape';
+import { SkipBack, SkipForward } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface DerivativeStepsProps {
+  automaton: Automaton; // AFD construido por derivadas (con la traza en automaton.brzozowski)
+  className?: string;
+}
+
+export function DerivativeSteps({ automaton, className }: DerivativeStepsProps) {
+  const construction = automaton.brzozowski;
+  const steps = construction?.steps ?? [];
+  const [current, setCurrent] = useState(0);
+  const step = steps[Math.min(current, steps.length - 1)];
+
+  const highlightedTransitions = useMemo(
+    () => (step?.target ? [{ from: step.from, to: step.target, symbol: step.symbol }] : []),
+    [step]
+  );
+
+  if (!construction || !step) return null;
+
+  const initialId = automaton.states.find(s => s.isInitial)?.id;
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      {/* Estados ↔ derivadas */}
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="font-bold">Estado</TableHead>
+              <TableHead className="font-bold">Derivada</TableHead>
+              <TableHead className="font-bold text-center">Anulable</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {construction.states.map(state => (
+              <TableRow
+                key={state.id}
+                className={cn(
+                  (state.id === step.from || state.id === step.target) && 'bg-yellow-100 dark:bg-yellow-900/30'
+                )}
+              >
+                <TableCell className="font-mono font-semibold">
+                  {state.id === initialId && '→'}
+                  {state.nullable && '*'}
+                  {state.id}
+                </TableCell>
+                <TableCell className="font-mono text-sm break-all">{state.expression}</TableCell>
+                <TableCell className={cn('text-center', state.nullable ? 'text-green-600' : 'text-muted-foreground')}>
+                  {state.nullable ? 'Sí (final)' : 'No'}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {/* Navegación entre derivadas */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => setCurrent(current - 1)}
+          disabled={current === 0}
+          title="Paso anterior"
+        >
+          <SkipBack className="h-4 w-4" />
+        </Button>
+        <span className="text-sm text-muted-foreground">
+          Paso {step.stepNumber} de {steps.length}
+        </span>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => setCurrent(current + 1)}
+          disabled={current === steps.length - 1}
+          title="Paso siguiente"
+        >
+          <SkipForward className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="rounded-lg border bg-card overflow-hidden">
+        <div className={cn(
+          'flex flex-wrap items-center gap-2 px-4 py-2 border-b',
+          step.isNew ? 'bg-blue-500/10' : step.target ? 'bg-green-500/10' : 'bg-muted/50'
+        )}>
+          <Badge variant="outline" className="font-mono">
+            ∂{step.symbol}({step.from})
+          </Badge>
+          <Badge variant="secondary">
+            {step.isNew ? 'Estado nuevo' : step.target ? 'Estado existente' : 'Sin transición'}
+          </Badge>
+        </div>
+
+        <div className="p-4 space-y-3 text-sm">
+          <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-2 items-baseline">
+            <span className="text-muted-foreground">r</span>
+            <code className="font-mono break-all">{step.expression}</code>
+            <span className="text-muted-foreground">Regla</span>
+            <code className="font-mono">{step.rule}</code>
+            <span className="text-muted-foreground">Sin simplificar</span>
+            <code className="font-mono break-all text-muted-foreground">{step.raw}</code>
+            <span className="text-muted-foreground">Normalizada</span>
+            <code className="font-mono break-all text-primary font-semibold">{step.derivative}</code>
+          </div>
+
+          {step.normalizations.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1">
+              <span className="text-xs text-muted-foreground mr-1">Similitud:</span>
+              {step.normalizations.map(identity => (
+                <Badge key={identity} variant="outline" className="font-mono text-xs">
+                  {identity}
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          <p className="text-muted-foreground">
+            {step.target
+              ? step.isNew
+                ? `La derivada es una expresión nueva: se crea el estado ${step.target} y la transición ${step.from} --${step.symbol}--> ${step.target}.`
+                : `La derivada coincide con la del estado ${step.target}: se agrega la transición ${step.from} --${step.symbol}--> ${step.target}.`
+              : `La derivada es ∅: ninguna cadena de ${step.from} empieza por ${step.symbol}, no hay transición.`}
+          </p>
+
+          <AutomataGraphCytoscape
+            automaton={automaton}
+            highlightedStates={[step.from]}
+            targetStates={step.target ? [step.target] : []}
+            highlightedTransitions={highlightedTransitions}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+'use client';
+
+/**
+ * Comparación lado a lado de las tres construcciones de AFD desde una ER:
+ * Thompson + subconjuntos, árbol sintáctico y derivadas de Brzozowski
+ */
+
+import { DFAConstructionComparison } from '@/lib/types/automata';
+import { dfaConstructionLabels } from '@/lib/algorithms/lexical/brzozowski';
+import { Badge } from '@/components/ui/badge';
+import { AutomataGraphCytoscape } from './automata-graph-cytoscape';
+import { cn } from '@/lib/utils';
+
+interface DFAConstructionComparisonViewProps {
+  constructions: DFAConstructionComparison[];
+  minimalStates: number; // Estados del AFD mínimo del lenguaje
+  className?: string;
+}
+
+export function DFAConstructionComparisonView({
+  constructions,
+  minimalStates,
+  className,
+}: DFAConstructionComparisonViewProps) {
+  return (
+    <div className={cn('space-y-4', className)}>
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        {constructions.map(({ method, automaton, equivalent }) => (
+          <div key={method} className="rounded-lg border bg-card overflow-hidden">
+            <div className="flex items-center justify-between gap-2 px-4 py-2 border-b bg-muted/30">
+              <span className="font-medium text-sm">{dfaConstructionLabels[method]}</span>
+              {!equivalent && (
+                <Badge variant="destructive">Lenguaje distinto</Badge>
+              )}
+            </div>
+            <div className="p-3 space-y-3">
+              <div className="grid grid-cols-2 gap-2 text-sm">
+                <div
+                  className={cn(
+                    'rounded-lg bg-muted/50 p-2',
+                    automaton.states.length === minimalStates && 'ring-1 ring-green-500'
+                  )}
+                >
+                  <span className="text-muted-foreground block text-xs">Estados</span>
+                  <span className="font-bold">{automaton.states.length}</span>
+                </div>
+                <div className="rounded-lg bg-muted/50 p-2">
+                  <span className="text-muted-foreground block text-xs">Transiciones</span>
+                  <span className="font-bold">{automaton.transitions.length}</span>
+                </div>
+              </div>
+              <AutomataGraphCytoscape automaton={automaton} />
+            </div>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Los tres AFD reconocen el mismo lenguaje; el AFD mínimo tiene {minimalStates}{' '}
+        {minimalStates === 1 ? 'estado' : 'estados'} sin contar el estado muerto{' '}
+        (<span className="rounded px-1 ring-1 ring-green-500">resaltados</span>: construcciones que ya lo alcanzan).
+        Las derivadas solo se identifican por similitud, así que pueden quedar estados equivalentes sin fusionar.
+      </p>
+    </div>
+  );
+}
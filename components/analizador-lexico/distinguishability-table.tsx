@@ -0,0 +1,205 @@
+'use client';
+
+/**
+ * Tabla de distinguibilidad de Myhill–Nerode (llenado de tabla)
+ * Muestra el triángulo de pares de estados con la ronda y el símbolo con que
+ * se marcó cada par, el sufijo distinguidor más corto del par seleccionado
+ * y las clases de equivalencia resultantes
+ */
+
+import { useMemo, useState } from 'react';
+import { Automaton, DistinguishabilityCell } from '@/lib/types/automata';
+import { buildDistinguishabilityTable } from '@/lib/algorithms/lexical/dfa-minimization';
+import { formatCounterexample } from '@/lib/algorithms/lexical/equivalence';
+import { SegmentedControl } from '@/components/shared/segmented-control';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+
+interface DistinguishabilityTableViewProps {
+  automaton: Automaton; // AFD (completo o parcial)
+  className?: string;
+}
+
+/**
+ * Par de estados como conjunto: {A, B}
+ */
+function pairName(pair: [string, string]): string {
+  return `{${pair[1]}, ${pair[0]}}`;
+}
+
+export function DistinguishabilityTableView({ automaton, className }: DistinguishabilityTableViewProps) {
+  const { table, error } = useMemo(() => {
+    try {
+      return { table: buildDistinguishabilityTable(automaton), error: null };
+    } catch (err) {
+      return { table: null, error: err instanceof Error ? err.message : 'Error al construir la tabla' };
+    }
+  }, [automaton]);
+
+  const [visibleRound, setVisibleRound] = useState<string>('all');
+  const [selected, setSelected] = useState<[number, number] | null>(null);
+
+  if (!table) {
+    return <p className="text-sm text-destructive">{error}</p>;
+  }
+
+  if (table.states.length < 2) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        El AFD tiene un solo estado alcanzable: no hay pares que comparar.
+      </p>
+    );
+  }
+
+  const lastRound = visibleRound === 'all' ? table.rounds : Number(visibleRound);
+  const isVisible = (cell: DistinguishabilityCell) => cell.round !== null && cell.round <= lastRound;
+  const roundOptions = [
+    ...Array.from({ length: table.rounds + 1 }, (_, round) => ({ value: String(round), label: `Ronda ${round}` })),
+    { value: 'all', label: 'Todas' },
+  ];
+
+  const indexOf = (label: string) => table.states.indexOf(label);
+  const selectPair = (pair: [string, string]) => {
+    const [i, j] = [indexOf(pair[0]), indexOf(pair[1])];
+    setSelected(i > j ? [i, j] : [j, i]);
+  };
+  const selectedCell = selected && table.cells[selected[0]]?.[selected[1]];
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          Ronda 0: pares final / no final. Ronda k: pares que con un símbolo van a un par ya marcado.
+        </p>
+        {table.rounds > 0 && (
+          <SegmentedControl options={roundOptions} value={visibleRound} onChange={setVisibleRound} />
+        )}
+      </div>
+
+      {/* Triángulo de pares */}
+      <div className="overflow-x-auto">
+        <table className="border-collapse text-sm font-mono">
+          <tbody>
+            {table.cells.slice(1).map((row, rowIndex) => {
+              const i = rowIndex + 1;
+              return (
+                <tr key={table.states[i]}>
+                  <th className="px-2 py-1 text-right font-semibold">{table.states[i]}</th>
+                  {row.map((cell, j) => {
+                    const marked = isVisible(cell);
+                    const isSelected = selected?.[0] === i && selected?.[1] === j;
+                    return (
+                      <td key={table.states[j]} className="border p-0">
+                        <button
+                          type="button"
+                          onClick={() => setSelected([i, j])}
+                          title={pairName(cell.pair)}
+                          className={cn(
+                            'flex h-12 w-14 flex-col items-center justify-center leading-tight transition-colors',
+                            marked
+                              ? 'bg-red-500/10 text-red-700 hover:bg-red-500/20 dark:text-red-400'
+                              : cell.round === null
+                                ? 'bg-green-500/10 text-green-700 hover:bg-green-500/20 dark:text-green-400'
+                                : 'hover:bg-muted',
+                            cell.round === lastRound && visibleRound !== 'all' && 'ring-2 ring-inset ring-amber-400',
+                            isSelected && 'ring-2 ring-inset ring-primary'
+                          )}
+                        >
+                          {marked ? (
+                            <>
+                              <span className="font-bold">×{cell.round}</span>
+                              <span className="text-xs">{cell.symbol ?? 'F'}</span>
+                            </>
+                          ) : cell.round === null ? (
+                            <span>≡</span>
+                          ) : null}
+                        </button>
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+            <tr>
+              <th />
+              {table.states.slice(0, -1).map(state => (
+                <th key={state} className="px-2 py-1 text-center font-semibold">{state}</th>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        ×k = marcado en la ronda k con el símbolo indicado (F = uno es final y el otro no);
+        ≡ = equivalentes. Selecciona una celda para ver su sufijo distinguidor más corto.
+        {table.hasTrap && ' El AFD es parcial: se completó con el estado trampa ∅.'}
+      </p>
+
+      {/* Detalle del par seleccionado */}
+      {selectedCell && (
+        <div className="rounded-lg border bg-muted/30 p-3 text-sm space-y-2">
+          <div className="font-medium font-mono">{pairName(selectedCell.pair)}</div>
+          {selectedCell.round === null || selectedCell.suffix === null ? (
+            <p className="text-green-700 dark:text-green-400">
+              Indistinguibles: ningún sufijo lleva a uno a un estado final y al otro no.
+            </p>
+          ) : (
+            <>
+              {selectedCell.round === 0 ? (
+                <p>Marcado en la ronda 0: uno de los estados es final y el otro no.</p>
+              ) : (
+                <p>
+                  Marcado en la ronda {selectedCell.round}: con{' '}
+                  <code className="font-mono font-medium">{selectedCell.symbol}</code> van a{' '}
+                  <button
+                    type="button"
+                    onClick={() => selectPair(selectedCell.target!)}
+                    className="font-mono font-medium text-primary underline underline-offset-2"
+                  >
+                    {pairName(selectedCell.target!)}
+                  </button>
+                  , que ya estaba marcado.
+                </p>
+              )}
+              <p>
+                Sufijo distinguidor más corto:{' '}
+                <code className="font-mono font-medium text-red-600 dark:text-red-400">
+                  {formatCounterexample(selectedCell.suffix)}
+                </code>{' '}
+                (longitud {selectedCell.suffix.length}). Desde{' '}
+                <span className="font-mono">{selectedCell.acceptedBy}</span> se acepta y desde{' '}
+                <span className="font-mono">
+                  {selectedCell.pair.find(state => state !== selectedCell.acceptedBy)}
+                </span>{' '}
+                no.
+              </p>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Clases de equivalencia */}
+      <div className="space-y-2">
+        <span className="text-sm text-muted-foreground">
+          Clases de equivalencia ({table.classes.length})
+        </span>
+        <div className="flex flex-wrap gap-2">
+          {table.classes.map(block => (
+            <span key={block.join(',')} className="rounded-md border bg-muted/50 px-2 py-1 font-mono text-sm">
+              {'{' + block.join(', ') + '}'}
+            </span>
+          ))}
+        </div>
+        {table.unreachableStates.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+            Inalcanzables (fuera de la tabla):
+            {table.unreachableStates.map(state => (
+              <Badge key={state} variant="outline" className="font-mono">{state}</Badge>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+'use client';
+
+/**
+ * Comparación del tamaño de la ER según el orden de eliminación de estados
+ * y según el método (Arden frente a eliminación de estados)
+ */
+
+import { EliminationOrderComparison, State } from '@/lib/types/automata';
+import { eliminationHeuristicLabels } from '@/lib/algorithms/lexical/af-to-er';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+interface EliminationOrderComparisonTableProps {
+  comparisons: EliminationOrderComparison[];
+  states: State[];
+  currentOrder?: string[]; // Orden usado en el resultado mostrado
+  methods?: {
+    ardenRegex: string;
+    lengths: { arden: number; stateElimination: number; difference: number };
+  };
+  onApply?: (order: string[]) => void; // Usar un orden como orden personalizado
+  className?: string;
+}
+
+const comparisonLabels: Record<EliminationOrderComparison['heuristic'], string> = {
+  ...eliminationHeuristicLabels,
+  'exhaustive-best': 'Mejor orden posible',
+  'exhaustive-worst': 'Peor orden posible',
+};
+
+export function EliminationOrderComparisonTable({
+  comparisons,
+  states,
+  currentOrder,
+  methods,
+  onApply,
+  className,
+}: EliminationOrderComparisonTableProps) {
+  const labels = new Map(states.map(s => [s.id, s.label]));
+  const shortest = Math.min(...comparisons.map(c => c.length));
+  const currentKey = currentOrder?.join(',');
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="font-bold">Criterio</TableHead>
+              <TableHead className="font-bold">Orden</TableHead>
+              <TableHead className="font-bold text-right">Longitud</TableHead>
+              <TableHead className="font-bold text-right">Símbolos</TableHead>
+              <TableHead className="font-bold">Expresión regular</TableHead>
+              {onApply && <TableHead />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {comparisons.map(c => (
+              <TableRow
+                key={c.heuristic}
+                className={cn(c.length === shortest && 'bg-green-500/10')}
+              >
+                <TableCell className="font-medium">
+                  {comparisonLabels[c.heuristic]}
+                  {c.order.join(',') === currentKey && (
+                    <Badge variant="outline" className="ml-2">Actual</Badge>
+                  )}
+                </TableCell>
+                <TableCell className="font-mono text-xs">
+                  {c.order.map(id => labels.get(id) ?? id).join(' → ')}
+                </TableCell>
+                <TableCell className="text-right font-mono">{c.length}</TableCell>
+                <TableCell className="text-right font-mono">{c.symbolCount}</TableCell>
+                <TableCell className="font-mono text-xs break-all">{c.regex}</TableCell>
+                {onApply && (
+                  <TableCell>
+                    <Button variant="ghost" size="sm" onClick={() => onApply(c.order)}>
+                      Usar
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Todos los órdenes producen expresiones equivalentes; solo cambia su tamaño.{' '}
+        <span className="rounded bg-green-500/10 px-1">Resaltadas</span>: expresiones más cortas. El mejor y el
+        peor orden se calculan probando todas las permutaciones cuando el autómata tiene a lo sumo 5 estados
+        (se eligen por la longitud de la ER antes de simplificarla).
+      </p>
+
+      {methods && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">Arden frente a Eliminación de Estados</h4>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm">
+            <div className="rounded-lg bg-muted/50 p-3">
+              <div className="text-muted-foreground">Arden</div>
+              <div className="text-lg font-bold">{methods.lengths.arden} caracteres</div>
+              <code className="text-xs break-all">{methods.ardenRegex}</code>
+            </div>
+            <div className="rounded-lg bg-muted/50 p-3">
+              <div className="text-muted-foreground">Eliminación de estados</div>
+              <div className="text-lg font-bold">{methods.lengths.stateElimination} caracteres</div>
+            </div>
+            <div className="rounded-lg bg-muted/50 p-3">
+              <div className="text-muted-foreground">Diferencia</div>
+              <div className="text-lg font-bold">
+                {methods.lengths.difference === 0
+                  ? 'Igual longitud'
+                  : `${Math.abs(methods.lengths.difference)} caracteres`}
+              </div>
+              {methods.lengths.difference !== 0 && (
+                <div className="text-xs text-muted-foreground">
+                  Más corta: {methods.lengths.difference > 0 ? 'eliminación de estados' : 'Arden'}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
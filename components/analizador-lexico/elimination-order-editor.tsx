@@ -0,0 +1,65 @@
+'use client';
+
+/**
+ * Editor del orden personalizado de eliminación de estados (AF → ER)
+ * Los estados se reordenan con los botones subir/bajar; I y F no se eliminan
+ */
+
+import { State } from '@/lib/types/automata';
+import { Button } from '@/components/ui/button';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface EliminationOrderEditorProps {
+  states: State[];
+  order: string[]; // IDs de estados; los que falten se muestran al final
+  onChange: (order: string[]) => void;
+  className?: string;
+}
+
+export function EliminationOrderEditor({ states, order, onChange, className }: EliminationOrderEditorProps) {
+  const ids = states.map(s => s.id);
+  const known = Array.from(new Set(order.filter(id => ids.includes(id))));
+  const resolved = [...known, ...ids.filter(id => !known.includes(id))];
+  const labels = new Map(states.map(s => [s.id, s.label]));
+
+  const move = (index: number, offset: number) => {
+    const next = [...resolved];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <ol className="space-y-1">
+        {resolved.map((id, index) => (
+          <li key={id} className="flex items-center gap-2 rounded-md border bg-muted/30 px-3 py-1">
+            <span className="w-6 text-xs text-muted-foreground">{index + 1}.</span>
+            <span className="flex-1 font-mono text-sm font-semibold">{labels.get(id) ?? id}</span>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => move(index, -1)}
+              disabled={index === 0}
+              title="Eliminar antes"
+            >
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => move(index, 1)}
+              disabled={index === resolved.length - 1}
+              title="Eliminar después"
+            >
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+          </li>
+        ))}
+      </ol>
+      <p className="text-xs text-muted-foreground">
+        Los estados se eliminan de arriba hacia abajo. Los estados nuevos I y F nunca se eliminan.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+'use client';
+
+/**
+ * Traza de la eliminación de transiciones ε (AFN-ε → AFN)
+ * Muestra la ε-cerradura de cada estado, las transiciones que genera y si pasa
+ * a ser final; al seleccionar un estado se resalta su cerradura en el AFN-ε y
+ * sus transiciones en el AFN resultante
+ */
+
+import { useState } from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Automaton, EpsilonElimination } from '@/lib/types/automata';
+import { cn } from '@/lib/utils';
+import { AutomataGraphCytoscape } from './automata-graph-cytoscape';
+
+interface EpsilonEliminationStepsProps {
+  source: Automaton; // AFN-ε de origen
+  elimination: EpsilonElimination;
+  className?: string;
+}
+
+export function EpsilonEliminationSteps({ source, elimination, className }: EpsilonEliminationStepsProps) {
+  const [selected, setSelected] = useState<number | null>(null);
+
+  const { automaton, steps } = elimination;
+  const step = selected !== null ? steps[selected] : undefined;
+  const stateLabel = (stateId: string) => source.states.find(s => s.id === stateId)?.label ?? stateId;
+  const addedCount = steps.reduce((total, s) => total + (s.unreachable ? 0 : s.added.length), 0);
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+        <div className="bg-muted/50 rounded-lg p-3">
+          <span className="text-muted-foreground block">Transiciones ε eliminadas</span>
+          <span className="font-medium">{elimination.removedEpsilon}</span>
+        </div>
+        <div className="bg-muted/50 rounded-lg p-3">
+          <span className="text-muted-foreground block">Transiciones agregadas</span>
+          <span className="font-medium">{addedCount}</span>
+        </div>
+        <div className="bg-muted/50 rounded-lg p-3">
+          <span className="text-muted-foreground block">Nuevos estados finales</span>
+          <span className="font-medium font-mono">
+            {steps.filter(s => s.becomesFinal && !s.unreachable).map(s => stateLabel(s.state)).join(', ') || 'Ninguno'}
+          </span>
+        </div>
+        <div className="bg-muted/50 rounded-lg p-3">
+          <span className="text-muted-foreground block">Estados inalcanzables</span>
+          <span className="font-medium font-mono">
+            {elimination.removedStates.map(stateLabel).join(', ') || 'Ninguno'}
+          </span>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">
+            AFN-ε {step && <span className="font-normal text-muted-foreground">· ε-cerradura({stateLabel(step.state)})</span>}
+          </h4>
+          <AutomataGraphCytoscape
+            automaton={source}
+            highlightedStates={step?.closure}
+            highlightedTransitions={step
+              ? source.transitions.filter(t => t.symbol === 'ε' && step.closure.includes(t.from) && step.closure.includes(t.to))
+              : undefined}
+            className="h-72"
+          />
+        </div>
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">
+            AFN sin transiciones ε {step && <span className="font-normal text-muted-foreground">· δ&apos;({stateLabel(step.state)}, a)</span>}
+          </h4>
+          <AutomataGraphCytoscape
+            automaton={automaton}
+            highlightedStates={step && !step.unreachable ? [step.state] : undefined}
+            highlightedTransitions={step && !step.unreachable ? step.transitions : undefined}
+            className="h-72"
+          />
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        δ&apos;(p, a) = move(ε-cerradura(p), a), y p es final si su ε-cerradura contiene un estado final.
+        Selecciona un estado para resaltar su cerradura y sus transiciones.
+      </p>
+      {step && (
+        <div className="rounded-lg border bg-muted/30 p-3 text-sm font-mono">{step.description}</div>
+      )}
+
+      <div className="rounded-md border overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-16">Estado</TableHead>
+              <TableHead>ε-cerradura</TableHead>
+              <TableHead>Transiciones en el AFN</TableHead>
+              <TableHead>Observaciones</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {steps.map((s, index) => (
+              <TableRow
+                key={s.state}
+                onClick={() => setSelected(selected === index ? null : index)}
+                className={cn('cursor-pointer', selected === index && 'bg-primary/10', s.unreachable && 'text-muted-foreground')}
+              >
+                <TableCell className="font-mono font-medium">{stateLabel(s.state)}</TableCell>
+                <TableCell className="font-mono whitespace-nowrap">
+                  {'{' + s.closure.map(stateLabel).join(', ') + '}'}
+                </TableCell>
+                <TableCell className="font-mono">
+                  <div className="flex flex-wrap gap-1">
+                    {s.transitions.length === 0 && <span className="text-muted-foreground">∅</span>}
+                    {s.transitions.map((t, i) => {
+                      const isAdded = s.added.includes(t);
+                      return (
+                        <span
+                          key={i}
+                          className={cn(
+                            'rounded px-1.5 py-0.5 whitespace-nowrap',
+                            isAdded ? 'bg-blue-500/15 text-blue-700 dark:text-blue-300' : 'bg-muted'
+                          )}
+                          title={isAdded ? 'Transición agregada' : 'Transición del AFN-ε'}
+                        >
+                          {stateLabel(t.from)} —{t.symbol}→ {stateLabel(t.to)}
+                        </span>
+                      );
+                    })}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {s.removedEpsilon > 0 && (
+                      <Badge variant="outline">{s.removedEpsilon} ε eliminada(s)</Badge>
+                    )}
+                    {s.becomesFinal && <Badge variant="secondary">Pasa a ser final</Badge>}
+                    {s.unreachable && <Badge variant="destructive">Inalcanzable</Badge>}
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
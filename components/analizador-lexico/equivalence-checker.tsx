@@ -0,0 +1,188 @@
+'use client';
+
+/**
+ * Comparación de la respuesta de un estudiante con una expresión regular
+ * de referencia. La respuesta puede ser otra expresión regular o un autómata
+ * dibujado; si los lenguajes difieren se muestra la cadena distinguidora más corta.
+ */
+
+import { useState } from 'react';
+import { Automaton, EquivalenceResult } from '@/lib/types/automata';
+import { formatCounterexample } from '@/lib/algorithms/lexical/equivalence';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { SegmentedControl } from '@/components/shared/segmented-control';
+import { SymbolSlider, commonSymbols } from '@/components/shared/symbol-slider';
+import { AutomataEditor } from './automata-editor';
+import { CheckCircle2, Scale, XCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+export interface EquivalenceReference {
+  value: string; // Identificador del método
+  label: string; // Nombre mostrado
+  regex: string; // Expresión regular obtenida
+}
+
+interface EquivalenceCheckerProps {
+  references: EquivalenceReference[];
+  onCheck: (referenceRegex: string, answer: string | Automaton) => EquivalenceResult | null;
+  error?: string | null;
+  className?: string;
+}
+
+const answerOptions = [
+  { value: 'regex', label: 'Expresión Regular' },
+  { value: 'automaton', label: 'Autómata' },
+];
+
+export function EquivalenceChecker({ references, onCheck, error, className }: EquivalenceCheckerProps) {
+  const [answerMode, setAnswerMode] = useState<'regex' | 'automaton'>('regex');
+  const [answerRegex, setAnswerRegex] = useState('');
+  const [answerAutomaton, setAnswerAutomaton] = useState<Automaton | null>(null);
+  const [referenceValue, setReferenceValue] = useState(references[0]?.value ?? '');
+  const [result, setResult] = useState<EquivalenceResult | null>(null);
+
+  const reference = references.find(r => r.value === referenceValue) ?? references[0];
+
+  const canCheck = !!reference && (answerMode === 'regex'
+    ? answerRegex.trim() !== ''
+    : !!answerAutomaton && answerAutomaton.states.length > 0);
+
+  const handleCheck = () => {
+    if (!reference) return;
+    const answer = answerMode === 'regex' ? answerRegex : answerAutomaton;
+    if (!answer) return;
+    setResult(onCheck(reference.regex, answer));
+  };
+
+  const counterexample = result?.counterexample ? formatCounterexample(result.counterexample) : null;
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <div className="flex flex-col sm:flex-row gap-4">
+        {references.length > 1 && (
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Referencia</label>
+            <SegmentedControl
+              options={references.map(r => ({ value: r.value, label: r.label }))}
+              value={reference?.value ?? ''}
+              onChange={(v) => {
+                setReferenceValue(v);
+                setResult(null);
+              }}
+            />
+          </div>
+        )}
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Tu respuesta</label>
+          <SegmentedControl
+            options={answerOptions}
+            value={answerMode}
+            onChange={(v) => {
+              setAnswerMode(v as 'regex' | 'automaton');
+              setResult(null);
+            }}
+          />
+        </div>
+      </div>
+
+      {reference && (
+        <div className="rounded-md bg-muted px-3 py-2 text-sm">
+          <span className="text-muted-foreground mr-2">ER de referencia:</span>
+          <code className="font-mono break-all">{reference.regex}</code>
+        </div>
+      )}
+
+      {answerMode === 'regex' ? (
+        <div className="space-y-2">
+          <Input
+            value={answerRegex}
+            onChange={(e) => {
+              setAnswerRegex(e.target.value);
+              setResult(null);
+            }}
+            placeholder="Ej: (a|b)*abb"
+            className="font-mono"
+          />
+          <SymbolSlider
+            symbols={commonSymbols.regex}
+            onSelect={(symbol) => {
+              setAnswerRegex(answerRegex + symbol);
+              setResult(null);
+            }}
+            variant="outline"
+          />
+        </div>
+      ) : (
+        <AutomataEditor
+          onChange={(automaton) => {
+            setAnswerAutomaton(automaton);
+            setResult(null);
+          }}
+          initialAutomaton={answerAutomaton || undefined}
+        />
+      )}
+
+      <Button onClick={handleCheck} disabled={!canCheck} className="gap-2">
+        <Scale className="h-4 w-4" />
+        Comprobar equivalencia
+      </Button>
+
+      {error && (
+        <div className="rounded-lg bg-destructive/10 border border-destructive/20 p-3 text-sm text-destructive">
+          {error}
+        </div>
+      )}
+
+      {result && (
+        <div
+          className={cn(
+            'flex items-start gap-3 rounded-lg border p-4',
+            result.equivalent
+              ? 'border-green-500/20 bg-green-500/10'
+              : 'border-red-500/20 bg-red-500/10'
+          )}
+        >
+          {result.equivalent ? (
+            <CheckCircle2 className="size-6 shrink-0 text-green-600 dark:text-green-400" />
+          ) : (
+            <XCircle className="size-6 shrink-0 text-red-600 dark:text-red-400" />
+          )}
+          <div className="min-w-0 flex-1 space-y-2 text-sm">
+            <Badge
+              variant="secondary"
+              className={cn(
+                'text-sm',
+                result.equivalent
+                  ? 'bg-green-500/20 text-green-700 dark:text-green-400'
+                  : 'bg-red-500/20 text-red-700 dark:text-red-400'
+              )}
+            >
+              {result.equivalent ? 'EQUIVALENTES' : 'NO EQUIVALENTES'}
+            </Badge>
+
+            {result.equivalent ? (
+              <p>Tu respuesta describe exactamente el mismo lenguaje que la referencia.</p>
+            ) : (
+              <p>
+                La cadena{' '}
+                <code className="rounded bg-background px-1.5 py-0.5 font-mono font-semibold">
+                  {counterexample}
+                </code>{' '}
+                {result.acceptedBy === 'first'
+                  ? 'es aceptada por la referencia pero no por tu respuesta.'
+                  : 'es aceptada por tu respuesta pero no por la referencia.'}
+                {' '}Es la cadena distinguidora más corta.
+              </p>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              Σ = {'{' + result.alphabet.join(', ') + '}'} · {result.exploredPairs} pares de estados explorados en el autómata producto
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,10 +6,33 @@ export { AutomataGraphCytoscape } from './automata-graph-cytoscape';
 export { AutomataEditor } from './automata-editor';
 export { AutomataHelpModal } from './automata-help-modal';
 export { SyntaxTreeCytoscape } from './syntax-tree-cytoscape';
+export { ThompsonSteps } from './thompson-steps';
+export { EpsilonEliminationSteps } from './epsilon-elimination-steps';
 export { TransitionTable } from './transition-table';
 export { TransitionTableEditor } from './transition-table-editor';
 export { SubsetStatesTable } from './subset-states-table';
+export { DerivativeSteps } from './derivative-steps';
+export { DFAConstructionComparisonView } from './dfa-construction-comparison';
+export { MinimizationSteps } from './minimization-steps';
+export { ScannerCodePreview } from './scanner-code-preview';
+export { EquivalenceChecker } from './equivalence-checker';
+export { EliminationOrderEditor } from './elimination-order-editor';
+export { StateEliminationSteps } from './state-elimination-steps';
+export { EliminationOrderComparisonTable } from './elimination-order-comparison';
+export { KleeneTables } from './kleene-tables';
+export { RegexSimplificationSteps } from './regex-simplification-steps';
+export { AutomatonSourceInput } from './automaton-source-input';
+export type { AutomatonSource } from './automaton-source-input';
 export { FollowposTable } from './followpos-table';
 export { StringRecognition } from './string-recognition';
 export { StringRecognitionVisualizer } from './string-recognition-visualizer';
+export { TestSuiteEditor, BatchTestResults } from './batch-string-testing';
+export { ComputationTreeView } from './computation-tree';
+export { LanguageSummary } from './language-summary';
+export { DistinguishabilityTableView } from './distinguishability-table';
+export { GrammarToAutomatonView, AutomatonToGrammarView } from './regular-grammar-conversion';
+export { AutomatonFileActions } from './automaton-file-actions';
+export { AutomatonLintPanel } from './automaton-lint-panel';
+export { TokenDefinitionsEditor } from './token-definitions-editor';
+export { LexerScanTrace } from './lexer-scan-trace';
 export { LanguageInput } from './language-input';
@@ -0,0 +1,140 @@
+'use client';
+
+/**
+ * Tablas R(i,j,k) del método de Kleene (McNaughton–Yamada) para AF → ER
+ * Muestra una tabla por cada k, resaltando las entradas que cambian al admitir
+ * el estado k como intermedio, la ER final y su tamaño frente a otros métodos.
+ * Si las tablas se construyeron sobre el autómata recortado o su AFD mínimo, lo indica
+ */
+
+import { useState } from 'react';
+import { KleeneResult } from '@/lib/types/automata';
+import { measureRegex } from '@/lib/algorithms/lexical/af-to-er';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+interface KleeneTablesProps {
+  result: KleeneResult;
+  references?: Array<{ label: string; regex: string }>; // ER de otros métodos para comparar tamaños
+  className?: string;
+}
+
+export function KleeneTables({ result, references = [], className }: KleeneTablesProps) {
+  const [k, setK] = useState(result.tables.length - 1);
+  const table = result.tables[Math.min(k, result.tables.length - 1)];
+
+  const labels = new Map(result.automaton.states.map(s => [s.id, s.label]));
+  const label = (id: string) => labels.get(id) ?? id;
+  const numbered = result.states.map((id, index) => `${index + 1} (${label(id)})`);
+
+  const sizes = [{ label: 'Kleene', regex: result.regex }, ...references]
+    .map(ref => ({ ...ref, ...measureRegex(ref.regex) }));
+  const shortest = Math.min(...sizes.map(s => s.length));
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      {/* Autómata sobre el que se construyeron las tablas */}
+      {result.reduction !== 'none' && (
+        <div className="rounded-md bg-muted/50 p-3 text-sm text-muted-foreground">
+          {result.reduction === 'trimmed'
+            ? `Se descartaron los estados ${result.removedStates.join(', ')} (inalcanzables o sin camino a un estado final); las tablas usan los ${result.states.length} estados restantes.`
+            : `El autómata tiene demasiados estados útiles para las tablas: se usa su AFD mínimo equivalente (${result.states.length} estados).`}
+        </div>
+      )}
+
+      {/* Selector de k */}
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium">k =</span>
+        {result.tables.map(t => (
+          <Button
+            key={t.k}
+            size="sm"
+            variant={t.k === table.k ? 'default' : 'outline'}
+            onClick={() => setK(t.k)}
+            className="font-mono"
+          >
+            {t.k}
+          </Button>
+        ))}
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        {table.k === 0
+          ? 'R(i,j,0): símbolos que van directamente de i a j, más ε en la diagonal (caminos sin estados intermedios).'
+          : `R(i,j,${table.k}) = R(i,j,${table.k - 1}) | R(i,${table.k},${table.k - 1})·R(${table.k},${table.k},${table.k - 1})*·R(${table.k},j,${table.k - 1}): se admite ${label(table.pivot!)} como estado intermedio.`}
+      </p>
+
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="font-bold">i \ j</TableHead>
+              {numbered.map(name => (
+                <TableHead key={name} className="font-bold text-center">{name}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {table.entries.map((row, i) => (
+              <TableRow key={i}>
+                <TableCell className="font-medium whitespace-nowrap">{numbered[i]}</TableCell>
+                {row.map((regex, j) => (
+                  <TableCell
+                    key={j}
+                    className={cn(
+                      'font-mono text-xs break-all min-w-24 max-w-64',
+                      table.changed[i][j] && 'bg-yellow-100 dark:bg-yellow-900/30',
+                      regex === '∅' && 'text-muted-foreground'
+                    )}
+                  >
+                    {regex}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      {table.k > 0 && (
+        <p className="text-xs text-muted-foreground">
+          <span className="rounded bg-yellow-100 px-1 dark:bg-yellow-900/30">Resaltadas</span>: entradas que
+          cambian respecto de k = {table.k - 1}
+        </p>
+      )}
+
+      {/* Expresión final */}
+      <div className="rounded-lg border bg-muted/30 p-4 space-y-2 text-sm">
+        <div className="font-semibold">
+          ER = {result.finalTerms.length > 0
+            ? result.finalTerms.map(t => `R(1,${result.states.indexOf(t.state) + 1},${result.states.length})`).join(' | ')
+            : '∅ (no hay estados finales)'}
+        </div>
+        <code className="block font-mono break-all text-primary">{result.regex}</code>
+      </div>
+
+      {/* Tamaño frente a otros métodos */}
+      {sizes.length > 1 && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm">
+          {sizes.map(size => (
+            <div
+              key={size.label}
+              className={cn('rounded-lg bg-muted/50 p-3', size.length === shortest && 'ring-1 ring-green-500')}
+            >
+              <div className="text-muted-foreground">{size.label}</div>
+              <div className="text-lg font-bold">{size.length} caracteres</div>
+              <div className="text-xs text-muted-foreground">{size.symbolCount} símbolos</div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+'use client';
+
+/**
+ * Resumen del lenguaje reconocido por un autómata
+ * Muestra si el lenguaje es vacío, finito o infinito, las cadenas aceptada y
+ * rechazada más cortas, cuántas cadenas se aceptan de cada longitud y las
+ * primeras cadenas en orden longitud-lexicográfico
+ */
+
+import { useMemo } from 'react';
+import { Automaton } from '@/lib/types/automata';
+import { analyzeLanguage } from '@/lib/algorithms/lexical/language-analysis';
+import { formatCounterexample } from '@/lib/algorithms/lexical/equivalence';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+
+interface LanguageSummaryProps {
+  automaton: Automaton;
+  maxLength?: number; // Longitud máxima para el conteo y la enumeración
+  maxStrings?: number; // Máximo de cadenas a listar
+  className?: string;
+}
+
+const kindStyles = {
+  empty: 'bg-red-500/20 text-red-700 dark:text-red-400',
+  finite: 'bg-blue-500/20 text-blue-700 dark:text-blue-400',
+  infinite: 'bg-green-500/20 text-green-700 dark:text-green-400',
+};
+
+export function LanguageSummary({ automaton, maxLength = 8, maxStrings = 50, className }: LanguageSummaryProps) {
+  const { analysis, error } = useMemo(() => {
+    try {
+      return { analysis: analyzeLanguage(automaton, { maxLength, maxStrings }), error: null };
+    } catch (err) {
+      return { analysis: null, error: err instanceof Error ? err.message : 'Error al analizar el lenguaje' };
+    }
+  }, [automaton, maxLength, maxStrings]);
+
+  if (!analysis) {
+    return <p className="text-sm text-destructive">{error}</p>;
+  }
+
+  const kindLabel =
+    analysis.kind === 'empty'
+      ? 'Lenguaje vacío'
+      : analysis.kind === 'finite'
+        ? `Finito: ${analysis.size} ${analysis.size === 1 ? 'cadena' : 'cadenas'}`
+        : 'Infinito';
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Badge variant="secondary" className={kindStyles[analysis.kind]}>
+          {kindLabel}
+        </Badge>
+        {analysis.longestLength !== undefined && (
+          <Badge variant="outline">Cadena más larga: longitud {analysis.longestLength}</Badge>
+        )}
+        <span className="text-muted-foreground font-mono">
+          Σ = {'{' + analysis.alphabet.join(', ') + '}'}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+        <div className="rounded-lg bg-muted/50 p-3">
+          <span className="text-muted-foreground block">Aceptada más corta</span>
+          {analysis.shortestAccepted ? (
+            <code className="font-mono font-medium text-green-600 dark:text-green-400">
+              {formatCounterexample(analysis.shortestAccepted)}
+            </code>
+          ) : (
+            <span className="text-muted-foreground">No acepta ninguna cadena</span>
+          )}
+        </div>
+        <div className="rounded-lg bg-muted/50 p-3">
+          <span className="text-muted-foreground block">Rechazada más corta</span>
+          {analysis.shortestRejected ? (
+            <code className="font-mono font-medium text-red-600 dark:text-red-400">
+              {formatCounterexample(analysis.shortestRejected)}
+            </code>
+          ) : (
+            <span className="text-muted-foreground">Acepta todas las cadenas (Σ*)</span>
+          )}
+        </div>
+      </div>
+
+      {/* Cadenas aceptadas por longitud */}
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="font-bold">Longitud n</TableHead>
+              {analysis.countsByLength.map((_, n) => (
+                <TableHead key={n} className="text-center font-mono">{n}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            <TableRow>
+              <TableCell className="font-medium">Aceptadas</TableCell>
+              {analysis.countsByLength.map((count, n) => (
+                <TableCell
+                  key={n}
+                  className={cn('text-center font-mono', count === 0 && 'text-muted-foreground')}
+                >
+                  {count}
+                </TableCell>
+              ))}
+            </TableRow>
+          </TableBody>
+        </Table>
+      </div>
+
+      {/* Enumeración en orden longitud-lexicográfico */}
+      {analysis.strings.length > 0 && (
+        <div className="space-y-2">
+          <span className="text-sm text-muted-foreground">
+            Primeras cadenas aceptadas (orden longitud-lexicográfico)
+          </span>
+          <div className="flex flex-wrap gap-1">
+            {analysis.strings.map(symbols => (
+              <Badge key={symbols.join(' ')} variant="outline" className="font-mono">
+                {formatCounterexample(symbols)}
+              </Badge>
+            ))}
+          </div>
+          {analysis.truncated && (
+            <p className="text-xs text-muted-foreground">
+              Se muestran las cadenas de longitud ≤ {maxLength} (máximo {maxStrings}); el lenguaje tiene más.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
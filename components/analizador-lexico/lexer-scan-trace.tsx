@@ -0,0 +1,196 @@
+'use client';
+
+/**
+ * Traza del analizador léxico: flujo de tokens, escaneo con la regla del
+ * lexema más largo (recorrido del AFD desde cada posición) y estados de
+ * aceptación del AFD con el token que gana en cada uno
+ */
+
+import { useMemo, useState } from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { CompiledLexer, LexerRunResult, LexerScanStep } from '@/lib/types/token';
+import { AutomataGraphCytoscape } from './automata-graph-cytoscape';
+import { cn } from '@/lib/utils';
+
+interface LexerScanTraceProps {
+  lexer: CompiledLexer;
+  result: LexerRunResult;
+  className?: string;
+}
+
+const actionLabels: Record<LexerScanStep['action'], string> = {
+  token: 'Token',
+  ignored: 'Ignorado',
+  skipped: 'Espacio',
+  error: 'Error',
+};
+
+/**
+ * Muestra espacios y saltos de línea de un lexema
+ */
+function visibleLexeme(lexeme: string): string {
+  return lexeme.replace(/\n/g, '↵').replace(/\t/g, '⇥').replace(/ /g, '␣');
+}
+
+export function LexerScanTrace({ lexer, result, className }: LexerScanTraceProps) {
+  const [selected, setSelected] = useState(0);
+  const step = result.steps[Math.min(selected, result.steps.length - 1)];
+
+  // Transiciones recorridas en el paso seleccionado
+  const pathTransitions = useMemo(() => {
+    if (!step) return [];
+    return step.recognition.steps
+      .filter(s => s.symbol !== '')
+      .map(s => ({ from: s.currentState, to: s.nextState, symbol: s.symbol }));
+  }, [step]);
+
+  const acceptingStates = Object.keys(lexer.candidateTokens)
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+
+  return (
+    <div className={cn('space-y-6', className)}>
+      {/* Flujo de tokens */}
+      <div className="space-y-2">
+        <h4 className="text-sm font-semibold">Flujo de Tokens ({result.tokens.length})</h4>
+        {result.tokens.length > 0 ? (
+          <div className="flex flex-wrap gap-2">
+            {result.tokens.map((token, index) => (
+              <Badge
+                key={index}
+                variant="secondary"
+                className="font-mono"
+                title={`Línea ${token.line}, columna ${token.column}`}
+              >
+                ⟨{token.type}, {visibleLexeme(token.lexeme)}⟩
+              </Badge>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No se generaron tokens</p>
+        )}
+
+        {result.errors.length > 0 && (
+          <div className="rounded-md bg-destructive/10 border border-destructive/20 p-3 text-sm text-destructive space-y-1">
+            {result.errors.map((error, index) => (
+              <div key={index}>{error}</div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Escaneo paso a paso */}
+      {result.steps.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">Escaneo con el Lexema Más Largo</h4>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="font-bold">Paso</TableHead>
+                  <TableHead className="font-bold">Lín:Col</TableHead>
+                  <TableHead className="font-bold">Recorrido del AFD</TableHead>
+                  <TableHead className="font-bold">Se detiene</TableHead>
+                  <TableHead className="font-bold">Lexema</TableHead>
+                  <TableHead className="font-bold">Resultado</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.steps.map((s, index) => (
+                  <TableRow
+                    key={s.stepNumber}
+                    onClick={() => setSelected(index)}
+                    className={cn('cursor-pointer', index === selected && 'bg-primary/10')}
+                  >
+                    <TableCell>{s.stepNumber}</TableCell>
+                    <TableCell className="font-mono text-xs">{s.line}:{s.column}</TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {s.path.map((state, i) => (
+                        <span key={i}>
+                          {i > 0 && <span className="text-muted-foreground"> → </span>}
+                          <span
+                            className={cn(
+                              s.pathTokens[i] && 'text-green-600 dark:text-green-400',
+                              i === s.acceptIndex && 'font-bold underline'
+                            )}
+                            title={s.pathTokens[i] ? `Acepta ${s.pathTokens[i]}` : undefined}
+                          >
+                            {state}
+                          </span>
+                        </span>
+                      ))}
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">{s.stopReason}</TableCell>
+                    <TableCell className="font-mono">{visibleLexeme(s.lexeme)}</TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={s.action === 'token' ? 'default' : s.action === 'error' ? 'destructive' : 'outline'}
+                        title={s.description}
+                      >
+                        {s.token ?? actionLabels[s.action]}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            <span className="text-green-600 dark:text-green-400">Verde</span>: estado de aceptación ·{' '}
+            <span className="font-bold underline">Subrayado</span>: último estado de aceptación (fin del lexema)
+          </p>
+        </div>
+      )}
+
+      {/* Detalle del paso seleccionado */}
+      {step && (
+        <div className="space-y-3">
+          <div className="rounded-lg border bg-muted/30 p-4 text-sm">
+            <span className="font-semibold mr-2">Paso {step.stepNumber}:</span>
+            {step.description}
+          </div>
+          <AutomataGraphCytoscape
+            automaton={lexer.dfa}
+            highlightedStates={step.path}
+            targetStates={step.acceptIndex > 0 ? [step.path[step.acceptIndex]] : []}
+            highlightedTransitions={pathTransitions}
+          />
+        </div>
+      )}
+
+      {/* Estados de aceptación */}
+      <div className="space-y-2">
+        <h4 className="text-sm font-semibold">Estados de Aceptación del AFD</h4>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="font-bold">Estado</TableHead>
+                <TableHead className="font-bold">Token</TableHead>
+                <TableHead className="font-bold">También acepta</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {acceptingStates.map(state => (
+                <TableRow key={state}>
+                  <TableCell className="font-medium">{state}</TableCell>
+                  <TableCell className="font-mono font-semibold">{lexer.acceptingTokens[state]}</TableCell>
+                  <TableCell className="font-mono text-muted-foreground line-through">
+                    {lexer.candidateTokens[state].slice(1).join(', ')}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+    </div>
+  );
+}
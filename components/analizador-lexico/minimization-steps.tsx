@@ -0,0 +1,151 @@
+'use client';
+
+/**
+ * Traza de la minimización de un AFD (Moore / Hopcroft)
+ * Muestra el resumen, los estados eliminados y cada ronda de refinamiento
+ * con la partición resultante y el motivo de cada división
+ */
+
+import { MinimizationResult } from '@/lib/types/automata';
+import { Badge } from '@/components/ui/badge';
+import { CopyButton } from '@/components/shared/copy-button';
+import { cn } from '@/lib/utils';
+
+interface MinimizationStepsProps {
+  result: MinimizationResult;
+  className?: string;
+}
+
+const methodLabels: Record<MinimizationResult['method'], string> = {
+  moore: 'Moore',
+  hopcroft: 'Hopcroft',
+};
+
+/**
+ * Muestra una partición como lista de bloques {A, B} {C}
+ */
+function PartitionView({ partitions, highlighted = [] }: { partitions: string[][]; highlighted?: string[][] }) {
+  const highlightedKeys = new Set(highlighted.map(block => block.join(',')));
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {partitions.map((block) => {
+        const key = block.join(',');
+        return (
+          <span
+            key={key}
+            className={cn(
+              'rounded-md border px-2 py-1 font-mono text-sm',
+              highlightedKeys.has(key)
+                ? 'border-yellow-400 bg-yellow-100 dark:border-yellow-700 dark:bg-yellow-900/30'
+                : 'bg-muted/50'
+            )}
+          >
+            {'{' + block.join(', ') + '}'}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
+
+export function MinimizationSteps({ result, className }: MinimizationStepsProps) {
+  const originalCount = result.original.states.length;
+  const minimalCount = result.automaton.states.length;
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      {/* Resumen */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+        <div className="bg-muted/50 rounded-lg p-3">
+          <span className="text-muted-foreground block">Algoritmo</span>
+          <span className="font-medium">{methodLabels[result.method]}</span>
+        </div>
+        <div className="bg-muted/50 rounded-lg p-3">
+          <span className="text-muted-foreground block">Estados Originales</span>
+          <span className="font-medium">{originalCount}</span>
+        </div>
+        <div className="bg-muted/50 rounded-lg p-3">
+          <span className="text-muted-foreground block">Estados Mínimos</span>
+          <span className="font-medium">{minimalCount}</span>
+        </div>
+        <div className="bg-muted/50 rounded-lg p-3">
+          <span className="text-muted-foreground block">Estados Reducidos</span>
+          <span className="font-medium text-green-600 dark:text-green-400">
+            {originalCount - minimalCount}
+          </span>
+        </div>
+      </div>
+
+      {/* Estados eliminados antes/después del refinamiento */}
+      {(result.unreachableStates.length > 0 || result.deadStates.length > 0) && (
+        <div className="rounded-lg border border-yellow-200 dark:border-yellow-800 bg-yellow-50/50 dark:bg-yellow-950/20 p-4 space-y-2 text-sm">
+          {result.unreachableStates.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-medium text-yellow-700 dark:text-yellow-400">Inalcanzables eliminados:</span>
+              {result.unreachableStates.map(state => (
+                <Badge key={state} variant="outline" className="font-mono">{state}</Badge>
+              ))}
+            </div>
+          )}
+          {result.deadStates.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-medium text-yellow-700 dark:text-yellow-400">Estados muertos eliminados:</span>
+              {result.deadStates.map(state => (
+                <Badge key={state} variant="outline" className="font-mono">{state}</Badge>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Rondas de refinamiento */}
+      <div className="space-y-3">
+        {result.steps.map((step) => (
+          <div key={step.stepNumber} className="rounded-lg border bg-card overflow-hidden">
+            <div className={cn(
+              'flex flex-wrap items-center gap-2 px-4 py-2 border-b',
+              step.splits.length > 0 ? 'bg-yellow-500/10' : 'bg-blue-500/10'
+            )}>
+              <Badge variant="outline" className="font-mono">
+                {step.round === 0 ? 'Π₀' : `Paso ${step.stepNumber}`}
+              </Badge>
+              <span className="font-medium text-sm">{step.description}</span>
+            </div>
+            <div className="p-4 space-y-3">
+              <PartitionView
+                partitions={step.partitions}
+                highlighted={step.splits.flatMap(split => split.into)}
+              />
+              {step.splits.length > 0 && (
+                <ul className="space-y-1 text-sm text-muted-foreground">
+                  {step.splits.map((split, idx) => (
+                    <li key={idx}>
+                      <span className="font-mono">{'{' + split.block.join(', ') + '}'}</span>
+                      {' → '}
+                      <span className="font-mono">
+                        {split.into.map(block => '{' + block.join(', ') + '}').join(' ')}
+                      </span>
+                      <span className="ml-2">({split.reason})</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Partición final */}
+      <div className="rounded-lg border border-green-200 dark:border-green-800 bg-green-50/50 dark:bg-green-950/20 p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="text-sm font-semibold text-green-700 dark:text-green-400">
+            Partición Final (clases de equivalencia)
+          </h4>
+          <CopyButton content={result.partitions.map(block => '{' + block.join(', ') + '}').join(' ')} />
+        </div>
+        <PartitionView partitions={result.partitions} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+'use client';
+
+/**
+ * Traza del simplificador de expresiones regulares
+ * Muestra la expresión original y la simplificada con su tamaño, y cada
+ * reescritura con la identidad aplicada y si se verificó su equivalencia
+ */
+
+import { RegexSimplification } from '@/lib/types/automata';
+import { measureRegex } from '@/lib/algorithms/lexical/af-to-er';
+import { simplificationRuleLabels } from '@/lib/algorithms/lexical/regex-simplifier';
+import { Badge } from '@/components/ui/badge';
+import { CopyButton } from '@/components/shared';
+import { CheckCircle2, XCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface RegexSimplificationStepsProps {
+  simplification: RegexSimplification;
+  alphabet?: string[];
+  className?: string;
+}
+
+export function RegexSimplificationSteps({ simplification, alphabet, className }: RegexSimplificationStepsProps) {
+  const original = measureRegex(simplification.original, alphabet);
+  const simplified = measureRegex(simplification.simplified, alphabet);
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      {/* Resumen */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+        <div className="rounded-lg bg-muted/50 p-3 space-y-1">
+          <div className="text-muted-foreground">Original</div>
+          <code className="block font-mono break-all">{simplification.original}</code>
+          <div className="text-xs text-muted-foreground">
+            {original.length} caracteres · {original.symbolCount} símbolos
+          </div>
+        </div>
+        <div className="rounded-lg bg-primary/5 border border-primary/20 p-3 space-y-1">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-muted-foreground">Simplificada</span>
+            <CopyButton content={simplification.simplified} />
+          </div>
+          <code className="block font-mono break-all text-primary">{simplification.simplified}</code>
+          <div className="text-xs text-muted-foreground">
+            {simplified.length} caracteres · {simplified.symbolCount} símbolos
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Badge variant="outline">{simplification.steps.length} reescrituras</Badge>
+        {simplification.equivalent !== undefined && (
+          <Badge
+            variant="secondary"
+            className={cn(
+              simplification.equivalent
+                ? 'bg-green-500/20 text-green-700 dark:text-green-400'
+                : 'bg-red-500/20 text-red-700 dark:text-red-400'
+            )}
+          >
+            {simplification.equivalent ? 'Equivalente a la original' : 'No equivalente'}
+          </Badge>
+        )}
+        {simplification.truncated && (
+          <span className="text-xs text-muted-foreground">
+            Se alcanzó el máximo de reescrituras; la expresión podría simplificarse más.
+          </span>
+        )}
+      </div>
+
+      {/* Reescrituras */}
+      {simplification.steps.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No se puede aplicar ninguna identidad: la expresión ya está simplificada.
+        </p>
+      ) : (
+        <ol className="space-y-2">
+          {simplification.steps.map(step => (
+            <li key={step.stepNumber} className="rounded-lg border bg-card p-3 space-y-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant="outline" className="font-mono">
+                  Paso {step.stepNumber}
+                </Badge>
+                <span className="font-medium text-sm">{simplificationRuleLabels[step.rule]}</span>
+                <code className="rounded bg-muted px-2 py-0.5 font-mono text-xs">{step.identity}</code>
+                {step.verified !== undefined && (
+                  step.verified ? (
+                    <CheckCircle2 className="h-4 w-4 text-green-500" aria-label="Verificado" />
+                  ) : (
+                    <XCircle className="h-4 w-4 text-destructive" aria-label="No equivalente" />
+                  )
+                )}
+              </div>
+              <div className="font-mono text-sm flex flex-wrap items-center gap-2">
+                <span className="break-all">{step.target}</span>
+                <span className="text-muted-foreground">→</span>
+                <span className="break-all text-primary">{step.replacement}</span>
+              </div>
+              <div className="font-mono text-xs text-muted-foreground break-all">{step.after}</div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
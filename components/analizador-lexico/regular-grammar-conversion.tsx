@@ -0,0 +1,233 @@
+'use client';
+
+/**
+ * Conversión entre gramáticas regulares y autómatas finitos
+ * Indica si una gramática es regular (lineal por la derecha o por la izquierda),
+ * construye el AF equivalente y muestra qué transiciones genera cada producción;
+ * en sentido inverso, obtiene la gramática lineal de un autómata
+ */
+
+import { useMemo, useState } from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { SegmentedControl } from '@/components/shared/segmented-control';
+import { CopyButton } from '@/components/shared/copy-button';
+import { Automaton, RegularGrammarKind, RegularGrammarStep } from '@/lib/types/automata';
+import { Grammar } from '@/lib/types/grammar';
+import {
+  automatonToGrammar,
+  checkRegularGrammar,
+  grammarToAutomaton,
+  regularGrammarKindLabels,
+} from '@/lib/algorithms/lexical/regular-grammar';
+import { grammarToText } from '@/lib/algorithms/syntax/descendente';
+import { cn } from '@/lib/utils';
+import { AutomataGraphCytoscape } from './automata-graph-cytoscape';
+
+interface RegularGrammarStepsTableProps {
+  steps: RegularGrammarStep[];
+  stateLabel: (stateId: string) => string;
+  selected?: number | null;
+  onSelect?: (index: number | null) => void;
+}
+
+/**
+ * Tabla producción ↔ transiciones
+ */
+function RegularGrammarStepsTable({ steps, stateLabel, selected, onSelect }: RegularGrammarStepsTableProps) {
+  return (
+    <div className="rounded-md border overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-12">#</TableHead>
+            <TableHead>Producción</TableHead>
+            <TableHead>Transiciones</TableHead>
+            <TableHead>Descripción</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {steps.map((step, index) => (
+            <TableRow
+              key={index}
+              onClick={onSelect ? () => onSelect(selected === index ? null : index) : undefined}
+              className={cn(onSelect && 'cursor-pointer', selected === index && 'bg-primary/10')}
+            >
+              <TableCell className="text-muted-foreground">{index + 1}</TableCell>
+              <TableCell className="font-mono whitespace-nowrap">{step.production}</TableCell>
+              <TableCell className="font-mono">
+                <div className="flex flex-wrap gap-1">
+                  {step.transitions.map((t, i) => (
+                    <span key={i} className="rounded bg-muted px-1.5 py-0.5 whitespace-nowrap">
+                      {stateLabel(t.from)} —{t.symbol}→ {stateLabel(t.to)}
+                    </span>
+                  ))}
+                  {step.finalState && (
+                    <Badge variant="outline" className="font-mono">
+                      {stateLabel(step.finalState)} final
+                    </Badge>
+                  )}
+                </div>
+              </TableCell>
+              <TableCell className="text-sm text-muted-foreground">{step.description}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+interface GrammarToAutomatonViewProps {
+  grammar: Grammar;
+  className?: string;
+}
+
+/**
+ * Detección de gramática regular y construcción del AF equivalente
+ */
+export function GrammarToAutomatonView({ grammar, className }: GrammarToAutomatonViewProps) {
+  const check = useMemo(() => checkRegularGrammar(grammar), [grammar]);
+  const { conversion, error } = useMemo(() => {
+    if (!check.kind) return { conversion: null, error: null };
+    try {
+      return { conversion: grammarToAutomaton(grammar), error: null };
+    } catch (err) {
+      return { conversion: null, error: err instanceof Error ? err.message : 'Error al construir el autómata' };
+    }
+  }, [grammar, check]);
+
+  const [selected, setSelected] = useState<number | null>(null);
+
+  if (!check.kind) {
+    return (
+      <div className={cn('space-y-3', className)}>
+        <p className="text-sm text-muted-foreground">
+          Una gramática es regular si todas sus producciones son de la forma A → wB | w (lineal por la derecha)
+          o todas de la forma A → Bw | w (lineal por la izquierda), con w una cadena de terminales.
+        </p>
+        <div className="rounded-lg border border-amber-500/30 bg-amber-500/10 p-3 text-sm space-y-1">
+          <div className="font-medium text-amber-700 dark:text-amber-400">La gramática no es regular</div>
+          <ul className="space-y-1">
+            {check.issues.map((issue, index) => (
+              <li key={index}>
+                <code className="font-mono font-medium">{issue.production}</code>: {issue.reason}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    );
+  }
+
+  if (!conversion) {
+    return <p className="text-sm text-destructive">{error}</p>;
+  }
+
+  const highlighted = selected !== null ? conversion.steps[selected]?.transitions : undefined;
+  const finalState = selected !== null ? conversion.steps[selected]?.finalState : undefined;
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Badge variant="secondary">{regularGrammarKindLabels[conversion.kind]}</Badge>
+        <Badge variant="outline">
+          {conversion.automaton.type === 'DFA' ? 'AFD' : conversion.automaton.type === 'NFA' ? 'AFN' : 'AFN-ε'}
+        </Badge>
+        <span className="text-muted-foreground">
+          {conversion.kind === 'right-linear'
+            ? 'Cada no terminal es un estado; el símbolo inicial es el estado inicial.'
+            : `Cada no terminal es un estado; se agrega el estado inicial ${conversion.automaton.states.find(s => s.isInitial)?.label} y ${grammar.startSymbol} es el estado final.`}
+        </span>
+      </div>
+
+      <AutomataGraphCytoscape
+        automaton={conversion.automaton}
+        highlightedTransitions={highlighted}
+        highlightedStates={finalState ? [finalState] : undefined}
+        className="h-72"
+      />
+
+      <p className="text-xs text-muted-foreground">
+        Selecciona una producción para resaltar en el grafo las transiciones que genera.
+      </p>
+      <RegularGrammarStepsTable
+        steps={conversion.steps}
+        stateLabel={stateId => stateId}
+        selected={selected}
+        onSelect={setSelected}
+      />
+    </div>
+  );
+}
+
+interface AutomatonToGrammarViewProps {
+  automaton: Automaton;
+  className?: string;
+}
+
+/**
+ * Gramática lineal (por la derecha o por la izquierda) equivalente a un autómata
+ */
+export function AutomatonToGrammarView({ automaton, className }: AutomatonToGrammarViewProps) {
+  const [kind, setKind] = useState<RegularGrammarKind>('right-linear');
+
+  const { conversion, error } = useMemo(() => {
+    try {
+      return { conversion: automatonToGrammar(automaton, kind), error: null };
+    } catch (err) {
+      return { conversion: null, error: err instanceof Error ? err.message : 'Error al construir la gramática' };
+    }
+  }, [automaton, kind]);
+
+  const kindOptions = (Object.keys(regularGrammarKindLabels) as RegularGrammarKind[]).map(value => ({
+    value,
+    label: regularGrammarKindLabels[value],
+  }));
+
+  const stateLabel = (stateId: string) => automaton.states.find(s => s.id === stateId)?.label ?? stateId;
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          {kind === 'right-linear'
+            ? 'p —a→ q genera P → aQ y cada estado final P genera P → ε.'
+            : 'p —a→ q genera Q → Pa y el no terminal del estado inicial deriva ε; los estados finales dan el símbolo inicial.'}
+        </p>
+        <SegmentedControl options={kindOptions} value={kind} onChange={value => setKind(value as RegularGrammarKind)} />
+      </div>
+
+      {!conversion ? (
+        <p className="text-sm text-destructive">{error}</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-muted-foreground">No terminales:</span>
+            {automaton.states.map(state => (
+              <span key={state.id} className="rounded-md border bg-muted/50 px-2 py-0.5 font-mono">
+                {state.label} → {conversion.nonTerminalOf[state.id]}
+              </span>
+            ))}
+          </div>
+
+          <div className="relative rounded-lg border bg-muted/30 p-3">
+            <CopyButton content={grammarToText(conversion.grammar)} className="absolute right-2 top-2" />
+            <pre className="font-mono text-sm whitespace-pre-wrap">
+              {grammarToText(conversion.grammar) || `${conversion.grammar.startSymbol} (sin producciones: lenguaje vacío)`}
+            </pre>
+          </div>
+
+          <RegularGrammarStepsTable steps={conversion.steps} stateLabel={stateLabel} />
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+/**
+ * Vista previa y descarga del código de un escáner generado a partir de un AFD
+ * Permite elegir el lenguaje (TypeScript, C, Python) y el estilo (tabla o switch)
+ */
+
+import { useMemo, useState } from 'react';
+import { Automaton, ScannerLanguage, ScannerStyle } from '@/lib/types/automata';
+import { generateScanner, scannerLanguageLabels, scannerStyleLabels } from '@/lib/algorithms/lexical/scanner-generator';
+import { Button } from '@/components/ui/button';
+import { SegmentedControl } from '@/components/shared/segmented-control';
+import { CopyButton } from '@/components/shared/copy-button';
+import { Download } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ScannerCodePreviewProps {
+  automaton: Automaton;
+  className?: string;
+}
+
+const languageOptions = (Object.keys(scannerLanguageLabels) as ScannerLanguage[])
+  .map(value => ({ value, label: scannerLanguageLabels[value] }));
+
+const styleOptions = (Object.keys(scannerStyleLabels) as ScannerStyle[])
+  .map(value => ({ value, label: scannerStyleLabels[value] }));
+
+export function ScannerCodePreview({ automaton, className }: ScannerCodePreviewProps) {
+  const [language, setLanguage] = useState<ScannerLanguage>('typescript');
+  const [style, setStyle] = useState<ScannerStyle>('table');
+
+  const generated = useMemo(() => {
+    try {
+      return { scanner: generateScanner(automaton, language, style), error: null };
+    } catch (err) {
+      return { scanner: null, error: err instanceof Error ? err.message : 'Error al generar el escáner' };
+    }
+  }, [automaton, language, style]);
+
+  const handleDownload = () => {
+    if (!generated.scanner) return;
+
+    const blob = new Blob([generated.scanner.code], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = generated.scanner.fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <SegmentedControl
+            options={languageOptions}
+            value={language}
+            onChange={(v) => setLanguage(v as ScannerLanguage)}
+          />
+          <SegmentedControl
+            options={styleOptions}
+            value={style}
+            onChange={(v) => setStyle(v as ScannerStyle)}
+          />
+        </div>
+
+        {generated.scanner && (
+          <div className="flex items-center gap-1">
+            <CopyButton content={generated.scanner.code} />
+            <Button variant="outline" size="sm" onClick={handleDownload} className="gap-2">
+              <Download className="h-4 w-4" />
+              {generated.scanner.fileName}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {generated.error ? (
+        <div className="rounded-md bg-destructive/10 border border-destructive/20 p-3 text-sm text-destructive">
+          {generated.error}
+        </div>
+      ) : (
+        <pre className="max-h-125 overflow-auto rounded-lg border bg-muted/30 p-4 text-xs font-mono leading-relaxed">
+          <code>{generated.scanner?.code}</code>
+        </pre>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        El programa implementa <span className="font-mono">longestMatch</span> (prefijo aceptado más largo) y{' '}
+        <span className="font-mono">accepts</span> (cadena completa); al ejecutarlo con una cadena como argumento
+        indica si es aceptada y cuál es su lexema más largo.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+'use client';
+
+/**
+ * Traza del método de eliminación de estados (AF → ER)
+ * Muestra el AFN generalizado después de cada paso, con las aristas
+ * etiquetadas por expresiones regulares y resaltando las que se actualizaron
+ */
+
+import { useMemo, useState } from 'react';
+import { StateEliminationStep } from '@/lib/types/automata';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AutomataGraphCytoscape } from './automata-graph-cytoscape';
+import { SkipBack, SkipForward } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface StateEliminationStepsProps {
+  steps: StateEliminationStep[];
+  className?: string;
+}
+
+const actionLabels: Record<StateEliminationStep['action'], string> = {
+  init: 'Inicial',
+  'add-states': 'Agregar Estados',
+  eliminate: 'Eliminar Estado',
+  final: 'Final',
+};
+
+export function StateEliminationSteps({ steps, className }: StateEliminationStepsProps) {
+  // El paso 0 (ecuaciones de Arden de referencia) se muestra en otra sección
+  const visibleSteps = useMemo(() => steps.filter(s => s.stepNumber !== 0), [steps]);
+  const [current, setCurrent] = useState(0);
+  const step = visibleSteps[Math.min(current, visibleSteps.length - 1)];
+
+  const updatedTransitions = useMemo(
+    () => (step?.updatedTransitions ?? []).map(t => ({ from: t.from, to: t.to, symbol: t.regex })),
+    [step]
+  );
+
+  if (!step) return null;
+
+  const labels = new Map(step.gnfa?.states.map(s => [s.id, s.label]) ?? []);
+  const label = (id: string) => labels.get(id) ?? id;
+  const isUpdated = (from: string, to: string) =>
+    updatedTransitions.some(t => t.from === from && t.to === to);
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      {/* Navegación entre pasos */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => setCurrent(current - 1)}
+          disabled={current === 0}
+          title="Paso anterior"
+        >
+          <SkipBack className="h-4 w-4" />
+        </Button>
+        {visibleSteps.map((s, index) => (
+          <Button
+            key={s.stepNumber}
+            size="sm"
+            variant={index === current ? 'default' : 'outline'}
+            onClick={() => setCurrent(index)}
+            title={s.description}
+            className="font-mono"
+          >
+            {s.action === 'eliminate' && s.eliminatedState ? `−${label(s.eliminatedState)}` : s.stepNumber}
+          </Button>
+        ))}
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => setCurrent(current + 1)}
+          disabled={current === visibleSteps.length - 1}
+          title="Paso siguiente"
+        >
+          <SkipForward className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div
+        className={cn(
+          'rounded-lg border bg-card overflow-hidden',
+          step.action === 'final' && 'border-primary bg-primary/5'
+        )}
+      >
+        <div className={cn(
+          'flex items-center gap-2 px-4 py-2 border-b',
+          step.action === 'eliminate' && 'bg-yellow-500/10',
+          step.action === 'add-states' && 'bg-blue-500/10',
+          step.action === 'final' && 'bg-green-500/10'
+        )}>
+          <Badge variant="outline" className="font-mono">
+            Paso {step.stepNumber}
+          </Badge>
+          <Badge
+            variant="secondary"
+            className={cn(
+              step.action === 'eliminate' && 'bg-yellow-500/20 text-yellow-700 dark:text-yellow-400',
+              step.action === 'add-states' && 'bg-blue-500/20 text-blue-700 dark:text-blue-400',
+              step.action === 'final' && 'bg-green-500/20 text-green-700 dark:text-green-400'
+            )}
+          >
+            {actionLabels[step.action]}
+          </Badge>
+          <span className="font-medium text-sm">{step.description}</span>
+        </div>
+
+        <div className="p-4 space-y-3">
+          {step.explanation && (
+            <p className="text-sm text-muted-foreground whitespace-pre-line">
+              {step.explanation}
+            </p>
+          )}
+
+          {step.gnfa && (
+            <AutomataGraphCytoscape
+              automaton={step.gnfa}
+              highlightedTransitions={updatedTransitions}
+            />
+          )}
+
+          {step.transitions.length > 0 && (
+            <div>
+              <p className="text-xs font-medium text-muted-foreground mb-2">Transiciones:</p>
+              <div className="space-y-1">
+                {step.transitions
+                  .filter(t => t.regex !== '∅')
+                  .map((t, index) => (
+                    <div
+                      key={index}
+                      className={cn(
+                        'rounded-md bg-muted px-3 py-2 font-mono text-sm flex items-center gap-2',
+                        isUpdated(t.from, t.to) && 'bg-yellow-100 dark:bg-yellow-900/30'
+                      )}
+                    >
+                      <span className="font-semibold">{label(t.from)}</span>
+                      <span className="text-muted-foreground">→</span>
+                      <span className="font-semibold">{label(t.to)}</span>
+                      <span className="text-muted-foreground">:</span>
+                      <span className="text-primary break-all">{t.regex}</span>
+                    </div>
+                  ))}
+              </div>
+            </div>
+          )}
+
+          {updatedTransitions.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              <span className="rounded bg-yellow-100 px-1 dark:bg-yellow-900/30">Resaltadas</span>: aristas creadas
+              o actualizadas en este paso
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -8,8 +8,13 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Automaton, RecognitionResult, RecognitionStep } from '@/lib/types/automata';
+import { Automaton, RecognitionResult, State } from '@/lib/types/automata';
 import { CopyButton } from '@/components/shared/copy-button';
+import { SegmentedControl } from '@/components/shared/segmented-control';
+import { isDeterministic } from '@/lib/algorithms/lexical/afd-construction';
+import { buildComputationTree } from '@/lib/algorithms/lexical/string-recognition';
+import { ComputationTreeView } from './computation-tree';
+import { AutomatonFileActions } from './automaton-file-actions';
 import { CheckCircle2, XCircle, Play, Pause, SkipForward, SkipBack, RotateCcw } from 'lucide-react';
 import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { cn } from '@/lib/utils';
@@ -26,10 +31,30 @@ if (!(cytoscape as any).coseBilkentRegistered) {
 interface StringRecognitionVisualizerProps {
   automaton: Automaton;
   result: RecognitionResult;
+  input?: string; // Cadena reconocida; en un AFN habilita la vista de árbol de cómputo
   className?: string;
   stepDelay?: number;
 }
 
+const viewOptions = [
+  { value: 'sets', label: 'Conjuntos de estados' },
+  { value: 'tree', label: 'Árbol de cómputo' },
+];
+
+/**
+ * Estados de un paso: la etiqueta de un estado o, en un AFN, la lista
+ * separada por comas del conjunto de estados activos
+ */
+function resolveStates(automaton: Automaton, labels: string) {
+  const exact = automaton.states.find(s => s.label === labels);
+  if (exact) return [exact];
+
+  return labels
+    .split(', ')
+    .map(label => automaton.states.find(s => s.label === label))
+    .filter((state): state is State => !!state);
+}
+
 /**
  * Convierte el autómata a formato Cytoscape
  */
@@ -248,11 +273,13 @@ function getStylesheet(isDarkMode: boolean): any[] {
 export function StringRecognitionVisualizer({
   automaton,
   result,
+  input,
   className,
   stepDelay = 1000,
 }: StringRecognitionVisualizerProps) {
   const [currentStep, setCurrentStep] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
+  const [view, setView] = useState<'sets' | 'tree'>('sets');
   const [isDarkMode, setIsDarkMode] = useState(false);
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
   const cyRef = useRef<cytoscape.Core | null>(null);
@@ -276,6 +303,17 @@ export function StringRecognitionVisualizer({
     return () => observer.disconnect();
   }, []);
 
+  // El árbol de cómputo solo aporta en autómatas no deterministas
+  const nondeterministic = useMemo(() => !isDeterministic(automaton), [automaton]);
+  const computationTree = useMemo(() => {
+    if (view !== 'tree' || input === undefined) return null;
+    try {
+      return buildComputationTree(automaton, input);
+    } catch {
+      return null;
+    }
+  }, [view, automaton, input]);
+
   // Convertir autómata a elementos
   const elements = useMemo(() => automatonToCytoscape(automaton), [automaton]);
   
@@ -355,11 +393,9 @@ export function StringRecognitionVisualizer({
 
     // Marcar nodos visitados (todos los nextState de pasos anteriores)
     const visitedStates = new Set<string>();
-    for (let i = 0; i <= currentStep; i++) {
-      const prevStep = steps[i];
-      // El estado al que llegamos en cada paso es nextState
-      const state = automaton.states.find(s => s.label === prevStep.nextState);
-      if (state && i < currentStep) {
+    for (let i = 0; i < currentStep; i++) {
+      // El estado (o conjunto de estados en un AFN) al que llegamos en cada paso es nextState
+      for (const state of resolveStates(automaton, steps[i].nextState)) {
         visitedStates.add(state.id);
       }
     }
@@ -370,14 +406,14 @@ export function StringRecognitionVisualizer({
     // Marcar aristas ya recorridas (todas las transiciones de pasos anteriores)
     for (let i = 1; i <= currentStep; i++) {
       const prevStep = steps[i];
-      const sourceState = automaton.states.find(s => s.label === prevStep.currentState);
-      const targetState = automaton.states.find(s => s.label === prevStep.nextState);
+      const sourceIds = new Set(resolveStates(automaton, prevStep.currentState).map(s => s.id));
+      const targetIds = new Set(resolveStates(automaton, prevStep.nextState).map(s => s.id));
       
-      if (sourceState && targetState && prevStep.symbol) {
+      if (prevStep.symbol) {
         cy.edges().forEach((edge) => {
           if (
-            edge.data('source') === sourceState.id && 
-            edge.data('target') === targetState.id &&
+            sourceIds.has(edge.data('source')) && 
+            targetIds.has(edge.data('target')) &&
             edge.data('label') === prevStep.symbol
           ) {
             // Si es el paso actual, marcar como activa con pulso
@@ -392,14 +428,14 @@ export function StringRecognitionVisualizer({
     }
 
     // Marcar el estado actual (nextState del paso actual)
-    const currentState = automaton.states.find(s => s.label === step.nextState);
-    if (currentState) {
-      cy.getElementById(currentState.id).addClass('current pulse');
+    const currentStates = resolveStates(automaton, step.nextState);
+    if (currentStates.length > 0) {
+      currentStates.forEach(state => cy.getElementById(state.id).addClass('current pulse'));
       
       // Remover la clase pulse después de 300ms para crear el efecto de animación
       setTimeout(() => {
         if (cyRef.current) {
-          cyRef.current.getElementById(currentState.id).removeClass('pulse');
+          cyRef.current.nodes('.pulse').removeClass('pulse');
           cyRef.current.edges('.pulse').removeClass('pulse');
         }
       }, 300);
@@ -508,6 +544,12 @@ export function StringRecognitionVisualizer({
 
         {/* Visualización del autómata */}
         <div className="relative w-full h-96 rounded-lg border bg-muted/20 overflow-hidden">
+          <AutomatonFileActions
+            automaton={automaton}
+            variant="secondary"
+            buttonClassName="shadow-md"
+            className="absolute top-2 right-2 z-10"
+          />
           <CytoscapeComponent
             elements={elements}
             style={{ width: '100%', height: '100%' }}
@@ -538,8 +580,21 @@ export function StringRecognitionVisualizer({
           </div>
         </div>
 
+        {/* Vista del no determinismo: conjuntos de estados o árbol de cómputo */}
+        {nondeterministic && input !== undefined && (
+          <SegmentedControl
+            options={viewOptions}
+            value={view}
+            onChange={(value) => setView(value as 'sets' | 'tree')}
+          />
+        )}
+
+        {view === 'tree' && computationTree && (
+          <ComputationTreeView tree={computationTree} currentPosition={currentStep} />
+        )}
+
         {/* Lista de pasos */}
-        {steps.length > 0 && (
+        {view === 'sets' && steps.length > 0 && (
           <div className="space-y-2 max-h-48 overflow-y-auto">
             {steps.slice(0, currentStep + 1).map((step, index) => (
               <div
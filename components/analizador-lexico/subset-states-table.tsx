@@ -3,8 +3,11 @@
 /**
  * Tabla de estados del AFD mostrando los elementos constituyentes del AFN
  * Muestra la correspondencia entre estados del AFD y sus estados AFN componentes
+ * y, si el AFD trae la traza del método de subconjuntos, la construcción paso a paso
+ * (move, ε-cerradura, Dstates y Dtran) sincronizada con el grafo del AFN
  */
 
+import { useMemo, useState } from 'react';
 import {
   Table,
   TableBody,
@@ -13,16 +16,19 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-import { Automaton, SubsetState } from '@/lib/types/automata';
+import { Automaton, SubsetConstructionStep, SubsetState } from '@/lib/types/automata';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Download } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Download, RotateCcw, SkipBack, SkipForward, ChevronsRight } from 'lucide-react';
 import { CopyButton } from '@/components/shared/copy-button';
 import { cn } from '@/lib/utils';
+import { AutomataGraphCytoscape } from './automata-graph-cytoscape';
 
 interface SubsetStatesTableProps {
   automaton: Automaton;
   highlightedStates?: string[]; // Estados a resaltar (ej: estados unificados)
+  afn?: Automaton; // AFN de origen: si se indica, se resalta en cada paso de la traza
   title?: string;
   className?: string;
 }
@@ -30,6 +36,7 @@ interface SubsetStatesTableProps {
 export function SubsetStatesTable({
   automaton,
   highlightedStates = [],
+  afn,
   title = 'Estados y Elementos del AFN',
   className,
 }: SubsetStatesTableProps) {
@@ -158,6 +165,15 @@ export function SubsetStatesTable({
           </Table>
         </div>
 
+        {/* Construcción paso a paso */}
+        {automaton.subsetSteps && automaton.subsetSteps.length > 0 && (
+          <SubsetConstructionTrace
+            steps={automaton.subsetSteps}
+            alphabet={automaton.alphabet}
+            afn={afn}
+          />
+        )}
+
         {/* Leyenda */}
         <div className="mt-4 text-xs text-muted-foreground border-t pt-3">
           <div className="font-medium mb-1">Leyenda:</div>
@@ -175,3 +191,199 @@ export function SubsetStatesTable({
     </Card>
   );
 }
+
+/**
+ * Formatea un conjunto de estados del AFN
+ */
+function formatSet(states: string[]): string {
+  return states.length === 0 ? '∅' : `{${states.join(', ')}}`;
+}
+
+interface SubsetConstructionTraceProps {
+  steps: SubsetConstructionStep[];
+  alphabet: string[];
+  afn?: Automaton;
+}
+
+/**
+ * Traza del método de subconjuntos con avance/retroceso paso a paso
+ */
+function SubsetConstructionTrace({ steps, alphabet, afn }: SubsetConstructionTraceProps) {
+  const [currentStep, setCurrentStep] = useState(0);
+  const step = steps[currentStep];
+  const totalSteps = steps.length;
+
+  // Dstates y Dtran acumulados hasta el paso actual
+  const { dstates, marked, dtran } = useMemo(() => {
+    const visible = steps.slice(0, currentStep + 1);
+    return {
+      dstates: visible
+        .filter(s => s.isNew && s.target)
+        .map(s => ({ id: s.target!, states: s.closure })),
+      marked: new Set(visible.filter(s => s.current).map(s => s.current!)),
+      dtran: new Map(
+        visible
+          .filter(s => s.kind === 'move')
+          .map(s => [`${s.current}|${s.symbol}`, s.target ?? '—'])
+      ),
+    };
+  }, [steps, currentStep]);
+
+  // Transiciones del AFN usadas en move(T, a)
+  const moveTransitions = useMemo(() => {
+    if (!afn || step.kind !== 'move') return [];
+    const current = new Set(step.currentStates);
+    return afn.transitions.filter(t => current.has(t.from) && t.symbol === step.symbol);
+  }, [afn, step]);
+
+  const symbols = alphabet.filter(s => s !== 'ε');
+
+  return (
+    <div className="mt-6 space-y-4 border-t pt-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h4 className="text-sm font-semibold">Construcción Paso a Paso</h4>
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant="outline" onClick={() => setCurrentStep(0)} title="Reiniciar">
+            <RotateCcw className="h-4 w-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setCurrentStep(prev => Math.max(0, prev - 1))}
+            disabled={currentStep === 0}
+          >
+            <SkipBack className="h-4 w-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setCurrentStep(prev => Math.min(totalSteps - 1, prev + 1))}
+            disabled={currentStep === totalSteps - 1}
+          >
+            <SkipForward className="h-4 w-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setCurrentStep(totalSteps - 1)}
+            disabled={currentStep === totalSteps - 1}
+            title="Ir al final"
+          >
+            <ChevronsRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="text-sm text-muted-foreground">
+        Paso {currentStep + 1} de {totalSteps}
+      </div>
+
+      {/* Cálculo del paso */}
+      <div className="rounded-lg border bg-muted/30 p-4 space-y-2 font-mono text-sm">
+        {step.kind === 'initial' ? (
+          <div>
+            ε-cerradura({step.currentStates.join(', ')}) = {formatSet(step.closure)}
+            <span className="ml-2 font-semibold text-primary">= {step.target}</span>
+          </div>
+        ) : (
+          <>
+            <div>
+              <span className="text-muted-foreground">T = </span>
+              <span className="font-semibold text-amber-600 dark:text-amber-400">{step.current}</span>
+              {' = '}{formatSet(step.currentStates)}
+            </div>
+            <div>
+              move({step.current}, {step.symbol}) = {formatSet(step.move)}
+            </div>
+            <div>
+              ε-cerradura(move({step.current}, {step.symbol})) ={' '}
+              <span className="text-blue-600 dark:text-blue-400">{formatSet(step.closure)}</span>
+              {step.target && (
+                <span className="ml-2 font-semibold text-primary">= {step.target}</span>
+              )}
+            </div>
+          </>
+        )}
+        <div className="flex flex-wrap items-center gap-2 pt-1 font-sans">
+          {step.target ? (
+            <Badge variant={step.isNew ? 'default' : 'secondary'}>
+              {step.isNew ? `Nuevo estado ${step.target}` : `${step.target} ya existe en Dstates`}
+            </Badge>
+          ) : (
+            <Badge variant="outline">Sin transición</Badge>
+          )}
+          <span className="text-xs text-muted-foreground">
+            Sin marcar: {step.unmarked.length > 0 ? step.unmarked.join(', ') : 'ninguno'}
+          </span>
+        </div>
+      </div>
+
+      {/* Grafo del AFN sincronizado */}
+      {afn && (
+        <AutomataGraphCytoscape
+          automaton={afn}
+          highlightedStates={step.currentStates}
+          targetStates={step.closure}
+          highlightedTransitions={moveTransitions}
+        />
+      )}
+
+      {/* Dstates y Dtran */}
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="font-bold">Dstates</TableHead>
+              <TableHead className="font-bold">Elementos del AFN</TableHead>
+              {symbols.map(symbol => (
+                <TableHead key={symbol} className="font-bold text-center font-mono">{symbol}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {dstates.map(dstate => (
+              <TableRow
+                key={dstate.id}
+                className={cn(
+                  dstate.id === step.current && 'bg-amber-100 dark:bg-amber-900/30',
+                  dstate.id === step.target && step.isNew && 'bg-blue-100 dark:bg-blue-900/30'
+                )}
+              >
+                <TableCell className="font-medium">
+                  <div className="flex items-center gap-2">
+                    <span>{dstate.id}</span>
+                    {marked.has(dstate.id) && (
+                      <span className="text-xs text-muted-foreground" title="Marcado">✓</span>
+                    )}
+                  </div>
+                </TableCell>
+                <TableCell className="font-mono text-sm">{formatSet(dstate.states)}</TableCell>
+                {symbols.map(symbol => {
+                  const isCurrentCell = dstate.id === step.current && symbol === step.symbol;
+                  return (
+                    <TableCell
+                      key={symbol}
+                      className={cn(
+                        'text-center font-mono',
+                        isCurrentCell && 'font-bold text-primary ring-2 ring-inset ring-primary'
+                      )}
+                    >
+                      {dtran.get(`${dstate.id}|${symbol}`) ?? ''}
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+        <span className="bg-amber-100 dark:bg-amber-900/30 px-1 rounded">T (estado procesado)</span>
+        <span className="bg-blue-100 dark:bg-blue-900/30 px-1 rounded">ε-cerradura(move(T, a))</span>
+        <span>✓ Estado marcado</span>
+        <span>— Sin transición</span>
+      </div>
+    </div>
+  );
+}
@@ -3,12 +3,14 @@
 /**
  * Componente para visualizar el árbol sintáctico usando Cytoscape.js con layout dagre
  * Muestra los 4 valores en estructura circular: símbolo, anulable, primerapos, ultimapos
+ * Los cuantificadores {n,m} se muestran como un nodo propio, con opción de ver su expansión
  */
 
 import { useEffect, useRef, useState } from 'react';
 import { TreeNode, SyntaxTree } from '@/lib/types/automata';
 import { Button } from '@/components/ui/button';
-import { Download, ZoomIn, ZoomOut, Maximize2 } from 'lucide-react';
+import { ZoomIn, ZoomOut, Maximize2, Expand, Shrink } from 'lucide-react';
+import { GraphExportMenu } from '@/components/shared/graph-export-menu';
 import { cn } from '@/lib/utils';
 import { calculateAnulable, calculatePrimeros, calculateUltimos } from '@/lib/algorithms/lexical/regex-parser';
 import CytoscapeComponent from 'react-cytoscapejs';
@@ -19,6 +21,7 @@ cytoscape.use(dagre);
 
 interface SyntaxTreeCytoscapeProps {
   tree: SyntaxTree;
+  highlightedNodeId?: string; // Nodo del árbol resaltado (id del TreeNode)
   className?: string;
 }
 
@@ -41,22 +44,45 @@ function calculateTreeValues(node: TreeNode): void {
   node.lastpos = calculateUltimos(node);
 }
 
+/**
+ * Texto del cuantificador de repetición: {n}, {n,} o {n,m}
+ */
+function formatRepetition(min: number, max: number | null): string {
+  if (max === null) return `{${min},}`;
+  if (max === min) return `{${min}}`;
+  return `{${min},${max}}`;
+}
+
+/**
+ * Indica si el árbol contiene algún cuantificador {n,m}
+ */
+function hasRepetitions(node: TreeNode): boolean {
+  return !!node.repetition || node.children.some(hasRepetitions);
+}
+
 /**
  * Convierte el árbol sintáctico a formato Cytoscape
+ * @param showExpansion Si es false, los cuantificadores {n,m} se muestran sin expandir
  */
-function syntaxTreeToCytoscape(tree: SyntaxTree) {
+function syntaxTreeToCytoscape(tree: SyntaxTree, showExpansion: boolean) {
   const elements: any[] = [];
   let nodeIndex = 0;
   
   // Calcular valores del árbol
   calculateTreeValues(tree.root);
   
-  function traverse(node: TreeNode, parentId?: string): string {
+  function traverse(node: TreeNode, parentId?: string, skipRepetition: boolean = false): string {
     const nodeId = `node-${nodeIndex++}`;
+
+    // Cuantificador sin expandir: nodo {n,m} con el operando como único hijo
+    const repetition = !showExpansion && !skipRepetition ? node.repetition : undefined;
+    if (repetition?.operand && repetition.operand.nullable === undefined) {
+      calculateTreeValues(repetition.operand); // r{0}: el operando no forma parte de la expansión
+    }
     
     // Determinar tipo de nodo para estilo
-    const isOperator = ['CONCAT', 'UNION', 'STAR', 'PLUS', 'OPTIONAL'].includes(node.type);
-    const isSymbol = node.type === 'SYMBOL';
+    const isOperator = !!repetition || ['CONCAT', 'UNION', 'STAR', 'PLUS', 'OPTIONAL'].includes(node.type);
+    const isSymbol = !repetition && ['SYMBOL', 'EPSILON', 'EMPTY'].includes(node.type);
     
     // Formatear valores para mostrar
     const anulable = node.nullable ? 'V' : 'F';
@@ -67,9 +93,10 @@ function syntaxTreeToCytoscape(tree: SyntaxTree) {
     let symbol = node.value;
     if (node.type === 'CONCAT') symbol = '•';
     if (node.type === 'UNION') symbol = '|';
+    if (repetition) symbol = formatRepetition(repetition.min, repetition.max);
     
     // Posición para símbolos
-    const posLabel = node.position !== undefined ? node.position.toString() : '';
+    const posLabel = !repetition && node.position !== undefined ? node.position.toString() : '';
     
     // Construir el label - estructura circular según la imagen:
     // Arriba: Valor del nodo (símbolo con posición si existe)
@@ -88,10 +115,11 @@ function syntaxTreeToCytoscape(tree: SyntaxTree) {
     elements.push({
       data: {
         id: nodeId,
+        treeNodeId: node.id,
         label: fullLabel,
         symbol,
         topLabel,
-        type: node.type,
+        type: repetition ? 'REPEAT' : node.type,
         position: posLabel,
         anulable,
         primeros: `{${primeros}}`,
@@ -114,7 +142,9 @@ function syntaxTreeToCytoscape(tree: SyntaxTree) {
     }
     
     // Procesar hijos
-    if (node.children && node.children.length > 0) {
+    if (repetition) {
+      traverse(repetition.operand ?? node, nodeId, !repetition.operand);
+    } else if (node.children && node.children.length > 0) {
       node.children.forEach(child => {
         traverse(child, nodeId);
       });
@@ -139,6 +169,8 @@ function getStylesheet(isDarkMode: boolean): any[] {
     symbolBorder: '#3b82f6',
     textColor: '#f9fafb',
     edgeColor: '#9ca3af',
+    highlightBg: '#78350f',
+    highlightBorder: '#f59e0b',
   } : {
     operatorBg: '#f3e8ff',
     operatorBorder: '#a855f7',
@@ -146,6 +178,8 @@ function getStylesheet(isDarkMode: boolean): any[] {
     symbolBorder: '#3b82f6',
     textColor: '#1f2937',
     edgeColor: '#6b7280',
+    highlightBg: '#fef3c7',
+    highlightBorder: '#f59e0b',
   };
 
   return [
@@ -183,6 +217,14 @@ function getStylesheet(isDarkMode: boolean): any[] {
         'border-color': colors.symbolBorder,
       },
     },
+    {
+      selector: 'node.highlighted',
+      style: {
+        'background-color': colors.highlightBg,
+        'border-color': colors.highlightBorder,
+        'border-width': 5,
+      },
+    },
     {
       selector: 'edge',
       style: {
@@ -197,10 +239,12 @@ function getStylesheet(isDarkMode: boolean): any[] {
   ];
 }
 
-export function SyntaxTreeCytoscape({ tree, className }: SyntaxTreeCytoscapeProps) {
+export function SyntaxTreeCytoscape({ tree, highlightedNodeId, className }: SyntaxTreeCytoscapeProps) {
   const cyRef = useRef<any>(null);
   const [elements, setElements] = useState<any[]>([]);
   const [isDarkMode, setIsDarkMode] = useState(false);
+  const [showExpansion, setShowExpansion] = useState(false);
+  const treeHasRepetitions = tree ? hasRepetitions(tree.root) : false;
 
   // Detectar modo oscuro
   useEffect(() => {
@@ -222,10 +266,10 @@ export function SyntaxTreeCytoscape({ tree, className }: SyntaxTreeCytoscapeProp
   // Convertir árbol a elementos de Cytoscape
   useEffect(() => {
     if (tree) {
-      const els = syntaxTreeToCytoscape(tree);
+      const els = syntaxTreeToCytoscape(tree, showExpansion);
       setElements(els);
     }
-  }, [tree]);
+  }, [tree, showExpansion]);
 
   // Aplicar layout cuando los elementos cambien
   useEffect(() => {
@@ -251,6 +295,16 @@ export function SyntaxTreeCytoscape({ tree, className }: SyntaxTreeCytoscapeProp
     }
   }, [elements, isDarkMode]);
 
+  // Resaltar el nodo indicado
+  useEffect(() => {
+    if (!cyRef.current) return;
+
+    cyRef.current.nodes().removeClass('highlighted');
+    if (highlightedNodeId) {
+      cyRef.current.nodes(`[treeNodeId = "${highlightedNodeId}"]`).addClass('highlighted');
+    }
+  }, [elements, highlightedNodeId]);
+
   const handleZoomIn = () => {
     if (cyRef.current) {
       cyRef.current.zoom(cyRef.current.zoom() * 1.2);
@@ -272,20 +326,6 @@ export function SyntaxTreeCytoscape({ tree, className }: SyntaxTreeCytoscapeProp
     }
   };
 
-  const handleExport = () => {
-    if (cyRef.current) {
-      const png = cyRef.current.png({ 
-        full: true, 
-        scale: 2,
-        bg: isDarkMode ? '#1f2937' : '#ffffff',
-      });
-      const link = document.createElement('a');
-      link.href = png;
-      link.download = `syntax-tree-${Date.now()}.png`;
-      link.click();
-    }
-  };
-
   if (!tree) {
     return (
       <div className="flex items-center justify-center h-125 bg-muted/20 rounded-lg border">
@@ -298,6 +338,16 @@ export function SyntaxTreeCytoscape({ tree, className }: SyntaxTreeCytoscapeProp
     <div className={cn('relative rounded-lg border bg-card', className)}>
       {/* Toolbar */}
       <div className="absolute top-2 right-2 z-10 flex gap-1">
+        {treeHasRepetitions && (
+          <Button
+            size="sm"
+            variant={showExpansion ? 'default' : 'outline'}
+            onClick={() => setShowExpansion(!showExpansion)}
+            title={showExpansion ? 'Mostrar cuantificadores {n,m}' : 'Ver expansión de {n,m}'}
+          >
+            {showExpansion ? <Shrink className="h-4 w-4" /> : <Expand className="h-4 w-4" />}
+          </Button>
+        )}
         <Button size="sm" variant="outline" onClick={handleZoomIn} title="Acercar">
           <ZoomIn className="h-4 w-4" />
         </Button>
@@ -307,9 +357,13 @@ export function SyntaxTreeCytoscape({ tree, className }: SyntaxTreeCytoscapeProp
         <Button size="sm" variant="outline" onClick={handleFit} title="Ajustar">
           <Maximize2 className="h-4 w-4" />
         </Button>
-        <Button size="sm" variant="outline" onClick={handleExport} title="Exportar PNG">
-          <Download className="h-4 w-4" />
-        </Button>
+        <GraphExportMenu
+          getCy={() => cyRef.current}
+          fileName="arbol-sintactico-er"
+          background={isDarkMode ? '#1f2937' : '#ffffff'}
+          latex="forest"
+          variant="outline"
+        />
       </div>
 
       {/* Leyenda - estructura del nodo */}
@@ -0,0 +1,188 @@
+'use client';
+
+/**
+ * Reproducción paso a paso de la construcción de Thompson
+ * Cada paso corresponde a un nodo del árbol sintáctico (en postorden):
+ * se resalta el nodo y se muestra el bosque de fragmentos construidos hasta
+ * ese momento, con los estados y transiciones que agrega la regla aplicada.
+ */
+
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { Automaton, ThompsonConstruction } from '@/lib/types/automata';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AutomataGraphCytoscape } from './automata-graph-cytoscape';
+import { SyntaxTreeCytoscape } from './syntax-tree-cytoscape';
+import { ChevronsRight, Pause, Play, RotateCcw, SkipBack, SkipForward } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ThompsonStepsProps {
+  construction: ThompsonConstruction;
+  stepDelay?: number;
+  className?: string;
+}
+
+export function ThompsonSteps({ construction, stepDelay = 1500, className }: ThompsonStepsProps) {
+  const { steps, tree } = construction;
+  const totalSteps = steps.length;
+  const [currentStep, setCurrentStep] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const intervalRef = useRef<NodeJS.Timeout | null>(null);
+
+  const step = steps[currentStep];
+
+  // Limpiar intervalo al desmontar
+  useEffect(() => {
+    return () => {
+      if (intervalRef.current) {
+        clearInterval(intervalRef.current);
+      }
+    };
+  }, []);
+
+  // Control de reproducción
+  const stopAutoPlay = useCallback(() => {
+    if (intervalRef.current) {
+      clearInterval(intervalRef.current);
+      intervalRef.current = null;
+    }
+    setIsPlaying(false);
+  }, []);
+
+  const startAutoPlay = useCallback(() => {
+    if (intervalRef.current) return;
+
+    const id = setInterval(() => {
+      setCurrentStep((prev) => {
+        if (prev >= totalSteps - 1) {
+          stopAutoPlay();
+          return prev;
+        }
+        return prev + 1;
+      });
+    }, stepDelay);
+
+    intervalRef.current = id;
+    setIsPlaying(true);
+  }, [totalSteps, stepDelay, stopAutoPlay]);
+
+  const handlePlayPause = () => {
+    if (isPlaying) {
+      stopAutoPlay();
+    } else {
+      // Reiniciar si ya se llegó al final
+      if (currentStep >= totalSteps - 1) setCurrentStep(0);
+      startAutoPlay();
+    }
+  };
+
+  const goTo = (index: number) => {
+    stopAutoPlay();
+    setCurrentStep(Math.max(0, Math.min(totalSteps - 1, index)));
+  };
+
+  // Bosque de fragmentos: los construidos hasta el paso actual que aún no forman parte de otro
+  const forest = useMemo<Automaton>(() => {
+    const consumed = new Set(steps.slice(0, currentStep + 1).flatMap(s => s.children));
+    const live = steps.slice(0, currentStep + 1).filter((_, index) => !consumed.has(index));
+
+    return {
+      id: `thompson-forest-${currentStep}`,
+      type: 'EPSILON_NFA',
+      states: live.flatMap(s => s.fragment.states),
+      transitions: live.flatMap(s => s.fragment.transitions),
+      alphabet: [],
+    };
+  }, [steps, currentStep]);
+
+  // Estados y transiciones que agrega la regla del paso actual
+  const added = useMemo(() => {
+    const previous = step.children.map(index => steps[index].fragment);
+    const previousStates = new Set(previous.flatMap(f => f.states.map(s => s.id)));
+    const previousTransitions = new Set(previous.flatMap(f => f.transitions.map(t => t.id)));
+
+    return {
+      states: step.fragment.states.filter(s => !previousStates.has(s.id)).map(s => s.id),
+      transitions: step.fragment.transitions.filter(t => !previousTransitions.has(t.id)),
+    };
+  }, [steps, step]);
+
+  const initial = step.fragment.states.find(s => s.isInitial);
+  const final = step.fragment.states.find(s => s.isFinal);
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-sm text-muted-foreground">
+          Paso {currentStep + 1} de {totalSteps}
+        </div>
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant="outline" onClick={() => goTo(0)} title="Reiniciar">
+            <RotateCcw className="h-4 w-4" />
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => goTo(currentStep - 1)} disabled={currentStep === 0}>
+            <SkipBack className="h-4 w-4" />
+          </Button>
+          <Button size="sm" onClick={handlePlayPause}>
+            {isPlaying ? <Pause className="h-4 w-4 mr-1" /> : <Play className="h-4 w-4 mr-1" />}
+            {isPlaying ? 'Pausar' : 'Reproducir'}
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => goTo(currentStep + 1)}
+            disabled={currentStep === totalSteps - 1}
+          >
+            <SkipForward className="h-4 w-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => goTo(totalSteps - 1)}
+            disabled={currentStep === totalSteps - 1}
+            title="Ir al final"
+          >
+            <ChevronsRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Regla aplicada */}
+      <div className="rounded-lg border bg-muted/30 p-4 space-y-2 text-sm">
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge>{step.rule}</Badge>
+          <code className="font-mono font-semibold break-all">N({step.expression})</code>
+        </div>
+        <p className="text-muted-foreground">{step.description}</p>
+        <div className="flex flex-wrap gap-x-4 gap-y-1 font-mono text-xs">
+          <span>Inicial: {initial?.label}</span>
+          <span>Final: {final?.label}</span>
+          <span>
+            Estados nuevos:{' '}
+            <span className="text-amber-600 dark:text-amber-400">
+              {added.states.length > 0
+                ? added.states.map(id => step.fragment.states.find(s => s.id === id)?.label).join(', ')
+                : 'ninguno'}
+            </span>
+          </span>
+          <span>Transiciones nuevas: {added.transitions.length}</span>
+        </div>
+      </div>
+
+      <div className="grid gap-4 xl:grid-cols-2">
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">Árbol Sintáctico</h4>
+          <SyntaxTreeCytoscape tree={tree} highlightedNodeId={step.nodeId} />
+        </div>
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">Fragmentos Construidos</h4>
+          <AutomataGraphCytoscape
+            automaton={forest}
+            highlightedStates={added.states}
+            highlightedTransitions={added.transitions}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
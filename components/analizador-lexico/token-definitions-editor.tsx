@@ -0,0 +1,103 @@
+'use client';
+
+/**
+ * Editor de definiciones de tokens para el analizador léxico estilo lex
+ * Cada fila define nombre, expresión regular, prioridad y si el token se ignora
+ */
+
+import { LexerTokenDefinition } from '@/lib/types/token';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Plus, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface TokenDefinitionsEditorProps {
+  definitions: LexerTokenDefinition[];
+  onChange: (definitions: LexerTokenDefinition[]) => void;
+  className?: string;
+}
+
+export function TokenDefinitionsEditor({ definitions, onChange, className }: TokenDefinitionsEditorProps) {
+  const update = (index: number, changes: Partial<LexerTokenDefinition>) => {
+    onChange(definitions.map((d, i) => (i === index ? { ...d, ...changes } : d)));
+  };
+
+  const handleAdd = () => {
+    onChange([...definitions, { name: `T${definitions.length + 1}`, regex: '', priority: 0 }]);
+  };
+
+  const handleRemove = (index: number) => {
+    onChange(definitions.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <div className="overflow-x-auto">
+        <div className="min-w-xl space-y-2">
+          <div className="grid grid-cols-[2rem_8rem_1fr_5rem_4rem_2.5rem] gap-2 px-1 text-xs font-medium text-muted-foreground">
+            <span>#</span>
+            <span>Token</span>
+            <span>Expresión regular</span>
+            <span>Prioridad</span>
+            <span>Ignorar</span>
+            <span />
+          </div>
+
+          {definitions.map((definition, index) => (
+            <div
+              key={index}
+              className="grid grid-cols-[2rem_8rem_1fr_5rem_4rem_2.5rem] items-center gap-2"
+            >
+              <span className="text-sm text-muted-foreground">{index + 1}</span>
+              <Input
+                value={definition.name}
+                onChange={(e) => update(index, { name: e.target.value })}
+                placeholder="ID"
+                className="font-mono"
+              />
+              <Input
+                value={definition.regex}
+                onChange={(e) => update(index, { regex: e.target.value })}
+                placeholder="Ej: [a-z][a-z0-9]*"
+                className="font-mono"
+              />
+              <Input
+                type="number"
+                value={definition.priority}
+                onChange={(e) => update(index, { priority: Number(e.target.value) || 0 })}
+                title="Prioridad (mayor = más alta)"
+              />
+              <div className="flex items-center">
+                <Switch
+                  checked={!!definition.ignore}
+                  onCheckedChange={(checked) => update(index, { ignore: checked })}
+                  title="Reconocer sin emitir el token"
+                />
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleRemove(index)}
+                title="Eliminar token"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <Button variant="outline" size="sm" onClick={handleAdd} className="gap-2">
+        <Plus className="h-4 w-4" />
+        Agregar token
+      </Button>
+
+      <p className="text-xs text-muted-foreground">
+        Se elige siempre el lexema más largo; si varios tokens reconocen el mismo lexema gana el de mayor
+        prioridad y, a igual prioridad, el que aparece primero. Use <code className="font-mono">\ </code> para
+        un espacio y <code className="font-mono">\n</code> para un salto de línea.
+      </p>
+    </div>
+  );
+}
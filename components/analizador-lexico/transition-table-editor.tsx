@@ -2,7 +2,8 @@
 
 /**
  * Tabla de transiciones editable para definir un autómata finito
- * Permite agregar/eliminar estados, símbolos del alfabeto y definir transiciones
+ * Permite agregar/eliminar estados, símbolos del alfabeto y definir transiciones,
+ * con deshacer/rehacer (historial compartible con el editor visual)
  */
 
 import { useState, useCallback, useMemo, useRef, useEffect } from 'react';
@@ -24,14 +25,19 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Plus, Trash2, ArrowRight, Circle, X } from 'lucide-react';
+import { Plus, Trash2, ArrowRight, Circle, X, Undo2, Redo2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Automaton, State, Transition } from '@/lib/types/automata';
+import { isDeterministic } from '@/lib/algorithms/lexical/afd-construction';
+import { AutomatonFileActions } from './automaton-file-actions';
+import { AutomatonLintPanel } from './automaton-lint-panel';
+import { useAutomatonHistory, type UseAutomatonHistoryReturn } from '@/hooks/use-automaton-history';
 
 interface TransitionTableEditorProps {
   alphabet?: string[];
   onChange: (automaton: Automaton) => void;
   initialAutomaton?: Automaton;
+  history?: UseAutomatonHistoryReturn; // Historial compartido con el editor visual (si no se indica, uno propio)
   className?: string;
 }
 
@@ -43,10 +49,66 @@ interface InternalTableRow {
   transitions: { [symbol: string]: string };
 }
 
+/**
+ * Filas de la tabla a partir de un autómata (las celdas guardan la etiqueta del destino)
+ */
+function automatonToRows(automaton: Automaton, alphabet: string[]): InternalTableRow[] {
+  return automaton.states.map(state => {
+    const trans: { [symbol: string]: string } = {};
+    alphabet.forEach(symbol => {
+      const t = automaton.transitions.find(
+        tr => tr.from === state.id && tr.symbol === symbol
+      );
+      trans[symbol] = t ? (automaton.states.find(s => s.id === t.to)?.label || t.to) : '';
+    });
+    return {
+      stateId: state.id,
+      stateLabel: state.label,
+      isInitial: state.isInitial,
+      isFinal: state.isFinal,
+      transitions: trans,
+    };
+  });
+}
+
+/**
+ * Estados y transiciones definidos por las filas de la tabla
+ */
+function rowsToAutomaton(rows: InternalTableRow[]): { states: State[]; transitions: Transition[] } {
+  const states: State[] = rows.map(r => ({
+    id: r.stateId,
+    label: r.stateLabel,
+    isInitial: r.isInitial,
+    isFinal: r.isFinal,
+  }));
+
+  const transitions: Transition[] = [];
+  let transId = 0;
+
+  rows.forEach(row => {
+    Object.entries(row.transitions).forEach(([symbol, target]) => {
+      if (target) {
+        const targetRow = rows.find(r => r.stateLabel === target || r.stateId === target);
+        if (targetRow) {
+          transitions.push({
+            id: `t${transId++}`,
+            from: row.stateId,
+            to: targetRow.stateId,
+            symbol,
+          });
+        }
+      }
+    });
+  });
+
+  return { states, transitions };
+}
+
 export function TransitionTableEditor({
   alphabet: externalAlphabet,
   onChange,
   initialAutomaton,
+  history: externalHistory,
   className,
 }: TransitionTableEditorProps) {
   // Estado interno del alfabeto (editable)
@@ -63,6 +125,11 @@ export function TransitionTableEditor({
   const isInitializedRef = useRef(false);
   const previousAutomatonRef = useRef<string>('');
 
+  // Historial de deshacer/rehacer (propio o compartido con el editor visual)
+  const ownHistory = useAutomatonHistory();
+  const { record: recordHistory, undo, redo, canUndo, canRedo } = externalHistory ?? ownHistory;
+  const hasRowsRef = useRef(false);
+
   // Sincronizar alfabeto externo cuando cambia
   useEffect(() => {
     if (externalAlphabet && externalAlphabet.length > 0) {
@@ -97,49 +164,12 @@ export function TransitionTableEditor({
     
     const currentAlphabet = autoAlphabet.length > 0 ? autoAlphabet : internalAlphabet;
     
-    const initialRows: InternalTableRow[] = initialAutomaton.states.map(state => {
-      const trans: { [symbol: string]: string } = {};
-      currentAlphabet.forEach(symbol => {
-        const t = initialAutomaton.transitions.find(
-          tr => tr.from === state.id && tr.symbol === symbol
-        );
-        trans[symbol] = t ? (initialAutomaton.states.find(s => s.id === t.to)?.label || t.to) : '';
-      });
-      return {
-        stateId: state.id,
-        stateLabel: state.label,
-        isInitial: state.isInitial,
-        isFinal: state.isFinal,
-        transitions: trans,
-      };
-    });
+    const initialRows = automatonToRows(initialAutomaton, currentAlphabet);
     setRows(initialRows);
     setStateCounter(initialAutomaton.states.length);
     
     // Actualizar el previousAutomatonRef para evitar llamar onChange inmediatamente
-    const transitions: Transition[] = [];
-    let transId = 0;
-    initialRows.forEach(row => {
-      Object.entries(row.transitions).forEach(([symbol, target]) => {
-        if (target) {
-          const targetRow = initialRows.find(r => r.stateLabel === target || r.stateId === target);
-          if (targetRow) {
-            transitions.push({
-              id: `t${transId++}`,
-              from: row.stateId,
-              to: targetRow.stateId,
-              symbol,
-            });
-          }
-        }
-      });
-    });
-    const states = initialRows.map(r => ({
-      id: r.stateId,
-      label: r.stateLabel,
-      isInitial: r.isInitial,
-      isFinal: r.isFinal,
-    }));
+    const { states, transitions } = rowsToAutomaton(initialRows);
     previousAutomatonRef.current = JSON.stringify({ states, transitions, alphabet: currentAlphabet });
   }, [initialAutomaton]);
 
@@ -169,7 +199,10 @@ export function TransitionTableEditor({
 
   // Agregar nuevo estado
   const addState = useCallback(() => {
-    const newId = `q${stateCounter}`;
+    // Saltar los nombres ya usados (ej: tras deshacer)
+    let counter = stateCounter;
+    while (rows.some(r => r.stateId === `q${counter}` || r.stateLabel === `q${counter}`)) counter++;
+    const newId = `q${counter}`;
     const newTransitions: { [symbol: string]: string } = {};
     internalAlphabet.forEach(s => { newTransitions[s] = ''; });
 
@@ -182,8 +215,8 @@ export function TransitionTableEditor({
     };
 
     setRows(prev => [...prev, newRow]);
-    setStateCounter(prev => prev + 1);
-  }, [stateCounter, rows.length, internalAlphabet]);
+    setStateCounter(counter + 1);
+  }, [stateCounter, rows, internalAlphabet]);
 
   // Eliminar estado
   const removeState = useCallback((stateId: string) => {
@@ -239,6 +272,71 @@ export function TransitionTableEditor({
     });
   }, []);
 
+  // Autómata actual de la tabla (para exportarlo)
+  const currentAutomaton = useMemo<Automaton>(() => ({
+    id: 'table-editor',
+    ...rowsToAutomaton(rows),
+    alphabet: internalAlphabet,
+    type: 'DFA',
+  }), [rows, internalAlphabet]);
+
+  // Reemplazar la tabla por un autómata importado (sí notifica al padre)
+  const handleImport = useCallback((imported: Automaton) => {
+    if (!isDeterministic(imported)) {
+      throw new Error(
+        'La tabla de transiciones solo admite autómatas deterministas (sin ε ni varios destinos por símbolo). Importa este autómata desde el editor visual.'
+      );
+    }
+
+    setInternalAlphabet(imported.alphabet);
+    setRows(automatonToRows(imported, imported.alphabet));
+    setStateCounter(imported.states.length);
+  }, []);
+
+  // Aplicar una corrección del panel de problemas (sí notifica al padre)
+  const handleApplyFix = useCallback((fixed: Automaton) => {
+    setInternalAlphabet(fixed.alphabet);
+    setRows(automatonToRows(fixed, fixed.alphabet));
+  }, []);
+
+  // Registrar cada cambio en el historial (no la tabla vacía antes de cargar el autómata inicial)
+  useEffect(() => {
+    if (rows.length > 0) hasRowsRef.current = true;
+    if (!hasRowsRef.current) return;
+    recordHistory(currentAutomaton);
+  }, [rows, currentAutomaton, recordHistory]);
+
+  // Cargar una instantánea del historial (deshacer/rehacer)
+  const restoreSnapshot = useCallback((snapshot: Automaton) => {
+    const alphabet = [...new Set([...snapshot.alphabet, ...snapshot.transitions.map(t => t.symbol)])]
+      .filter(symbol => symbol && symbol !== 'ε');
+    setInternalAlphabet(alphabet);
+    setRows(automatonToRows(snapshot, alphabet));
+  }, []);
+
+  const handleUndo = useCallback(() => {
+    const snapshot = undo();
+    if (snapshot) restoreSnapshot(snapshot);
+  }, [undo, restoreSnapshot]);
+
+  const handleRedo = useCallback(() => {
+    const snapshot = redo();
+    if (snapshot) restoreSnapshot(snapshot);
+  }, [redo, restoreSnapshot]);
+
+  // Atajos de deshacer/rehacer (fuera de los campos de texto)
+  const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLDivElement>) => {
+    if ((e.target as HTMLElement).tagName === 'INPUT' || !(e.ctrlKey || e.metaKey)) return;
+    const key = e.key.toLowerCase();
+    if (key === 'z' && !e.shiftKey) {
+      e.preventDefault();
+      handleUndo();
+    } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+      e.preventDefault();
+      handleRedo();
+    }
+  }, [handleUndo, handleRedo]);
+
   // Obtener lista de estados disponibles para el dropdown
   const availableStates = useMemo(() => {
     return rows.map(r => r.stateLabel);
@@ -251,31 +349,7 @@ export function TransitionTableEditor({
       return;
     }
     
-    const states: State[] = rows.map(r => ({
-      id: r.stateId,
-      label: r.stateLabel,
-      isInitial: r.isInitial,
-      isFinal: r.isFinal,
-    }));
-
-    const transitions: Transition[] = [];
-    let transId = 0;
-
-    rows.forEach(row => {
-      Object.entries(row.transitions).forEach(([symbol, target]) => {
-        if (target) {
-          const targetRow = rows.find(r => r.stateLabel === target || r.stateId === target);
-          if (targetRow) {
-            transitions.push({
-              id: `t${transId++}`,
-              from: row.stateId,
-              to: targetRow.stateId,
-              symbol,
-            });
-          }
-        }
-      });
-    });
+    const { states, transitions } = rowsToAutomaton(rows);
 
     const automaton: Automaton = {
       id: 'table-editor-' + Date.now(),
@@ -294,7 +368,7 @@ export function TransitionTableEditor({
   }, [rows, internalAlphabet, onChange]);
 
   return (
-    <div className={cn('space-y-4', className)}>
+    <div className={cn('space-y-4 outline-none', className)} tabIndex={-1} onKeyDown={handleKeyDown}>
       {/* Toolbar para agregar estados y símbolos */}
       <div className="flex flex-wrap items-center gap-3">
         <Button size="sm" onClick={addState} className="gap-1.5">
@@ -318,6 +392,17 @@ export function TransitionTableEditor({
           </Button>
         </div>
         
+        <div className="h-6 w-px bg-border" />
+        
+        <AutomatonFileActions automaton={currentAutomaton} onImport={handleImport} />
+        
+        <Button size="sm" variant="ghost" onClick={handleUndo} disabled={!canUndo} title="Deshacer (Ctrl+Z)">
+          <Undo2 className="h-4 w-4" />
+        </Button>
+        <Button size="sm" variant="ghost" onClick={handleRedo} disabled={!canRedo} title="Rehacer (Ctrl+Shift+Z)">
+          <Redo2 className="h-4 w-4" />
+        </Button>
+        
         <div className="flex-1" />
         
         {/* Mostrar alfabeto actual */}
@@ -406,6 +491,7 @@ export function TransitionTableEditor({
                   {/* Nombre del estado */}
                   <TableCell className="sticky left-20 bg-background z-10">
                     <Input
+                      key={row.stateLabel} // Se vuelve a montar si la etiqueta cambia al deshacer
                       defaultValue={row.stateLabel}
                       onBlur={(e) => {
                         if (e.target.value !== row.stateLabel) {
@@ -481,6 +567,9 @@ export function TransitionTableEditor({
         </div>
       )}
 
+      {/* Problemas del autómata y correcciones (la tabla solo representa AFD) */}
+      <AutomatonLintPanel automaton={currentAutomaton} onApplyFix={handleApplyFix} disabledFixes={['mark-nfa']} />
+
       {/* Leyenda */}
       <div className="flex gap-4 text-xs text-muted-foreground">
         <div className="flex items-center gap-1.5">
@@ -9,7 +9,8 @@
 
 import { useEffect, useRef, useState, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
-import { Download, ZoomIn, ZoomOut, Maximize2, Copy } from 'lucide-react';
+import { ZoomIn, ZoomOut, Maximize2, Copy } from 'lucide-react';
+import { GraphExportMenu } from '@/components/shared/graph-export-menu';
 import { cn } from '@/lib/utils';
 import CytoscapeComponent from 'react-cytoscapejs';
 import cytoscape from 'cytoscape';
@@ -378,20 +379,6 @@ export function LRAutomatonGraph({
     }
   };
   
-  const handleExport = () => {
-    if (cyRef.current) {
-      const png = cyRef.current.png({
-        full: true,
-        scale: 2,
-        bg: isDarkMode ? '#1f2937' : '#ffffff',
-      });
-      const link = document.createElement('a');
-      link.href = png;
-      link.download = `lr-automaton-${Date.now()}.png`;
-      link.click();
-    }
-  };
-  
   const handleCopyImage = async () => {
     if (cyRef.current) {
       try {
@@ -445,10 +432,14 @@ export function LRAutomatonGraph({
         <Button size="sm" variant="secondary" onClick={handleCopyImage} className="shadow-md h-8 w-8 p-0" title="Copiar imagen">
           <Copy className="h-4 w-4" />
         </Button>
-        <Button size="sm" variant="secondary" onClick={handleExport} className="shadow-md" title="Exportar imagen">
-          <Download className="h-4 w-4 mr-1" />
-          PNG
-        </Button>
+        <GraphExportMenu
+          getCy={() => cyRef.current}
+          fileName="automata-lr"
+          background={isDarkMode ? '#1f2937' : '#ffffff'}
+          latex="tikz"
+          tikzOptions={{ acceptingSelector: '.accepting' }}
+          className="shadow-md"
+        />
       </div>
       
       {/* Leyenda */}
@@ -9,7 +9,8 @@ import { useEffect, useRef, useState } from 'react';
 import CytoscapeComponent from 'react-cytoscapejs';
 import { ASTNode } from '@/lib/types/analysis';
 import { Button } from '@/components/ui/button';
-import { Copy, Download } from 'lucide-react';
+import { Copy } from 'lucide-react';
+import { GraphExportMenu } from '@/components/shared/graph-export-menu';
 import { Card } from '@/components/ui/card';
 import cytoscape from 'cytoscape';
 import dagre from 'cytoscape-dagre';
@@ -100,20 +101,6 @@ export function SyntaxTreeGraph({ tree, className }: SyntaxTreeGraphProps) {
     }
   }, [elements]);
 
-  const handleExport = () => {
-    if (cyRef.current) {
-      const png = cyRef.current.png({ 
-        full: true, 
-        scale: 2,
-        bg: 'white' 
-      });
-      const link = document.createElement('a');
-      link.href = png;
-      link.download = 'arbol-sintactico.png';
-      link.click();
-    }
-  };
-
   const handleCopyImage = async () => {
     if (cyRef.current) {
       try {
@@ -240,15 +227,13 @@ export function SyntaxTreeGraph({ tree, className }: SyntaxTreeGraphProps) {
           >
             <Copy className="h-4 w-4 mr-1" />
           </Button>
-          <Button
-            size="sm"
-            variant="secondary"
-            onClick={handleExport}
+          <GraphExportMenu
+            getCy={() => cyRef.current}
+            fileName="arbol-sintactico"
+            background="white"
+            latex="forest"
             className="shadow-md"
-          >
-            <Download className="h-4 w-4 mr-1" />
-            Descargar
-          </Button>
+          />
         </div>
       </div>
     </div>
@@ -16,6 +16,7 @@ interface CollapsibleSectionProps {
   icon?: ReactNode;
   badge?: ReactNode;
   className?: string;
+  onOpenChange?: (open: boolean) => void; // Para calcular el contenido solo al abrir la sección
 }
 
 export function CollapsibleSection({
@@ -25,13 +26,19 @@ export function CollapsibleSection({
   icon,
   badge,
   className,
+  onOpenChange,
 }: CollapsibleSectionProps) {
   const [isOpen, setIsOpen] = useState(defaultOpen);
 
+  const toggle = () => {
+    setIsOpen(!isOpen);
+    onOpenChange?.(!isOpen);
+  };
+
   return (
     <div className={cn('rounded-lg border border-border bg-card', className)}>
       <button
-        onClick={() => setIsOpen(!isOpen)}
+        onClick={toggle}
         className="flex w-full items-center justify-between gap-3 p-4 text-left transition-colors hover:bg-primary/10"
       >
         <div className="flex min-w-0 flex-1 items-center gap-3">
@@ -0,0 +1,112 @@
+'use client';
+
+/**
+ * Menú para exportar un grafo de Cytoscape como figura
+ * SVG, PNG a la resolución elegida y código LaTeX (TikZ para autómatas,
+ * forest para árboles) listo para apuntes y exámenes
+ */
+
+import type cytoscape from 'cytoscape';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Download } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  cytoscapeToSvg,
+  cytoscapeToTikz,
+  cytoscapeTreeToForest,
+  downloadFile,
+  type TikzOptions,
+} from '@/lib/utils/graph-export';
+
+interface GraphExportMenuProps {
+  getCy: () => cytoscape.Core | null;
+  fileName: string; // Nombre base de los archivos (sin extensión)
+  background?: string; // Fondo de PNG y SVG
+  latex?: 'tikz' | 'forest'; // Formato LaTeX: autómata o árbol
+  tikzOptions?: TikzOptions;
+  variant?: 'outline' | 'secondary' | 'ghost';
+  className?: string;
+}
+
+const pngScales = [1, 2, 4];
+
+export function GraphExportMenu({
+  getCy,
+  fileName,
+  background = '#ffffff',
+  latex,
+  tikzOptions,
+  variant = 'secondary',
+  className,
+}: GraphExportMenuProps) {
+  const withGraph = (action: (cy: cytoscape.Core) => void) => () => {
+    const cy = getCy();
+    if (!cy || cy.elements().length === 0) return;
+
+    try {
+      action(cy);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'No se pudo exportar el grafo');
+    }
+  };
+
+  const latexCode = (cy: cytoscape.Core) =>
+    latex === 'forest' ? cytoscapeTreeToForest(cy) : cytoscapeToTikz(cy, tikzOptions);
+
+  const handleCopyLatex = withGraph(cy => {
+    navigator.clipboard.writeText(latexCode(cy)).then(
+      () => toast.success('Código LaTeX copiado al portapapeles'),
+      () => toast.error('Error al copiar al portapapeles')
+    );
+  });
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button size="sm" variant={variant} className={className} title="Exportar figura">
+          <Download className="h-4 w-4 mr-1" />
+          Figura
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Imagen</DropdownMenuLabel>
+        <DropdownMenuItem
+          onSelect={withGraph(cy => downloadFile(cytoscapeToSvg(cy, background), `${fileName}.svg`, 'image/svg+xml'))}
+        >
+          SVG (vectorial)
+        </DropdownMenuItem>
+        {pngScales.map(scale => (
+          <DropdownMenuItem
+            key={scale}
+            onSelect={withGraph(cy => downloadFile(cy.png({ full: true, scale, bg: background }), `${fileName}@${scale}x.png`))}
+          >
+            PNG {scale}x
+          </DropdownMenuItem>
+        ))}
+
+        {latex && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel>LaTeX ({latex === 'forest' ? 'forest' : 'TikZ automata'})</DropdownMenuLabel>
+            <DropdownMenuItem
+              onSelect={withGraph(cy => downloadFile(latexCode(cy), `${fileName}.tex`, 'application/x-tex'))}
+            >
+              Descargar .tex
+            </DropdownMenuItem>
+            <DropdownMenuItem onSelect={handleCopyLatex}>
+              Copiar código
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -11,3 +11,4 @@ export { CopyButton as CopyButtonV2 } from './copy-button-v2';
 export { SymbolSlider, commonSymbols } from './symbol-slider';
 export { SegmentedControl, type SegmentOption } from './segmented-control';
 export { HelpModal } from './help-modal';
+export { GraphExportMenu } from './graph-export-menu';
@@ -47,6 +47,6 @@ export const commonSymbols = {
   comparison: ['=', '==', '!=', '<', '>', '<=', '>='],
   logical: ['&&', '||', '!', '&', '|'],
   delimiters: ['(', ')', '{', '}', '[', ']', ';', ',', '.'],
-  regex: ['|', '*', '+', '?', '.', '(', ')', 'ε'],
+  regex: ['|', '*', '+', '?', '.', '(', ')', '[', ']', '-', '^', '{', '}', '\\', 'ε', '∅'],
   alphabet: ['a', 'b', 'c', 'd', 'e'],
 };
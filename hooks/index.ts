@@ -16,3 +16,6 @@ export type { UseCompilerFullReturn } from './use-compiler';
 
 export { useHistory } from './use-history';
 export type { UseHistoryReturn } from './use-history';
+
+export { useAutomatonHistory } from './use-automaton-history';
+export type { UseAutomatonHistoryReturn } from './use-automaton-history';
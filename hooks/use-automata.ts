@@ -6,6 +6,11 @@
  * - Reconocer cadenas
  * - Generar tablas de transiciones
  * - Convertir AF a ER
+ * - Minimizar autómatas (Moore / Hopcroft; los AFN se determinizan antes)
+ * - Comprobar equivalencia de lenguajes (con contraejemplo)
+ * - Operaciones de clausura (unión, intersección, complemento, ...)
+ * - Analizadores léxicos con varios tokens (lexema más largo y prioridades)
+ * - Simplificar expresiones regulares con identidades algebraicas
  * 
  * Utiliza el CompilerContext para persistir el estado
  */
@@ -17,12 +22,27 @@ import {
   AutomatonConfig, 
   RecognitionResult,
   TransitionTable,
-  AutomatonResults
+  AutomatonResults,
+  MinimizationMethod,
+  MinimizationResult,
+  EquivalenceResult,
+  AutomatonOperation,
+  CompiledLexer,
+  LexerRunResult,
+  LexerTokenDefinition,
+  RegexSimplification,
 } from '@/lib/types';
 import { buildAFDFull, buildAFDShort } from '@/lib/algorithms/lexical/afd-construction';
-import { recognizeStringDFA } from '@/lib/algorithms/lexical/string-recognition';
+import { buildAFDBrzozowski } from '@/lib/algorithms/lexical/brzozowski';
+import { minimizeDFA } from '@/lib/algorithms/lexical/dfa-minimization';
+import { areRegexEquivalent, isRegexEquivalentToAutomaton } from '@/lib/algorithms/lexical/equivalence';
+import { applyAutomatonOperation } from '@/lib/algorithms/lexical/automata-operations';
+import { buildLexer, runLexer } from '@/lib/algorithms/lexical/lexer-builder';
+import { erToAFD, erToAFN } from '@/lib/algorithms/lexical/er-to-af';
+import { recognizeStringDFA, recognizeStringNFA } from '@/lib/algorithms/lexical/string-recognition';
 import { afToER, afToERByStateElimination } from '@/lib/algorithms/lexical/af-to-er';
 import { validateRegex } from '@/lib/algorithms/lexical/regex-parser';
+import { simplifyRegexAST } from '@/lib/algorithms/lexical/regex-simplifier';
 
 export interface UseAutomataReturn {
   // Estado
@@ -33,13 +53,39 @@ export interface UseAutomataReturn {
   
   // Funciones
   buildAutomaton: (config: AutomatonConfig) => Promise<AutomatonResults  | null>;
-  testString: (input: string) => Promise<RecognitionResult | null>;
+  testString: (input: string, recognizer?: 'afd' | 'afn') => Promise<RecognitionResult | null>;
   getTransitionTable: () => TransitionTable | null;
   convertToER: () => Promise<{ regex: string; steps: any[] } | null>;
+  minimizeAutomaton: (source: string | Automaton, method: MinimizationMethod, alphabet?: string[]) => MinimizationResult | null;
+  checkEquivalence: (referenceRegex: string, answer: string | Automaton) => EquivalenceResult | null;
+  combineAutomata: (
+    operation: AutomatonOperation,
+    first: string | Automaton,
+    second?: string | Automaton,
+    alphabet?: string[]
+  ) => Automaton | null;
+  createLexer: (definitions: LexerTokenDefinition[]) => CompiledLexer | null;
+  tokenizeInput: (lexer: CompiledLexer, input: string) => LexerRunResult | null;
+  simplifyExpression: (regex: string, alphabet?: string[]) => RegexSimplification | null;
   clearAutomaton: () => void;
   clearError: () => void;
 }
 
+/**
+ * Obtiene el alfabeto declarado de la configuración.
+ * Si no se indica explícitamente, se usan los representantes de los lenguajes
+ * (formato "L1={a,b,c | a}"), que son los símbolos que aparecen en la expresión.
+ */
+function getDeclaredAlphabet(config: AutomatonConfig): string[] | undefined {
+  if (config.alphabet && config.alphabet.length > 0) return config.alphabet;
+
+  const representatives = config.languages
+    .map(lang => lang.match(/\|\s*([^}]+)\}/)?.[1].trim())
+    .filter((rep): rep is string => !!rep);
+
+  return representatives.length > 0 ? representatives : undefined;
+}
+
 /**
  * Hook de autómata
  */
@@ -70,7 +116,8 @@ export function useAutomata(): UseAutomataReturn {
         throw new Error('Se requiere una expresión regular');
       }
 
-      const validation = validateRegex(config.regex);
+      const alphabet = getDeclaredAlphabet(config);
+      const validation = validateRegex(config.regex, alphabet);
       if (!validation.isValid) {
         throw new Error(validation.errors.join(', '));
       }
@@ -80,18 +127,31 @@ export function useAutomata(): UseAutomataReturn {
       switch (config.algorithm) {
         case 'afd-full':
           // AFD mediante thompson + subconjuntos + estados significativos
-          results = buildAFDFull(config.regex);
+          results = buildAFDFull(config.regex, alphabet);
           break;
 
         case 'afd-short':
           // AFD optimizado mediante arbol sintáctico
-          results = buildAFDShort(config.regex);
+          results = buildAFDShort(config.regex, alphabet);
+          break;
+
+        case 'afd-brzozowski':
+          // AFD cuyos estados son las derivadas de la expresión
+          results = buildAFDBrzozowski(config.regex, alphabet);
           break;
 
         default:
           throw new Error(`Algoritmo no soportado: ${config.algorithm}`);
       }
 
+      // Minimización posterior (Moore / Hopcroft) del AFD resultante
+      if (config.minimization) {
+        results = {
+          ...results,
+          minimization: minimizeDFA(results.automatonAFD, config.minimization),
+        };
+      }
+
       // 3. Guardar autómata en el contexto
       setAutomaton(results);
 
@@ -109,18 +169,30 @@ export function useAutomata(): UseAutomataReturn {
 
   /**
    * Prueba si una cadena es aceptada por el autómata
+   * @param recognizer 'afd' simula el AFD óptimo; 'afn' el AFN de Thompson (por conjuntos de estados)
    */
-  const testString = useCallback(async (input: string): Promise<RecognitionResult | null> => {
+  const testString = useCallback(async (
+    input: string,
+    recognizer: 'afd' | 'afn' = 'afd'
+  ): Promise<RecognitionResult | null> => {
     if (!lexical.automaton) {
       setError('No hay autómata disponible para reconocer la cadena');
       return null;
     }
 
+    const afn = lexical.automaton.automatonAFN;
+    if (recognizer === 'afn' && !afn) {
+      setError('No hay AFN disponible: construye el autómata con el método de Thompson');
+      return null;
+    }
+
     setIsProcessing(true);
     setError(null);
 
     try {
-      const result = recognizeStringDFA(lexical.automaton.automatonAFD, input);
+      const result = recognizer === 'afn' && afn
+        ? recognizeStringNFA(afn, input)
+        : recognizeStringDFA(lexical.automaton.automatonAFD, input);
       setRecognitionResult(result);
       return result;
     } catch (err) {
@@ -194,6 +266,139 @@ export function useAutomata(): UseAutomataReturn {
     }
   }, [lexical.automaton, setAfToErResult]);
 
+  /**
+   * Minimiza un autómata cualquiera (por ejemplo, uno dibujado en el editor).
+   * Una expresión regular se convierte en su AFN de Thompson, que se
+   * determiniza por subconjuntos antes de minimizar; el autómata se construye
+   * localmente, sin reemplazar el del contexto.
+   */
+  const minimizeAutomaton = useCallback((
+    source: string | Automaton,
+    method: MinimizationMethod,
+    alphabet?: string[]
+  ): MinimizationResult | null => {
+    setError(null);
+
+    try {
+      if (typeof source !== 'string') return minimizeDFA(source, method);
+
+      const validation = validateRegex(source, alphabet);
+      if (!validation.isValid) {
+        throw new Error(validation.errors.join(', '));
+      }
+      return minimizeDFA(erToAFN(source, alphabet), method);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Error al minimizar el autómata';
+      setError(errorMessage);
+      return null;
+    }
+  }, []);
+
+  /**
+   * Compara una expresión regular de referencia con una respuesta
+   * (otra expresión regular o un autómata). La referencia es el primer
+   * lenguaje del resultado y la respuesta el segundo.
+   */
+  const checkEquivalence = useCallback((referenceRegex: string, answer: string | Automaton): EquivalenceResult | null => {
+    setError(null);
+
+    try {
+      return typeof answer === 'string'
+        ? areRegexEquivalent(referenceRegex, answer)
+        : isRegexEquivalentToAutomaton(referenceRegex, answer);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Error al comparar los lenguajes';
+      setError(errorMessage);
+      return null;
+    }
+  }, []);
+
+  /**
+   * Aplica una operación de clausura a uno o dos operandos.
+   * Los operandos pueden ser expresiones regulares (se construye su AFD
+   * por el método directo) o autómatas ya definidos.
+   */
+  const combineAutomata = useCallback((
+    operation: AutomatonOperation,
+    first: string | Automaton,
+    second?: string | Automaton,
+    alphabet?: string[]
+  ): Automaton | null => {
+    setError(null);
+
+    const toAutomaton = (operand: string | Automaton, name: string): Automaton => {
+      if (typeof operand !== 'string') return { ...operand, name };
+
+      const validation = validateRegex(operand, alphabet);
+      if (!validation.isValid) {
+        throw new Error(validation.errors.join(', '));
+      }
+      return { ...erToAFD(operand, alphabet), name };
+    };
+
+    try {
+      return applyAutomatonOperation(
+        operation,
+        toAutomaton(first, 'A₁'),
+        second === undefined ? undefined : toAutomaton(second, 'A₂'),
+        alphabet
+      );
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Error al combinar los autómatas';
+      setError(errorMessage);
+      return null;
+    }
+  }, []);
+
+  /**
+   * Construye un analizador léxico a partir de varias definiciones de tokens
+   */
+  const createLexer = useCallback((definitions: LexerTokenDefinition[]): CompiledLexer | null => {
+    setError(null);
+
+    try {
+      return buildLexer(definitions);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Error al construir el analizador léxico';
+      setError(errorMessage);
+      return null;
+    }
+  }, []);
+
+  /**
+   * Tokeniza una entrada con un analizador léxico ya construido
+   */
+  const tokenizeInput = useCallback((lexer: CompiledLexer, input: string): LexerRunResult | null => {
+    setError(null);
+
+    try {
+      return runLexer(lexer, input);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Error al tokenizar la entrada';
+      setError(errorMessage);
+      return null;
+    }
+  }, []);
+
+  /**
+   * Simplifica una expresión regular verificando cada reescritura
+   */
+  const simplifyExpression = useCallback((regex: string, alphabet?: string[]): RegexSimplification | null => {
+    setError(null);
+
+    try {
+      const validation = validateRegex(regex, alphabet);
+      if (!validation.isValid) {
+        throw new Error(validation.errors.join(', '));
+      }
+      return simplifyRegexAST(regex, { alphabet, verify: 'steps' });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Error al simplificar la expresión';
+      setError(errorMessage);
+      return null;
+    }
+  }, []);
+
   /**
    * Limpia el autómata actual
    */
@@ -220,6 +425,12 @@ export function useAutomata(): UseAutomataReturn {
     testString,
     getTransitionTable,
     convertToER,
+    minimizeAutomaton,
+    checkEquivalence,
+    combineAutomata,
+    createLexer,
+    tokenizeInput,
+    simplifyExpression,
     clearAutomaton,
     clearError,
   };
@@ -0,0 +1,176 @@
+/**
+ * Hook para deshacer y rehacer cambios en los editores de autómatas
+ *
+ * Guarda instantáneas del autómata en edición:
+ * - Los cambios seguidos sobre los mismos estados y transiciones (ej: escribir
+ *   un símbolo letra a letra o mover varios estados a la vez) se agrupan en una entrada
+ * - Las posiciones que falten en una instantánea (la tabla no las tiene) se toman
+ *   de la anterior, así que cambiar de vista no agrega entradas
+ * - Si el editor visual y la tabla reciben la misma instancia, comparten el
+ *   historial y se puede deshacer en una vista lo hecho en la otra
+ */
+
+import { useCallback, useRef, useState } from 'react';
+import type { Automaton } from '@/lib/types';
+
+const MAX_ENTRIES = 100;
+const MERGE_WINDOW_MS = 800;
+const EMPTY_STACKS: HistoryStacks = { past: [], present: null, future: [] };
+
+export interface UseAutomatonHistoryReturn {
+  // Estado
+  present: Automaton | null;
+  canUndo: boolean;
+  canRedo: boolean;
+
+  // Funciones
+  record: (automaton: Automaton) => void;
+  undo: () => Automaton | null;
+  redo: () => Automaton | null;
+  clear: () => void;
+}
+
+interface HistoryStacks {
+  past: Automaton[];
+  present: Automaton | null;
+  future: Automaton[];
+}
+
+/**
+ * Contenido comparable de una instantánea (sin IDs de transiciones, su orden ni
+ * posiciones: cada editor numera y ordena las transiciones a su manera)
+ */
+function contentOf(automaton: Automaton): string {
+  return JSON.stringify([
+    automaton.type,
+    automaton.states.map(s => [s.id, s.label, s.isInitial, s.isFinal]),
+    automaton.transitions.map(t => [t.from, t.to, t.symbol].join('\u0000')).sort(),
+  ]);
+}
+
+/**
+ * Si dos instantáneas con el mismo contenido difieren en alguna posición conocida en ambas
+ */
+function positionsDiffer(a: Automaton, b: Automaton): boolean {
+  return a.states.some((state, index) => {
+    const other = b.states[index]?.position;
+    return state.position && other && (state.position.x !== other.x || state.position.y !== other.y);
+  });
+}
+
+/**
+ * Si la instantánea conoce posiciones que la otra no tiene
+ */
+function addsPositions(a: Automaton, b: Automaton): boolean {
+  return a.states.some((state, index) => state.position && !b.states[index]?.position);
+}
+
+/**
+ * Estados y transiciones presentes, sin etiquetas, símbolos ni posiciones
+ */
+function structureOf(automaton: Automaton): string {
+  return JSON.stringify([automaton.states.map(s => s.id), automaton.transitions.map(t => [t.from, t.to])]);
+}
+
+/**
+ * Completa las posiciones que falten con las de la instantánea anterior
+ */
+function withPositions(automaton: Automaton, previous: Automaton | null): Automaton {
+  if (!previous || automaton.states.every(s => s.position)) return automaton;
+
+  return {
+    ...automaton,
+    states: automaton.states.map(state => state.position
+      ? state
+      : { ...state, position: previous.states.find(s => s.id === state.id)?.position }
+    ),
+  };
+}
+
+/**
+ * Hook de historial de edición de autómatas
+ */
+export function useAutomatonHistory(): UseAutomatonHistoryReturn {
+  const stacksRef = useRef<HistoryStacks>(EMPTY_STACKS);
+  const lastRecordRef = useRef(0);
+  const [stacks, setStacks] = useState<HistoryStacks>(EMPTY_STACKS);
+
+  const update = useCallback((next: HistoryStacks) => {
+    stacksRef.current = next;
+    setStacks(next);
+  }, []);
+
+  /**
+   * Registra el estado actual del editor (no hace nada si no cambió)
+   */
+  const record = useCallback((automaton: Automaton) => {
+    const { past, present } = stacksRef.current;
+    const snapshot = withPositions(automaton, present);
+
+    if (!present) {
+      // Un editor vacío no es un punto al que valga la pena volver
+      if (snapshot.states.length > 0) update({ past: [], present: snapshot, future: [] });
+      return;
+    }
+    if (contentOf(snapshot) === contentOf(present) && !positionsDiffer(snapshot, present)) {
+      // Solo se agregaron posiciones (ej: al pasar de la tabla al editor visual)
+      if (addsPositions(snapshot, present)) update({ ...stacksRef.current, present: snapshot });
+      return;
+    }
+
+    const now = Date.now();
+    const merge = past.length > 0
+      && now - lastRecordRef.current < MERGE_WINDOW_MS
+      && structureOf(snapshot) === structureOf(present);
+    lastRecordRef.current = now;
+
+    update({
+      past: merge ? past : [...past, present].slice(-MAX_ENTRIES),
+      present: snapshot,
+      future: [],
+    });
+  }, [update]);
+
+  /**
+   * Vuelve a la instantánea anterior y la devuelve para que el editor la cargue
+   */
+  const undo = useCallback((): Automaton | null => {
+    const { past, present, future } = stacksRef.current;
+    if (past.length === 0 || !present) return null;
+
+    const previous = past[past.length - 1];
+    lastRecordRef.current = 0;
+    update({ past: past.slice(0, -1), present: previous, future: [present, ...future] });
+    return previous;
+  }, [update]);
+
+  /**
+   * Rehace el último cambio deshecho
+   */
+  const redo = useCallback((): Automaton | null => {
+    const { past, present, future } = stacksRef.current;
+    if (future.length === 0 || !present) return null;
+
+    const next = future[0];
+    lastRecordRef.current = 0;
+    update({ past: [...past, present], present: next, future: future.slice(1) });
+    return next;
+  }, [update]);
+
+  /**
+   * Vacía el historial
+   */
+  const clear = useCallback(() => {
+    update(EMPTY_STACKS);
+  }, [update]);
+
+  return {
+    present: stacks.present,
+    canUndo: stacks.past.length > 0,
+    canRedo: stacks.future.length > 0,
+    record,
+    undo,
+    redo,
+    clear,
+  };
+}
@@ -6,7 +6,20 @@
 export * from './lexical/regex-parser';
 export * from './lexical/er-to-af';
 export * from './lexical/afd-construction';
+export * from './lexical/epsilon-elimination';
+export * from './lexical/brzozowski';
+export * from './lexical/dfa-minimization';
+export * from './lexical/equivalence';
+export * from './lexical/automata-operations';
 export * from './lexical/string-recognition';
+export * from './lexical/batch-testing';
+export * from './lexical/language-analysis';
+export * from './lexical/automaton-formats';
+export * from './lexical/automaton-lint';
+export * from './lexical/lexer-builder';
+export * from './lexical/scanner-generator';
+export * from './lexical/regular-grammar';
+export * from './lexical/regex-simplifier';
 export * from './lexical/af-to-er';
 
 // Algoritmos sintácticos
@@ -1,20 +1,51 @@
 /**
  * Conversión de Autómata Finito a Expresión Regular
  * 
- * Implementa dos métodos para convertir un AF en una ER equivalente:
+ * Implementa tres métodos para convertir un AF en una ER equivalente:
  * 
  * 1. MÉTODO DE ARDEN (ecuaciones):
  *    - Teorema de Arden: Si X = A·X | B, entonces X = A*·B (siempre que ε ∉ A)
  *    - Crea ecuaciones para cada estado y las resuelve algebraicamente
+ *    - Cada ecuación se resuelve en forma estructurada (coeficiente por variable
+ *      más una constante), sin reemplazar texto: el lado derecho solo se escribe
+ *      para mostrar los pasos
  * 
  * 2. MÉTODO DE ELIMINACIÓN DE ESTADOS (State Elimination):
  *    - Agrega un nuevo estado inicial y final
  *    - Elimina estados uno por uno, actualizando las transiciones
  *    - Fórmula para eliminar estado q: R(p→r) = R(p→q)·R(q→q)*·R(q→r) + R(p→r)
  *    - La ER final es la transición del estado inicial al final
+ *    - El orden de eliminación puede elegirse o decidirse con una heurística
+ *
+ * 3. MÉTODO DE KLEENE (McNaughton–Yamada):
+ *    - R(i,j,k): caminos de i a j cuyos estados intermedios están entre los k primeros
+ *    - R(i,j,k) = R(i,j,k-1) | R(i,k,k-1)·R(k,k,k-1)*·R(k,j,k-1)
+ *    - La ER final es la unión de R(1,f,n) para cada estado final f
  */
 
-import { Automaton, Equation, EquationStep, Frontier } from '@/lib/types/automata';
+import {
+  Automaton,
+  EliminationHeuristic,
+  EliminationOrderComparison,
+  Equation,
+  EquationStep,
+  EquivalenceResult,
+  Frontier,
+  KleeneReduction,
+  KleeneResult,
+  KleeneTable,
+  State,
+  RegexSimplification,
+  RegexTransition,
+  StateEliminationOptions,
+  StateEliminationResult,
+  StateEliminationStep,
+} from '@/lib/types/automata';
+import { formatRegexSymbol, tokenizeRegex } from './regex-parser';
+import { areRegexEquivalent } from './equivalence';
+import { simplifyRegexAST } from './regex-simplifier';
+import { minimizeDFA } from './dfa-minimization';
+import { reachableFrom } from './afd-construction';
 
 /**
  * Genera las fronteras de un autómata
@@ -33,7 +64,9 @@ export function calculateFrontiers(automaton: Automaton): Frontier[] {
 
       if (symbols.length > 0) {
         // Construir expresión regular para estos símbolos
-        let expression = symbols.length === 1 ? symbols[0] : `(${symbols.join('|')})`;
+        // Los símbolos de varios caracteres o especiales se escriben como {id} o \*
+        const formatted = symbols.map(formatRegexSymbol);
+        let expression = formatted.length === 1 ? formatted[0] : `(${formatted.join('|')})`;
 
         frontiers.push({
           from: fromState.label,
@@ -117,67 +150,6 @@ function splitByUnion(expr: string): string[] {
   return terms;
 }
 
-/**
- * Verifica si un término contiene una variable (estado)
- * Detecta variables como q0, q1, q2, A, B en expresiones como "aq2", "bq3", etc.
- */
-function containsVariable(term: string, variable: string): boolean {
-  if (!term || !variable) return false;
-  
-  const escaped = escapeRegExp(variable);
-  // Buscar la variable que:
-  // 1. No esté seguida por más dígitos (para evitar q1 matcheando en q10)
-  // 2. Puede estar al final o seguida por operadores/espacios/paréntesis
-  const regex = new RegExp(`${escaped}(?![0-9a-zA-Z])|${escaped}$`);
-  return regex.test(term);
-}
-
-/**
- * Escapa caracteres especiales de regex
- */
-function escapeRegExp(str: string): string {
-  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-}
-
-/**
- * Extrae el coeficiente de un término recursivo
- * ej: "aX" -> { coefficient: "a", isPrefix: true }
- * ej: "Xa" -> { coefficient: "a", isPrefix: false }
- * ej: "aq2" -> { coefficient: "a", isPrefix: true } (para variable q2)
- */
-function extractCoefficient(
-  term: string, 
-  variable: string
-): { coefficient: string; isPrefix: boolean } | null {
-  if (!containsVariable(term, variable)) return null;
-  
-  // Encontrar la posición de la variable
-  const escaped = escapeRegExp(variable);
-  const regex = new RegExp(`${escaped}(?![0-9a-zA-Z])|${escaped}$`);
-  const match = regex.exec(term);
-  
-  if (!match) return null;
-  
-  const varIndex = match.index;
-  const varLength = variable.length;
-  
-  // Verificar si la variable está al final (prefijo: αX)
-  if (varIndex + varLength === term.length) {
-    const coefficient = term.substring(0, varIndex).trim();
-    return { coefficient: coefficient || 'ε', isPrefix: true };
-  }
-  
-  // Verificar si la variable está al inicio (sufijo: Xα)
-  if (varIndex === 0) {
-    const coefficient = term.substring(varLength).trim();
-    return { coefficient: coefficient || 'ε', isPrefix: false };
-  }
-  
-  // Variable en medio - tratar como prefijo
-  const prefix = term.substring(0, varIndex).trim();
-  return { coefficient: prefix || 'ε', isPrefix: true };
-}
-
 /**
  * Verifica si una expresión necesita paréntesis
  */
@@ -196,81 +168,55 @@ function needsParens(expr: string): boolean {
 }
 
 /**
- * Aplica el Lema de Arden de forma robusta
- * Si X = αX | β, entonces X = α*β
- * Si X = Xα | β, entonces X = βα*
+ * Combina dos expresiones regulares con unión
  */
-function applyArdenLemmaImproved(
-  rightSide: string, 
-  variable: string
-): { applied: boolean; result: string; alpha: string; beta: string } {
-  const terms = splitByUnion(rightSide);
-  
-  // Separar términos recursivos y no recursivos
-  const selfTerms: string[] = [];
-  const otherTerms: string[] = [];
-  
-  for (const term of terms) {
-    if (containsVariable(term, variable)) {
-      selfTerms.push(term);
-    } else {
-      otherTerms.push(term);
-    }
-  }
-  
-  if (selfTerms.length === 0) {
-    return { applied: false, result: rightSide, alpha: '', beta: '' };
-  }
-  
-  // Extraer α de los términos recursivos
-  const alphaTerms: string[] = [];
-  let isPrefix = true;
-  
-  for (const term of selfTerms) {
-    const extracted = extractCoefficient(term, variable);
-    if (extracted) {
-      alphaTerms.push(extracted.coefficient);
-      isPrefix = extracted.isPrefix;
-    }
-  }
-  
-  // Construir α
-  let alpha = alphaTerms.length === 1 
-    ? alphaTerms[0] 
-    : `(${alphaTerms.join('|')})`;
+function combineWithUnion(regex1: string, regex2: string): string {
+  if (!regex1 || regex1 === '∅') return regex2 || '∅';
+  if (!regex2 || regex2 === '∅') return regex1 || '∅';
+  if (regex1 === regex2) return regex1;
   
-  // Construir β
-  let beta = otherTerms.length === 0 
-    ? 'ε' 
-    : otherTerms.length === 1 
-      ? otherTerms[0] 
-      : `(${otherTerms.join(' | ')})`;
+  return `(${regex1}|${regex2})`;
+}
+
+/**
+ * Combina dos expresiones regulares con concatenación
+ */
+function combineWithConcat(regex1: string, regex2: string): string {
+  if (!regex1 || regex1 === '∅') return '∅';
+  if (!regex2 || regex2 === '∅') return '∅';
+  if (regex1 === 'ε') return regex2;
+  if (regex2 === 'ε') return regex1;
   
-  // Aplicar Arden
-  let result: string;
-  const alphaStar = alpha === 'ε' ? '' : needsParens(alpha) ? `(${alpha})*` : `${alpha}*`;
+  const r1 = needsParens(regex1) ? `(${regex1})` : regex1;
+  const r2 = needsParens(regex2) ? `(${regex2})` : regex2;
   
-  if (isPrefix) {
-    if (beta === 'ε' && alphaStar) {
-      result = alphaStar;
-    } else if (!alphaStar) {
-      result = beta;
-    } else {
-      result = `${alphaStar}${beta}`;
-    }
-  } else {
-    if (beta === 'ε' && alphaStar) {
-      result = alphaStar;
-    } else if (!alphaStar) {
-      result = beta;
-    } else {
-      result = `${beta}${alphaStar}`;
-    }
+  return `${r1}${r2}`;
+}
+
+/**
+ * Indica si una expresión es un único operando (símbolo, símbolo escapado,
+ * símbolo con nombre o grupo entre paréntesis) al que se le puede aplicar
+ * un operador postfijo sin agregar paréntesis
+ */
+function isSingleOperand(regex: string): boolean {
+  if (regex.length === 1) return true;
+  if (/^\\.$/.test(regex) || /^\{[^{}]+\}$/.test(regex) || /^'[^']+'$/.test(regex)) return true;
+  return regex.startsWith('(') && regex.endsWith(')') && !needsParens(regex);
+}
+
+/**
+ * Aplica la estrella de Kleene a una expresión
+ */
+function applyKleeneStar(regex: string): string {
+  if (!regex || regex === '∅') return 'ε';
+  if (regex === 'ε') return 'ε';
+
+  // (r*)* = r*
+  if (regex.endsWith('*') && !regex.endsWith('\\*') && isSingleOperand(regex.slice(0, -1))) {
+    return regex;
   }
-  
-  result = simplifyRegex(result);
-  
-  return { applied: true, result, alpha, beta };
+
+  return isSingleOperand(regex) ? `${regex}*` : `(${regex})*`;
 }
 
 /**
@@ -333,64 +279,93 @@ function simplifyRegex(regex: string): string {
 }
 
 /**
- * Sustituye una variable en todas las ecuaciones
+ * Ecuación lineal del sistema de Arden: X = Σ coeficiente·Y | constante
  */
-function substituteVariable(
-  equations: Equation[],
-  variable: string,
-  replacement: string
-): Equation[] {
-  return equations.map(eq => {
-    if (eq.left === variable) {
-      return eq; // No sustituir en su propia ecuación
-    }
+interface LinearEquation {
+  variable: string;
+  coefficients: Map<string, string>; // Variable destino → coeficiente (ER)
+  constant: string; // Término sin variables (ε si el estado es final, ∅ si no)
+  isInitial?: boolean;
+  isFinal?: boolean;
+}
 
-    // Sustituir en el lado derecho usando la misma lógica de detección
-    const escaped = escapeRegExp(variable);
-    const regex = new RegExp(`${escaped}(?![0-9a-zA-Z])`, 'g');
-    
-    // Envolver replacement en paréntesis si es necesario
-    const needsWrap = replacement.includes('|') || replacement.includes(' ');
-    const wrappedReplacement = needsWrap ? `(${replacement})` : replacement;
-    
-    let newRight = eq.right.replace(regex, wrappedReplacement);
-    newRight = simplifyRegex(newRight);
+/**
+ * Escribe el lado derecho de una ecuación lineal: aq1 | bq0 | ε
+ */
+function formatRightSide(equation: LinearEquation): string {
+  const terms = [...equation.coefficients].map(([variable, coefficient]) =>
+    coefficient === 'ε' ? variable : `${needsParens(coefficient) ? `(${coefficient})` : coefficient}${variable}`
+  );
+  if (equation.constant !== '∅') terms.push(equation.constant);
+  return terms.length > 0 ? terms.join(' | ') : '∅';
+}
 
-    return {
-      ...eq,
-      right: newRight,
-    };
-  });
+/**
+ * Aplica el Lema de Arden a una ecuación X = αX | β, obteniendo X = α*β
+ * (α* se distribuye sobre cada término de β)
+ */
+function applyArdenLemma(equation: LinearEquation): LinearEquation {
+  const alpha = equation.coefficients.get(equation.variable);
+  if (!alpha) return equation;
+
+  const star = applyKleeneStar(alpha);
+  const coefficients = new Map<string, string>();
+  for (const [variable, coefficient] of equation.coefficients) {
+    if (variable !== equation.variable) {
+      coefficients.set(variable, simplifyRegex(combineWithConcat(star, coefficient)));
+    }
+  }
+
+  return {
+    ...equation,
+    coefficients,
+    constant: simplifyRegex(combineWithConcat(star, equation.constant)),
+  };
 }
 
 /**
- * Reemplaza una variable en una expresión
+ * Sustituye la ecuación resuelta de una variable en otra ecuación:
+ * si E = cX | ... y X = Σ aY | B, entonces E = Σ (ca)Y | cB | ...
  */
-function replaceVariableInExpr(expr: string, variable: string, replacement: string): string {
-  const escaped = escapeRegExp(variable);
-  const regex = new RegExp(`${escaped}(?![0-9a-zA-Z])`, 'g');
-  const needsWrap = replacement.includes('|') || replacement.includes(' ');
-  const wrappedReplacement = needsWrap ? `(${replacement})` : replacement;
-  return expr.replace(regex, wrappedReplacement);
+function substituteEquation(equation: LinearEquation, solved: LinearEquation): LinearEquation {
+  const coefficient = equation.coefficients.get(solved.variable);
+  if (!coefficient) return equation;
+
+  const coefficients = new Map(equation.coefficients);
+  coefficients.delete(solved.variable);
+  for (const [variable, term] of solved.coefficients) {
+    const merged = simplifyRegex(
+      combineWithUnion(coefficients.get(variable) ?? '∅', combineWithConcat(coefficient, term))
+    );
+    if (merged === '∅') coefficients.delete(variable);
+    else coefficients.set(variable, merged);
+  }
+
+  return {
+    ...equation,
+    coefficients,
+    constant: simplifyRegex(combineWithUnion(equation.constant, combineWithConcat(coefficient, solved.constant))),
+  };
 }
 
 /**
  * Resuelve el sistema de ecuaciones paso a paso usando el método de Arden
- * Procesa estados en orden descendente (qN -> q0) para eliminar dependencias
+ * Procesa estados en orden descendente (qN -> q0): cada variable se despeja
+ * con Arden y se sustituye en las ecuaciones restantes, hasta dejar solo la
+ * ecuación del estado inicial
  */
 export function solveEquations(
   equations: Equation[],
   frontiers: Frontier[]
 ): { steps: EquationStep[]; finalRegex: string } {
   const steps: EquationStep[] = [];
-  let currentEquations = equations.map(eq => ({ ...eq }));
   let stepNumber = 1;
 
   // Paso 0: Sistema inicial
   steps.push({
     stepNumber: 0,
     description: 'Sistema de ecuaciones inicial',
-    equations: currentEquations.map(eq => {
+    equations: equations.map(eq => {
       let prefix = '';
       if (eq.isInitial) prefix = '→';
       if (eq.isFinal) prefix += '*';
@@ -401,21 +376,30 @@ export function solveEquations(
     explanation: 'Ecuaciones generadas a partir del autómata.\n→: estado inicial\n*: estado final\nε en el lado derecho indica que el estado es final (acepta la cadena vacía)',
   });
 
-  // Obtener todos los nombres de variables (estados)
-  const allVariables = currentEquations.map(eq => eq.left);
-  
+  // Sistema lineal: coeficientes por variable a partir de las fronteras
+  let system: LinearEquation[] = equations.map(eq => ({
+    variable: eq.left,
+    coefficients: new Map(
+      frontiers.filter(f => f.from === eq.left).map(f => [f.to, f.expression] as [string, string])
+    ),
+    constant: eq.isFinal ? 'ε' : '∅',
+    isInitial: eq.isInitial,
+    isFinal: eq.isFinal,
+  }));
+  const formatSystem = () => system.map(e => `${e.variable} = ${formatRightSide(e)}`);
+
   // Ordenar estados en orden descendente por número (q3, q2, q1, q0)
   // Esto asegura que eliminamos dependencias de mayor a menor
+  const allVariables = system.map(eq => eq.variable);
   const sortedVariables = [...allVariables].sort((a, b) => {
     const numA = parseInt(a.replace(/\D/g, '')) || 0;
     const numB = parseInt(b.replace(/\D/g, '')) || 0;
     return numB - numA; // Descendente
   });
-  
+
   // Encontrar el estado inicial (objetivo final)
-  const initialState = currentEquations.find(eq => eq.isInitial);
-  const initialVariable = initialState?.left || sortedVariables[sortedVariables.length - 1];
-  
+  const initialVariable = system.find(eq => eq.isInitial)?.variable || sortedVariables[sortedVariables.length - 1];
+
   // Mover el estado inicial al final del procesamiento
   const processingOrder = sortedVariables.filter(v => v !== initialVariable);
   processingOrder.push(initialVariable);
@@ -429,177 +413,63 @@ export function solveEquations(
     explanation: `Se procesarán los estados en orden descendente, dejando el estado inicial (${initialVariable}) para el final.\nEsto permite eliminar todas las dependencias progresivamente.`,
   });
 
-  const resolvedExpressions = new Map<string, string>();
-
-  // Resolver cada ecuación en orden
   for (const variable of processingOrder) {
-    let eq = currentEquations.find(e => e.left === variable)!;
-    let currentRight = eq.right;
-    
-    // Paso 1: Sustituir todas las variables ya resueltas en esta ecuación
-    for (const [resolvedVar, resolvedExpr] of resolvedExpressions) {
-      if (containsVariable(currentRight, resolvedVar)) {
-        currentRight = replaceVariableInExpr(currentRight, resolvedVar, resolvedExpr);
-        currentRight = simplifyRegex(currentRight);
-      }
-    }
-    
-    // Actualizar la ecuación con las sustituciones
-    if (currentRight !== eq.right) {
-      currentEquations = currentEquations.map(e =>
-        e.left === variable ? { ...e, right: currentRight } : e
-      );
-      
-      steps.push({
-        stepNumber: stepNumber++,
-        description: `Sustituir variables resueltas en ${variable}`,
-        equations: currentEquations.map(e => `${e.left} = ${e.right}`),
-        action: 'Sustitución',
-        highlightedVariable: variable,
-        explanation: `Reemplazar variables ya resueltas en la ecuación de ${variable}`,
+    let equation = system.find(e => e.variable === variable)!;
+
+    // Paso 1: si la variable depende de sí misma, aplicar Arden
+    const alpha = equation.coefficients.get(variable);
+    if (alpha) {
+      const beta = formatRightSide({
+        ...equation,
+        coefficients: new Map([...equation.coefficients].filter(([v]) => v !== variable)),
       });
-      
-      eq = currentEquations.find(e => e.left === variable)!;
-      currentRight = eq.right;
-    }
-    
-    // Paso 2: Aplicar Arden si hay recursión (la variable aparece en su propia ecuación)
-    if (containsVariable(currentRight, variable)) {
-      const ardenResult = applyArdenLemmaImproved(currentRight, variable);
-      
-      if (ardenResult.applied) {
-        currentRight = ardenResult.result;
-        currentEquations = currentEquations.map(e =>
-          e.left === variable ? { ...e, right: currentRight } : e
-        );
-        
-        steps.push({
-          stepNumber: stepNumber++,
-          description: `Aplicar Lema de Arden a ${variable}`,
-          equations: currentEquations.map(e => `${e.left} = ${e.right}`),
-          action: 'Arden',
-          highlightedVariable: variable,
-          explanation: `${variable} = α${variable} | β donde α = ${ardenResult.alpha}, β = ${ardenResult.beta}\nPor Arden: ${variable} = α*β = ${ardenResult.result}`,
-        });
-      }
-    }
-    
-    // Paso 3: Verificar que no queden otras variables no resueltas
-    // Si quedan, sustituir iterativamente (de mayor a menor índice)
-    let iterations = 0;
-    const maxIterations = allVariables.length * 3;
-    
-    // Ordenar las otras variables para sustituir de mayor a menor
-    const otherVarsSorted = allVariables
-      .filter(v => v !== variable)
-      .sort((a, b) => {
-        const numA = parseInt(a.replace(/\D/g, '')) || 0;
-        const numB = parseInt(b.replace(/\D/g, '')) || 0;
-        return numB - numA;
-      });
-    
-    while (iterations < maxIterations && containsAnyVariable(currentRight, otherVarsSorted)) {
-      let changed = false;
-      
-      for (const otherVar of otherVarsSorted) {
-        if (containsVariable(currentRight, otherVar)) {
-          // Buscar la expresión de esta variable
-          const resolvedExpr = resolvedExpressions.get(otherVar);
-          const otherEq = currentEquations.find(e => e.left === otherVar);
-          const replacement = resolvedExpr || otherEq?.right;
-          
-          if (replacement && replacement !== '∅' && replacement !== otherVar) {
-            const newRight = replaceVariableInExpr(currentRight, otherVar, replacement);
-            
-            if (newRight !== currentRight) {
-              currentRight = simplifyRegex(newRight);
-              changed = true;
-              
-              steps.push({
-                stepNumber: stepNumber++,
-                description: `Sustituir ${otherVar} en ${variable}`,
-                equations: [`${variable} = ${currentRight}`],
-                action: 'Sustitución',
-                highlightedVariable: variable,
-                explanation: `Reemplazar ${otherVar} por (${replacement})`,
-              });
-              
-              // Verificar si se creó recursión después de la sustitución
-              if (containsVariable(currentRight, variable)) {
-                const ardenResult = applyArdenLemmaImproved(currentRight, variable);
-                if (ardenResult.applied) {
-                  currentRight = ardenResult.result;
-                  
-                  steps.push({
-                    stepNumber: stepNumber++,
-                    description: `Aplicar Arden a ${variable} (recursión creada)`,
-                    equations: [`${variable} = ${currentRight}`],
-                    action: 'Arden',
-                    highlightedVariable: variable,
-                    explanation: `Recursión detectada, aplicar Arden`,
-                  });
-                }
-              }
-            }
-          }
-        }
-      }
-      
-      if (!changed) break;
-      iterations++;
-    }
-    
-    // Actualizar ecuación final para esta variable
-    currentRight = simplifyRegex(currentRight);
-    currentEquations = currentEquations.map(e =>
-      e.left === variable ? { ...e, right: currentRight } : e
-    );
-    
-    // Guardar la expresión resuelta
-    resolvedExpressions.set(variable, currentRight);
-    
-    // Mostrar paso de resolución final
-    if (!containsAnyVariable(currentRight, allVariables) || variable === initialVariable) {
+      equation = applyArdenLemma(equation);
+      system = system.map(e => (e.variable === variable ? equation : e));
+
       steps.push({
         stepNumber: stepNumber++,
-        description: `${variable} resuelto completamente`,
-        equations: currentEquations.map(e => `${e.left} = ${e.right}`),
-        action: 'Resolución',
+        description: `Aplicar Lema de Arden a ${variable}`,
+        equations: formatSystem(),
+        action: 'Arden',
         highlightedVariable: variable,
-        explanation: `La ecuación de ${variable} ya no contiene dependencias de otros estados: ${variable} = ${currentRight}`,
+        explanation: `${variable} = α${variable} | β donde α = ${alpha}, β = ${beta}\nPor Arden: ${variable} = α*β = ${formatRightSide(equation)}`,
       });
     }
-  }
 
-  // Obtener la expresión final del estado inicial
-  let finalRegex = resolvedExpressions.get(initialVariable) || '∅';
-  
-  // Verificación final: asegurar que no queden variables
-  let finalIterations = 0;
-  while (containsAnyVariable(finalRegex, allVariables) && finalIterations < 10) {
-    for (const [varName, varExpr] of resolvedExpressions) {
-      if (containsVariable(finalRegex, varName)) {
-        finalRegex = replaceVariableInExpr(finalRegex, varName, varExpr);
-        finalRegex = simplifyRegex(finalRegex);
-      }
-    }
-    finalIterations++;
-  }
-  
-  finalRegex = simplifyRegex(finalRegex);
+    if (variable === initialVariable) break;
+
+    // Paso 2: sustituir la variable en las ecuaciones restantes y quitarla del sistema
+    const dependents = system
+      .filter(e => e.variable !== variable && e.coefficients.has(variable))
+      .map(e => e.variable);
+    system = system
+      .filter(e => e.variable !== variable)
+      .map(e => substituteEquation(e, equation));
 
-  // Verificar si aún quedan variables (error en el algoritmo)
-  if (containsAnyVariable(finalRegex, allVariables)) {
     steps.push({
       stepNumber: stepNumber++,
-      description: 'Advertencia: Variables no resueltas',
-      equations: [`ER parcial = ${finalRegex}`],
-      action: 'Advertencia',
-      highlightedVariable: '',
-      explanation: 'La expresión aún contiene referencias a estados. Esto puede indicar un ciclo no resuelto.',
+      description: dependents.length > 0
+        ? `Sustituir ${variable} en ${dependents.join(', ')}`
+        : `${variable} no aparece en otras ecuaciones`,
+      equations: formatSystem(),
+      action: 'Sustitución',
+      highlightedVariable: variable,
+      explanation: `${variable} = ${formatRightSide(equation)}\nSe reemplaza ${variable} en las ecuaciones restantes y se elimina del sistema.`,
     });
   }
 
+  // Tras eliminar las demás variables, la ecuación inicial solo tiene constante
+  const finalRegex = simplifyRegex(system.find(e => e.variable === initialVariable)?.constant ?? '∅');
+
+  steps.push({
+    stepNumber: stepNumber++,
+    description: `${initialVariable} resuelto completamente`,
+    equations: [`${initialVariable} = ${finalRegex}`],
+    action: 'Resolución',
+    highlightedVariable: initialVariable,
+    explanation: `La ecuación de ${initialVariable} ya no contiene dependencias de otros estados: ${initialVariable} = ${finalRegex}`,
+  });
+
   steps.push({
     stepNumber: stepNumber,
     description: 'Expresión regular final',
@@ -613,10 +483,38 @@ export function solveEquations(
 }
 
 /**
- * Verifica si una expresión contiene alguna de las variables dadas
+ * Límites de la simplificación de la ER final: cada reescritura recorre la
+ * expresión completa y la verificación construye su autómata producto, así que
+ * ambas se acotan para expresiones grandes
  */
-function containsAnyVariable(expr: string, variables: string[]): boolean {
-  return variables.some(v => containsVariable(expr, v));
+const MAX_SIMPLIFIED_LENGTH = 2000; // Más larga: no se simplifica
+const MAX_VERIFIED_LENGTH = 500; // Más larga: se simplifica sin verificar el resultado
+const MAX_FINAL_SIMPLIFICATION_STEPS = 100;
+
+/**
+ * Simplifica la ER final con identidades algebraicas sobre el árbol sintáctico.
+ * Devuelve undefined si no hay nada que simplificar, si la expresión es
+ * demasiado larga o si el resultado no pudo verificarse como equivalente
+ * (se conserva entonces la ER original)
+ */
+function simplifyFinalRegex(
+  regex: string,
+  alphabet: string[],
+  verify: 'result' | 'none' = 'result'
+): RegexSimplification | undefined {
+  if (regex === '∅' || regex === 'ε' || regex.length > MAX_SIMPLIFIED_LENGTH) return undefined;
+
+  try {
+    const simplification = simplifyRegexAST(regex, {
+      alphabet,
+      verify: regex.length > MAX_VERIFIED_LENGTH ? 'none' : verify,
+      maxSteps: MAX_FINAL_SIMPLIFICATION_STEPS,
+    });
+    if (simplification.equivalent === false || simplification.steps.length === 0) return undefined;
+    return simplification;
+  } catch {
+    return undefined;
+  }
 }
 
 /**
@@ -627,6 +525,7 @@ export function afToER(automaton: Automaton): {
   steps: EquationStep[];
   frontiers: Frontier[];
   equations: Equation[];
+  simplification?: RegexSimplification;
 } {
   // Validar que el autómata tenga lo necesario
   if (!automaton.states || automaton.states.length === 0) {
@@ -640,24 +539,54 @@ export function afToER(automaton: Automaton): {
     throw new Error('El autómata debe tener un estado inicial');
   }
   
-  if (!hasFinal) {
-    throw new Error('El autómata debe tener al menos un estado final');
-  }
-
   // 1. Calcular fronteras
   const frontiers = calculateFrontiers(automaton);
 
   // 2. Generar sistema de ecuaciones
   const equations = generateEquations(automaton, frontiers);
 
+  // Sin estados finales el lenguaje es vacío
+  if (!hasFinal) {
+    return {
+      regex: '∅',
+      steps: [{
+        stepNumber: 0,
+        description: 'Lenguaje vacío',
+        equations: equations.map(e => `${e.left} = ${e.right}`),
+        action: 'Resolución',
+        highlightedVariable: '',
+        explanation: 'El autómata no tiene estados finales, por lo que no acepta ninguna cadena: ER = ∅',
+      }],
+      frontiers,
+      equations,
+    };
+  }
+
   // 3. Resolver ecuaciones
   const { steps, finalRegex } = solveEquations(equations, frontiers);
 
+  // 4. Simplificar la expresión obtenida
+  const simplification = simplifyFinalRegex(finalRegex, automaton.alphabet);
+  if (simplification) {
+    steps.push({
+      stepNumber: steps.length,
+      description: 'Simplificación algebraica',
+      equations: [`ER = ${simplification.simplified}`],
+      action: 'Simplificación',
+      highlightedVariable: '',
+      explanation: `Se aplicaron ${simplification.steps.length} identidades algebraicas (${finalRegex.length} → ${simplification.simplified.length} caracteres); ` +
+        (simplification.equivalent
+          ? 'la expresión simplificada es equivalente a la original.'
+          : 'por el tamaño de la expresión no se verificó la equivalencia con la original.'),
+    });
+  }
+
   return {
-    regex: finalRegex,
+    regex: simplification?.simplified ?? finalRegex,
     steps,
     frontiers,
     equations,
+    simplification,
   };
 }
 
@@ -684,16 +613,6 @@ export function formatEquations(equations: Equation[]): string {
     .join('\n');
 }
 
-/**
- * Verifica si dos expresiones regulares son equivalentes
- * (Implementación simplificada - solo compara strings normalizados)
- */
-export function areRegexEquivalent(regex1: string, regex2: string): boolean {
-  const simplified1 = simplifyRegex(regex1);
-  const simplified2 = simplifyRegex(regex2);
-  return simplified1 === simplified2;
-}
-
 /**
  * Genera un autómata de ejemplo para pruebas
  */
@@ -719,65 +638,20 @@ export function createExampleAutomaton(): Automaton {
 // MÉTODO DE ELIMINACIÓN DE ESTADOS (STATE ELIMINATION)
 // =============================================================================
 
-/**
- * Representación de una transición con expresión regular
- * Usado en el método de eliminación de estados
- */
-interface RegexTransition {
-  from: string;
-  to: string;
-  regex: string;
-}
-
-/**
- * Paso en el proceso de eliminación de estados
- */
-interface StateEliminationStep {
-  stepNumber: number;
-  description: string;
-  action: 'init' | 'add-states' | 'eliminate' | 'final';
-  eliminatedState?: string;
-  transitions: RegexTransition[];
-  currentStates: string[];
-  explanation: string;
-}
-
-/**
- * Combina dos expresiones regulares con unión
- */
-function combineWithUnion(regex1: string, regex2: string): string {
-  if (!regex1 || regex1 === '∅') return regex2 || '∅';
-  if (!regex2 || regex2 === '∅') return regex1 || '∅';
-  if (regex1 === regex2) return regex1;
-  
-  return `(${regex1}|${regex2})`;
-}
-
-/**
- * Combina dos expresiones regulares con concatenación
- */
-function combineWithConcat(regex1: string, regex2: string): string {
-  if (!regex1 || regex1 === '∅') return '∅';
-  if (!regex2 || regex2 === '∅') return '∅';
-  if (regex1 === 'ε') return regex2;
-  if (regex2 === 'ε') return regex1;
-  
-  const r1 = needsParens(regex1) ? `(${regex1})` : regex1;
-  const r2 = needsParens(regex2) ? `(${regex2})` : regex2;
-  
-  return `${r1}${r2}`;
-}
+// =============================================================================
+// MÉTODO DE ELIMINACIÓN DE ESTADOS (STATE ELIMINATION)
+// =============================================================================
 
 /**
- * Aplica la estrella de Kleene a una expresión
+ * Nombres de los criterios para elegir el orden de eliminación
  */
-function applyKleeneStar(regex: string): string {
-  if (!regex || regex === '∅') return 'ε';
-  if (regex === 'ε') return 'ε';
-  
-  const needsWrap = regex.length > 1 && !regex.startsWith('(');
-  return needsWrap ? `(${regex})*` : `${regex}*`;
-}
+export const eliminationHeuristicLabels: Record<EliminationHeuristic, string> = {
+  definition: 'Orden de definición',
+  custom: 'Orden personalizado',
+  'fewest-edges': 'Menos aristas (entrantes + salientes)',
+  'fewest-paths': 'Menos caminos nuevos (entrantes × salientes)',
+  'min-weight': 'Menor peso (crecimiento de las expresiones)',
+};
 
 /**
  * Busca una transición entre dos estados
@@ -821,6 +695,88 @@ function removeTransitionsWithState(
   return transitions.filter(t => t.from !== state && t.to !== state);
 }
 
+/**
+ * Aristas entrantes, salientes y bucle (sin contar las ∅) de un estado
+ */
+function getStateNeighbourhood(transitions: RegexTransition[], state: string) {
+  const incoming = transitions.filter(t => t.to === state && t.from !== state && t.regex !== '∅');
+  const outgoing = transitions.filter(t => t.from === state && t.to !== state && t.regex !== '∅');
+  const loop = findTransition(transitions, state, state);
+
+  return { incoming, outgoing, loop: loop && loop.regex !== '∅' ? loop.regex : null };
+}
+
+/**
+ * Costo de eliminar un estado según el criterio elegido (menor es mejor)
+ */
+function eliminationCost(
+  heuristic: EliminationHeuristic,
+  transitions: RegexTransition[],
+  state: string
+): number {
+  const { incoming, outgoing, loop } = getStateNeighbourhood(transitions, state);
+
+  switch (heuristic) {
+    case 'fewest-edges':
+      return incoming.length + outgoing.length;
+    case 'fewest-paths':
+      return incoming.length * outgoing.length;
+    case 'min-weight': {
+      // Peso de Delgado y Morais: cada arista entrante se copia en cada camino nuevo
+      // (y lo mismo las salientes y el bucle); se resta lo que desaparece
+      const inWeight = incoming.reduce((sum, t) => sum + t.regex.length, 0);
+      const outWeight = outgoing.reduce((sum, t) => sum + t.regex.length, 0);
+      return inWeight * (outgoing.length - 1)
+        + outWeight * (incoming.length - 1)
+        + (loop?.length ?? 0) * (incoming.length * outgoing.length - 1);
+    }
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Valida un orden personalizado y agrega al final los estados que no incluye
+ */
+function resolveCustomOrder(order: string[], eliminable: string[]): string[] {
+  for (const id of order) {
+    if (!eliminable.includes(id)) {
+      throw new Error(`El estado ${id} no existe en el autómata`);
+    }
+  }
+
+  const unique = Array.from(new Set(order));
+  return [...unique, ...eliminable.filter(id => !unique.includes(id))];
+}
+
+/**
+ * Construye el AFN generalizado de un paso: las aristas se etiquetan con su expresión
+ */
+function buildGNFA(
+  automaton: Automaton,
+  currentStates: string[],
+  transitions: RegexTransition[],
+  labels: Map<string, string>,
+  initialState: string,
+  finalStates: string[]
+): Automaton {
+  return {
+    id: `${automaton.id}-gnfa`,
+    type: 'NFA',
+    name: 'AFN generalizado',
+    alphabet: automaton.alphabet,
+    states: currentStates.map(id => ({
+      id,
+      label: labels.get(id) ?? id,
+      isInitial: id === initialState,
+      isFinal: finalStates.includes(id),
+    })),
+    transitions: transitions
+      .filter(t => t.regex !== '∅' && currentStates.includes(t.from) && currentStates.includes(t.to))
+      .map(t => ({ id: `${t.from}-${t.to}`, from: t.from, to: t.to, symbol: t.regex })),
+  };
+}
+
 /**
  * Convierte AF a ER usando el método de eliminación de estados
  * 
@@ -831,15 +787,35 @@ function removeTransitionsWithState(
  *    R(p→r) = R(p→q)·R(q→q)*·R(q→r) + R(p→r)
  *    donde q es el estado a eliminar
  * 4. La ER final es R(I→F)
+ *
+ * El orden de eliminación no cambia el lenguaje pero sí el tamaño de la ER:
+ * puede indicarse explícitamente o elegirse en cada paso con una heurística.
  */
-export function afToERByStateElimination(automaton: Automaton): {
-  regex: string;
-  steps: StateEliminationStep[];
-  ardenEquations: Equation[];
-} {
+export function afToERByStateElimination(
+  automaton: Automaton,
+  options: StateEliminationOptions = {}
+): StateEliminationResult {
+  const heuristic = options.heuristic ?? (options.order ? 'custom' : 'definition');
   const steps: StateEliminationStep[] = [];
   let stepNumber = 1;
 
+  const initial = automaton.states.find(s => s.isInitial);
+  if (!initial) {
+    throw new Error('El autómata no tiene estado inicial');
+  }
+
+  // Nuevos estados inicial y final (con otro nombre si el autómata ya usa I o F)
+  const ids = new Set(automaton.states.map(s => s.id));
+  let newInitialState = 'I';
+  while (ids.has(newInitialState)) newInitialState += "'";
+  let newFinalState = 'F';
+  while (ids.has(newFinalState)) newFinalState += "'";
+
+  const labels = new Map(automaton.states.map(s => [s.id, s.label]));
+  labels.set(newInitialState, newInitialState);
+  labels.set(newFinalState, newFinalState);
+  const label = (id: string) => labels.get(id) ?? id;
+
   // Generar ecuaciones de Arden para referencia
   const frontiers = calculateFrontiers(automaton);
   const ardenEquations = generateEquations(automaton, frontiers);
@@ -864,10 +840,10 @@ export function afToERByStateElimination(automaton: Automaton): {
         transitions,
         t.from,
         t.to,
-        combineWithUnion(existing.regex, t.symbol)
+        combineWithUnion(existing.regex, formatRegexSymbol(t.symbol))
       );
     } else {
-      transitions.push({ from: t.from, to: t.to, regex: t.symbol });
+      transitions.push({ from: t.from, to: t.to, regex: formatRegexSymbol(t.symbol) });
     }
   }
 
@@ -879,6 +855,7 @@ export function afToERByStateElimination(automaton: Automaton): {
   }
 
   let currentStates = automaton.states.map(s => s.id);
+  const originalFinalStates = automaton.states.filter(s => s.isFinal).map(s => s.id);
 
   steps.push({
     stepNumber: stepNumber++,
@@ -887,79 +864,77 @@ export function afToERByStateElimination(automaton: Automaton): {
     transitions: [...transitions],
     currentStates: [...currentStates],
     explanation: 'Representación inicial del autómata con transiciones convertidas a expresiones regulares.',
+    gnfa: buildGNFA(automaton, currentStates, transitions, labels, initial.id, originalFinalStates),
   });
 
   // Paso 2: Agregar nuevo estado inicial I
-  const newInitialState = 'I';
-  const originalInitialState = automaton.states.find(s => s.isInitial)!.id;
-  
-  transitions.push({
-    from: newInitialState,
-    to: originalInitialState,
-    regex: 'ε',
-  });
-  
+  const initialTransition = { from: newInitialState, to: initial.id, regex: 'ε' };
+  transitions.push(initialTransition);
   currentStates = [newInitialState, ...currentStates];
 
   steps.push({
     stepNumber: stepNumber++,
-    description: 'Agregar nuevo estado inicial I',
+    description: `Agregar nuevo estado inicial ${newInitialState}`,
     action: 'add-states',
     transitions: [...transitions],
     currentStates: [...currentStates],
-    explanation: `Se agrega un nuevo estado inicial "${newInitialState}" con transición ε hacia el estado inicial original "${originalInitialState}".`,
+    explanation: `Se agrega un nuevo estado inicial "${newInitialState}" con transición ε hacia el estado inicial original "${label(initial.id)}".`,
+    gnfa: buildGNFA(automaton, currentStates, transitions, labels, newInitialState, originalFinalStates),
+    updatedTransitions: [initialTransition],
   });
 
   // Paso 3: Agregar nuevo estado final F
-  const newFinalState = 'F';
-  const originalFinalStates = automaton.states.filter(s => s.isFinal).map(s => s.id);
-  
-  for (const finalState of originalFinalStates) {
-    transitions.push({
-      from: finalState,
-      to: newFinalState,
-      regex: 'ε',
-    });
-  }
-  
+  const finalTransitions = originalFinalStates.map(id => ({ from: id, to: newFinalState, regex: 'ε' }));
+  transitions.push(...finalTransitions);
   currentStates.push(newFinalState);
 
   steps.push({
     stepNumber: stepNumber++,
-    description: 'Agregar nuevo estado final F',
+    description: `Agregar nuevo estado final ${newFinalState}`,
     action: 'add-states',
     transitions: [...transitions],
     currentStates: [...currentStates],
-    explanation: `Se agrega un nuevo estado final "${newFinalState}" con transiciones ε desde los estados finales originales: ${originalFinalStates.join(', ')}.`,
+    explanation: `Se agrega un nuevo estado final "${newFinalState}" con transiciones ε desde los estados finales originales: ${originalFinalStates.map(label).join(', ')}.`,
+    gnfa: buildGNFA(automaton, currentStates, transitions, labels, newInitialState, [newFinalState]),
+    updatedTransitions: finalTransitions,
   });
 
   // Paso 4: Eliminar estados uno por uno (excepto I y F)
-  const statesToEliminate = currentStates.filter(
-    s => s !== newInitialState && s !== newFinalState
-  );
+  let pending = currentStates.filter(s => s !== newInitialState && s !== newFinalState);
+  const customOrder = heuristic === 'custom' ? resolveCustomOrder(options.order ?? [], pending) : [];
+  const order: string[] = [];
+
+  while (pending.length > 0) {
+    // Siguiente estado: el del orden personalizado o el de menor costo (empate: orden de definición)
+    let stateToEliminate: string;
+    let criterion: string;
+
+    if (heuristic === 'custom') {
+      stateToEliminate = customOrder[order.length];
+      criterion = `posición ${order.length + 1} del orden personalizado`;
+    } else if (heuristic === 'definition') {
+      stateToEliminate = pending[0];
+      criterion = 'siguiente en el orden de definición';
+    } else {
+      const costs = pending.map(id => eliminationCost(heuristic, transitions, id));
+      const best = costs.indexOf(Math.min(...costs));
+      stateToEliminate = pending[best];
+      criterion = `${eliminationHeuristicLabels[heuristic].toLowerCase()}, costo ${costs[best]} (${pending.map((id, i) => `${label(id)}: ${costs[i]}`).join(', ')})`;
+    }
 
-  for (const stateToEliminate of statesToEliminate) {
     // Obtener self-loop del estado a eliminar
     const selfLoop = findTransition(transitions, stateToEliminate, stateToEliminate);
     const selfLoopRegex = selfLoop ? selfLoop.regex : '∅';
     const selfLoopStar = selfLoopRegex !== '∅' ? applyKleeneStar(selfLoopRegex) : 'ε';
 
-    // Encontrar todos los estados que apuntan a stateToEliminate
-    const incomingStates = new Set(
-      transitions
-        .filter(t => t.to === stateToEliminate && t.from !== stateToEliminate)
-        .map(t => t.from)
-    );
-
-    // Encontrar todos los estados a los que apunta stateToEliminate
-    const outgoingStates = new Set(
-      transitions
-        .filter(t => t.from === stateToEliminate && t.to !== stateToEliminate)
-        .map(t => t.to)
-    );
+    // Estados que apuntan a stateToEliminate y estados a los que apunta
+    const { incoming, outgoing } = getStateNeighbourhood(transitions, stateToEliminate);
+    const incomingStates = incoming.map(t => t.from);
+    const outgoingStates = outgoing.map(t => t.to);
 
     // Para cada par (p, r) donde p→q y q→r, crear/actualizar p→r
     // Fórmula: R(p→r) = R(p→q)·R(q→q)*·R(q→r) + R(p→r)
+    const updatedPairs: Array<[string, string]> = [];
     for (const p of incomingStates) {
       for (const r of outgoingStates) {
         const pToQ = findTransition(transitions, p, stateToEliminate)?.regex || '∅';
@@ -974,27 +949,35 @@ export function afToERByStateElimination(automaton: Automaton): {
         const combinedRegex = combineWithUnion(newPath, pToR);
 
         transitions = updateTransition(transitions, p, r, combinedRegex);
+        updatedPairs.push([p, r]);
       }
     }
 
     // Eliminar todas las transiciones que involucran el estado
     transitions = removeTransitionsWithState(transitions, stateToEliminate);
     currentStates = currentStates.filter(s => s !== stateToEliminate);
+    pending = pending.filter(s => s !== stateToEliminate);
+    order.push(stateToEliminate);
 
     steps.push({
       stepNumber: stepNumber++,
-      description: `Eliminar estado ${stateToEliminate}`,
+      description: `Eliminar estado ${label(stateToEliminate)}`,
       action: 'eliminate',
       eliminatedState: stateToEliminate,
       transitions: [...transitions],
       currentStates: [...currentStates],
-      explanation: `Eliminación del estado "${stateToEliminate}":\n- Self-loop: ${selfLoopRegex} → ${selfLoopStar}\n- Se actualizan las transiciones usando R(p→r) = R(p→q)·R(q→q)*·R(q→r) + R(p→r)\n- Estados entrantes: ${[...incomingStates].join(', ') || 'ninguno'}\n- Estados salientes: ${[...outgoingStates].join(', ') || 'ninguno'}`,
+      explanation: `Eliminación del estado "${label(stateToEliminate)}":\n- Criterio: ${criterion}\n- Self-loop: ${selfLoopRegex} → ${selfLoopStar}\n- Se actualizan las transiciones usando R(p→r) = R(p→q)·R(q→q)*·R(q→r) + R(p→r)\n- Estados entrantes: ${incomingStates.map(label).join(', ') || 'ninguno'}\n- Estados salientes: ${outgoingStates.map(label).join(', ') || 'ninguno'}`,
+      gnfa: buildGNFA(automaton, currentStates, transitions, labels, newInitialState, [newFinalState]),
+      updatedTransitions: updatedPairs.map(([p, r]) => findTransition(transitions, p, r)!),
     });
   }
 
   // Paso 5: Obtener la expresión regular final (I→F)
   const finalTransition = findTransition(transitions, newInitialState, newFinalState);
   const finalRegex = finalTransition ? simplifyRegex(finalTransition.regex) : '∅';
+  const simplification = options.simplify === false
+    ? undefined
+    : simplifyFinalRegex(finalRegex, automaton.alphabet);
 
   steps.push({
     stepNumber: stepNumber,
@@ -1002,41 +985,297 @@ export function afToERByStateElimination(automaton: Automaton): {
     action: 'final',
     transitions: [...transitions],
     currentStates: [...currentStates],
-    explanation: `La expresión regular equivalente es la transición de ${newInitialState} → ${newFinalState}:\nER = ${finalRegex}`,
+    explanation: `La expresión regular equivalente es la transición de ${newInitialState} → ${newFinalState}:\nER = ${finalRegex}` +
+      (simplification ? `\nSimplificada (${simplification.steps.length} identidades): ER = ${simplification.simplified}` : ''),
+    gnfa: buildGNFA(automaton, currentStates, transitions, labels, newInitialState, [newFinalState]),
   });
 
   return {
-    regex: finalRegex,
+    regex: simplification?.simplified ?? finalRegex,
     steps,
     ardenEquations,
+    heuristic,
+    order,
+    simplification,
+  };
+}
+
+/**
+ * Tamaño de una expresión regular: caracteres (sin espacios) y apariciones de símbolos
+ */
+export function measureRegex(regex: string, alphabet?: string[]): { length: number; symbolCount: number } {
+  const length = regex.replace(/\s/g, '').length;
+
+  try {
+    const symbolCount = tokenizeRegex(regex, alphabet)
+      .filter(t => t.type === 'SYMBOL' || t.type === 'CLASS')
+      .length;
+    return { length, symbolCount };
+  } catch {
+    return { length, symbolCount: 0 };
+  }
+}
+
+/**
+ * Genera todas las permutaciones de una lista
+ */
+function permutations<T>(items: T[]): T[][] {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, index) =>
+    permutations([...items.slice(0, index), ...items.slice(index + 1)]).map(rest => [item, ...rest])
+  );
+}
+
+/**
+ * Máximo de estados para probar todos los órdenes posibles (n! ejecuciones:
+ * con 5 estados son 120 eliminaciones completas)
+ */
+const MAX_EXHAUSTIVE_STATES = 5;
+
+/**
+ * Compara el tamaño de la ER obtenida con cada heurística y, si el autómata es
+ * pequeño, con el mejor y el peor de todos los órdenes posibles. Solo se
+ * simplifican las ER que se muestran (sin verificar cada una, todas son
+ * equivalentes); el mejor y el peor orden se eligen por el tamaño sin simplificar
+ */
+export function compareEliminationOrders(automaton: Automaton): EliminationOrderComparison[] {
+  const heuristics: EliminationHeuristic[] = ['definition', 'fewest-edges', 'fewest-paths', 'min-weight'];
+
+  const toComparison = (
+    heuristic: EliminationOrderComparison['heuristic'],
+    result: StateEliminationResult
+  ): EliminationOrderComparison => {
+    const regex = simplifyFinalRegex(result.regex, automaton.alphabet, 'none')?.simplified ?? result.regex;
+    return {
+      heuristic,
+      order: result.order,
+      regex,
+      ...measureRegex(regex, automaton.alphabet),
+    };
   };
+
+  const comparisons = heuristics.map(heuristic =>
+    toComparison(heuristic, afToERByStateElimination(automaton, { heuristic, simplify: false }))
+  );
+
+  const stateIds = automaton.states.map(s => s.id);
+  if (stateIds.length <= MAX_EXHAUSTIVE_STATES) {
+    const all = permutations(stateIds).map(order =>
+      afToERByStateElimination(automaton, { order, simplify: false })
+    );
+    const best = all.reduce((a, b) => (b.regex.length < a.regex.length ? b : a));
+    const worst = all.reduce((a, b) => (b.regex.length > a.regex.length ? b : a));
+
+    comparisons.push(toComparison('exhaustive-best', best), toComparison('exhaustive-worst', worst));
+  }
+
+  return comparisons;
 }
 
 /**
  * Función principal que usa ambos métodos y compara resultados
  */
-export function afToERBothMethods(automaton: Automaton): {
+export function afToERBothMethods(automaton: Automaton, options: StateEliminationOptions = {}): {
   ardenResult: {
     regex: string;
     steps: EquationStep[];
     frontiers: Frontier[];
     equations: Equation[];
   };
-  stateEliminationResult: {
-    regex: string;
-    steps: StateEliminationStep[];
-    ardenEquations: Equation[];
-  };
+  stateEliminationResult: StateEliminationResult;
   equivalent: boolean;
+  equivalence?: EquivalenceResult;
+  lengths: { arden: number; stateElimination: number; difference: number };
 } {
   const ardenResult = afToER(automaton);
-  const stateEliminationResult = afToERByStateElimination(automaton);
+  const stateEliminationResult = afToERByStateElimination(automaton, options);
+
+  // Comparación semántica (autómata producto), no textual.
+  // Si alguna de las expresiones no es válida no se puede comparar
+  let equivalence: EquivalenceResult | undefined;
+  try {
+    equivalence = areRegexEquivalent(
+      ardenResult.regex,
+      stateEliminationResult.regex,
+      automaton.alphabet
+    );
+  } catch {
+    equivalence = undefined;
+  }
 
-  const equivalent = areRegexEquivalent(ardenResult.regex, stateEliminationResult.regex);
+  // Diferencia de tamaño (positiva: la de Arden es más larga)
+  const arden = measureRegex(ardenResult.regex, automaton.alphabet).length;
+  const stateElimination = measureRegex(stateEliminationResult.regex, automaton.alphabet).length;
 
   return {
     ardenResult,
     stateEliminationResult,
-    equivalent,
+    equivalent: equivalence?.equivalent ?? false,
+    equivalence,
+    lengths: { arden, stateElimination, difference: arden - stateElimination },
   };
 }
+
+// =============================================================================
+// MÉTODO DE KLEENE / McNAUGHTON–YAMADA (R(i,j,k))
+// =============================================================================
+
+/**
+ * Límites del método de Kleene: se cuentan los estados útiles (tras recortar) y
+ * se abandona el autómata si alguna entrada de las tablas crece demasiado
+ */
+const MAX_KLEENE_STATES = 40;
+const MAX_KLEENE_ENTRY_LENGTH = 2000;
+
+/**
+ * Estrella del bucle de un estado, que siempre contiene ε: (ε | r)* = r*
+ */
+function loopStar(regex: string): string {
+  const terms = splitByUnion(simplifyRegex(regex)).filter(t => t !== 'ε');
+  if (terms.length === 0) return 'ε';
+  return applyKleeneStar(simplifyRegex(terms.join('|')));
+}
+
+/**
+ * Quita los estados inalcanzables y aquellos desde los que no se llega a un
+ * estado final (no aportan caminos a R(1,f,n)); el inicial siempre se conserva
+ */
+function trimAutomaton(automaton: Automaton, initial: State): Automaton {
+  const reachable = reachableFrom([initial.id], automaton.transitions);
+  const productive = reachableFrom(automaton.states.filter(s => s.isFinal).map(s => s.id), automaton.transitions, true);
+  const keep = (id: string) => id === initial.id || (reachable.has(id) && productive.has(id));
+
+  return {
+    ...automaton,
+    states: automaton.states.filter(s => keep(s.id)),
+    transitions: automaton.transitions.filter(t => keep(t.from) && keep(t.to)),
+  };
+}
+
+/**
+ * Tablas R(i,j,k) para k = 0..n, o null si alguna entrada supera el máximo de longitud
+ */
+function buildKleeneTables(automaton: Automaton, states: State[]): KleeneTable[] | null {
+  const n = states.length;
+
+  // R(i,j,0): transiciones directas de i a j, más ε si i = j
+  let entries = states.map((from, i) => states.map((to, j) => {
+    const symbols = automaton.transitions
+      .filter(t => t.from === from.id && t.to === to.id)
+      .map(t => formatRegexSymbol(t.symbol));
+    const terms = Array.from(new Set(i === j ? ['ε', ...symbols] : symbols));
+    return terms.length > 0 ? simplifyRegex(terms.join('|')) : '∅';
+  }));
+
+  const tables: KleeneTable[] = [{
+    k: 0,
+    entries,
+    changed: entries.map(row => row.map(() => false)),
+  }];
+
+  for (let k = 1; k <= n; k++) {
+    const p = k - 1;
+    const previous = entries;
+    const star = loopStar(previous[p][p]);
+
+    entries = previous.map((row, i) => row.map((current, j) => {
+      if (i === p && j === p) return star;
+      if (i === p) return simplifyRegex(combineWithConcat(star, previous[p][j]));
+      if (j === p) return simplifyRegex(combineWithConcat(previous[i][p], star));
+
+      const path = combineWithConcat(combineWithConcat(previous[i][p], star), previous[p][j]);
+      return simplifyRegex(combineWithUnion(current, path));
+    }));
+
+    if (entries.some(row => row.some(regex => regex.length > MAX_KLEENE_ENTRY_LENGTH))) {
+      return null;
+    }
+
+    tables.push({
+      k,
+      pivot: states[p].id,
+      entries,
+      changed: entries.map((row, i) => row.map((regex, j) => regex !== previous[i][j])),
+    });
+  }
+
+  return tables;
+}
+
+/**
+ * Convierte AF a ER con el método de Kleene (programación dinámica)
+ *
+ * Los estados se numeran 1..n (el inicial primero). R(i,j,0) son los símbolos
+ * de i a j (más ε si i = j) y cada tabla k admite el estado k como intermedio:
+ * R(i,j,k) = R(i,j,k-1) | R(i,k,k-1)·R(k,k,k-1)*·R(k,j,k-1)
+ * Como R(k,k,k-1) contiene ε, la fila y la columna del estado k se reducen a
+ * R(k,j,k) = R(k,k,k-1)*·R(k,j,k-1) y R(i,k,k) = R(i,k,k-1)·R(k,k,k-1)*.
+ *
+ * Las tablas se construyen sobre el autómata recortado (sin estados inútiles);
+ * si tiene demasiados estados o sus expresiones crecen demasiado se usa su AFD
+ * mínimo, y si tampoco sirve se lanza un error que explica por qué.
+ */
+export function afToERByKleene(automaton: Automaton): KleeneResult {
+  if (!automaton.states || automaton.states.length === 0) {
+    throw new Error('El autómata debe tener al menos un estado');
+  }
+
+  const initial = automaton.states.find(s => s.isInitial);
+  if (!initial) {
+    throw new Error('El autómata debe tener un estado inicial');
+  }
+
+  const trimmed = trimAutomaton(automaton, initial);
+  const removedStates = automaton.states
+    .filter(s => !trimmed.states.some(kept => kept.id === s.id))
+    .map(s => s.label);
+
+  // Tablas sobre un autómata reducido, o null si excede los límites
+  const solve = (reduced: Automaton, reduction: KleeneReduction): KleeneResult | null => {
+    if (reduced.states.length > MAX_KLEENE_STATES) return null;
+
+    const start = reduced.states.find(s => s.isInitial)!;
+    const states = [start, ...reduced.states.filter(s => s.id !== start.id)];
+    const tables = buildKleeneTables(reduced, states);
+    if (!tables) return null;
+
+    // ER final: unión de R(1,f,n) para cada estado final
+    const entries = tables[tables.length - 1].entries;
+    const finalTerms = states
+      .map((state, j) => ({ state: state.id, regex: entries[0][j], isFinal: state.isFinal }))
+      .filter(term => term.isFinal)
+      .map(({ state, regex }) => ({ state, regex }));
+
+    const regex = simplifyRegex(
+      finalTerms.reduce((acc, term) => combineWithUnion(acc, term.regex), '∅')
+    );
+    const simplification = simplifyFinalRegex(regex, automaton.alphabet);
+
+    return {
+      regex: simplification?.simplified ?? regex,
+      automaton: reduced,
+      reduction,
+      removedStates: reduction === 'trimmed' ? removedStates : [],
+      states: states.map(s => s.id),
+      tables,
+      finalTerms,
+      simplification,
+    };
+  };
+
+  const result = solve(trimmed, removedStates.length > 0 ? 'trimmed' : 'none');
+  if (result) return result;
+
+  // Si no alcanza con recortar, se intenta con el AFD mínimo (cuando es más pequeño)
+  const minimal = minimizeDFA(automaton).automaton;
+  if (minimal.states.length < trimmed.states.length) {
+    const minimized = solve(minimal, 'minimized');
+    if (minimized) return minimized;
+  }
+
+  throw new Error(
+    `Se omitió el método de Kleene: el autómata tiene ${trimmed.states.length} estados útiles y su AFD mínimo ` +
+    `${minimal.states.length}, y las tablas R(i,j,k) superan el máximo ` +
+    `de ${MAX_KLEENE_STATES} estados o de ${MAX_KLEENE_ENTRY_LENGTH} caracteres por entrada (las expresiones crecen exponencialmente)`
+  );
+}
@@ -3,14 +3,17 @@
  * 
  * Implementa:
  * 1. Construcción de AFD mediante método de subconjuntos (Subset Construction)
- * 2. Eliminación de estados inalcanzables
- * 3. Minimización de AFD usando algoritmo de particiones (Hopcroft)
- * 4. Conversión de AFN a AFD
+ * 2. Optimización por estados significativos
+ * 3. Conversión de AFN a AFD
+ * 4. Utilidades compartidas por los demás algoritmos sobre AFD: símbolos usados,
+ *    determinización, alcanzabilidad y tabla completa con estado trampa
+ *
+ * La minimización por particiones (Moore y Hopcroft) está en dfa-minimization.ts
  */
 
-import { Automaton, AutomatonResults, State, SubsetState, Transition } from '@/lib/types/automata';
+import { Automaton, AutomatonResults, State, SubsetConstructionStep, SubsetState, Transition } from '@/lib/types/automata';
 import { erToAFD, erToAFN } from './er-to-af';
-import { buildSyntaxTree } from './regex-parser';
+import { buildSyntaxTree, getAlphabet } from './regex-parser';
 
 /**
  * Calcula la cerradura-ε de un conjunto de estados
@@ -71,6 +74,11 @@ export function afnToAfd(afn: Automaton): Automaton {
   const unmarkedStates: string[] = [];
   let stateCounter = 0;
 
+  const steps: SubsetConstructionStep[] = [];
+  // Un único Collator: localeCompare con opciones crea uno en cada comparación
+  const collator = new Intl.Collator(undefined, { numeric: true });
+  const sortedStates = (states: Set<string>) => Array.from(states).sort(collator.compare);
+
   // Función auxiliar para crear un ID de estado desde un conjunto
   function setToStateId(stateSet: Set<string>): string {
     return Array.from(stateSet).sort().join(',');
@@ -97,6 +105,18 @@ export function afnToAfd(afn: Automaton): Automaton {
   dStates.set(initialId, initialClosure);
   unmarkedStates.push(initialId);
 
+  steps.push({
+    stepNumber: 0,
+    kind: 'initial',
+    description: `${initialId} = ε-cerradura(${initialState.id}) = {${sortedStates(initialClosure).join(', ')}}`,
+    currentStates: [initialState.id],
+    move: [],
+    closure: sortedStates(initialClosure),
+    target: initialId,
+    isNew: true,
+    unmarked: [...unmarkedStates],
+  });
+
   const stateKeyToId = new Map<string, string>();
   stateKeyToId.set(initialKey, initialId);
 
@@ -114,6 +134,8 @@ export function afnToAfd(afn: Automaton): Automaton {
       
       // Calcular ε-cerradura(move(T, a))
       const closure = epsilonClosure(moveSet, afn);
+      let targetId: string | undefined;
+      let isNew = false;
 
       if (closure.size > 0) {
         const closureKey = setToStateId(closure);
@@ -125,9 +147,10 @@ export function afnToAfd(afn: Automaton): Automaton {
           dStates.set(newId, closure);
           unmarkedStates.push(newId);
           Subsets.push({ id: newId, constituentStates: closure });
+          isNew = true;
         }
 
-        const targetId = stateKeyToId.get(closureKey)!;
+        targetId = stateKeyToId.get(closureKey)!;
 
         // Agregar transición
         dTransitions.push({
@@ -137,6 +160,23 @@ export function afnToAfd(afn: Automaton): Automaton {
           symbol,
         });
       }
+
+      const moveText = `{${sortedStates(moveSet).join(', ')}}`;
+      steps.push({
+        stepNumber: steps.length,
+        kind: 'move',
+        description: targetId
+          ? `Dtran[${currentId}, ${symbol}] = ε-cerradura(${moveText}) = ${targetId}${isNew ? ' (nuevo)' : ''}`
+          : `move(${currentId}, ${symbol}) = ∅: no hay transición`,
+        current: currentId,
+        currentStates: sortedStates(currentSet),
+        symbol,
+        move: sortedStates(moveSet),
+        closure: sortedStates(closure),
+        target: targetId,
+        isNew,
+        unmarked: [...unmarkedStates],
+      });
     }
   }
 
@@ -165,6 +205,7 @@ export function afnToAfd(afn: Automaton): Automaton {
     alphabet: afn.alphabet.filter(s => s !== 'ε'),
     name: `AFD de ${afn.name || 'AFN'}`,
     subsetStates: Subsets,
+    subsetSteps: steps,
   };
 }
 
@@ -312,10 +353,11 @@ export function optimizeBySignificantStates(afd: Automaton, afn: Automaton): Aut
 
 /**
  * Construye AFD completo (óptimo) desde una expresión regular
+ * @param alphabet Alfabeto declarado (opcional), usado para resolver clases negadas
  */
-export function buildAFDFull(regex: string): AutomatonResults {
+export function buildAFDFull(regex: string, alphabet?: string[]): AutomatonResults {
   // 1. Construir AFN
-  const afn = erToAFN(regex);
+  const afn = erToAFN(regex, alphabet);
 
   // 2. Convertir a AFD
   const afd = afnToAfd(afn);
@@ -330,13 +372,13 @@ export function buildAFDFull(regex: string): AutomatonResults {
   }
 }
 
-export function buildAFDShort(regex: string): AutomatonResults {
+export function buildAFDShort(regex: string, alphabet?: string[]): AutomatonResults {
   // Construir árbol sintáctico aumentado (con # al final) para mostrar los valores correctos
   const augmentedRegex = `(${regex})#`;
-  const syntaxTree = buildSyntaxTree(augmentedRegex);
+  const syntaxTree = buildSyntaxTree(augmentedRegex, getAlphabet(regex, alphabet));
   
   return {
-    automatonAFD: erToAFD(regex),
+    automatonAFD: erToAFD(regex, alphabet),
     syntaxTree,
   };
 }
@@ -370,6 +412,118 @@ export function isDeterministic(automaton: Automaton): boolean {
   return true;
 }
 
+/**
+ * Símbolos usados por un autómata (alfabeto declarado y transiciones, sin ε)
+ */
+export function automatonSymbols(automaton: Automaton): string[] {
+  return Array.from(new Set([
+    ...automaton.alphabet,
+    ...automaton.transitions.map(t => t.symbol),
+  ])).filter(s => s && s !== 'ε');
+}
+
+/**
+ * Obtiene un AFD equivalente: los AFN (o AFN-ε) se determinizan por
+ * subconjuntos con todos los símbolos que usan sus transiciones
+ */
+export function determinize(automaton: Automaton): Automaton {
+  if (isDeterministic(automaton)) {
+    return automaton;
+  }
+
+  // afnToAfd devuelve el autómata tal cual si está marcado como DFA
+  return afnToAfd({ ...automaton, type: 'NFA', alphabet: automatonSymbols(automaton) });
+}
+
+/**
+ * Estados alcanzables desde `start` siguiendo las transiciones (incluidas ε),
+ * hacia adelante o hacia atrás
+ */
+export function reachableFrom(start: string[], transitions: Transition[], backwards = false): Set<string> {
+  const visited = new Set(start);
+  const queue = [...start];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const t of transitions) {
+      const [source, target] = backwards ? [t.to, t.from] : [t.from, t.to];
+      if (source === current && !visited.has(target)) {
+        visited.add(target);
+        queue.push(target);
+      }
+    }
+  }
+
+  return visited;
+}
+
+/**
+ * Identificador y etiqueta del estado trampa agregado al completar un AFD
+ */
+export const TRAP_STATE = '__trap__';
+export const TRAP_LABEL = '∅';
+
+/**
+ * AFD completo en forma de tabla
+ */
+export interface CompleteDFA {
+  states: string[];
+  alphabet: string[];
+  labels: Map<string, string>;
+  initial: string;
+  finals: Set<string>;
+  delta: Map<string, Map<string, string>>;
+  hasTrap: boolean; // Se agregó el estado trampa para completar la tabla
+}
+
+/**
+ * Tabla completa de un AFD sobre el alfabeto dado: las transiciones que faltan
+ * van a un estado trampa implícito
+ */
+export function toCompleteDFA(dfa: Automaton, alphabet: string[] = automatonSymbols(dfa)): CompleteDFA {
+  const initial = dfa.states.find(s => s.isInitial);
+  if (!initial) {
+    throw new Error('El autómata debe tener un estado inicial');
+  }
+
+  const labels = new Map(dfa.states.map(s => [s.id, s.label || s.id]));
+  const delta = new Map<string, Map<string, string>>();
+  for (const state of dfa.states) {
+    delta.set(state.id, new Map());
+  }
+  for (const t of dfa.transitions) {
+    delta.get(t.from)?.set(t.symbol, t.to);
+  }
+
+  // Completar con el estado trampa las transiciones que faltan
+  let hasTrap = false;
+  for (const targets of delta.values()) {
+    for (const symbol of alphabet) {
+      if (!targets.has(symbol)) {
+        targets.set(symbol, TRAP_STATE);
+        hasTrap = true;
+      }
+    }
+  }
+
+  const states = dfa.states.map(s => s.id);
+  if (hasTrap) {
+    states.push(TRAP_STATE);
+    labels.set(TRAP_STATE, TRAP_LABEL);
+    delta.set(TRAP_STATE, new Map(alphabet.map(symbol => [symbol, TRAP_STATE])));
+  }
+
+  return {
+    states,
+    alphabet,
+    labels,
+    initial: initial.id,
+    finals: new Set(dfa.states.filter(s => s.isFinal).map(s => s.id)),
+    delta,
+    hasTrap,
+  };
+}
+
 /**
  * Obtiene estadísticas de un autómata
  */
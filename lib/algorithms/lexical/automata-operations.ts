@@ -0,0 +1,364 @@
+/**
+ * Operaciones de clausura sobre autómatas finitos
+ *
+ * Implementa:
+ * 1. Construcción producto: unión, intersección y diferencia (AFD)
+ * 2. Complemento: se completa el AFD con un estado trampa y se invierten los finales
+ * 3. Reverso: se invierten las transiciones (AFN-ε con nuevo estado inicial)
+ * 4. Concatenación y cerradura de Kleene: construcciones de Thompson con ε
+ *
+ * Las operaciones producto y el complemento trabajan sobre AFD completos; si
+ * algún operando es un AFN se determiniza primero con el método de subconjuntos.
+ */
+
+import { Automaton, AutomatonOperation, State, Transition } from '@/lib/types/automata';
+import { automatonSymbols, CompleteDFA, determinize, toCompleteDFA } from './afd-construction';
+
+/**
+ * Nombres de las operaciones para mostrar
+ */
+export const automatonOperationLabels: Record<AutomatonOperation, string> = {
+  union: 'Unión (L₁ ∪ L₂)',
+  intersection: 'Intersección (L₁ ∩ L₂)',
+  difference: 'Diferencia (L₁ − L₂)',
+  complement: 'Complemento (Σ* − L₁)',
+  reverse: 'Reverso (L₁ᴿ)',
+  concatenation: 'Concatenación (L₁·L₂)',
+  star: 'Cerradura de Kleene (L₁*)',
+};
+
+/**
+ * Indica si la operación necesita dos autómatas
+ */
+export function isBinaryOperation(operation: AutomatonOperation): boolean {
+  return operation === 'union'
+    || operation === 'intersection'
+    || operation === 'difference'
+    || operation === 'concatenation';
+}
+
+/**
+ * Id (y etiqueta) para un estado nuevo que no choque con los del autómata:
+ * se agregan comillas a la base hasta que quede libre. Así una operación puede
+ * aplicarse a su propio resultado (por ejemplo, el reverso del reverso)
+ */
+function freshState(automaton: Automaton, id: string, label: string): { id: string; label: string } {
+  const ids = new Set(automaton.states.map(s => s.id));
+  const labels = new Set(automaton.states.map(s => s.label));
+  while (ids.has(id)) id += "'";
+  while (labels.has(label)) label += "'";
+  return { id, label };
+}
+
+/**
+ * Obtiene el estado inicial o lanza un error
+ */
+function getInitialState(automaton: Automaton): State {
+  const initial = automaton.states.find(s => s.isInitial);
+  if (!initial) {
+    throw new Error('El autómata debe tener un estado inicial');
+  }
+  return initial;
+}
+
+/**
+ * Determiniza (si hace falta) y completa un operando sobre el alfabeto dado
+ */
+function completeOperand(automaton: Automaton, alphabet: string[]): CompleteDFA {
+  getInitialState(automaton);
+  return toCompleteDFA(determinize(automaton), alphabet);
+}
+
+/**
+ * Construye un Automaton a partir de una tabla de AFD completo
+ */
+function fromCompleteDFA(dfa: CompleteDFA, name: string, isFinal: (state: string) => boolean): Automaton {
+  const states: State[] = dfa.states.map(id => ({
+    id,
+    label: dfa.labels.get(id) || id,
+    isInitial: id === dfa.initial,
+    isFinal: isFinal(id),
+  }));
+
+  const transitions: Transition[] = [];
+  for (const from of dfa.states) {
+    for (const symbol of dfa.alphabet) {
+      const to = dfa.delta.get(from)!.get(symbol)!;
+      transitions.push({ id: `${from}-${symbol}-${to}`, from, to, symbol });
+    }
+  }
+
+  return {
+    id: `afd-op-${Date.now()}`,
+    type: 'DFA',
+    states,
+    transitions,
+    alphabet: dfa.alphabet,
+    name,
+  };
+}
+
+/**
+ * Construcción producto de dos autómatas
+ * Sólo se generan los pares alcanzables desde (inicial₁, inicial₂)
+ */
+function productAutomaton(
+  first: Automaton,
+  second: Automaton,
+  operation: 'union' | 'intersection' | 'difference'
+): Automaton {
+  const alphabet = Array.from(new Set([
+    ...automatonSymbols(first),
+    ...automatonSymbols(second),
+  ])).sort();
+
+  const a = completeOperand(first, alphabet);
+  const b = completeOperand(second, alphabet);
+
+  const accepts = (p: string, q: string) => {
+    const inA = a.finals.has(p);
+    const inB = b.finals.has(q);
+    if (operation === 'union') return inA || inB;
+    if (operation === 'intersection') return inA && inB;
+    return inA && !inB;
+  };
+
+  const pairId = new Map<string, string>();
+  const queue: [string, string, string][] = [];
+  const product: CompleteDFA = {
+    states: [],
+    alphabet,
+    labels: new Map(),
+    initial: '',
+    finals: new Set(),
+    delta: new Map(),
+    hasTrap: false,
+  };
+
+  const addPair = (p: string, q: string): string => {
+    const key = JSON.stringify([p, q]);
+    const existing = pairId.get(key);
+    if (existing) return existing;
+
+    const id = `q${pairId.size}`;
+    pairId.set(key, id);
+    product.states.push(id);
+    product.labels.set(id, `(${a.labels.get(p)},${b.labels.get(q)})`);
+    product.delta.set(id, new Map());
+    if (accepts(p, q)) product.finals.add(id);
+    queue.push([p, q, id]);
+    return id;
+  };
+
+  product.initial = addPair(a.initial, b.initial);
+
+  while (queue.length > 0) {
+    const [p, q, id] = queue.shift()!;
+    for (const symbol of alphabet) {
+      const target = addPair(a.delta.get(p)!.get(symbol)!, b.delta.get(q)!.get(symbol)!);
+      product.delta.get(id)!.set(symbol, target);
+    }
+  }
+
+  return fromCompleteDFA(
+    product,
+    `${first.name || 'A₁'} ${operation === 'union' ? '∪' : operation === 'intersection' ? '∩' : '−'} ${second.name || 'A₂'}`,
+    id => product.finals.has(id)
+  );
+}
+
+/**
+ * Unión de lenguajes por construcción producto
+ */
+export function unionAutomata(first: Automaton, second: Automaton): Automaton {
+  return productAutomaton(first, second, 'union');
+}
+
+/**
+ * Intersección de lenguajes por construcción producto
+ */
+export function intersectAutomata(first: Automaton, second: Automaton): Automaton {
+  return productAutomaton(first, second, 'intersection');
+}
+
+/**
+ * Diferencia de lenguajes (L₁ − L₂ = L₁ ∩ complemento de L₂) por construcción producto
+ */
+export function differenceAutomata(first: Automaton, second: Automaton): Automaton {
+  return productAutomaton(first, second, 'difference');
+}
+
+/**
+ * Complemento de un autómata respecto a Σ*
+ * @param alphabet Símbolos adicionales de Σ (además de los del autómata)
+ */
+export function complementAutomaton(automaton: Automaton, alphabet: string[] = []): Automaton {
+  const sigma = Array.from(new Set([...automatonSymbols(automaton), ...alphabet]))
+    .filter(s => s && s !== 'ε')
+    .sort();
+  const dfa = completeOperand(automaton, sigma);
+
+  return fromCompleteDFA(
+    dfa,
+    `complemento de ${automaton.name || 'A₁'}`,
+    id => !dfa.finals.has(id)
+  );
+}
+
+/**
+ * Copia los estados y transiciones de un autómata con ids prefijados
+ * y etiquetas con subíndice, para combinar dos autómatas sin colisiones
+ */
+function renameAutomaton(automaton: Automaton, index: 1 | 2): { states: State[]; transitions: Transition[] } {
+  const subscript = index === 1 ? '₁' : '₂';
+  const prefix = `a${index}-`;
+
+  return {
+    states: automaton.states.map(s => ({
+      ...s,
+      id: prefix + s.id,
+      label: `${s.label || s.id}${subscript}`,
+    })),
+    transitions: automaton.transitions.map(t => ({
+      ...t,
+      id: prefix + t.id,
+      from: prefix + t.from,
+      to: prefix + t.to,
+    })),
+  };
+}
+
+/**
+ * Reverso de un autómata: se invierten las transiciones, el estado inicial
+ * pasa a ser el único final y un nuevo inicial va con ε a los antiguos finales
+ */
+export function reverseAutomaton(automaton: Automaton): Automaton {
+  const initial = getInitialState(automaton);
+  const { id: newInitial, label: newLabel } = freshState(automaton, '__rev_initial__', 'i');
+
+  const states: State[] = [
+    { id: newInitial, label: newLabel, isInitial: true, isFinal: false },
+    ...automaton.states.map(s => ({
+      ...s,
+      isInitial: false,
+      isFinal: s.id === initial.id,
+    })),
+  ];
+
+  const transitions: Transition[] = [
+    ...automaton.states
+      .filter(s => s.isFinal)
+      .map(s => ({ id: `${newInitial}-ε-${s.id}`, from: newInitial, to: s.id, symbol: 'ε' })),
+    ...automaton.transitions.map(t => ({
+      ...t,
+      id: `rev-${t.id}`,
+      from: t.to,
+      to: t.from,
+    })),
+  ];
+
+  return {
+    id: `afn-rev-${Date.now()}`,
+    type: 'EPSILON_NFA',
+    states,
+    transitions,
+    alphabet: automatonSymbols(automaton).sort(),
+    name: `reverso de ${automaton.name || 'A₁'}`,
+  };
+}
+
+/**
+ * Concatenación: transiciones ε desde los finales del primero al inicial del segundo
+ */
+export function concatenateAutomata(first: Automaton, second: Automaton): Automaton {
+  const firstInitial = getInitialState(first);
+  const secondInitial = getInitialState(second);
+  const a = renameAutomaton(first, 1);
+  const b = renameAutomaton(second, 2);
+  const secondStart = `a2-${secondInitial.id}`;
+
+  const states: State[] = [
+    ...a.states.map(s => ({ ...s, isInitial: s.id === `a1-${firstInitial.id}`, isFinal: false })),
+    ...b.states.map(s => ({ ...s, isInitial: false })),
+  ];
+
+  const transitions: Transition[] = [
+    ...a.transitions,
+    ...a.states
+      .filter(s => s.isFinal)
+      .map(s => ({ id: `${s.id}-ε-${secondStart}`, from: s.id, to: secondStart, symbol: 'ε' })),
+    ...b.transitions,
+  ];
+
+  return {
+    id: `afn-concat-${Date.now()}`,
+    type: 'EPSILON_NFA',
+    states,
+    transitions,
+    alphabet: Array.from(new Set([...automatonSymbols(first), ...automatonSymbols(second)])).sort(),
+    name: `${first.name || 'A₁'} · ${second.name || 'A₂'}`,
+  };
+}
+
+/**
+ * Cerradura de Kleene: nuevo estado inicial y final con ε al inicial original,
+ * y ε desde los finales de vuelta al nuevo estado
+ */
+export function starAutomaton(automaton: Automaton): Automaton {
+  const initial = getInitialState(automaton);
+  const { id: newInitial, label: newLabel } = freshState(automaton, '__star_initial__', 'i');
+
+  const states: State[] = [
+    { id: newInitial, label: newLabel, isInitial: true, isFinal: true },
+    ...automaton.states.map(s => ({ ...s, isInitial: false })),
+  ];
+
+  const transitions: Transition[] = [
+    { id: `${newInitial}-ε-${initial.id}`, from: newInitial, to: initial.id, symbol: 'ε' },
+    ...automaton.transitions,
+    ...automaton.states
+      .filter(s => s.isFinal)
+      .map(s => ({ id: `${s.id}-ε-${newInitial}`, from: s.id, to: newInitial, symbol: 'ε' })),
+  ];
+
+  return {
+    id: `afn-star-${Date.now()}`,
+    type: 'EPSILON_NFA',
+    states,
+    transitions,
+    alphabet: automatonSymbols(automaton).sort(),
+    name: `(${automaton.name || 'A₁'})*`,
+  };
+}
+
+/**
+ * Aplica una operación a uno o dos autómatas
+ * @param alphabet Símbolos adicionales de Σ para el complemento
+ */
+export function applyAutomatonOperation(
+  operation: AutomatonOperation,
+  first: Automaton,
+  second?: Automaton,
+  alphabet?: string[]
+): Automaton {
+  if (isBinaryOperation(operation) && !second) {
+    throw new Error('La operación requiere dos autómatas');
+  }
+
+  switch (operation) {
+    case 'union':
+      return unionAutomata(first, second!);
+    case 'intersection':
+      return intersectAutomata(first, second!);
+    case 'difference':
+      return differenceAutomata(first, second!);
+    case 'concatenation':
+      return concatenateAutomata(first, second!);
+    case 'complement':
+      return complementAutomaton(first, alphabet);
+    case 'reverse':
+      return reverseAutomaton(first);
+    case 'star':
+      return starAutomaton(first);
+  }
+}
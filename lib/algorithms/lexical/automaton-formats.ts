@@ -0,0 +1,666 @@
+/**
+ * Importación y exportación de autómatas finitos
+ *
+ * Formatos:
+ * - JSON versionado de compiMC (documentado en docs/FORMATO_AUTOMATAS.md).
+ *   También se acepta el JSON interno sin versión que se guarda en la URL.
+ * - JFLAP (.jff): autómatas finitos (<type>fa</type>). Una transición con
+ *   <read/> vacío es una transición λ de JFLAP, que aquí se escribe ε; una que
+ *   lee varios caracteres se divide en una transición por carácter.
+ * - Graphviz DOT: solo exportación.
+ *
+ * Los errores de validación indican el campo que falla con una ruta
+ * (ej: `states[2].id`, `structure.automaton.transition[0].from`), una por línea.
+ */
+
+import { Automaton, AutomatonDocument, AutomatonFileFormat, State, Transition } from '@/lib/types/automata';
+import { isDeterministic } from './afd-construction';
+
+/**
+ * Versión actual del esquema JSON
+ */
+export const AUTOMATON_FORMAT_VERSION = 1;
+
+const FORMAT_ID = 'compimc-automaton';
+
+const automatonTypes: Automaton['type'][] = ['DFA', 'NFA', 'EPSILON_NFA'];
+
+/**
+ * Nombres de los formatos para mostrar en la interfaz
+ */
+export const automatonFormatLabels: Record<AutomatonFileFormat, string> = {
+  json: 'JSON (compiMC)',
+  jff: 'JFLAP (.jff)',
+  dot: 'Graphviz DOT (.dot)',
+};
+
+/**
+ * Extensión y tipo MIME de cada formato
+ */
+export const automatonFileTypes: Record<AutomatonFileFormat, { extension: string; mimeType: string }> = {
+  json: { extension: 'json', mimeType: 'application/json' },
+  jff: { extension: 'jff', mimeType: 'application/xml' },
+  dot: { extension: 'dot', mimeType: 'text/vnd.graphviz' },
+};
+
+/**
+ * Problema de validación en un campo del archivo
+ */
+interface FormatIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Nombres de los campos en cada formato, para construir las rutas de error
+ */
+interface FieldPaths {
+  states: string;
+  state: (index: number) => string;
+  transition: (index: number) => string;
+  id: string;
+  initial: string;
+  from: string;
+  to: string;
+  symbol: string;
+}
+
+function formatError(issues: FormatIssue[]): Error {
+  return new Error(issues.map(issue => `${issue.path}: ${issue.message}`).join('\n'));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Tipo de autómata según sus transiciones
+ */
+function inferType(automaton: Automaton): Automaton['type'] {
+  if (automaton.transitions.some(t => t.symbol === 'ε')) return 'EPSILON_NFA';
+  return isDeterministic(automaton) ? 'DFA' : 'NFA';
+}
+
+/**
+ * Comprueba la estructura de un autómata ya leído: IDs únicos, exactamente un
+ * estado inicial y transiciones entre estados existentes con símbolos del alfabeto
+ */
+function checkStructure(automaton: Automaton, paths: FieldPaths, issues: FormatIssue[]): void {
+  const firstIndex = new Map<string, number>();
+  automaton.states.forEach((state, index) => {
+    const previous = firstIndex.get(state.id);
+    if (previous !== undefined) {
+      issues.push({
+        path: `${paths.state(index)}.${paths.id}`,
+        message: `el ID '${state.id}' ya lo usa ${paths.state(previous)}`,
+      });
+    } else {
+      firstIndex.set(state.id, index);
+    }
+  });
+
+  const initials = automaton.states
+    .map((state, index) => ({ state, index }))
+    .filter(({ state }) => state.isInitial);
+  if (initials.length === 0) {
+    issues.push({ path: paths.states, message: 'no hay ningún estado inicial' });
+  }
+  initials.slice(1).forEach(({ index }) => {
+    issues.push({
+      path: `${paths.state(index)}.${paths.initial}`,
+      message: `solo puede haber un estado inicial (ya lo es ${paths.state(initials[0].index)})`,
+    });
+  });
+
+  const alphabet = new Set(automaton.alphabet);
+  automaton.transitions.forEach((transition, index) => {
+    if (!firstIndex.has(transition.from)) {
+      issues.push({ path: `${paths.transition(index)}.${paths.from}`, message: `el estado '${transition.from}' no existe` });
+    }
+    if (!firstIndex.has(transition.to)) {
+      issues.push({ path: `${paths.transition(index)}.${paths.to}`, message: `el estado '${transition.to}' no existe` });
+    }
+    if (transition.symbol !== 'ε' && !alphabet.has(transition.symbol)) {
+      issues.push({
+        path: `${paths.transition(index)}.${paths.symbol}`,
+        message: `el símbolo '${transition.symbol}' no está en el alfabeto`,
+      });
+    }
+  });
+}
+
+// ============================================
+// JSON versionado
+// ============================================
+
+/**
+ * Convierte un autómata al documento JSON versionado
+ */
+export function automatonToDocument(automaton: Automaton): AutomatonDocument {
+  return {
+    format: FORMAT_ID,
+    version: AUTOMATON_FORMAT_VERSION,
+    ...(automaton.name ? { name: automaton.name } : {}),
+    type: automaton.type,
+    alphabet: automaton.alphabet.filter(s => s !== 'ε'),
+    states: automaton.states.map(state => ({
+      id: state.id,
+      label: state.label,
+      initial: state.isInitial,
+      final: state.isFinal,
+      ...(state.position ? { position: { x: state.position.x, y: state.position.y } } : {}),
+    })),
+    transitions: automaton.transitions.map(({ from, to, symbol }) => ({ from, to, symbol })),
+  };
+}
+
+/**
+ * Valida un documento JSON (versionado o el autómata interno sin versión)
+ * y lo convierte en autómata
+ */
+export function automatonFromDocument(value: unknown): Automaton {
+  if (!isRecord(value)) {
+    throw formatError([{ path: '(raíz)', message: 'se esperaba un objeto' }]);
+  }
+
+  const issues: FormatIssue[] = [];
+  // El JSON interno de la URL no tiene `format` y usa isInitial / isFinal
+  const legacy = value.format === undefined;
+  const initialKey = legacy ? 'isInitial' : 'initial';
+  const finalKey = legacy ? 'isFinal' : 'final';
+
+  if (!legacy) {
+    if (value.format !== FORMAT_ID) {
+      issues.push({ path: 'format', message: `se esperaba '${FORMAT_ID}'` });
+    }
+    if (typeof value.version !== 'number' || !Number.isInteger(value.version) || value.version < 1) {
+      issues.push({ path: 'version', message: 'debe ser un entero positivo' });
+    } else if (value.version > AUTOMATON_FORMAT_VERSION) {
+      issues.push({
+        path: 'version',
+        message: `la versión ${value.version} no está soportada (la más reciente es ${AUTOMATON_FORMAT_VERSION})`,
+      });
+    }
+  }
+
+  if (value.name !== undefined && typeof value.name !== 'string') {
+    issues.push({ path: 'name', message: 'debe ser una cadena' });
+  }
+  if (value.type !== undefined && !automatonTypes.includes(value.type as Automaton['type'])) {
+    issues.push({ path: 'type', message: `debe ser uno de ${automatonTypes.join(', ')}` });
+  }
+
+  let alphabet: string[] | undefined;
+  if (value.alphabet !== undefined) {
+    if (!Array.isArray(value.alphabet)) {
+      issues.push({ path: 'alphabet', message: 'debe ser una lista de símbolos' });
+    } else {
+      value.alphabet.forEach((symbol, index) => {
+        if (typeof symbol !== 'string' || symbol === '') {
+          issues.push({ path: `alphabet[${index}]`, message: 'debe ser una cadena no vacía' });
+        }
+      });
+      alphabet = value.alphabet.filter((s): s is string => typeof s === 'string' && s !== '' && s !== 'ε');
+    }
+  }
+
+  const states: State[] = [];
+  if (!Array.isArray(value.states) || value.states.length === 0) {
+    issues.push({ path: 'states', message: 'debe ser una lista con al menos un estado' });
+  } else {
+    value.states.forEach((raw, index) => {
+      const path = `states[${index}]`;
+      if (!isRecord(raw)) {
+        issues.push({ path, message: 'se esperaba un objeto' });
+        return;
+      }
+      if (typeof raw.id !== 'string' || raw.id === '') {
+        issues.push({ path: `${path}.id`, message: 'debe ser una cadena no vacía' });
+      }
+      if (raw.label !== undefined && typeof raw.label !== 'string') {
+        issues.push({ path: `${path}.label`, message: 'debe ser una cadena' });
+      }
+      for (const key of [initialKey, finalKey]) {
+        if (raw[key] !== undefined && typeof raw[key] !== 'boolean') {
+          issues.push({ path: `${path}.${key}`, message: 'debe ser true o false' });
+        }
+      }
+
+      let position: State['position'];
+      if (raw.position !== undefined) {
+        if (!isRecord(raw.position)) {
+          issues.push({ path: `${path}.position`, message: 'debe ser un objeto { x, y }' });
+        } else {
+          for (const axis of ['x', 'y'] as const) {
+            if (typeof raw.position[axis] !== 'number' || !Number.isFinite(raw.position[axis])) {
+              issues.push({ path: `${path}.position.${axis}`, message: 'debe ser un número' });
+            }
+          }
+          position = { x: Number(raw.position.x), y: Number(raw.position.y) };
+        }
+      }
+
+      const id = String(raw.id ?? '');
+      states.push({
+        id,
+        label: typeof raw.label === 'string' && raw.label !== '' ? raw.label : id,
+        isInitial: raw[initialKey] === true,
+        isFinal: raw[finalKey] === true,
+        ...(position ? { position } : {}),
+      });
+    });
+  }
+
+  const transitions: Transition[] = [];
+  if (!Array.isArray(value.transitions)) {
+    issues.push({ path: 'transitions', message: 'debe ser una lista de transiciones' });
+  } else {
+    value.transitions.forEach((raw, index) => {
+      const path = `transitions[${index}]`;
+      if (!isRecord(raw)) {
+        issues.push({ path, message: 'se esperaba un objeto' });
+        return;
+      }
+      for (const key of ['from', 'to', 'symbol'] as const) {
+        if (typeof raw[key] !== 'string' || raw[key] === '') {
+          issues.push({ path: `${path}.${key}`, message: 'debe ser una cadena no vacía' });
+        }
+      }
+      transitions.push({
+        id: `t${index}`,
+        from: String(raw.from ?? ''),
+        to: String(raw.to ?? ''),
+        symbol: String(raw.symbol ?? ''),
+      });
+    });
+  }
+
+  if (issues.length > 0) throw formatError(issues);
+
+  const automaton: Automaton = {
+    id: `importado-${Date.now()}`,
+    states,
+    transitions,
+    alphabet: alphabet ?? [...new Set(transitions.map(t => t.symbol))].filter(s => s !== 'ε'),
+    type: 'DFA',
+    ...(typeof value.name === 'string' ? { name: value.name } : {}),
+  };
+
+  checkStructure(automaton, {
+    states: 'states',
+    state: index => `states[${index}]`,
+    transition: index => `transitions[${index}]`,
+    id: 'id',
+    initial: initialKey,
+    from: 'from',
+    to: 'to',
+    symbol: 'symbol',
+  }, issues);
+
+  const inferred = inferType(automaton);
+  const declared = value.type as Automaton['type'] | undefined;
+  if (declared === 'DFA' && inferred !== 'DFA') {
+    issues.push({ path: 'type', message: 'el autómata se declara DFA pero no es determinista' });
+  }
+
+  if (issues.length > 0) throw formatError(issues);
+
+  return { ...automaton, type: declared ?? inferred };
+}
+
+/**
+ * Lee un autómata desde texto JSON
+ */
+export function parseAutomatonJSON(text: string): Automaton {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`JSON inválido: ${err instanceof Error ? err.message : 'no se pudo leer el archivo'}`);
+  }
+  return automatonFromDocument(value);
+}
+
+// ============================================
+// JFLAP (.jff)
+// ============================================
+
+/**
+ * Elemento XML mínimo (los .jff solo usan elementos, atributos y texto)
+ */
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const xmlEntities: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, entity: string) => {
+    if (entity.startsWith('#x') || entity.startsWith('#X')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return xmlEntities[entity.toLowerCase()];
+  });
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Analiza un documento XML sencillo (sin espacios de nombres ni DTD)
+ */
+function parseXml(source: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack = [root];
+  const token = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<!\[CDATA\[([\s\S]*?)\]\]>|<\/([\w:.-]+)\s*>|<([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/y;
+
+  while (token.lastIndex < source.length) {
+    const position = token.lastIndex;
+    const match = token.exec(source);
+    if (!match) {
+      throw new Error(`XML mal formado cerca del carácter ${position}`);
+    }
+
+    const [, cdata, closing, opening, attributes, selfClosing, text] = match;
+    const current = stack[stack.length - 1];
+
+    if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (closing) {
+      if (current.name !== closing) {
+        throw new Error(`XML mal formado: se encontró </${closing}> y se esperaba </${current.name}>`);
+      }
+      stack.pop();
+    } else if (opening) {
+      const element: XmlElement = { name: opening, attributes: {}, children: [], text: '' };
+      for (const [, key, , double, single] of attributes.matchAll(/([\w:.-]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+        element.attributes[key] = decodeEntities(double ?? single ?? '');
+      }
+      current.children.push(element);
+      if (!selfClosing) stack.push(element);
+    } else if (text !== undefined) {
+      current.text += decodeEntities(text);
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`XML mal formado: falta cerrar <${stack[stack.length - 1].name}>`);
+  }
+  return root;
+}
+
+function childText(element: XmlElement, name: string): string | undefined {
+  return element.children.find(child => child.name === name)?.text.trim();
+}
+
+/**
+ * JFLAP lee un <read> de varios caracteres de a uno: cada una de esas
+ * transiciones se reemplaza por una cadena de transiciones de un símbolo que
+ * pasa por estados intermedios nuevos (ubicados entre el origen y el destino)
+ */
+function expandMultiSymbolReads(automaton: Automaton): Automaton {
+  const ids = new Set(automaton.states.map(s => s.id));
+  const byId = new Map(automaton.states.map(s => [s.id, s]));
+  const states = [...automaton.states];
+  const transitions: Transition[] = [];
+
+  for (const transition of automaton.transitions) {
+    const symbols = Array.from(transition.symbol);
+    if (transition.symbol === 'ε' || symbols.length === 1) {
+      transitions.push(transition);
+      continue;
+    }
+
+    const start = byId.get(transition.from)?.position;
+    const end = byId.get(transition.to)?.position;
+    let from = transition.from;
+
+    symbols.forEach((symbol, k) => {
+      let to = transition.to;
+      if (k < symbols.length - 1) {
+        to = `${transition.id}.${k + 1}`;
+        while (ids.has(to)) to += "'";
+        ids.add(to);
+
+        const ratio = (k + 1) / symbols.length;
+        states.push({
+          id: to,
+          label: to,
+          isInitial: false,
+          isFinal: false,
+          ...(start && end
+            ? { position: { x: start.x + (end.x - start.x) * ratio, y: start.y + (end.y - start.y) * ratio } }
+            : {}),
+        });
+      }
+
+      transitions.push({ id: `${transition.id}.${k}`, from, to, symbol });
+      from = to;
+    });
+  }
+
+  return {
+    ...automaton,
+    states,
+    transitions,
+    alphabet: [...new Set(transitions.map(t => t.symbol))].filter(s => s !== 'ε'),
+  };
+}
+
+/**
+ * Lee un autómata finito desde un archivo de JFLAP (.jff)
+ */
+export function parseJFLAP(xml: string): Automaton {
+  const document = parseXml(xml);
+  const structure = document.children.find(child => child.name === 'structure');
+  if (!structure) {
+    throw formatError([{ path: 'structure', message: 'falta el elemento raíz <structure>' }]);
+  }
+
+  const type = childText(structure, 'type');
+  if (type !== 'fa') {
+    throw formatError([{
+      path: 'structure.type',
+      message: type
+        ? `solo se admiten autómatas finitos (fa), el archivo es de tipo '${type}'`
+        : 'falta el tipo de autómata',
+    }]);
+  }
+
+  // JFLAP 7 agrupa estados y transiciones en <automaton>; versiones anteriores no
+  const container = structure.children.find(child => child.name === 'automaton') ?? structure;
+  const base = container === structure ? 'structure' : 'structure.automaton';
+  const issues: FormatIssue[] = [];
+
+  const states: State[] = container.children
+    .filter(child => child.name === 'state')
+    .map((element, index) => {
+      const path = `${base}.state[${index}]`;
+      const id = element.attributes.id ?? '';
+      if (id === '') {
+        issues.push({ path: `${path}.@id`, message: 'falta el atributo id' });
+      }
+
+      const coordinates = (['x', 'y'] as const).map(axis => {
+        const text = childText(element, axis);
+        if (text === undefined) return undefined;
+        const number = Number(text);
+        if (text === '' || !Number.isFinite(number)) {
+          issues.push({ path: `${path}.${axis}`, message: `'${text}' no es un número` });
+        }
+        return number;
+      });
+      const [x, y] = coordinates;
+
+      return {
+        id,
+        label: element.attributes.name || `q${id}`,
+        isInitial: element.children.some(child => child.name === 'initial'),
+        isFinal: element.children.some(child => child.name === 'final'),
+        ...(x !== undefined && y !== undefined ? { position: { x, y } } : {}),
+      };
+    });
+
+  if (states.length === 0) {
+    issues.push({ path: `${base}.state`, message: 'el autómata no tiene estados' });
+  }
+
+  const transitions: Transition[] = container.children
+    .filter(child => child.name === 'transition')
+    .map((element, index) => {
+      const path = `${base}.transition[${index}]`;
+      const from = childText(element, 'from') ?? '';
+      const to = childText(element, 'to') ?? '';
+      if (from === '') issues.push({ path: `${path}.from`, message: 'falta el estado origen' });
+      if (to === '') issues.push({ path: `${path}.to`, message: 'falta el estado destino' });
+
+      // <read/> vacío (o ausente) es una transición λ. El texto no se recorta:
+      // <read> </read> lee un espacio, igual que en JFLAP
+      const read = element.children.find(child => child.name === 'read')?.text ?? '';
+      return { id: `t${index}`, from, to, symbol: read === '' ? 'ε' : read };
+    });
+
+  if (issues.length > 0) throw formatError(issues);
+
+  const automaton: Automaton = {
+    id: `jflap-${Date.now()}`,
+    states,
+    transitions,
+    alphabet: [...new Set(transitions.map(t => t.symbol))].filter(s => s !== 'ε'),
+    type: 'DFA',
+  };
+
+  checkStructure(automaton, {
+    states: `${base}.state`,
+    state: index => `${base}.state[${index}]`,
+    transition: index => `${base}.transition[${index}]`,
+    id: '@id',
+    initial: 'initial',
+    from: 'from',
+    to: 'to',
+    symbol: 'read',
+  }, issues);
+
+  if (issues.length > 0) throw formatError(issues);
+
+  // Se expande después de validar para que las rutas de error usen los índices del archivo
+  const expanded = expandMultiSymbolReads(automaton);
+  return { ...expanded, type: inferType(expanded) };
+}
+
+/**
+ * Escribe un autómata en el formato de JFLAP (.jff). Los estados se numeran
+ * en orden y los que no tienen posición se colocan en una cuadrícula.
+ */
+function automatonToJFLAP(automaton: Automaton): string {
+  const index = new Map(automaton.states.map((state, i) => [state.id, i]));
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?><!--Created with compiMC.--><structure>',
+    '\t<type>fa</type>',
+    '\t<automaton>',
+  ];
+
+  automaton.states.forEach((state, i) => {
+    const position = state.position ?? { x: 100 + (i % 5) * 120, y: 100 + Math.floor(i / 5) * 120 };
+    lines.push(`\t\t<state id="${i}" name="${escapeXml(state.label)}">`);
+    lines.push(`\t\t\t<x>${position.x.toFixed(1)}</x>`);
+    lines.push(`\t\t\t<y>${position.y.toFixed(1)}</y>`);
+    if (state.isInitial) lines.push('\t\t\t<initial/>');
+    if (state.isFinal) lines.push('\t\t\t<final/>');
+    lines.push('\t\t</state>');
+  });
+
+  automaton.transitions.forEach(transition => {
+    lines.push('\t\t<transition>');
+    lines.push(`\t\t\t<from>${index.get(transition.from)}</from>`);
+    lines.push(`\t\t\t<to>${index.get(transition.to)}</to>`);
+    lines.push(transition.symbol === 'ε' ? '\t\t\t<read/>' : `\t\t\t<read>${escapeXml(transition.symbol)}</read>`);
+    lines.push('\t\t</transition>');
+  });
+
+  lines.push('\t</automaton>', '</structure>');
+  return lines.join('\n');
+}
+
+// ============================================
+// Graphviz DOT
+// ============================================
+
+function quoteDot(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Escribe un autómata en Graphviz DOT. Las transiciones paralelas se agrupan
+ * en una sola arista con los símbolos separados por comas.
+ */
+function automatonToDot(automaton: Automaton): string {
+  const lines = [
+    `digraph ${quoteDot(automaton.name || 'automata')} {`,
+    '  rankdir=LR;',
+    '  node [shape=circle];',
+    '  __inicio [shape=point, label=""];',
+  ];
+
+  for (const state of automaton.states) {
+    const shape = state.isFinal ? ', shape=doublecircle' : '';
+    lines.push(`  ${quoteDot(state.id)} [label=${quoteDot(state.label)}${shape}];`);
+  }
+
+  const initial = automaton.states.find(s => s.isInitial);
+  if (initial) lines.push(`  __inicio -> ${quoteDot(initial.id)};`);
+
+  const edges = new Map<string, { from: string; to: string; symbols: string[] }>();
+  for (const { from, to, symbol } of automaton.transitions) {
+    const key = JSON.stringify([from, to]);
+    const edge = edges.get(key) ?? { from, to, symbols: [] };
+    if (!edge.symbols.includes(symbol)) edge.symbols.push(symbol);
+    edges.set(key, edge);
+  }
+  for (const { from, to, symbols } of edges.values()) {
+    lines.push(`  ${quoteDot(from)} -> ${quoteDot(to)} [label=${quoteDot(symbols.join(', '))}];`);
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+// ============================================
+// Punto de entrada
+// ============================================
+
+/**
+ * Exporta un autómata al formato indicado
+ */
+export function exportAutomaton(automaton: Automaton, format: AutomatonFileFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(automatonToDocument(automaton), null, 2);
+    case 'jff':
+      return automatonToJFLAP(automaton);
+    case 'dot':
+      return automatonToDot(automaton);
+  }
+}
+
+/**
+ * Importa un autómata desde un archivo JSON o JFLAP. El formato se deduce
+ * de la extensión o, si no hay nombre de archivo, del contenido.
+ */
+export function importAutomaton(content: string, fileName?: string): Automaton {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension === 'jff' || extension === 'xml' || (!extension && content.trimStart().startsWith('<'))) {
+    return parseJFLAP(content);
+  }
+  if (extension === 'dot' || extension === 'gv') {
+    throw new Error('Los archivos DOT solo se pueden exportar; importa el autómata en JSON o JFLAP');
+  }
+  return parseAutomatonJSON(content);
+}
@@ -0,0 +1,291 @@
+/**
+ * Análisis de problemas de un autómata finito (lint)
+ *
+ * Detecta los errores más comunes al definir un autómata a mano y ofrece
+ * correcciones automáticas:
+ * - Sin estado inicial o con varios estados iniciales
+ * - Estados inalcanzables (no se llega a ellos desde el inicial)
+ * - Estados muertos (desde ellos no se llega a ningún estado final)
+ * - Transiciones faltantes en un AFD (se completa con un estado trampa)
+ * - Transiciones ε o varios destinos por símbolo en un autómata declarado AFD
+ * - Transiciones duplicadas y estados con la misma etiqueta
+ */
+
+import {
+  Automaton,
+  AutomatonIssue,
+  AutomatonQuickFix,
+  State,
+  Transition,
+} from '@/lib/types/automata';
+import { automatonSymbols, reachableFrom } from './afd-construction';
+
+/**
+ * Descripción de cada corrección automática
+ */
+export const automatonQuickFixLabels: Record<AutomatonQuickFix, string> = {
+  'set-initial': 'Dejar un solo estado inicial',
+  'remove-unreachable': 'Eliminar inalcanzables',
+  'remove-dead': 'Eliminar estados muertos',
+  'add-trap': 'Agregar estado trampa',
+  'mark-nfa': 'Marcar como AFN',
+  'remove-duplicates': 'Eliminar duplicadas',
+};
+
+/**
+ * Transiciones faltantes de un AFD: pares (estado, símbolo) sin destino
+ */
+function missingTransitions(automaton: Automaton): Array<{ state: string; symbol: string }> {
+  const defined = new Set(automaton.transitions.map(t => `${t.from}\u0000${t.symbol}`));
+  const alphabet = automatonSymbols(automaton);
+
+  return automaton.states.flatMap(state =>
+    alphabet
+      .filter(symbol => !defined.has(`${state.id}\u0000${symbol}`))
+      .map(symbol => ({ state: state.id, symbol }))
+  );
+}
+
+/**
+ * Lista de etiquetas para los mensajes: "q1, q2"
+ */
+function labelsOf(automaton: Automaton, stateIds: string[]): string {
+  return stateIds.map(id => automaton.states.find(s => s.id === id)?.label ?? id).join(', ');
+}
+
+/**
+ * Analiza el autómata y devuelve sus problemas, de los más graves a los más leves
+ */
+export function lintAutomaton(automaton: Automaton): AutomatonIssue[] {
+  const issues: AutomatonIssue[] = [];
+  const { states, transitions } = automaton;
+
+  if (states.length === 0) return issues;
+
+  // Estado inicial
+  const initials = states.filter(s => s.isInitial);
+  if (initials.length === 0) {
+    issues.push({
+      code: 'missing-initial',
+      severity: 'error',
+      message: 'No hay estado inicial',
+      states: [],
+      transitions: [],
+      fixes: ['set-initial'],
+    });
+  } else if (initials.length > 1) {
+    issues.push({
+      code: 'multiple-initial',
+      severity: 'error',
+      message: `Hay ${initials.length} estados iniciales (${labelsOf(automaton, initials.map(s => s.id))}); debe haber uno solo`,
+      states: initials.map(s => s.id),
+      transitions: [],
+      fixes: ['set-initial'],
+    });
+  }
+
+  // AFD declarado que no es determinista
+  if (automaton.type === 'DFA') {
+    const epsilon = transitions.filter(t => t.symbol === 'ε');
+    if (epsilon.length > 0) {
+      issues.push({
+        code: 'epsilon-in-dfa',
+        severity: 'error',
+        message: `El autómata se declara AFD pero tiene ${epsilon.length} transición(es) ε`,
+        states: [...new Set(epsilon.map(t => t.from))],
+        transitions: epsilon.map(t => t.id),
+        fixes: ['mark-nfa'],
+      });
+    }
+
+    const byKey = new Map<string, Transition[]>();
+    for (const t of transitions.filter(t => t.symbol !== 'ε')) {
+      const key = `${t.from}\u0000${t.symbol}`;
+      byKey.set(key, [...(byKey.get(key) ?? []), t]);
+    }
+    const conflicts = [...byKey.values()].filter(group => new Set(group.map(t => t.to)).size > 1);
+    if (conflicts.length > 0) {
+      const examples = conflicts
+        .slice(0, 3)
+        .map(group => `δ(${labelsOf(automaton, [group[0].from])}, ${group[0].symbol}) = {${labelsOf(automaton, [...new Set(group.map(t => t.to))])}}`);
+      issues.push({
+        code: 'nondeterministic-dfa',
+        severity: 'error',
+        message: `El autómata se declara AFD pero tiene varios destinos con el mismo símbolo: ${examples.join('; ')}${conflicts.length > 3 ? '; ...' : ''}`,
+        states: [...new Set(conflicts.map(group => group[0].from))],
+        transitions: conflicts.flat().map(t => t.id),
+        fixes: ['mark-nfa'],
+      });
+    }
+  }
+
+  // Transiciones duplicadas (mismo origen, destino y símbolo)
+  const seen = new Set<string>();
+  const duplicates = transitions.filter(t => {
+    const key = `${t.from}\u0000${t.to}\u0000${t.symbol}`;
+    if (seen.has(key)) return true;
+    seen.add(key);
+    return false;
+  });
+  if (duplicates.length > 0) {
+    issues.push({
+      code: 'duplicate-transition',
+      severity: 'warning',
+      message: `Hay ${duplicates.length} transición(es) repetida(s)`,
+      states: [],
+      transitions: duplicates.map(t => t.id),
+      fixes: ['remove-duplicates'],
+    });
+  }
+
+  // Etiquetas repetidas (la tabla y los resultados no distinguen esos estados)
+  const byLabel = new Map<string, State[]>();
+  for (const state of states) {
+    byLabel.set(state.label, [...(byLabel.get(state.label) ?? []), state]);
+  }
+  for (const [label, group] of byLabel) {
+    if (group.length > 1) {
+      issues.push({
+        code: 'duplicate-label',
+        severity: 'warning',
+        message: `${group.length} estados se llaman '${label}'`,
+        states: group.map(s => s.id),
+        transitions: [],
+        fixes: [],
+      });
+    }
+  }
+
+  // Alcanzabilidad y co-alcanzabilidad (requieren estado inicial)
+  if (initials.length > 0) {
+    const reachable = reachableFrom(initials.map(s => s.id), transitions);
+    const unreachable = states.filter(s => !reachable.has(s.id)).map(s => s.id);
+    if (unreachable.length > 0) {
+      issues.push({
+        code: 'unreachable',
+        severity: 'warning',
+        message: `Estados inalcanzables desde el inicial: ${labelsOf(automaton, unreachable)}`,
+        states: unreachable,
+        transitions: transitions.filter(t => !reachable.has(t.from)).map(t => t.id),
+        fixes: ['remove-unreachable'],
+      });
+    }
+
+    const finals = states.filter(s => s.isFinal).map(s => s.id);
+    if (finals.length === 0) {
+      issues.push({
+        code: 'no-final',
+        severity: 'warning',
+        message: 'No hay estados finales: el autómata no acepta ninguna cadena',
+        states: [],
+        transitions: [],
+        fixes: [],
+      });
+    } else {
+      const coReachable = reachableFrom(finals, transitions, true);
+      const dead = states.filter(s => reachable.has(s.id) && !coReachable.has(s.id)).map(s => s.id);
+      if (dead.length > 0) {
+        // En un AFD completo un único estado muerto es el estado trampa, y es intencional
+        const isTrap = automaton.type === 'DFA' && dead.length === 1 && missingTransitions(automaton).length === 0;
+        issues.push({
+          code: 'dead',
+          severity: isTrap ? 'info' : 'warning',
+          message: isTrap
+            ? `${labelsOf(automaton, dead)} es un estado trampa: desde él no se llega a ningún estado final`
+            : `Estados muertos (desde ellos no se llega a ningún estado final): ${labelsOf(automaton, dead)}`,
+          states: dead,
+          transitions: transitions.filter(t => dead.includes(t.to)).map(t => t.id),
+          fixes: dead.some(id => initials.some(s => s.id === id)) ? [] : ['remove-dead'],
+        });
+      }
+    }
+  }
+
+  // Transiciones faltantes de un AFD (solo si por lo demás es determinista)
+  if (automaton.type === 'DFA' && !issues.some(i => i.code === 'epsilon-in-dfa' || i.code === 'nondeterministic-dfa')) {
+    const missing = missingTransitions(automaton);
+    if (missing.length > 0) {
+      const examples = missing.slice(0, 4).map(m => `δ(${labelsOf(automaton, [m.state])}, ${m.symbol})`);
+      issues.push({
+        code: 'incomplete',
+        severity: 'info',
+        message: `AFD incompleto: faltan ${missing.length} transición(es): ${examples.join(', ')}${missing.length > 4 ? ', ...' : ''}`,
+        states: [...new Set(missing.map(m => m.state))],
+        transitions: [],
+        fixes: ['add-trap'],
+      });
+    }
+  }
+
+  const severityOrder = { error: 0, warning: 1, info: 2 };
+  return issues.sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity]);
+}
+
+/**
+ * Aplica una corrección automática y devuelve el autómata resultante
+ */
+export function applyQuickFix(automaton: Automaton, fix: AutomatonQuickFix): Automaton {
+  const { states, transitions } = automaton;
+
+  const withoutStates = (removed: Set<string>): Automaton => ({
+    ...automaton,
+    states: states.filter(s => !removed.has(s.id)),
+    transitions: transitions.filter(t => !removed.has(t.from) && !removed.has(t.to)),
+  });
+
+  switch (fix) {
+    case 'set-initial': {
+      // Se conserva el primer inicial; si no hay, el primer estado
+      const keep = states.find(s => s.isInitial)?.id ?? states[0]?.id;
+      return { ...automaton, states: states.map(s => ({ ...s, isInitial: s.id === keep })) };
+    }
+
+    case 'remove-unreachable': {
+      const reachable = reachableFrom(states.filter(s => s.isInitial).map(s => s.id), transitions);
+      return withoutStates(new Set(states.filter(s => !reachable.has(s.id)).map(s => s.id)));
+    }
+
+    case 'remove-dead': {
+      const coReachable = reachableFrom(states.filter(s => s.isFinal).map(s => s.id), transitions, true);
+      return withoutStates(new Set(states.filter(s => !coReachable.has(s.id) && !s.isInitial).map(s => s.id)));
+    }
+
+    case 'add-trap': {
+      const missing = missingTransitions(automaton);
+      if (missing.length === 0) return automaton;
+
+      const ids = new Set(states.map(s => s.id));
+      let trap = 'T';
+      while (ids.has(trap) || states.some(s => s.label === trap)) trap += "'";
+
+      const alphabet = automatonSymbols(automaton);
+      const added = [
+        ...missing.map(m => ({ from: m.state, symbol: m.symbol })),
+        ...alphabet.map(symbol => ({ from: trap, symbol })),
+      ].map(({ from, symbol }) => ({ id: `${from}-${symbol}-${trap}`, from, to: trap, symbol }));
+
+      return {
+        ...automaton,
+        alphabet,
+        states: [...states, { id: trap, label: trap, isInitial: false, isFinal: false }],
+        transitions: [...transitions, ...added],
+      };
+    }
+
+    case 'mark-nfa':
+      return { ...automaton, type: transitions.some(t => t.symbol === 'ε') ? 'EPSILON_NFA' : 'NFA' };
+
+    case 'remove-duplicates': {
+      const seen = new Set<string>();
+      return {
+        ...automaton,
+        transitions: transitions.filter(t => {
+          const key = `${t.from}\u0000${t.to}\u0000${t.symbol}`;
+          if (seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        }),
+      };
+    }
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Pruebas por lote de cadenas
+ *
+ * Lee una batería de pruebas (una cadena por línea con su resultado esperado)
+ * y la ejecuta contra uno o más autómatas:
+ * - Cada línea es "cadena etiqueta", separadas por espacios, tabulador, coma o punto y coma
+ * - La etiqueta es el último campo: +, 1, sí, acepta... o -, 0, no, rechaza...
+ * - Sin etiqueta reconocible, la línea entera es la cadena (sin resultado esperado)
+ * - ε (o λ) es la cadena vacía; las líneas vacías y las que empiezan con # se ignoran
+ */
+
+import {
+  Automaton,
+  StringTestCase,
+  StringTestRow,
+  StringTestSuiteResult,
+} from '@/lib/types/automata';
+import { validateStrings } from './string-recognition';
+
+const acceptLabels = new Set(['+', '1', 'si', 'sí', 'acepta', 'aceptada', 'aceptar', 'accept', 'accepted', 'true', 'yes', '✓']);
+const rejectLabels = new Set(['-', '0', 'no', 'rechaza', 'rechazada', 'rechazar', 'reject', 'rejected', 'false', '✗']);
+const headerFields = new Set(['cadena', 'cadenas', 'string', 'input', 'entrada']);
+
+/**
+ * Interpreta una etiqueta de resultado esperado (undefined si no lo es)
+ */
+function parseLabel(field: string): boolean | undefined {
+  const label = field.toLowerCase();
+  if (acceptLabels.has(label)) return true;
+  if (rejectLabels.has(label)) return false;
+  return undefined;
+}
+
+/**
+ * Normaliza la cadena de un caso: sin comillas y con ε como cadena vacía
+ */
+function normalizeInput(field: string): string {
+  const unquoted = field.trim().replace(/^"(.*)"$/, '$1');
+  return unquoted === 'ε' || unquoted === 'λ' ? '' : unquoted;
+}
+
+/**
+ * Lee una batería de pruebas en texto plano o CSV
+ */
+export function parseTestSuite(text: string): StringTestCase[] {
+  const cases: StringTestCase[] = [];
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) return;
+
+    const match = line.match(/^(.*?)[\s,;]+([^\s,;]+)$/);
+    const expected = match ? parseLabel(match[2]) : undefined;
+
+    // Encabezado CSV (ej: "cadena,esperado")
+    if (cases.length === 0 && headerFields.has((match?.[1] ?? line).trim().toLowerCase())) return;
+
+    cases.push(
+      match && expected !== undefined
+        ? { input: normalizeInput(match[1]), expected, line: index + 1 }
+        : { input: normalizeInput(line), expected: null, line: index + 1 }
+    );
+  });
+
+  return cases;
+}
+
+/**
+ * Ejecuta una batería de pruebas contra uno o más autómatas
+ */
+export function runTestSuite(cases: StringTestCase[], automata: Automaton[]): StringTestSuiteResult {
+  if (automata.length === 0) throw new Error('No hay autómatas para probar');
+  if (cases.length === 0) throw new Error('La batería de pruebas no tiene cadenas');
+
+  const inputs = cases.map(c => c.input);
+  const results = automata.map(automaton => validateStrings(automaton, inputs).map(r => r.result));
+
+  const rows: StringTestRow[] = cases.map((testCase, index) => {
+    const rowResults = results.map(perAutomaton => perAutomaton[index]);
+    return {
+      testCase,
+      results: rowResults,
+      mismatches: rowResults.map(r => testCase.expected !== null && r.accepted !== testCase.expected),
+      disagreement: rowResults.some(r => r.accepted !== rowResults[0].accepted),
+    };
+  });
+
+  return {
+    rows,
+    scores: automata.map((_, i) => ({
+      passed: rows.filter(row => row.testCase.expected !== null && !row.mismatches[i]).length,
+      failed: rows.filter(row => row.mismatches[i]).length,
+      accepted: rows.filter(row => row.results[i].accepted).length,
+    })),
+    labeled: cases.filter(c => c.expected !== null).length,
+    disagreements: rows.filter(row => row.disagreement).length,
+  };
+}
@@ -0,0 +1,339 @@
+/**
+ * Construcción de AFD por derivadas de Brzozowski
+ *
+ * La derivada de r respecto de un símbolo a es el lenguaje de los sufijos de
+ * las cadenas de r que empiezan por a: ∂a(r) = { w | aw ∈ L(r) }. Cada estado
+ * del AFD es una expresión: el inicial es r, el estado r tiene una transición
+ * con a hacia ∂a(r) y es final si r es anulable (ε ∈ L(r)).
+ *
+ * Reglas de derivación:
+ * - ∂a(∅) = ∂a(ε) = ∅,  ∂a(a) = ε,  ∂a(b) = ∅
+ * - ∂a(r|s) = ∂a(r) | ∂a(s)
+ * - ∂a(rs) = ∂a(r)s | ∂a(s) si r es anulable, si no ∂a(r)s
+ * - ∂a(r*) = ∂a(r+) = ∂a(r)r*,  ∂a(r?) = ∂a(r)
+ *
+ * Para que el número de derivadas distintas sea finito, cada derivada se
+ * normaliza por similitud (la unión es asociativa, conmutativa e idempotente)
+ * además de eliminar ε y ∅ neutros y absorbentes.
+ */
+
+import {
+  Automaton,
+  AutomatonResults,
+  BrzozowskiConstruction,
+  DFAConstructionComparison,
+  DFAConstructionMethod,
+  State,
+  Transition,
+  TreeNode,
+} from '@/lib/types/automata';
+import { buildSyntaxTree, NodeType, treeToRegex } from './regex-parser';
+import { buildAFDFull, buildAFDShort } from './afd-construction';
+import { minimizeDFA } from './dfa-minimization';
+import { areAutomataEquivalent } from './equivalence';
+
+/**
+ * Máximo de estados (derivadas distintas) antes de abortar la construcción
+ */
+const MAX_BRZOZOWSKI_STATES = 200;
+
+/**
+ * Nombres de los métodos de construcción para mostrar en la interfaz
+ */
+export const dfaConstructionLabels: Record<DFAConstructionMethod, string> = {
+  'afd-full': 'Thompson + Subconjuntos',
+  'afd-short': 'Árbol Sintáctico (siguientes)',
+  'afd-brzozowski': 'Derivadas de Brzozowski',
+};
+
+const operatorValues: Partial<Record<NodeType, string>> = {
+  UNION: '|',
+  CONCAT: '.',
+  STAR: '*',
+  PLUS: '+',
+  OPTIONAL: '?',
+  EPSILON: 'ε',
+  EMPTY: '∅',
+};
+
+let nextNodeId = 0;
+
+/**
+ * Crea un nodo de operador (o ε / ∅)
+ */
+function makeNode(type: NodeType, children: TreeNode[] = []): TreeNode {
+  return { id: `derivative-${nextNodeId++}`, type, value: operatorValues[type] ?? '', children };
+}
+
+/**
+ * Indica si el lenguaje de un nodo contiene ε
+ */
+function isNullable(node: TreeNode): boolean {
+  switch (node.type) {
+    case 'EPSILON':
+    case 'STAR':
+    case 'OPTIONAL':
+      return true;
+    case 'SYMBOL':
+    case 'EMPTY':
+      return false;
+    case 'UNION':
+      return node.children.some(isNullable);
+    case 'CONCAT':
+      return node.children.every(isNullable);
+    case 'PLUS':
+      return isNullable(node.children[0]);
+  }
+}
+
+/**
+ * Deriva un nodo respecto de un símbolo aplicando las reglas tal cual,
+ * sin simplificar (la normalización es un paso aparte)
+ */
+function derive(node: TreeNode, symbol: string): TreeNode {
+  switch (node.type) {
+    case 'EMPTY':
+    case 'EPSILON':
+      return makeNode('EMPTY');
+    case 'SYMBOL':
+      return makeNode(node.value === symbol ? 'EPSILON' : 'EMPTY');
+    case 'UNION':
+      return makeNode('UNION', node.children.map(child => derive(child, symbol)));
+    case 'CONCAT': {
+      // ∂a(r·s) con r el primer factor y s el resto de la concatenación
+      const [first, ...rest] = node.children;
+      const tail = rest.length === 1 ? rest[0] : makeNode('CONCAT', rest);
+      const left = makeNode('CONCAT', [derive(first, symbol), tail]);
+      return isNullable(first) ? makeNode('UNION', [left, derive(tail, symbol)]) : left;
+    }
+    case 'STAR':
+      return makeNode('CONCAT', [derive(node.children[0], symbol), node]);
+    case 'PLUS':
+      return makeNode('CONCAT', [derive(node.children[0], symbol), makeNode('STAR', [node.children[0]])]);
+    case 'OPTIONAL':
+      return derive(node.children[0], symbol);
+  }
+}
+
+/**
+ * Regla de derivación que se aplica en la raíz de un nodo
+ */
+function derivationRule(node: TreeNode, symbol: string): string {
+  const d = `∂${symbol}`;
+  switch (node.type) {
+    case 'EMPTY':
+      return `${d}(∅) = ∅`;
+    case 'EPSILON':
+      return `${d}(ε) = ∅`;
+    case 'SYMBOL':
+      return node.value === symbol ? `${d}(${symbol}) = ε` : `${d}(${treeToRegex(node)}) = ∅`;
+    case 'UNION':
+      return `${d}(r|s) = ${d}(r) | ${d}(s)`;
+    case 'CONCAT':
+      return isNullable(node.children[0])
+        ? `${d}(rs) = ${d}(r)s | ${d}(s)   (r es anulable)`
+        : `${d}(rs) = ${d}(r)s   (r no es anulable)`;
+    case 'STAR':
+      return `${d}(r*) = ${d}(r)r*`;
+    case 'PLUS':
+      return `${d}(r+) = ${d}(r)r*`;
+    case 'OPTIONAL':
+      return `${d}(r?) = ${d}(r)`;
+  }
+}
+
+/**
+ * Normaliza un nodo por similitud. Las identidades aplicadas se agregan a
+ * `applied` para mostrarlas en la traza.
+ */
+function normalize(node: TreeNode, applied: Set<string>): TreeNode {
+  const children = node.children.map(child => normalize(child, applied));
+
+  switch (node.type) {
+    case 'CONCAT': {
+      // Asociatividad: (rs)t = r(st)
+      const items = children.flatMap(child => (child.type === 'CONCAT' ? child.children : [child]));
+      if (items.some(item => item.type === 'EMPTY')) {
+        applied.add('∅·r = r·∅ = ∅');
+        return makeNode('EMPTY');
+      }
+      const factors = items.filter(item => item.type !== 'EPSILON');
+      if (factors.length !== items.length) applied.add('ε·r = r·ε = r');
+      if (factors.length === 0) return makeNode('EPSILON');
+      return factors.length === 1 ? factors[0] : makeNode('CONCAT', factors);
+    }
+
+    case 'UNION': {
+      // Asociatividad, ∅ neutro, idempotencia y conmutatividad (orden canónico)
+      const items = children.flatMap(child => (child.type === 'UNION' ? child.children : [child]));
+      const terms = items.filter(item => item.type !== 'EMPTY');
+      if (terms.length !== items.length) applied.add('∅|r = r|∅ = r');
+
+      const unique = new Map<string, TreeNode>();
+      for (const term of terms) unique.set(treeToRegex(term), term);
+      if (unique.size !== terms.length) applied.add('r|r = r');
+
+      const keys = [...unique.keys()];
+      const sorted = [...keys].sort();
+      if (keys.some((k, index) => k !== sorted[index])) applied.add('r|s = s|r');
+
+      if (sorted.length === 0) return makeNode('EMPTY');
+      if (sorted.length === 1) return unique.get(sorted[0])!;
+      return makeNode('UNION', sorted.map(k => unique.get(k)!));
+    }
+
+    case 'STAR': {
+      const [child] = children;
+      if (child.type === 'EPSILON' || child.type === 'EMPTY') {
+        applied.add('ε* = ∅* = ε');
+        return makeNode('EPSILON');
+      }
+      if (child.type === 'STAR') {
+        applied.add('(r*)* = r*');
+        return child;
+      }
+      return { ...node, children };
+    }
+
+    case 'PLUS': {
+      const [child] = children;
+      if (child.type === 'EPSILON' || child.type === 'EMPTY') {
+        applied.add('ε+ = ε, ∅+ = ∅');
+        return child;
+      }
+      return { ...node, children };
+    }
+
+    case 'OPTIONAL': {
+      const [child] = children;
+      if (child.type === 'EPSILON' || child.type === 'EMPTY') {
+        applied.add('ε? = ∅? = ε');
+        return makeNode('EPSILON');
+      }
+      return { ...node, children };
+    }
+
+    default:
+      return node;
+  }
+}
+
+/**
+ * Construye un AFD cuyos estados son las derivadas (normalizadas) de la expresión
+ * @param alphabet Alfabeto declarado (opcional), usado para resolver clases negadas
+ */
+export function derivativesToAFD(regex: string, alphabet?: string[]): Automaton {
+  const syntaxTree = buildSyntaxTree(regex, alphabet);
+  const symbols = syntaxTree.alphabet;
+
+  const states: State[] = [];
+  const transitions: Transition[] = [];
+  const construction: BrzozowskiConstruction = { regex, states: [], steps: [] };
+
+  const stateByKey = new Map<string, string>(); // Expresión normalizada → ID de estado
+  const pending: Array<{ id: string; node: TreeNode }> = [];
+
+  const addState = (node: TreeNode): string => {
+    const expression = treeToRegex(node);
+    const id = `q${states.length}`;
+    const nullable = isNullable(node);
+
+    if (states.length >= MAX_BRZOZOWSKI_STATES) {
+      throw new Error(`El método de derivadas generó más de ${MAX_BRZOZOWSKI_STATES} estados`);
+    }
+
+    stateByKey.set(expression, id);
+    states.push({ id, label: expression, isInitial: states.length === 0, isFinal: nullable });
+    construction.states.push({ id, expression, nullable });
+    pending.push({ id, node });
+    return id;
+  };
+
+  // El estado inicial es la propia expresión (normalizada)
+  addState(normalize(syntaxTree.root, new Set()));
+
+  while (pending.length > 0) {
+    const { id, node } = pending.shift()!;
+    const expression = treeToRegex(node);
+
+    for (const symbol of symbols) {
+      const raw = derive(node, symbol);
+      const applied = new Set<string>();
+      const derivative = normalize(raw, applied);
+      const key = treeToRegex(derivative);
+
+      let target: string | undefined;
+      let isNew = false;
+      if (derivative.type !== 'EMPTY') {
+        target = stateByKey.get(key);
+        if (!target) {
+          target = addState(derivative);
+          isNew = true;
+        }
+        transitions.push({ id: `${id}-${symbol}-${target}`, from: id, to: target, symbol });
+      }
+
+      construction.steps.push({
+        stepNumber: construction.steps.length + 1,
+        from: id,
+        expression,
+        symbol,
+        rule: derivationRule(node, symbol),
+        raw: treeToRegex(raw),
+        derivative: key,
+        normalizations: [...applied],
+        target,
+        isNew,
+      });
+    }
+  }
+
+  return {
+    id: `afd-brzozowski-${Date.now()}`,
+    type: 'DFA',
+    states,
+    transitions,
+    alphabet: symbols,
+    name: `AFD por derivadas de ${regex}`,
+    brzozowski: construction,
+  };
+}
+
+/**
+ * Construye el AFD por derivadas de Brzozowski desde una expresión regular
+ * @param alphabet Alfabeto declarado (opcional), usado para resolver clases negadas
+ */
+export function buildAFDBrzozowski(regex: string, alphabet?: string[]): AutomatonResults {
+  return {
+    automatonAFD: derivativesToAFD(regex, alphabet),
+    syntaxTree: buildSyntaxTree(regex, alphabet),
+  };
+}
+
+/**
+ * Construye el AFD de una expresión con los tres métodos para compararlos.
+ * Cada AFD se contrasta con el de derivadas por equivalencia de lenguajes,
+ * y se incluye el número de estados del AFD mínimo como referencia.
+ */
+export function compareDFAConstructions(regex: string, alphabet?: string[]): {
+  constructions: DFAConstructionComparison[];
+  minimalStates: number;
+} {
+  const derivatives = derivativesToAFD(regex, alphabet);
+  const automata: Record<DFAConstructionMethod, Automaton> = {
+    'afd-full': buildAFDFull(regex, alphabet).automatonAFD,
+    'afd-short': buildAFDShort(regex, alphabet).automatonAFD,
+    'afd-brzozowski': derivatives,
+  };
+
+  const constructions = (Object.keys(automata) as DFAConstructionMethod[]).map(method => ({
+    method,
+    automaton: automata[method],
+    equivalent: method === 'afd-brzozowski' || areAutomataEquivalent(automata[method], derivatives).equivalent,
+  }));
+
+  return {
+    constructions,
+    minimalStates: minimizeDFA(derivatives, 'hopcroft').automaton.states.length,
+  };
+}
@@ -0,0 +1,478 @@
+/**
+ * Minimización de Autómatas Finitos Deterministas
+ *
+ * Implementa:
+ * 1. Eliminación de estados inalcanzables
+ * 2. Algoritmo de Moore: refinamiento de particiones por rondas
+ * 3. Algoritmo de Hopcroft: refinamiento con lista de espera de divisores
+ * 4. Llenado de tabla (Myhill–Nerode): pares de estados distinguibles por rondas
+ *
+ * Ambos parten de la partición {F, Q - F} y dividen los bloques cuyos estados
+ * van, con algún símbolo, a bloques distintos. Si el AFD es parcial se completa
+ * con un estado trampa implícito (∅). Al final se descartan siempre los estados
+ * muertos (sin camino a un final), sea el trampa implícito o estados explícitos
+ * de un AFD completo, así que el AFD mínimo no depende de cómo se completó.
+ *
+ * Si la entrada es un AFN (o AFN-ε) se determiniza antes por subconjuntos.
+ */
+
+import {
+  Automaton,
+  DistinguishabilityCell,
+  DistinguishabilityTable,
+  MinimizationMethod,
+  MinimizationResult,
+  MinimizationStep,
+  PartitionSplit,
+  State,
+  Transition,
+} from '@/lib/types/automata';
+import {
+  automatonSymbols,
+  CompleteDFA,
+  determinize,
+  isDeterministic,
+  reachableFrom,
+  toCompleteDFA,
+  TRAP_LABEL,
+  TRAP_STATE,
+} from './afd-construction';
+
+/**
+ * AFD completo sobre el que trabajan los algoritmos: sólo los estados
+ * alcanzables (en el orden original) y, aparte, las etiquetas de los eliminados
+ */
+interface MinimizationDFA extends CompleteDFA {
+  unreachable: string[];
+}
+
+/**
+ * Elimina los estados inalcanzables y completa la función de transición
+ * con un estado trampa si hace falta
+ */
+function prepareDFA(dfa: Automaton): MinimizationDFA {
+  const initialState = dfa.states.find(s => s.isInitial);
+  if (!initialState) {
+    throw new Error('El autómata debe tener un estado inicial');
+  }
+
+  if (!isDeterministic(dfa)) {
+    throw new Error('La minimización requiere un AFD (sin transiciones ε ni no determinismo)');
+  }
+
+  const reachable = reachableFrom([initialState.id], dfa.transitions);
+  const unreachable = dfa.states.filter(s => !reachable.has(s.id)).map(s => s.label);
+
+  const trimmed: Automaton = {
+    ...dfa,
+    states: dfa.states.filter(s => reachable.has(s.id)),
+    transitions: dfa.transitions.filter(t => reachable.has(t.from)),
+  };
+
+  return { ...toCompleteDFA(trimmed, automatonSymbols(dfa)), unreachable };
+}
+
+/**
+ * Estados desde los que se llega a un estado final (recorrido inverso)
+ */
+function productiveStates(dfa: CompleteDFA): Set<string> {
+  const productive = new Set(dfa.finals);
+  const queue = [...dfa.finals];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const [from, targets] of dfa.delta) {
+      if (productive.has(from)) continue;
+      if ([...targets.values()].includes(current)) {
+        productive.add(from);
+        queue.push(from);
+      }
+    }
+  }
+  return productive;
+}
+
+/**
+ * Partición inicial {F, Q - F} (sin bloques vacíos)
+ */
+function initialPartition(dfa: CompleteDFA): string[][] {
+  const finals = dfa.states.filter(s => dfa.finals.has(s));
+  const nonFinals = dfa.states.filter(s => !dfa.finals.has(s));
+  return [finals, nonFinals].filter(block => block.length > 0);
+}
+
+/**
+ * Convierte una partición de IDs a etiquetas para mostrarla
+ */
+function toLabels(partition: string[][], dfa: CompleteDFA): string[][] {
+  return partition.map(block => block.map(id => dfa.labels.get(id) ?? id));
+}
+
+/**
+ * Nombre de un bloque para las explicaciones: {A, B}
+ */
+function blockName(block: string[], dfa: CompleteDFA): string {
+  return `{${block.map(id => dfa.labels.get(id) ?? id).join(', ')}}`;
+}
+
+/**
+ * Algoritmo de Moore: en cada ronda se divide cada bloque según el bloque
+ * destino de sus estados con cada símbolo. Termina cuando una ronda no divide nada.
+ */
+function refineMoore(dfa: CompleteDFA): { partition: string[][]; steps: MinimizationStep[] } {
+  const steps: MinimizationStep[] = [];
+  let partition = initialPartition(dfa);
+
+  steps.push({
+    stepNumber: 0,
+    round: 0,
+    description: 'Partición inicial: estados finales y no finales',
+    partitions: toLabels(partition, dfa),
+    splits: [],
+  });
+
+  for (let round = 1; ; round++) {
+    const blockOf = new Map<string, number>();
+    partition.forEach((block, index) => block.forEach(id => blockOf.set(id, index)));
+
+    const next: string[][] = [];
+    const splits: PartitionSplit[] = [];
+
+    for (const block of partition) {
+      // Agrupar por firma: bloque destino con cada símbolo
+      const groups = new Map<string, string[]>();
+      for (const id of block) {
+        const signature = dfa.alphabet
+          .map(a => blockOf.get(dfa.delta.get(id)!.get(a)!))
+          .join(',');
+        if (!groups.has(signature)) groups.set(signature, []);
+        groups.get(signature)!.push(id);
+      }
+
+      const parts = Array.from(groups.values());
+      next.push(...parts);
+
+      if (parts.length > 1) {
+        // Símbolo que distingue a los representantes de los dos primeros grupos
+        const [first, second] = [parts[0][0], parts[1][0]];
+        const symbol = dfa.alphabet.find(
+          a => blockOf.get(dfa.delta.get(first)!.get(a)!) !== blockOf.get(dfa.delta.get(second)!.get(a)!)
+        )!;
+        const firstTarget = partition[blockOf.get(dfa.delta.get(first)!.get(symbol)!)!];
+        const secondTarget = partition[blockOf.get(dfa.delta.get(second)!.get(symbol)!)!];
+
+        splits.push({
+          block: block.map(id => dfa.labels.get(id) ?? id),
+          into: toLabels(parts, dfa),
+          symbol,
+          reason: `Con '${symbol}': ${dfa.labels.get(first)} va a ${blockName(firstTarget, dfa)} y ${dfa.labels.get(second)} va a ${blockName(secondTarget, dfa)}`,
+        });
+      }
+    }
+
+    if (splits.length === 0) {
+      steps.push({
+        stepNumber: steps.length,
+        round,
+        description: 'Ningún bloque se divide: la partición es estable',
+        partitions: toLabels(partition, dfa),
+        splits: [],
+      });
+      return { partition, steps };
+    }
+
+    partition = next;
+    steps.push({
+      stepNumber: steps.length,
+      round,
+      description: `Ronda ${round}: ${splits.length} bloque(s) dividido(s)`,
+      partitions: toLabels(partition, dfa),
+      splits,
+    });
+  }
+}
+
+/**
+ * Algoritmo de Hopcroft: se toma un divisor (A, a) de la lista de espera y se
+ * divide cada bloque Y en los estados que con 'a' van a A y los que no.
+ * Solo se registran los divisores que producen alguna división.
+ */
+function refineHopcroft(dfa: CompleteDFA): { partition: string[][]; steps: MinimizationStep[] } {
+  const steps: MinimizationStep[] = [];
+  let partition = initialPartition(dfa);
+
+  steps.push({
+    stepNumber: 0,
+    round: 0,
+    description: 'Partición inicial: estados finales y no finales',
+    partitions: toLabels(partition, dfa),
+    splits: [],
+  });
+
+  const key = (block: string[]) => [...block].sort().join('\u0000');
+
+  // Lista de espera: el bloque más pequeño de la partición inicial con cada símbolo
+  const waiting: Array<{ block: string[]; symbol: string }> = [];
+  if (partition.length > 1) {
+    const smaller = partition[0].length <= partition[1].length ? partition[0] : partition[1];
+    dfa.alphabet.forEach(symbol => waiting.push({ block: smaller, symbol }));
+  }
+
+  let round = 0;
+  while (waiting.length > 0) {
+    const splitter = waiting.shift()!;
+    const splitterSet = new Set(splitter.block);
+    round++;
+
+    // X = estados que con el símbolo van al bloque divisor
+    const predecessors = new Set(
+      dfa.states.filter(id => splitterSet.has(dfa.delta.get(id)!.get(splitter.symbol)!))
+    );
+
+    const next: string[][] = [];
+    const splits: PartitionSplit[] = [];
+
+    for (const block of partition) {
+      const inside = block.filter(id => predecessors.has(id));
+      const outside = block.filter(id => !predecessors.has(id));
+
+      if (inside.length === 0 || outside.length === 0) {
+        next.push(block);
+        continue;
+      }
+
+      next.push(inside, outside);
+      splits.push({
+        block: block.map(id => dfa.labels.get(id) ?? id),
+        into: toLabels([inside, outside], dfa),
+        symbol: splitter.symbol,
+        reason: `Con '${splitter.symbol}': ${blockName(inside, dfa)} van a ${blockName(splitter.block, dfa)} y ${blockName(outside, dfa)} no`,
+      });
+
+      // Actualizar la lista de espera
+      const blockKey = key(block);
+      for (const symbol of dfa.alphabet) {
+        const pendingIndex = waiting.findIndex(w => w.symbol === symbol && key(w.block) === blockKey);
+        if (pendingIndex !== -1) {
+          waiting.splice(pendingIndex, 1, { block: inside, symbol }, { block: outside, symbol });
+        } else {
+          waiting.push({ block: inside.length <= outside.length ? inside : outside, symbol });
+        }
+      }
+    }
+
+    if (splits.length > 0) {
+      partition = next;
+      steps.push({
+        stepNumber: steps.length,
+        round,
+        description: `Divisor (${blockName(splitter.block, dfa)}, ${splitter.symbol}): ${splits.length} bloque(s) dividido(s)`,
+        partitions: toLabels(partition, dfa),
+        splitter: { block: splitter.block.map(id => dfa.labels.get(id) ?? id), symbol: splitter.symbol },
+        splits,
+      });
+    }
+  }
+
+  steps.push({
+    stepNumber: steps.length,
+    round: round + 1,
+    description: 'Lista de espera vacía: la partición es estable',
+    partitions: toLabels(partition, dfa),
+    splits: [],
+  });
+
+  return { partition, steps };
+}
+
+/**
+ * Minimiza un autómata con el algoritmo de Moore o el de Hopcroft
+ *
+ * Si es un AFN se determiniza primero; el resultado guarda entonces el AFN
+ * de entrada en `nfa` y su AFD por subconjuntos en `original`.
+ * El AFD mínimo usa como ID de cada estado el del primer estado de su bloque
+ * (en el orden original), igual que optimizeBySignificantStates.
+ */
+export function minimizeDFA(
+  automaton: Automaton,
+  method: MinimizationMethod = 'hopcroft'
+): MinimizationResult {
+  const input = determinize(automaton);
+  const dfa = prepareDFA(input);
+  const { partition, steps } = method === 'moore' ? refineMoore(dfa) : refineHopcroft(dfa);
+
+  // Ordenar los bloques según el primer estado de cada uno
+  const order = new Map(dfa.states.map((id, index) => [id, index]));
+  const blocks = partition
+    .map(block => [...block].sort((a, b) => order.get(a)! - order.get(b)!))
+    .sort((a, b) => order.get(a[0])! - order.get(b[0])!);
+
+  // El bloque de los estados muertos se descarta (salvo que contenga al inicial:
+  // lenguaje vacío). Incluye al estado trampa implícito si el AFD era parcial y a
+  // los estados muertos explícitos si era completo, así ambos dan el mismo AFD mínimo
+  const productive = productiveStates(dfa);
+  const deadBlock = blocks.find(block => block.every(id => !productive.has(id)));
+  const removedBlock = deadBlock && !deadBlock.includes(dfa.initial) ? deadBlock : undefined;
+
+  const representativeOf = new Map<string, string>();
+  for (const block of blocks) {
+    const representative = block.find(id => id !== TRAP_STATE) ?? TRAP_STATE;
+    block.forEach(id => representativeOf.set(id, representative));
+  }
+
+  const minStates: State[] = [];
+  const minTransitions: Transition[] = [];
+  const stateMapping: Record<string, string> = {};
+
+  for (const block of blocks) {
+    if (block === removedBlock) continue;
+
+    const representative = representativeOf.get(block[0])!;
+    const original = input.states.find(s => s.id === representative);
+
+    minStates.push({
+      id: representative,
+      label: original?.label ?? representative,
+      isInitial: block.includes(dfa.initial),
+      isFinal: block.some(id => dfa.finals.has(id)),
+    });
+
+    block
+      .filter(id => id !== TRAP_STATE)
+      .forEach(id => { stateMapping[id] = representative; });
+
+    for (const symbol of dfa.alphabet) {
+      const target = dfa.delta.get(representative)?.get(symbol);
+      if (target === undefined || target === TRAP_STATE) continue;
+      if (removedBlock?.includes(target)) continue;
+
+      const to = representativeOf.get(target)!;
+      minTransitions.push({
+        id: `${representative}-${symbol}-${to}`,
+        from: representative,
+        to,
+        symbol,
+      });
+    }
+  }
+
+  const deadStates = (removedBlock ?? [])
+    .filter(id => id !== TRAP_STATE)
+    .map(id => dfa.labels.get(id) ?? id);
+
+  return {
+    method,
+    original: input,
+    nfa: input === automaton ? undefined : automaton,
+    automaton: {
+      id: `afd-min-${Date.now()}`,
+      type: 'DFA',
+      states: minStates,
+      transitions: minTransitions,
+      alphabet: dfa.alphabet,
+      name: `AFD Mínimo de ${automaton.name || 'AFD'}`,
+    },
+    unreachableStates: dfa.unreachable,
+    deadStates,
+    partitions: toLabels(blocks.filter(block => block !== removedBlock), dfa)
+      .map(block => block.filter(label => label !== TRAP_LABEL))
+      .filter(block => block.length > 0),
+    stateMapping,
+    steps,
+  };
+}
+
+/**
+ * Algoritmo de llenado de tabla (Myhill–Nerode)
+ *
+ * En la ronda 0 se marcan los pares final / no final; en la ronda k, los pares
+ * que con algún símbolo van a un par marcado en una ronda anterior. Un par
+ * marcado en la ronda k tiene un sufijo distinguidor más corto de longitud k:
+ * el símbolo de la marca seguido del sufijo del par destino.
+ */
+export function buildDistinguishabilityTable(automaton: Automaton): DistinguishabilityTable {
+  const dfa = prepareDFA(automaton);
+  const n = dfa.states.length;
+  const indexOf = new Map(dfa.states.map((id, i) => [id, i]));
+  const pairKey = (i: number, j: number) => (i > j ? `${i},${j}` : `${j},${i}`);
+
+  type Mark = { round: number; symbol?: string; target?: [number, number]; suffix: string[] };
+  const marks = new Map<string, Mark>();
+
+  for (let i = 1; i < n; i++) {
+    for (let j = 0; j < i; j++) {
+      if (dfa.finals.has(dfa.states[i]) !== dfa.finals.has(dfa.states[j])) {
+        marks.set(pairKey(i, j), { round: 0, suffix: [] });
+      }
+    }
+  }
+
+  let rounds = 0;
+  for (let round = 1; ; round++) {
+    // Solo cuentan las marcas de rondas anteriores
+    const newMarks: Array<[string, Mark]> = [];
+    for (let i = 1; i < n; i++) {
+      for (let j = 0; j < i; j++) {
+        if (marks.has(pairKey(i, j))) continue;
+
+        for (const symbol of dfa.alphabet) {
+          const p = indexOf.get(dfa.delta.get(dfa.states[i])!.get(symbol)!)!;
+          const q = indexOf.get(dfa.delta.get(dfa.states[j])!.get(symbol)!)!;
+          const previous = p !== q ? marks.get(pairKey(p, q)) : undefined;
+          if (previous) {
+            newMarks.push([pairKey(i, j), { round, symbol, target: [p, q], suffix: [symbol, ...previous.suffix] }]);
+            break;
+          }
+        }
+      }
+    }
+
+    if (newMarks.length === 0) break;
+    newMarks.forEach(([key, mark]) => marks.set(key, mark));
+    rounds = round;
+  }
+
+  const label = (i: number) => dfa.labels.get(dfa.states[i]) ?? dfa.states[i];
+  const accepts = (i: number, suffix: string[]) => {
+    let state = dfa.states[i];
+    for (const symbol of suffix) state = dfa.delta.get(state)!.get(symbol)!;
+    return dfa.finals.has(state);
+  };
+
+  const cells: DistinguishabilityCell[][] = dfa.states.map((_, i) =>
+    Array.from({ length: i }, (_, j) => {
+      const mark = marks.get(pairKey(i, j));
+      if (!mark) {
+        return { pair: [label(i), label(j)], round: null, suffix: null };
+      }
+      return {
+        pair: [label(i), label(j)],
+        round: mark.round,
+        symbol: mark.symbol,
+        target: mark.target ? [label(mark.target[0]), label(mark.target[1])] : undefined,
+        suffix: mark.suffix,
+        acceptedBy: accepts(i, mark.suffix) ? label(i) : label(j),
+      };
+    })
+  );
+
+  // Clases de equivalencia: estados unidos por pares sin marcar
+  const classOf = dfa.states.map((_, i) => i);
+  for (let i = 1; i < n; i++) {
+    for (let j = 0; j < i; j++) {
+      if (!marks.has(pairKey(i, j)) && classOf[i] === i) classOf[i] = classOf[j];
+    }
+  }
+  const classes = new Map<number, string[]>();
+  classOf.forEach((representative, i) => {
+    classes.set(representative, [...(classes.get(representative) ?? []), label(i)]);
+  });
+
+  return {
+    states: dfa.states.map((_, i) => label(i)),
+    cells,
+    rounds,
+    classes: [...classes.values()],
+    unreachableStates: dfa.unreachable,
+    hasTrap: dfa.hasTrap,
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * Eliminación de transiciones ε (AFN-ε → AFN)
+ *
+ * Para cada estado p del AFN-ε:
+ * - Se calcula ε-cerradura(p)
+ * - Para cada símbolo a: δ'(p, a) = move(ε-cerradura(p), a)
+ * - p es final si su ε-cerradura contiene algún estado final
+ *
+ * Luego se descartan las transiciones ε y los estados que quedan inalcanzables
+ * desde el inicial (en Thompson, los que solo se alcanzaban con ε)
+ */
+
+import {
+  Automaton,
+  EpsilonElimination,
+  EpsilonEliminationStep,
+  Transition,
+} from '@/lib/types/automata';
+
+/**
+ * Calcula la cerradura-ε de un estado
+ */
+function epsilonClosure(state: string, automaton: Automaton): Set<string> {
+  const closure = new Set([state]);
+  const stack = [state];
+
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    for (const t of automaton.transitions) {
+      if (t.from === current && t.symbol === 'ε' && !closure.has(t.to)) {
+        closure.add(t.to);
+        stack.push(t.to);
+      }
+    }
+  }
+
+  return closure;
+}
+
+/**
+ * Ordena IDs de estados de forma natural (2 antes que 10)
+ */
+function sortStates(states: Iterable<string>): string[] {
+  return Array.from(states).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
+
+/**
+ * Elimina las transiciones ε de un autómata, con la traza de cada ε-cerradura
+ */
+export function removeEpsilonTransitions(automaton: Automaton): EpsilonElimination {
+  const initial = automaton.states.find(s => s.isInitial);
+  if (!initial) throw new Error('El autómata no tiene estado inicial');
+
+  const labelOf = (stateId: string) => automaton.states.find(s => s.id === stateId)?.label ?? stateId;
+  const finals = new Set(automaton.states.filter(s => s.isFinal).map(s => s.id));
+  const alphabet = automaton.alphabet.filter(symbol => symbol !== 'ε');
+  const original = new Set(
+    automaton.transitions
+      .filter(t => t.symbol !== 'ε')
+      .map(t => `${t.from}\u0000${t.to}\u0000${t.symbol}`)
+  );
+
+  const transitions: Transition[] = [];
+  const finalStates = new Set<string>();
+  const steps: Omit<EpsilonEliminationStep, 'unreachable'>[] = [];
+
+  // 1. ε-cerradura de cada estado y transiciones que genera
+  for (const state of automaton.states) {
+    const closure = epsilonClosure(state.id, automaton);
+    const stateTransitions: EpsilonEliminationStep['transitions'] = [];
+
+    for (const symbol of alphabet) {
+      const targets = new Set<string>();
+      for (const t of automaton.transitions) {
+        if (closure.has(t.from) && t.symbol === symbol) targets.add(t.to);
+      }
+      for (const target of sortStates(targets)) {
+        stateTransitions.push({ from: state.id, to: target, symbol });
+      }
+    }
+
+    const isFinal = [...closure].some(s => finals.has(s));
+    if (isFinal) finalStates.add(state.id);
+
+    const added = stateTransitions.filter(t => !original.has(`${t.from}\u0000${t.to}\u0000${t.symbol}`));
+    const becomesFinal = isFinal && !state.isFinal;
+    const closureText = `{${sortStates(closure).map(labelOf).join(', ')}}`;
+
+    steps.push({
+      state: state.id,
+      closure: sortStates(closure),
+      transitions: stateTransitions,
+      added,
+      removedEpsilon: automaton.transitions.filter(t => t.from === state.id && t.symbol === 'ε').length,
+      becomesFinal,
+      description: closure.size === 1
+        ? `ε-cerradura(${state.label}) = ${closureText}: conserva sus transiciones`
+        : `ε-cerradura(${state.label}) = ${closureText}: ${added.length > 0 ? `agrega ${added.length} transición(es)` : 'no agrega transiciones'}${becomesFinal ? ' y pasa a ser final' : ''}`,
+    });
+
+    transitions.push(...stateTransitions.map(t => ({ ...t, id: `${t.from}-${t.symbol}-${t.to}` })));
+  }
+
+  // 2. Estados alcanzables desde el inicial sin usar ε
+  const reachable = new Set([initial.id]);
+  const queue = [initial.id];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const t of transitions) {
+      if (t.from === current && !reachable.has(t.to)) {
+        reachable.add(t.to);
+        queue.push(t.to);
+      }
+    }
+  }
+
+  const removedStates = automaton.states.filter(s => !reachable.has(s.id)).map(s => s.id);
+
+  return {
+    automaton: {
+      id: `afn-${Date.now()}`,
+      type: 'NFA',
+      name: automaton.name ? `${automaton.name} (sin ε)` : undefined,
+      alphabet,
+      states: automaton.states
+        .filter(s => reachable.has(s.id))
+        .map(s => ({ id: s.id, label: s.label, isInitial: s.isInitial, isFinal: finalStates.has(s.id) })),
+      transitions: transitions.filter(t => reachable.has(t.from)),
+    },
+    steps: steps.map(step => ({ ...step, unreachable: !reachable.has(step.state) })),
+    removedEpsilon: automaton.transitions.filter(t => t.symbol === 'ε').length,
+    removedStates,
+  };
+}
@@ -0,0 +1,164 @@
+/**
+ * Equivalencia de lenguajes regulares
+ *
+ * Dos autómatas (o expresiones regulares) son equivalentes si reconocen el
+ * mismo lenguaje. Se construye un AFD para cada uno y se recorre en anchura
+ * el autómata producto desde el par de estados iniciales: si se alcanza un
+ * par en el que sólo uno de los dos estados es final, la cadena que llevó a
+ * ese par es la cadena distinguidora más corta.
+ *
+ * Las transiciones ausentes van a un estado trampa implícito (null), así que
+ * no hace falta que los AFD estén completos ni compartan alfabeto.
+ */
+
+import { Automaton, EquivalenceResult } from '@/lib/types/automata';
+import { automatonSymbols, determinize } from './afd-construction';
+import { erToAFD } from './er-to-af';
+import { getAlphabet } from './regex-parser';
+
+/**
+ * AFD parcial en forma de tabla
+ */
+interface DFATable {
+  initial: string;
+  finals: Set<string>;
+  delta: Map<string, Map<string, string>>;
+}
+
+/**
+ * Par de estados del autómata producto (null = estado trampa)
+ */
+interface ProductState {
+  first: string | null;
+  second: string | null;
+}
+
+/**
+ * Convierte un AFD en su tabla de transiciones
+ */
+function toTable(dfa: Automaton): DFATable {
+  const initial = dfa.states.find(s => s.isInitial);
+  if (!initial) {
+    throw new Error('El autómata debe tener un estado inicial');
+  }
+
+  const delta = new Map<string, Map<string, string>>();
+  for (const state of dfa.states) {
+    delta.set(state.id, new Map());
+  }
+  for (const t of dfa.transitions) {
+    delta.get(t.from)?.set(t.symbol, t.to);
+  }
+
+  return {
+    initial: initial.id,
+    finals: new Set(dfa.states.filter(s => s.isFinal).map(s => s.id)),
+    delta,
+  };
+}
+
+/**
+ * Recorre en anchura el autómata producto buscando un par que distinga
+ * los lenguajes. El orden BFS garantiza que el contraejemplo es el más corto.
+ */
+function exploreProduct(first: DFATable, second: DFATable, alphabet: string[]): EquivalenceResult {
+  const keyOf = (pair: ProductState) => JSON.stringify([pair.first, pair.second]);
+  const next = (table: DFATable, state: string | null, symbol: string) =>
+    state === null ? null : table.delta.get(state)?.get(symbol) ?? null;
+
+  const start: ProductState = { first: first.initial, second: second.initial };
+  const parent = new Map<string, { key: string; symbol: string } | null>([[keyOf(start), null]]);
+  const queue: ProductState[] = [start];
+
+  while (queue.length > 0) {
+    const pair = queue.shift()!;
+    const key = keyOf(pair);
+    const acceptsFirst = pair.first !== null && first.finals.has(pair.first);
+    const acceptsSecond = pair.second !== null && second.finals.has(pair.second);
+
+    if (acceptsFirst !== acceptsSecond) {
+      // Reconstruir la cadena desde el par inicial
+      const counterexample: string[] = [];
+      let current = parent.get(key);
+      while (current) {
+        counterexample.unshift(current.symbol);
+        current = parent.get(current.key);
+      }
+
+      return {
+        equivalent: false,
+        alphabet,
+        counterexample,
+        acceptedBy: acceptsFirst ? 'first' : 'second',
+        exploredPairs: parent.size,
+      };
+    }
+
+    for (const symbol of alphabet) {
+      const target: ProductState = {
+        first: next(first, pair.first, symbol),
+        second: next(second, pair.second, symbol),
+      };
+
+      // Desde (trampa, trampa) ninguno acepta nada más
+      if (target.first === null && target.second === null) continue;
+
+      const targetKey = keyOf(target);
+      if (!parent.has(targetKey)) {
+        parent.set(targetKey, { key, symbol });
+        queue.push(target);
+      }
+    }
+  }
+
+  return {
+    equivalent: true,
+    alphabet,
+    exploredPairs: parent.size,
+  };
+}
+
+/**
+ * Verifica si dos autómatas finitos (AFD, AFN o AFN-ε) reconocen el mismo lenguaje
+ */
+export function areAutomataEquivalent(first: Automaton, second: Automaton): EquivalenceResult {
+  const alphabet = Array.from(new Set([
+    ...automatonSymbols(first),
+    ...automatonSymbols(second),
+  ])).sort();
+
+  return exploreProduct(toTable(determinize(first)), toTable(determinize(second)), alphabet);
+}
+
+/**
+ * Verifica si dos expresiones regulares son equivalentes
+ * Las clases negadas de ambas se resuelven sobre el alfabeto común
+ */
+export function areRegexEquivalent(
+  regex1: string,
+  regex2: string,
+  alphabet?: string[]
+): EquivalenceResult {
+  const common = getAlphabet(regex2, getAlphabet(regex1, alphabet));
+
+  return areAutomataEquivalent(erToAFD(regex1, common), erToAFD(regex2, common));
+}
+
+/**
+ * Verifica si una expresión regular describe el lenguaje de un autómata
+ * (el primero del resultado es la expresión y el segundo el autómata)
+ */
+export function isRegexEquivalentToAutomaton(regex: string, automaton: Automaton): EquivalenceResult {
+  const dfa = erToAFD(regex, getAlphabet(regex, automatonSymbols(automaton)));
+
+  return areAutomataEquivalent(dfa, automaton);
+}
+
+/**
+ * Formatea una cadena distinguidora para mostrarla
+ * Los símbolos de varios caracteres se separan con espacios
+ */
+export function formatCounterexample(symbols: string[]): string {
+  if (symbols.length === 0) return 'ε';
+  return symbols.some(s => s.length > 1) ? symbols.join(' ') : symbols.join('');
+}
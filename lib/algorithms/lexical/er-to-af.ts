@@ -7,17 +7,18 @@
  * Casos base:
  * 1. Para ε: estado inicial --ε--> estado final
  * 2. Para símbolo 'a': estado inicial --a--> estado final
+ * 3. Para ∅: estado inicial y estado final sin transiciones
  * 
  * Casos inductivos:
- * 3. Para r|s: Unión de N(r) y N(s)
- * 4. Para rs: Concatenación de N(r) y N(s)
- * 5. Para r*: Clausura de Kleene de N(r)
- * 6. Para r+: Clausura positiva de N(r) = rr*
- * 7. Para r?: Opcional de N(r) = r|ε
+ * 4. Para r|s: Unión de N(r) y N(s)
+ * 5. Para rs: Concatenación de N(r) y N(s)
+ * 6. Para r*: Clausura de Kleene de N(r)
+ * 7. Para r+: Clausura positiva de N(r) = rr*
+ * 8. Para r?: Opcional de N(r) = r|ε
  */
 
-import { Automaton, State, Transition, SyntaxTree, TreeNode, TransitionTable, NFAFragment } from '@/lib/types/automata';
-import { buildSyntaxTree, calculateAnulable, calculatePrimeros, calculateUltimos, calculateSiguientes } from './regex-parser';
+import { Automaton, State, Transition, SyntaxTree, TreeNode, TransitionTable, NFAFragment, ThompsonStep } from '@/lib/types/automata';
+import { buildSyntaxTree, calculateAnulable, calculatePrimeros, calculateUltimos, calculateSiguientes, getAlphabet, treeToRegex } from './regex-parser';
 
 let stateCounter = 0;
 
@@ -94,6 +95,21 @@ function epsilonNFA(): NFAFragment {
   };
 }
 
+/**
+ * Construye AFN para ∅ (caso base): el estado final es inalcanzable
+ */
+function emptyNFA(): NFAFragment {
+  const start = createState(true, false);
+  const accept = createState(false, true);
+
+  return {
+    start,
+    accept,
+    states: [start, accept],
+    transitions: [],
+  };
+}
+
 /**
  * Construye AFN para un símbolo (caso base)
  */
@@ -244,46 +260,152 @@ function optionalNFA(nfa: NFAFragment): NFAFragment {
   return { start, accept, states, transitions };
 }
 
+/**
+ * Fragmento registrado durante la construcción (antes de renombrar estados)
+ */
+interface ThompsonDraft {
+  node: TreeNode;
+  states: { ref: State; rawId: string }[];
+  start: string;
+  accept: string;
+  transitions: { from: string; to: string; symbol: string }[];
+  children: number[];
+}
+
+/**
+ * Registro de la construcción de Thompson
+ */
+interface ThompsonTrace {
+  drafts: ThompsonDraft[];
+  merged: Map<string, string>; // Estado inicial de N(s) → estado final de N(r) con el que se fusionó
+}
+
+/**
+ * Nombre y explicación de cada regla de Thompson
+ */
+const thompsonRules: Record<TreeNode['type'], { rule: string; description: string }> = {
+  EPSILON: { rule: 'Caso base ε', description: 'Dos estados nuevos unidos por una transición ε' },
+  EMPTY: { rule: 'Caso base ∅', description: 'Dos estados nuevos sin transiciones: el final es inalcanzable' },
+  SYMBOL: { rule: 'Caso base símbolo', description: 'Dos estados nuevos unidos por una transición con el símbolo' },
+  UNION: {
+    rule: 'Unión',
+    description: 'Nuevo estado inicial con ε a N(r) y N(s); sus estados finales van con ε a un nuevo estado final',
+  },
+  CONCAT: {
+    rule: 'Concatenación',
+    description: 'El estado final de N(r) se fusiona con el estado inicial de N(s)',
+  },
+  STAR: {
+    rule: 'Cerradura de Kleene',
+    description: 'Nuevos estados inicial y final; ε para saltar N(r), y ε del final de N(r) a su inicial para repetir',
+  },
+  PLUS: {
+    rule: 'Cerradura positiva',
+    description: 'Como la cerradura de Kleene pero sin la transición ε que salta N(r)',
+  },
+  OPTIONAL: {
+    rule: 'Opcional',
+    description: 'Nuevos estados inicial y final con una transición ε que permite saltar N(r)',
+  },
+};
+
 /**
  * Construye AFN recursivamente desde un árbol sintáctico
+ * Si se indica una traza, registra el fragmento de cada nodo (postorden)
  */
-function buildNFAFromTree(node: TreeNode): NFAFragment {
-  if (node.type === 'EPSILON') {
-    return epsilonNFA();
-  }
+function buildNFAFromTree(node: TreeNode, trace?: ThompsonTrace): NFAFragment {
+  // Fragmentos de los hijos (y el paso en que se registró cada uno)
+  const children = node.children.map(child => {
+    const fragment = buildNFAFromTree(child, trace);
+    return { fragment, step: trace ? trace.drafts.length - 1 : -1 };
+  });
 
-  if (node.type === 'SYMBOL') {
-    return symbolNFA(node.value);
-  }
+  let fragment: NFAFragment;
 
-  if (node.type === 'UNION') {
-    const left = buildNFAFromTree(node.children[0]);
-    const right = buildNFAFromTree(node.children[1]);
-    return unionNFA(left, right);
+  if (node.type === 'EPSILON') {
+    fragment = epsilonNFA();
+  } else if (node.type === 'EMPTY') {
+    fragment = emptyNFA();
+  } else if (node.type === 'SYMBOL') {
+    fragment = symbolNFA(node.value);
+  } else if (node.type === 'UNION') {
+    fragment = unionNFA(children[0].fragment, children[1].fragment);
+  } else if (node.type === 'CONCAT') {
+    trace?.merged.set(children[1].fragment.start.id, children[0].fragment.accept.id);
+    fragment = concatNFA(children[0].fragment, children[1].fragment);
+  } else if (node.type === 'STAR') {
+    fragment = starNFA(children[0].fragment);
+  } else if (node.type === 'PLUS') {
+    fragment = plusNFA(children[0].fragment);
+  } else if (node.type === 'OPTIONAL') {
+    fragment = optionalNFA(children[0].fragment);
+  } else {
+    throw new Error(`Tipo de nodo no soportado: ${node.type}`);
   }
 
-  if (node.type === 'CONCAT') {
-    const left = buildNFAFromTree(node.children[0]);
-    const right = buildNFAFromTree(node.children[1]);
-    return concatNFA(left, right);
-  }
+  // Copia del fragmento tal como queda en este nodo (los estados se renombran al final)
+  trace?.drafts.push({
+    node,
+    states: fragment.states.map(ref => ({ ref, rawId: ref.id })),
+    start: fragment.start.id,
+    accept: fragment.accept.id,
+    transitions: fragment.transitions.map(t => ({ from: t.from, to: t.to, symbol: t.symbol })),
+    children: children.map(child => child.step),
+  });
 
-  if (node.type === 'STAR') {
-    const child = buildNFAFromTree(node.children[0]);
-    return starNFA(child);
-  }
+  return fragment;
+}
 
-  if (node.type === 'PLUS') {
-    const child = buildNFAFromTree(node.children[0]);
-    return plusNFA(child);
+/**
+ * Convierte los fragmentos registrados en pasos con los nombres finales de los estados.
+ * Los ids internos se conservan (son únicos) y la etiqueta es el nombre final;
+ * el estado inicial de N(s) fusionado en una concatenación toma el nombre de su pareja.
+ */
+function buildThompsonSteps(trace: ThompsonTrace): ThompsonStep[] {
+  const finalIds = new Map<string, string>();
+  for (const draft of trace.drafts) {
+    for (const { ref, rawId } of draft.states) {
+      if (ref.id !== rawId) finalIds.set(rawId, ref.id);
+    }
   }
 
-  if (node.type === 'OPTIONAL') {
-    const child = buildNFAFromTree(node.children[0]);
-    return optionalNFA(child);
-  }
+  const labelOf = (rawId: string): string => {
+    const finalId = finalIds.get(rawId);
+    if (finalId) return finalId;
+    const mergedWith = trace.merged.get(rawId);
+    return mergedWith ? labelOf(mergedWith) : rawId;
+  };
 
-  throw new Error(`Tipo de nodo no soportado: ${node.type}`);
+  return trace.drafts.map((draft, index) => {
+    const info = thompsonRules[draft.node.type];
+    const expression = treeToRegex(draft.node);
+
+    return {
+      stepNumber: index + 1,
+      nodeId: draft.node.id,
+      nodeType: draft.node.type,
+      expression,
+      rule: info.rule,
+      description: info.description,
+      children: draft.children,
+      fragment: {
+        id: `thompson-${index}`,
+        type: 'EPSILON_NFA',
+        states: draft.states.map(({ rawId }) => ({
+          id: rawId,
+          label: labelOf(rawId),
+          isInitial: rawId === draft.start,
+          isFinal: rawId === draft.accept,
+        })),
+        transitions: draft.transitions.map(t => ({
+          id: `${t.from}-${t.symbol}-${t.to}`,
+          ...t,
+        })),
+        alphabet: [],
+        name: `N(${expression})`,
+      },
+    };
+  });
 }
 
 /**
@@ -313,15 +435,17 @@ function reenumerateStates(nfa: NFAFragment): NFAFragment {
 
 /**
  * Convierte una expresión regular a un AFN usando el Método de Thompson
+ * @param alphabet Alfabeto declarado (opcional), usado para resolver clases negadas
  */
-export function erToAFN(regex: string): Automaton {
+export function erToAFN(regex: string, alphabet?: string[]): Automaton {
   resetStateCounter();
   
   // 1. Construir árbol sintáctico
-  const syntaxTree = buildSyntaxTree(regex);
+  const syntaxTree = buildSyntaxTree(regex, alphabet);
 
-  // 2. Construir AFN desde el árbol
-  const nfaFragment = buildNFAFromTree(syntaxTree.root);
+  // 2. Construir AFN desde el árbol, registrando el fragmento de cada nodo
+  const trace: ThompsonTrace = { drafts: [], merged: new Map() };
+  const nfaFragment = buildNFAFromTree(syntaxTree.root, trace);
 
   // 3. Renombrar estados y transiciones para mejor claridad
   const renamedNfaFragment = reenumerateStates(nfaFragment);
@@ -334,19 +458,25 @@ export function erToAFN(regex: string): Automaton {
     transitions: renamedNfaFragment.transitions,
     alphabet: syntaxTree.alphabet,
     name: `AFN de ${regex}`,
+    thompson: {
+      tree: syntaxTree,
+      steps: buildThompsonSteps(trace),
+    },
   };
 }
 
 /**
  * Construye un AFD a partir de una expresión regular usando el método directo
  * (basado en las funciones anulable, primeros, últimos, siguientes)
+ * @param alphabet Alfabeto declarado (opcional), usado para resolver clases negadas
  */
-export function erToAFD(regex: string): Automaton {
+export function erToAFD(regex: string, alphabet?: string[]): Automaton {
   resetStateCounter();
 
   // 1. Construir árbol sintáctico aumentado (agregar # al final)
+  // Las clases negadas se resuelven sobre el alfabeto de la expresión original (sin #)
   const augmentedRegex = `(${regex})#`;
-  const syntaxTree = buildSyntaxTree(augmentedRegex);
+  const syntaxTree = buildSyntaxTree(augmentedRegex, getAlphabet(regex, alphabet));
 
   // 2. Obtener funciones del árbol
   const anulable = calculateAnulable(syntaxTree.root);
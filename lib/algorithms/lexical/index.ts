@@ -20,10 +20,65 @@ export {
   getAutomatonStats,
 } from './afd-construction';
 
+// Eliminación de transiciones ε (AFN-ε → AFN)
+export {
+  removeEpsilonTransitions,
+} from './epsilon-elimination';
+
+// Construcción de AFD por derivadas de Brzozowski
+export {
+  derivativesToAFD,
+  buildAFDBrzozowski,
+  compareDFAConstructions,
+  dfaConstructionLabels,
+} from './brzozowski';
+
+// Minimización de AFD
+export {
+  minimizeDFA,
+  buildDistinguishabilityTable,
+} from './dfa-minimization';
+
+// Equivalencia de lenguajes
+export {
+  areAutomataEquivalent,
+  areRegexEquivalent,
+  isRegexEquivalentToAutomaton,
+  formatCounterexample,
+} from './equivalence';
+
+// Operaciones sobre autómatas
+export {
+  unionAutomata,
+  intersectAutomata,
+  differenceAutomata,
+  complementAutomaton,
+  reverseAutomaton,
+  concatenateAutomata,
+  starAutomaton,
+  applyAutomatonOperation,
+  isBinaryOperation,
+  automatonOperationLabels,
+} from './automata-operations';
+
+// Analizador léxico con varios tokens (lexema más largo y prioridades)
+export {
+  buildLexer,
+  runLexer,
+} from './lexer-builder';
+
+// Generación de código de escáneres
+export {
+  generateScanner,
+  scannerLanguageLabels,
+  scannerStyleLabels,
+} from './scanner-generator';
+
 // Parser de expresiones regulares
 export { 
   validateRegex,
   getAlphabet,
+  formatRegexSymbol,
   tokenizeRegex,
   buildSyntaxTree,
   calculateAnulable,
@@ -32,15 +87,71 @@ export {
   calculateSiguientes,
   assignPositions,
   treeToString,
+  treeToRegex,
 } from './regex-parser';
 
 // Reconocimiento de cadenas
 export { 
   recognizeStringDFA,
+  recognizeSymbolsDFA,
   recognizeStringNFA,
+  buildComputationTree,
+  locateInputSymbols,
+  splitInputSymbols,
 } from './string-recognition';
 
+// Pruebas por lote de cadenas (baterías con resultado esperado)
+export {
+  parseTestSuite,
+  runTestSuite,
+} from './batch-testing';
+
+// Análisis del lenguaje (enumeración, cadenas más cortas y finitud)
+export {
+  analyzeLanguage,
+} from './language-analysis';
+
+// Análisis de problemas del autómata (lint) y correcciones automáticas
+export {
+  lintAutomaton,
+  applyQuickFix,
+  automatonQuickFixLabels,
+} from './automaton-lint';
+
+// Importación y exportación (JSON versionado, JFLAP, Graphviz DOT)
+export {
+  importAutomaton,
+  exportAutomaton,
+  parseJFLAP,
+  parseAutomatonJSON,
+  automatonToDocument,
+  automatonFromDocument,
+  automatonFormatLabels,
+  automatonFileTypes,
+  AUTOMATON_FORMAT_VERSION,
+} from './automaton-formats';
+
+// Gramáticas regulares ↔ autómatas finitos
+export {
+  checkRegularGrammar,
+  grammarToAutomaton,
+  automatonToGrammar,
+  regularGrammarKindLabels,
+} from './regular-grammar';
+
+// Simplificación de expresiones regulares
+export {
+  simplifyRegexAST,
+  simplificationRuleLabels,
+} from './regex-simplifier';
+
 // Conversión AF → ER
 export { 
   afToER,
+  afToERByStateElimination,
+  afToERBothMethods,
+  compareEliminationOrders,
+  afToERByKleene,
+  measureRegex,
+  eliminationHeuristicLabels,
 } from './af-to-er';
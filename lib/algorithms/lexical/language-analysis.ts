@@ -0,0 +1,187 @@
+/**
+ * Análisis del lenguaje reconocido por un autómata
+ *
+ * Sobre el AFD equivalente se obtiene:
+ * - Las cadenas aceptadas en orden longitud-lexicográfico, recorriendo en
+ *   anchura por niveles y expandiendo solo estados útiles (alcanzables y
+ *   co-alcanzables), así nunca se generan prefijos que no llevan a un final.
+ * - La cadena aceptada y la rechazada más cortas (BFS con los símbolos en
+ *   orden; una transición ausente lleva al estado trampa implícito).
+ * - Si el lenguaje es vacío, finito o infinito: es infinito si y solo si hay
+ *   un ciclo entre estados útiles.
+ * - Cuántas cadenas de cada longitud n se aceptan, por programación dinámica
+ *   sobre los estados (sin enumerarlas).
+ */
+
+import { Automaton, LanguageAnalysis } from '@/lib/types/automata';
+import { automatonSymbols, determinize } from './afd-construction';
+
+/**
+ * Máximo de prefijos por nivel en la enumeración antes de cortarla
+ */
+const MAX_FRONTIER = 5000;
+
+/**
+ * Opciones del análisis de lenguaje
+ */
+export interface LanguageAnalysisOptions {
+  maxLength?: number; // Longitud máxima para el conteo y la enumeración (por defecto 8)
+  maxStrings?: number; // Máximo de cadenas a enumerar (por defecto 50)
+}
+
+/**
+ * Analiza el lenguaje reconocido por un autómata (AFD o AFN)
+ */
+export function analyzeLanguage(
+  automaton: Automaton,
+  options: LanguageAnalysisOptions = {}
+): LanguageAnalysis {
+  const maxLength = options.maxLength ?? 8;
+  const maxStrings = options.maxStrings ?? 50;
+
+  const alphabet = automatonSymbols(automaton)
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  const dfa = determinize(automaton);
+
+  const initial = dfa.states.find(s => s.isInitial);
+  if (!initial) {
+    throw new Error('El autómata debe tener un estado inicial');
+  }
+
+  const finals = new Set(dfa.states.filter(s => s.isFinal).map(s => s.id));
+  const delta = new Map<string, Map<string, string>>();
+  const reverse = new Map<string, string[]>();
+  for (const state of dfa.states) {
+    delta.set(state.id, new Map());
+    reverse.set(state.id, []);
+  }
+  for (const t of dfa.transitions) {
+    delta.get(t.from)?.set(t.symbol, t.to);
+    reverse.get(t.to)?.push(t.from);
+  }
+  const next = (state: string, symbol: string) => delta.get(state)?.get(symbol) ?? null;
+
+  // BFS con el estado trampa (null): los estados se descubren en orden
+  // longitud-lexicográfico de la cadena que los alcanza
+  const parent = new Map<string | null, { state: string | null; symbol: string } | null>([[initial.id, null]]);
+  const order: Array<string | null> = [initial.id];
+  for (let i = 0; i < order.length; i++) {
+    const state = order[i];
+    for (const symbol of alphabet) {
+      const target = state === null ? null : next(state, symbol);
+      if (!parent.has(target)) {
+        parent.set(target, { state, symbol });
+        order.push(target);
+      }
+    }
+  }
+
+  const pathTo = (state: string | null): string[] => {
+    const symbols: string[] = [];
+    for (let step = parent.get(state); step; step = parent.get(step.state)) {
+      symbols.unshift(step.symbol);
+    }
+    return symbols;
+  };
+
+  const firstAccepting = order.find(state => state !== null && finals.has(state));
+  const firstRejecting = order.find(state => state === null || !finals.has(state));
+  const shortestAccepted = firstAccepting === undefined ? null : pathTo(firstAccepting);
+  const shortestRejected = firstRejecting === undefined ? null : pathTo(firstRejecting);
+
+  // Estados útiles: alcanzables desde el inicial y desde los que se llega a un final
+  const reachable = new Set(order.filter((state): state is string => state !== null));
+  const coReachable = new Set([...finals].filter(state => reachable.has(state)));
+  const pending = [...coReachable];
+  while (pending.length > 0) {
+    const state = pending.pop()!;
+    for (const source of reverse.get(state) ?? []) {
+      if (reachable.has(source) && !coReachable.has(source)) {
+        coReachable.add(source);
+        pending.push(source);
+      }
+    }
+  }
+  const useful = coReachable;
+  const usefulTargets = (state: string) =>
+    alphabet
+      .map(symbol => ({ symbol, target: next(state, symbol) }))
+      .filter((edge): edge is { symbol: string; target: string } => edge.target !== null && useful.has(edge.target));
+
+  // Ciclo entre estados útiles (DFS con colores) ⇒ lenguaje infinito
+  const color = new Map<string, 'visiting' | 'done'>();
+  const hasCycle = (state: string): boolean => {
+    color.set(state, 'visiting');
+    for (const { target } of usefulTargets(state)) {
+      const mark = color.get(target);
+      if (mark === 'visiting' || (mark === undefined && hasCycle(target))) return true;
+    }
+    color.set(state, 'done');
+    return false;
+  };
+
+  const kind: LanguageAnalysis['kind'] = !useful.has(initial.id)
+    ? 'empty'
+    : hasCycle(initial.id) ? 'infinite' : 'finite';
+
+  // Conteo por longitud: paths[q] = cadenas de longitud n que llevan de q0 a q.
+  // Si el lenguaje es finito se sigue hasta agotar los caminos para obtener su tamaño.
+  const countsByLength: number[] = [];
+  let size: number | undefined;
+  let longestLength: number | undefined;
+  if (kind !== 'empty') {
+    let paths = new Map<string, number>([[initial.id, 1]]);
+    let total = 0;
+    for (let n = 0; paths.size > 0 && (n <= maxLength || kind === 'finite'); n++) {
+      let accepted = 0;
+      for (const [state, count] of paths) {
+        if (finals.has(state)) accepted += count;
+      }
+      if (n <= maxLength) countsByLength.push(accepted);
+      if (accepted > 0) longestLength = n;
+      total += accepted;
+
+      const following = new Map<string, number>();
+      for (const [state, count] of paths) {
+        for (const { target } of usefulTargets(state)) {
+          following.set(target, (following.get(target) ?? 0) + count);
+        }
+      }
+      paths = following;
+    }
+    if (kind === 'finite') size = total;
+    else longestLength = undefined;
+  }
+  while (countsByLength.length <= maxLength) countsByLength.push(0);
+
+  // Enumeración por niveles: cada nivel conserva el orden lexicográfico
+  const strings: string[][] = [];
+  let frontier: Array<{ state: string; symbols: string[] }> =
+    kind === 'empty' ? [] : [{ state: initial.id, symbols: [] }];
+  for (let n = 0; n <= maxLength && frontier.length > 0 && strings.length < maxStrings; n++) {
+    for (const { state, symbols } of frontier) {
+      if (finals.has(state) && strings.length < maxStrings) strings.push(symbols);
+    }
+
+    const following: typeof frontier = [];
+    for (const { state, symbols } of frontier) {
+      for (const { symbol, target } of usefulTargets(state)) {
+        following.push({ state: target, symbols: [...symbols, symbol] });
+      }
+    }
+    if (following.length > MAX_FRONTIER) break;
+    frontier = following;
+  }
+
+  return {
+    alphabet,
+    kind,
+    size,
+    longestLength,
+    shortestAccepted,
+    shortestRejected,
+    countsByLength,
+    strings,
+    truncated: kind === 'infinite' || strings.length < (size ?? 0),
+  };
+}
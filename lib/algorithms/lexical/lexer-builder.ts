@@ -0,0 +1,255 @@
+/**
+ * Generador de analizadores léxicos (estilo lex)
+ *
+ * A partir de una lista de tokens definidos por expresiones regulares:
+ * 1. Construye un AFN de Thompson por token y los une con un estado inicial
+ *    nuevo y transiciones ε; cada estado final queda etiquetado con su token.
+ * 2. Determiniza con el método de subconjuntos: un estado del AFD acepta los
+ *    tokens cuyos estados finales contiene y gana el de mayor prioridad
+ *    (a igual prioridad, el definido primero).
+ * 3. Tokeniza la entrada con la regla del lexema más largo: desde cada posición
+ *    se simula el AFD hasta que no hay transición y se retrocede al último
+ *    estado de aceptación visitado.
+ */
+
+import { Automaton, State, Transition } from '@/lib/types/automata';
+import { CompiledLexer, LexerRunResult, LexerScanStep, LexerTokenDefinition, Token } from '@/lib/types/token';
+import { erToAFN } from './er-to-af';
+import { afnToAfd } from './afd-construction';
+import { getAlphabet, validateRegex } from './regex-parser';
+import { locateInputSymbols, recognizeSymbolsDFA } from './string-recognition';
+
+const LEXER_INITIAL = '__lexer_initial__';
+
+/**
+ * Ordena los tokens por prioridad (mayor primero) y, a igual prioridad, por orden de definición
+ */
+function sortByPriority(names: string[], definitions: LexerTokenDefinition[]): string[] {
+  const order = new Map(definitions.map((d, index) => [d.name, index]));
+  const priority = new Map(definitions.map(d => [d.name, d.priority]));
+
+  return [...names].sort((a, b) =>
+    (priority.get(b)! - priority.get(a)!) || (order.get(a)! - order.get(b)!)
+  );
+}
+
+/**
+ * Verifica que las definiciones de tokens sean utilizables
+ */
+function validateDefinitions(definitions: LexerTokenDefinition[]): void {
+  if (definitions.length === 0) {
+    throw new Error('Defina al menos un token');
+  }
+
+  const names = new Set<string>();
+  for (const definition of definitions) {
+    const name = definition.name.trim();
+    if (!name) {
+      throw new Error('Todos los tokens deben tener nombre');
+    }
+    if (names.has(name)) {
+      throw new Error(`El token ${name} está definido más de una vez`);
+    }
+    names.add(name);
+
+    if (!definition.regex.trim()) {
+      throw new Error(`El token ${name} no tiene expresión regular`);
+    }
+    const validation = validateRegex(definition.regex);
+    if (!validation.isValid) {
+      throw new Error(`Token ${name}: ${validation.errors.join(', ')}`);
+    }
+  }
+}
+
+/**
+ * Construye un analizador léxico a partir de las definiciones de tokens
+ */
+export function buildLexer(definitions: LexerTokenDefinition[]): CompiledLexer {
+  const tokens = definitions.map(d => ({ ...d, name: d.name.trim() }));
+  validateDefinitions(tokens);
+
+  // Alfabeto común: las clases negadas de cada expresión se resuelven sobre él
+  const alphabet = tokens.reduce<string[]>((acc, d) => getAlphabet(d.regex, acc), []);
+
+  const states: State[] = [{ id: LEXER_INITIAL, label: 'i', isInitial: true, isFinal: false }];
+  const transitions: Transition[] = [];
+  const finalStateTokens: Record<string, string> = {};
+
+  tokens.forEach((definition, index) => {
+    const afn = erToAFN(definition.regex, alphabet);
+    const rename = (id: string) => `${definition.name}:${id}`;
+    const initial = afn.states.find(s => s.isInitial)!;
+
+    for (const state of afn.states) {
+      const id = rename(state.id);
+      states.push({ id, label: `${state.label}·${index + 1}`, isInitial: false, isFinal: state.isFinal });
+      if (state.isFinal) finalStateTokens[id] = definition.name;
+    }
+
+    transitions.push({
+      id: `${LEXER_INITIAL}-ε-${rename(initial.id)}`,
+      from: LEXER_INITIAL,
+      to: rename(initial.id),
+      symbol: 'ε',
+    });
+    for (const t of afn.transitions) {
+      transitions.push({ ...t, id: `${rename(t.from)}-${t.symbol}-${rename(t.to)}`, from: rename(t.from), to: rename(t.to) });
+    }
+  });
+
+  const nfa: Automaton = {
+    id: `lexer-afn-${Date.now()}`,
+    type: 'EPSILON_NFA',
+    states,
+    transitions,
+    alphabet,
+    name: `AFN de ${tokens.map(d => d.name).join(' | ')}`,
+  };
+
+  const dfa = afnToAfd(nfa);
+
+  // Tokens aceptados por cada estado del AFD según los estados del AFN que contiene
+  const acceptingTokens: Record<string, string> = {};
+  const candidateTokens: Record<string, string[]> = {};
+
+  for (const subset of dfa.subsetStates ?? []) {
+    const accepted = Array.from(new Set(
+      Array.from(subset.constituentStates)
+        .map(id => finalStateTokens[id])
+        .filter((name): name is string => !!name)
+    ));
+
+    if (accepted.length > 0) {
+      const sorted = sortByPriority(accepted, tokens);
+      candidateTokens[subset.id] = sorted;
+      acceptingTokens[subset.id] = sorted[0];
+    }
+  }
+
+  return {
+    definitions: tokens,
+    nfa,
+    dfa: { ...dfa, name: 'AFD del analizador léxico' },
+    alphabet,
+    acceptingTokens,
+    candidateTokens,
+    finalStateTokens,
+  };
+}
+
+/**
+ * Tokeniza una entrada con la regla del lexema más largo y desempate por prioridad.
+ * Los espacios que no forman parte de ningún token se saltan; cualquier otro
+ * símbolo no reconocido se reporta como error y se descarta.
+ */
+export function runLexer(lexer: CompiledLexer, input: string): LexerRunResult {
+  const located = locateInputSymbols(input, lexer.alphabet);
+  const symbols = located.map(s => s.symbol);
+  const ignored = new Set(lexer.definitions.filter(d => d.ignore).map(d => d.name));
+
+  const tokens: Token[] = [];
+  const steps: LexerScanStep[] = [];
+  const errors: string[] = [];
+
+  let position = 0;
+  let offset = 0;
+  let line = 1;
+  let column = 1;
+
+  // Avanza la línea y la columna hasta una posición de la entrada original,
+  // contando también los espacios que se saltaron al dividir en símbolos
+  const advanceTo = (target: number) => {
+    for (const char of input.slice(offset, target)) {
+      if (char === '\n') {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+    }
+    offset = target;
+  };
+
+  while (position < symbols.length) {
+    advanceTo(located[position].start);
+
+    const recognition = recognizeSymbolsDFA(lexer.dfa, symbols.slice(position));
+    const path = recognition.steps.map(s => s.nextState);
+    const pathTokens = path.map(state => lexer.acceptingTokens[state] ?? null);
+
+    // Último estado de aceptación del recorrido (el paso 0 es el inicial: sin lexema vacío)
+    let length = 0;
+    for (let i = path.length - 1; i > 0; i--) {
+      if (pathTokens[i]) {
+        length = i;
+        break;
+      }
+    }
+
+    const stopReason = recognition.steps.length - 1 === symbols.length - position
+      ? 'Fin de la entrada'
+      : recognition.message.replace(/^(Rechazada|Error): /, '');
+
+    const base = {
+      stepNumber: steps.length + 1,
+      position,
+      line,
+      column,
+      path,
+      pathTokens,
+      acceptIndex: length > 0 ? length : -1,
+      stopReason,
+      recognition,
+    };
+
+    if (length > 0) {
+      const end = located[position + length - 1].end;
+      const lexeme = input.slice(located[position].start, end);
+      const state = path[length];
+      const token = lexer.acceptingTokens[state];
+      const candidates = lexer.candidateTokens[state] ?? [token];
+      const isIgnored = ignored.has(token);
+      const tie = candidates.length > 1 ? ` (gana por prioridad sobre ${candidates.slice(1).join(', ')})` : '';
+
+      steps.push({
+        ...base,
+        lexeme,
+        token,
+        candidates,
+        action: isIgnored ? 'ignored' : 'token',
+        description: `Lexema más largo "${lexeme}" en el estado ${state}: ${token}${tie}${isIgnored ? ', se ignora' : ''}`,
+      });
+
+      if (!isIgnored) {
+        tokens.push({ type: token, lexeme, line, column });
+      }
+
+      advanceTo(end);
+      position += length;
+      continue;
+    }
+
+    // Ningún token reconoce un prefijo: se descarta un símbolo
+    const symbol = symbols[position];
+    const isSpace = /^\s+$/.test(symbol);
+    if (!isSpace) {
+      errors.push(`Símbolo '${symbol}' no reconocido (línea ${line}, columna ${column})`);
+    }
+
+    steps.push({
+      ...base,
+      lexeme: symbol,
+      candidates: [],
+      action: isSpace ? 'skipped' : 'error',
+      description: isSpace
+        ? 'Espacio en blanco fuera de cualquier token: se salta'
+        : `Ningún token reconoce un prefijo desde '${symbol}': error léxico, se descarta el símbolo`,
+    });
+
+    advanceTo(located[position].end);
+    position++;
+  }
+
+  return { tokens, steps, errors };
+}
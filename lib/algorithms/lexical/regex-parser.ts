@@ -2,7 +2,9 @@
  * Parser de Expresiones Regulares
  * 
  * Implementa las funciones necesarias para analizar y procesar expresiones regulares:
- * - Tokenización
+ * - Tokenización (clases [a-z], clases negadas [^a], escapes \*, \n, \t,
+ *   símbolos de varios caracteres {id} o 'id', los literales ε (o \e) y ∅,
+ *   y la repetición acotada {n}, {n,}, {n,m})
  * - Validación de sintaxis
  * - Construcción de árbol sintáctico
  * - Cálculo de funciones: anulable, primeros, últimos, siguientes
@@ -14,15 +16,18 @@ import { TreeNode, RegexValidationResult, SyntaxTree } from '@/lib/types/automat
 /**
  * Tipo de nodo en el árbol sintáctico
  */
-export type NodeType =  'SYMBOL' | 'CONCAT' | 'UNION' | 'STAR' | 'PLUS' | 'OPTIONAL' | 'EPSILON';
+export type NodeType =  'SYMBOL' | 'CONCAT' | 'UNION' | 'STAR' | 'PLUS' | 'OPTIONAL' | 'EPSILON' | 'EMPTY';
 
 /**
  * Token de expresión regular
  */
 interface RegexToken {
-  type: 'SYMBOL' | 'OPERATOR' | 'LPAREN' | 'RPAREN';
+  type: 'SYMBOL' | 'CLASS' | 'EPSILON' | 'EMPTY' | 'OPERATOR' | 'LPAREN' | 'RPAREN';
   value: string;
   position: number;
+  symbols?: string[]; // Símbolos que representa una clase [...] (ya resuelta)
+  min?: number; // Mínimo de repeticiones de un cuantificador {n,m}
+  max?: number | null; // Máximo de repeticiones de un cuantificador {n,m} (null = sin límite)
 }
 
 /**
@@ -34,12 +39,228 @@ const OPERATORS: { [key: string]: { precedence: number; associativity: string }
   '*': { precedence: 3, associativity: 'left' },  // Clausura de Kleene
   '+': { precedence: 3, associativity: 'left' },  // Clausura positiva
   '?': { precedence: 3, associativity: 'left' },  // Opcional
+  '{}': { precedence: 3, associativity: 'left' }, // Repetición acotada {n,m}
 };
 
+/**
+ * Límite de repeticiones de un cuantificador {n,m}, para que la expansión
+ * del árbol sintáctico se mantenga manejable
+ */
+const MAX_REPETITIONS = 50;
+
+/**
+ * Cuantificador de repetición acotada: {n}, {n,} o {n,m}
+ */
+const QUANTIFIER_PATTERN = /^\{\s*(\d+)\s*(,\s*(\d*)\s*)?\}$/;
+
+/**
+ * Indica si un token es el cuantificador de repetición {n,m}
+ */
+function isRepetition(token: RegexToken): boolean {
+  return token.type === 'OPERATOR' && token.min !== undefined;
+}
+
+/**
+ * Indica si un token es un operador unario posfijo (*, +, ?, {n,m})
+ */
+function isUnaryOperator(token: RegexToken): boolean {
+  return token.type === 'OPERATOR' && (['*', '+', '?'].includes(token.value) || isRepetition(token));
+}
+
+/**
+ * Precedencia de un operador
+ */
+function precedenceOf(token: RegexToken): number {
+  return OPERATORS[isRepetition(token) ? '{}' : token.value].precedence;
+}
+
+/**
+ * Literales de cadena vacía y lenguaje vacío.
+ * \e es el alias ASCII de ε.
+ */
+const EPSILON_LITERAL = 'ε';
+const EMPTY_SET_LITERAL = '∅';
+const EPSILON_ASCII_ALIAS = 'e';
+
+/**
+ * Secuencias de escape con significado especial (\n, \t).
+ * Cualquier otro carácter escapado se toma literalmente: \* \| \( \[ \\ ...
+ */
+const ESCAPE_SEQUENCES: { [key: string]: string } = {
+  n: '\n',
+  t: '\t',
+};
+
+/**
+ * Lee una secuencia de escape que comienza en regex[index] === '\\'
+ */
+function readEscape(regex: string, index: number): string {
+  const next = regex[index + 1];
+  if (next === undefined) {
+    throw new Error(`Escape incompleto en posición ${index}`);
+  }
+  return ESCAPE_SEQUENCES[next] ?? next;
+}
+
+/**
+ * Lee una clase de caracteres [...] que comienza en regex[start] === '['
+ * Soporta rangos (a-z, 0-9), escapes (\], \-) y negación ([^...])
+ */
+function readCharacterClass(
+  regex: string,
+  start: number
+): { members: string[]; negated: boolean; end: number } {
+  const members = new Set<string>();
+  let i = start + 1;
+  let negated = false;
+
+  if (regex[i] === '^') {
+    negated = true;
+    i++;
+  }
+
+  // Lee un carácter de la clase (posiblemente escapado)
+  const readChar = (): string => {
+    if (regex[i] === '\\') {
+      const symbol = readEscape(regex, i);
+      i += 2;
+      return symbol;
+    }
+    return regex[i++];
+  };
+
+  while (i < regex.length && regex[i] !== ']') {
+    if (regex[i] === ' ') {
+      i++;
+      continue;
+    }
+
+    const rangeStartPos = i;
+    const from = readChar();
+
+    // Rango a-b (un '-' al final de la clase se toma literalmente)
+    if (regex[i] === '-' && i + 1 < regex.length && regex[i + 1] !== ']') {
+      i++;
+      const to = readChar();
+      const fromCode = from.codePointAt(0)!;
+      const toCode = to.codePointAt(0)!;
+
+      if (fromCode > toCode) {
+        throw new Error(`Rango inválido ${from}-${to} en posición ${rangeStartPos}`);
+      }
+
+      for (let code = fromCode; code <= toCode; code++) {
+        members.add(String.fromCodePoint(code));
+      }
+    } else {
+      members.add(from);
+    }
+  }
+
+  if (i >= regex.length) {
+    throw new Error(`Clase de caracteres sin cerrar en posición ${start}`);
+  }
+
+  if (members.size === 0) {
+    throw new Error(`Clase de caracteres vacía en posición ${start}`);
+  }
+
+  return { members: Array.from(members), negated, end: i };
+}
+
+/**
+ * Lee un símbolo de varios caracteres delimitado por {...} o '...'
+ * que comienza en regex[start]. Retorna el nombre del símbolo y la posición
+ * del delimitador de cierre.
+ */
+function readNamedSymbol(regex: string, start: number): { name: string; end: number } {
+  const closing = regex[start] === '{' ? '}' : "'";
+  const end = regex.indexOf(closing, start + 1);
+
+  if (end === -1) {
+    throw new Error(`Símbolo ${regex[start]}... sin cerrar en posición ${start}`);
+  }
+
+  const name = regex.slice(start + 1, end).trim();
+  if (name === '') {
+    throw new Error(`Símbolo vacío en posición ${start}`);
+  }
+
+  return { name, end };
+}
+
+/**
+ * Lee un cuantificador {n}, {n,} o {n,m} que comienza en regex[start]
+ */
+function readQuantifier(regex: string, start: number): RegexToken {
+  const end = regex.indexOf('}', start);
+  const text = regex.slice(start, end + 1);
+  const match = QUANTIFIER_PATTERN.exec(text)!;
+
+  const min = parseInt(match[1], 10);
+  const max = match[2] === undefined ? min : match[3] === '' ? null : parseInt(match[3], 10);
+
+  if (max !== null && max < min) {
+    throw new Error(`Cuantificador inválido ${text} en posición ${start}: el máximo es menor que el mínimo`);
+  }
+
+  if (Math.max(min, max ?? 0) > MAX_REPETITIONS) {
+    throw new Error(`Cuantificador ${text} en posición ${start} excede el máximo de ${MAX_REPETITIONS} repeticiones`);
+  }
+
+  return { type: 'OPERATOR', value: text.replace(/\s/g, ''), position: start, min, max };
+}
+
+/**
+ * Caracteres que deben escaparse para usarse como símbolo literal
+ */
+const SPECIAL_CHARACTERS = '|*+?.()[]{}\\\' ';
+
+/**
+ * Escribe un símbolo del alfabeto en notación de expresión regular, de forma
+ * que pueda volver a leerse con tokenizeRegex:
+ * - Símbolos de varios caracteres: {id}
+ * - Caracteres especiales: \*, \(, \n, ...
+ */
+export function formatRegexSymbol(symbol: string): string {
+  if (symbol === 'ε' || symbol === '∅') return symbol;
+  if (Array.from(symbol).length > 1) {
+    // Un nombre numérico entre llaves se leería como cuantificador
+    return QUANTIFIER_PATTERN.test(`{${symbol}}`) ? `'${symbol}'` : `{${symbol}}`;
+  }
+  if (symbol === '\n') return '\\n';
+  if (symbol === '\t') return '\\t';
+  if (SPECIAL_CHARACTERS.includes(symbol)) return `\\${symbol}`;
+  return symbol;
+}
+
+/**
+ * Indica si un token es un operando (símbolo, clase, ε o ∅)
+ */
+function isOperand(token: RegexToken): boolean {
+  return (
+    token.type === 'SYMBOL' ||
+    token.type === 'CLASS' ||
+    token.type === 'EPSILON' ||
+    token.type === 'EMPTY'
+  );
+}
+
+/**
+ * Firma de la expresión a nivel de tokens: cada operando (símbolo, clase, ε o ∅)
+ * se reemplaza por 'a', de modo que los escapes no confundan las validaciones.
+ */
+function tokenSignature(tokens: RegexToken[]): string {
+  return tokens
+    .map(t => (isOperand(t) ? 'a' : isRepetition(t) ? '~' : t.value))
+    .join('');
+}
+
 /**
  * Valida la sintaxis de una expresión regular
+ * @param alphabet Alfabeto declarado (opcional), usado para resolver clases negadas
  */
-export function validateRegex(regex: string): RegexValidationResult {
+export function validateRegex(regex: string, alphabet?: string[]): RegexValidationResult {
   const errors: string[] = [];
   let parenCount = 0;
 
@@ -49,12 +270,21 @@ export function validateRegex(regex: string): RegexValidationResult {
     return { isValid: false, errors };
   }
 
+  // Tokenizar (detecta clases mal formadas, rangos inválidos y escapes incompletos)
+  let tokens: RegexToken[];
+  try {
+    tokens = tokenizeRegex(regex, alphabet);
+  } catch (err) {
+    errors.push(err instanceof Error ? err.message : 'Expresión regular inválida');
+    return { isValid: false, errors };
+  }
+
   // Verificar paréntesis balanceados
-  for (let i = 0; i < regex.length; i++) {
-    if (regex[i] === '(') parenCount++;
-    if (regex[i] === ')') parenCount--;
+  for (const token of tokens) {
+    if (token.type === 'LPAREN') parenCount++;
+    if (token.type === 'RPAREN') parenCount--;
     if (parenCount < 0) {
-      errors.push(`Paréntesis desbalanceado en posición ${i}`);
+      errors.push(`Paréntesis desbalanceado en posición ${token.position}`);
       break;
     }
   }
@@ -64,6 +294,7 @@ export function validateRegex(regex: string): RegexValidationResult {
   }
 
   // Verificar operadores sin operandos
+  const signature = tokenSignature(tokens);
   const invalidPatterns = [
     { pattern: /\|\|/, message: 'Operador | duplicado' },
     { pattern: /\*\*/, message: 'Operador * duplicado' },
@@ -73,10 +304,12 @@ export function validateRegex(regex: string): RegexValidationResult {
     { pattern: /\|$/, message: 'Expresión no puede terminar con |' },
     { pattern: /\(\|/, message: 'No puede haber | después de (' },
     { pattern: /\|\)/, message: 'No puede haber | antes de )' },
+    { pattern: /^\.|\.$|\(\.|\.\)|[|.]\.|\.[|*+?~]/, message: 'Operador . sin operandos' },
+    { pattern: /^~|[(|]~/, message: 'Cuantificador {n,m} sin operando' },
   ];
 
   for (const { pattern, message } of invalidPatterns) {
-    if (pattern.test(regex)) {
+    if (pattern.test(signature)) {
       errors.push(message);
     }
   }
@@ -84,46 +317,136 @@ export function validateRegex(regex: string): RegexValidationResult {
   return {
     isValid: errors.length === 0,
     errors,
-    alphabet: getAlphabet(regex),
+    alphabet: getAlphabet(regex, alphabet),
   };
 }
 
 /**
  * Extrae el alfabeto de una expresión regular
+ * Incluye los símbolos literales, los escapados y los de las clases [...].
+ * Si se declara un alfabeto, el resultado es su unión con los símbolos usados.
  */
-export function getAlphabet(regex: string): string[] {
-  const alphabet = new Set<string>();
-  
-  for (let i = 0; i < regex.length; i++) {
-    const char = regex[i];
-    // Agregar solo caracteres alfanuméricos (no operadores)
-    if (!/[|()*+?.]/.test(char) && char.trim() !== '') {
-      alphabet.add(char);
-    }
+export function getAlphabet(regex: string, declaredAlphabet?: string[]): string[] {
+  const alphabet = new Set<string>(declaredAlphabet || []);
+
+  let tokens: RegexToken[];
+  try {
+    tokens = tokenizeRegex(regex, declaredAlphabet);
+  } catch {
+    return Array.from(alphabet).sort();
   }
 
+  collectSymbols(tokens).forEach(symbol => alphabet.add(symbol));
+
   return Array.from(alphabet).sort();
 }
 
+/**
+ * Obtiene los símbolos que aparecen en una lista de tokens
+ */
+function collectSymbols(tokens: RegexToken[]): string[] {
+  const symbols = new Set<string>();
+
+  for (const token of tokens) {
+    if (token.type === 'SYMBOL') {
+      symbols.add(token.value);
+    } else if (token.type === 'CLASS') {
+      token.symbols?.forEach(s => symbols.add(s));
+    }
+  }
+
+  return Array.from(symbols);
+}
+
 /**
  * Tokeniza una expresión regular
+ * 
+ * Además de símbolos y operadores reconoce:
+ * - Escapes: \* \| \( \) \[ \. \\ (literales), \n y \t
+ * - Clases: [abc], rangos [a-z0-9] y negación [^abc]
+ * - Símbolos de varios caracteres: {id} o 'id' (un único símbolo atómico)
+ * - Literales ε (cadena vacía, alias ASCII \e) y ∅ (lenguaje vacío)
+ * - Repetición acotada: a{3}, a{2,}, a{2,4}. Unas llaves que solo contienen
+ *   números siempre son un cuantificador; un símbolo numérico se escribe '10'
+ * 
+ * Las clases negadas se resuelven respecto al alfabeto declarado o, si no se
+ * declara, respecto a los símbolos que aparecen en el resto de la expresión.
  */
-export function tokenizeRegex(regex: string): RegexToken[] {
+export function tokenizeRegex(regex: string, alphabet?: string[]): RegexToken[] {
   const tokens: RegexToken[] = [];
-  
-  for (let i = 0; i < regex.length; i++) {
+  const negatedClasses: RegexToken[] = [];
+  let i = 0;
+
+  while (i < regex.length) {
     const char = regex[i];
-    
-    if (char === ' ') continue; // Ignorar espacios
 
-    if (char === '(') {
+    if (char === ' ') { // Ignorar espacios
+      i++;
+      continue;
+    }
+
+    if (char === '\\' && regex[i + 1] === EPSILON_ASCII_ALIAS) {
+      tokens.push({ type: 'EPSILON', value: EPSILON_LITERAL, position: i });
+      i += 2;
+    } else if (char === '\\') {
+      tokens.push({ type: 'SYMBOL', value: readEscape(regex, i), position: i });
+      i += 2;
+    } else if (char === EPSILON_LITERAL) {
+      tokens.push({ type: 'EPSILON', value: char, position: i });
+      i++;
+    } else if (char === EMPTY_SET_LITERAL) {
+      tokens.push({ type: 'EMPTY', value: char, position: i });
+      i++;
+    } else if (char === '[') {
+      const { members, negated, end } = readCharacterClass(regex, i);
+      const token: RegexToken = {
+        type: 'CLASS',
+        value: regex.slice(i, end + 1),
+        position: i,
+        symbols: members,
+      };
+      if (negated) negatedClasses.push(token);
+      tokens.push(token);
+      i = end + 1;
+    } else if (char === ']') {
+      throw new Error(`Corchete ] sin abrir en posición ${i}`);
+    } else if (char === '{' && QUANTIFIER_PATTERN.test(regex.slice(i, regex.indexOf('}', i) + 1))) {
+      tokens.push(readQuantifier(regex, i));
+      i = regex.indexOf('}', i) + 1;
+    } else if (char === '{' || char === "'") {
+      const { name, end } = readNamedSymbol(regex, i);
+      tokens.push({ type: 'SYMBOL', value: name, position: i });
+      i = end + 1;
+    } else if (char === '}') {
+      throw new Error(`Llave } sin abrir en posición ${i}`);
+    } else if (char === '(') {
       tokens.push({ type: 'LPAREN', value: char, position: i });
+      i++;
     } else if (char === ')') {
       tokens.push({ type: 'RPAREN', value: char, position: i });
-    } else if ('|*+?'.includes(char)) {
+      i++;
+    } else if ('|*+?.'.includes(char)) {
       tokens.push({ type: 'OPERATOR', value: char, position: i });
+      i++;
     } else {
       tokens.push({ type: 'SYMBOL', value: char, position: i });
+      i++;
+    }
+  }
+
+  // Resolver clases negadas: complemento respecto al alfabeto
+  if (negatedClasses.length > 0) {
+    const universe = alphabet && alphabet.length > 0
+      ? alphabet
+      : collectSymbols(tokens.filter(t => !negatedClasses.includes(t)));
+
+    for (const token of negatedClasses) {
+      const excluded = new Set(token.symbols);
+      token.symbols = universe.filter(s => !excluded.has(s)).sort();
+
+      if (token.symbols.length === 0) {
+        throw new Error(`La clase ${token.value} no contiene ningún símbolo del alfabeto`);
+      }
     }
   }
 
@@ -144,21 +467,24 @@ export function insertConcatOperator(tokens: RegexToken[]): RegexToken[] {
       const current = tokens[i];
       const next = tokens[i + 1];
 
-      // Agregar concatenación si:
+      // Agregar concatenación si (una clase [...], ε y ∅ cuentan como símbolo):
       // - símbolo seguido de símbolo: ab
       // - símbolo seguido de paréntesis: a(
       // - paréntesis cerrado seguido de símbolo: )a
       // - paréntesis cerrado seguido de paréntesis abierto: )(
-      // - operador unario seguido de símbolo: a*b
-      // - operador unario seguido de paréntesis: a*(
+      // - operador unario seguido de símbolo: a*b, a{2}b
+      // - operador unario seguido de paréntesis: a*(, a{2}(
+
+      const currentIsOperand = isOperand(current);
+      const nextIsOperand = isOperand(next);
 
       const needsConcat = (
-        (current.type === 'SYMBOL' && next.type === 'SYMBOL') ||
-        (current.type === 'SYMBOL' && next.type === 'LPAREN') ||
-        (current.type === 'RPAREN' && next.type === 'SYMBOL') ||
+        (currentIsOperand && nextIsOperand) ||
+        (currentIsOperand && next.type === 'LPAREN') ||
+        (current.type === 'RPAREN' && nextIsOperand) ||
         (current.type === 'RPAREN' && next.type === 'LPAREN') ||
-        (current.type === 'OPERATOR' && ['*', '+', '?'].includes(current.value) && next.type === 'SYMBOL') ||
-        (current.type === 'OPERATOR' && ['*', '+', '?'].includes(current.value) && next.type === 'LPAREN')
+        (isUnaryOperator(current) && nextIsOperand) ||
+        (isUnaryOperator(current) && next.type === 'LPAREN')
       );
 
       if (needsConcat) {
@@ -178,14 +504,13 @@ export function toPostfix(tokens: RegexToken[]): RegexToken[] {
   const operators: RegexToken[] = [];
 
   for (const token of tokens) {
-    if (token.type === 'SYMBOL') {
+    if (isOperand(token)) {
       output.push(token);
     } else if (token.type === 'OPERATOR') {
       while (
         operators.length > 0 &&
         operators[operators.length - 1].type === 'OPERATOR' &&
-        OPERATORS[operators[operators.length - 1].value].precedence >=
-          OPERATORS[token.value].precedence
+        precedenceOf(operators[operators.length - 1]) >= precedenceOf(token)
       ) {
         output.push(operators.pop()!);
       }
@@ -214,6 +539,58 @@ export function buildSyntaxTreeFromPostfix(postfix: RegexToken[]): TreeNode {
   const stack: TreeNode[] = [];
   let nodeId = 0;
 
+  // Copia un subárbol con IDs nuevos (cada copia tendrá sus propias posiciones)
+  const cloneTree = (node: TreeNode): TreeNode => ({
+    ...node,
+    id: `node-${nodeId++}`,
+    position: undefined,
+    children: node.children.map(cloneTree),
+  });
+
+  const concat = (left: TreeNode, right: TreeNode): TreeNode => ({
+    id: `node-${nodeId++}`,
+    type: 'CONCAT',
+    value: '.',
+    children: [left, right],
+  });
+
+  /**
+   * Expande r{n,m} en el árbol:
+   * - r{n}   = r r ... r (n veces)
+   * - r{n,}  = r{n} r*
+   * - r{n,m} = r{n} (r (r ...)?)?  con m - n opcionales anidados
+   * - r{0}   = ε
+   * La raíz de la expansión guarda el cuantificador original para mostrarlo.
+   */
+  const expandRepetition = (operand: TreeNode, min: number, max: number | null): TreeNode => {
+    const copy = (index: number) => (index === 0 ? operand : cloneTree(operand));
+    const parts: TreeNode[] = [];
+
+    for (let i = 0; i < min; i++) {
+      parts.push(copy(i));
+    }
+
+    if (max === null) {
+      parts.push({ id: `node-${nodeId++}`, type: 'STAR', value: '*', children: [copy(min)] });
+    } else if (max > min) {
+      let optional: TreeNode | null = null;
+      for (let i = max - 1; i >= min; i--) {
+        const body: TreeNode = optional ? concat(copy(i), optional) : copy(i);
+        optional = { id: `node-${nodeId++}`, type: 'OPTIONAL', value: '?', children: [body] };
+      }
+      parts.push(optional!);
+    }
+
+    const expansion: TreeNode = parts.length > 0
+      ? parts.reduce((left, right) => concat(left, right))
+      : { id: `node-${nodeId++}`, type: 'EPSILON', value: 'ε', children: [] };
+
+    // En r{1} la expansión es el propio operando
+    expansion.repetition = expansion === operand ? { min, max } : { min, max, operand };
+
+    return expansion;
+  };
+
   for (const token of postfix) {
     if (token.type === 'SYMBOL') {
       stack.push({
@@ -223,8 +600,39 @@ export function buildSyntaxTreeFromPostfix(postfix: RegexToken[]): TreeNode {
         position: token.position,
         children: [],
       });
+    } else if (token.type === 'EPSILON' || token.type === 'EMPTY') {
+      stack.push({
+        id: `node-${nodeId++}`,
+        type: token.type,
+        value: token.value,
+        children: [],
+      });
+    } else if (token.type === 'CLASS') {
+      // Una clase [...] se desazucara como la unión de sus símbolos: [abc] = a|b|c
+      const leaves: TreeNode[] = (token.symbols || []).map(symbol => ({
+        id: `node-${nodeId++}`,
+        type: 'SYMBOL' as const,
+        value: symbol,
+        position: token.position,
+        children: [],
+      }));
+
+      if (leaves.length === 0) throw new Error('Árbol sintáctico inválido');
+
+      stack.push(leaves.reduce((left, right) => ({
+        id: `node-${nodeId++}`,
+        type: 'UNION',
+        value: '|',
+        children: [left, right],
+      })));
     } else if (token.type === 'OPERATOR') {
-      if (['*', '+', '?'].includes(token.value)) {
+      if (isRepetition(token)) {
+        // Repetición acotada: se expande en el árbol
+        const child = stack.pop();
+        if (!child) throw new Error('Árbol sintáctico inválido');
+
+        stack.push(expandRepetition(child, token.min!, token.max ?? null));
+      } else if (['*', '+', '?'].includes(token.value)) {
         // Operadores unarios
         const child = stack.pop();
         if (!child) throw new Error('Árbol sintáctico inválido');
@@ -266,16 +674,17 @@ export function buildSyntaxTreeFromPostfix(postfix: RegexToken[]): TreeNode {
 
 /**
  * Construye el árbol sintáctico completo desde una expresión regular
+ * @param alphabet Alfabeto declarado (opcional), usado para resolver clases negadas
  */
-export function buildSyntaxTree(regex: string): SyntaxTree {
+export function buildSyntaxTree(regex: string, alphabet?: string[]): SyntaxTree {
   // 1. Validar
-  const validation = validateRegex(regex);
+  const validation = validateRegex(regex, alphabet);
   if (!validation.isValid) {
     throw new Error(`Expresión regular inválida: ${validation.errors.join(', ')}`);
   }
 
   // 2. Tokenizar
-  const tokens = tokenizeRegex(regex);
+  const tokens = tokenizeRegex(regex, alphabet);
 
   // 3. Insertar concatenaciones
   const withConcat = insertConcatOperator(tokens);
@@ -313,6 +722,7 @@ export function buildSyntaxTree(regex: string): SyntaxTree {
  */
 export function calculateAnulable(node: TreeNode): boolean {
   if (node.type === 'EPSILON') return true;
+  if (node.type === 'EMPTY') return false;
   if (node.type === 'SYMBOL') return false;
   if (node.type === 'STAR' || node.type === 'OPTIONAL') return true;
   if (node.type === 'PLUS') return calculateAnulable(node.children[0]);
@@ -332,7 +742,7 @@ export function calculateAnulable(node: TreeNode): boolean {
 export function calculatePrimeros(node: TreeNode): Set<number> {
   const result = new Set<number>();
 
-  if (node.type === 'EPSILON') {
+  if (node.type === 'EPSILON' || node.type === 'EMPTY') {
     return result;
   }
 
@@ -375,7 +785,7 @@ export function calculatePrimeros(node: TreeNode): Set<number> {
 export function calculateUltimos(node: TreeNode): Set<number> {
   const result = new Set<number>();
 
-  if (node.type === 'EPSILON') {
+  if (node.type === 'EPSILON' || node.type === 'EMPTY') {
     return result;
   }
 
@@ -504,3 +914,40 @@ export function treeToString(node: TreeNode, level: number = 0): string {
   
   return result;
 }
+
+/**
+ * Precedencia de un nodo para reconstruir su subexpresión
+ */
+function nodePrecedence(node: TreeNode): number {
+  if (node.type === 'UNION') return 1;
+  if (node.type === 'CONCAT') return 2;
+  if (node.type === 'STAR' || node.type === 'PLUS' || node.type === 'OPTIONAL') return 3;
+  return 4;
+}
+
+/**
+ * Reconstruye la expresión regular de un (sub)árbol sintáctico con los
+ * paréntesis mínimos. Admite uniones y concatenaciones con más de dos hijos.
+ */
+export function treeToRegex(node: TreeNode): string {
+  const wrap = (child: TreeNode, min: number) => {
+    const expr = treeToRegex(child);
+    return nodePrecedence(child) < min ? `(${expr})` : expr;
+  };
+
+  switch (node.type) {
+    case 'SYMBOL':
+      return formatRegexSymbol(node.value);
+    case 'EPSILON':
+      return 'ε';
+    case 'EMPTY':
+      return '∅';
+    case 'UNION':
+      return node.children.map(child => wrap(child, 1)).join('|');
+    case 'CONCAT':
+      return node.children.map(child => wrap(child, 2)).join('');
+    default:
+      // Las cerraduras anidadas se escriben con paréntesis: (a*)*
+      return `${wrap(node.children[0], 4)}${node.value}`;
+  }
+}
@@ -0,0 +1,406 @@
+/**
+ * Simplificador de expresiones regulares por reescritura del árbol sintáctico
+ *
+ * Aplica identidades del álgebra de Kleene sobre el árbol (TreeNode) de la
+ * expresión, una reescritura por paso y de afuera hacia adentro, hasta que no
+ * se puede aplicar ninguna:
+ * - Elementos neutros y absorbentes: ε·r = r, ∅·r = ∅, ∅|r = r
+ * - Idempotencia y absorción: r|r = r, r|r* = r*, r*r* = r*
+ * - Cerraduras: (r*)* = r*, (ε|r)* = r*, (r*|s)* = (r|s)*, r·r* = r+
+ * - Factorización: rs|rt = r(s|t), sr|tr = (s|t)r, ε|r = r?
+ *
+ * Cada paso registra la identidad aplicada y puede verificarse comparando la
+ * subexpresión original con la nueva mediante equivalencia de autómatas.
+ */
+
+import {
+  RegexSimplification,
+  RegexSimplificationOptions,
+  SimplificationRule,
+  SimplificationStep,
+  TreeNode,
+} from '@/lib/types/automata';
+import { buildSyntaxTree, calculateAnulable, getAlphabet, NodeType, treeToRegex } from './regex-parser';
+import { areRegexEquivalent } from './equivalence';
+
+/**
+ * Máximo de reescrituras por defecto
+ */
+const MAX_SIMPLIFICATION_STEPS = 500;
+
+/**
+ * Nombres de las identidades para mostrar en la interfaz
+ */
+export const simplificationRuleLabels: Record<SimplificationRule, string> = {
+  'concat-empty': 'Concatenación con ∅',
+  'concat-epsilon': 'Concatenación con ε',
+  'concat-star': 'Estrellas consecutivas',
+  'plus-intro': 'Cerradura positiva',
+  'union-empty': 'Unión con ∅',
+  'union-duplicate': 'Idempotencia de la unión',
+  'union-absorb': 'Absorción en la unión',
+  'union-nullable': 'ε redundante',
+  'factor-prefix': 'Factor común por la izquierda',
+  'factor-suffix': 'Factor común por la derecha',
+  'union-optional': 'Opcional',
+  'closure-trivial': 'Cerradura de ε o ∅',
+  'nested-closure': 'Cerraduras anidadas',
+  'star-union-epsilon': 'ε dentro de la estrella',
+  'star-union-closure': 'Cerradura dentro de la estrella',
+  'star-concat-nullable': 'Concatenación anulable dentro de la estrella',
+  'plus-nullable': 'Cerradura positiva anulable',
+  'optional-nullable': 'Opcional anulable',
+};
+
+/**
+ * Reescritura encontrada en un nodo
+ */
+interface Rewrite {
+  rule: SimplificationRule;
+  identity: string;
+  target: TreeNode;
+  replacement: TreeNode;
+}
+
+const operatorValues: Partial<Record<NodeType, string>> = {
+  UNION: '|',
+  CONCAT: '.',
+  STAR: '*',
+  PLUS: '+',
+  OPTIONAL: '?',
+  EPSILON: 'ε',
+  EMPTY: '∅',
+};
+
+let nextNodeId = 0;
+
+/**
+ * Crea un nodo de operador (o ε / ∅)
+ */
+function makeNode(type: NodeType, children: TreeNode[] = []): TreeNode {
+  return { id: `simplified-${nextNodeId++}`, type, value: operatorValues[type] ?? '', children };
+}
+
+/**
+ * Une una lista de nodos con el operador dado (lista vacía: ε para la
+ * concatenación, ∅ para la unión; un elemento: el propio elemento)
+ */
+function joinNodes(type: 'UNION' | 'CONCAT', items: TreeNode[]): TreeNode {
+  if (items.length === 0) return makeNode(type === 'CONCAT' ? 'EPSILON' : 'EMPTY');
+  if (items.length === 1) return items[0];
+  return makeNode(type, items);
+}
+
+/**
+ * Elementos de un nodo visto como unión o concatenación n-aria
+ */
+function itemsOf(node: TreeNode, type: 'UNION' | 'CONCAT'): TreeNode[] {
+  return node.type === type ? node.children : [node];
+}
+
+/**
+ * Aplana uniones y concatenaciones anidadas (asociatividad) y elimina las de un
+ * solo elemento. No cambia la expresión escrita, por eso no se registra como paso.
+ */
+function normalize(node: TreeNode): TreeNode {
+  const children = node.children.map(normalize);
+
+  if (node.type === 'UNION' || node.type === 'CONCAT') {
+    const type = node.type;
+    return joinNodes(type, children.flatMap(child => itemsOf(child, type)));
+  }
+
+  return { ...node, children };
+}
+
+const key = treeToRegex;
+const isClosure = (node: TreeNode) => node.type === 'STAR' || node.type === 'PLUS' || node.type === 'OPTIONAL';
+
+/**
+ * Combina dos cerraduras anidadas: (r^inner)^outer
+ */
+function combineClosures(outer: NodeType, inner: NodeType): NodeType {
+  if (outer === inner) return outer;
+  return 'STAR';
+}
+
+/**
+ * Reglas para una concatenación
+ */
+function rewriteConcat(node: TreeNode): Rewrite | null {
+  const items = node.children;
+  const result = (rule: SimplificationRule, identity: string, replacement: TreeNode): Rewrite =>
+    ({ rule, identity, target: node, replacement: normalize(replacement) });
+
+  if (items.some(item => item.type === 'EMPTY')) {
+    return result('concat-empty', '∅·r = r·∅ = ∅', makeNode('EMPTY'));
+  }
+
+  if (items.some(item => item.type === 'EPSILON')) {
+    return result('concat-epsilon', 'ε·r = r·ε = r', joinNodes('CONCAT', items.filter(item => item.type !== 'EPSILON')));
+  }
+
+  for (let i = 0; i < items.length - 1; i++) {
+    if (items[i].type === 'STAR' && key(items[i]) === key(items[i + 1])) {
+      return result('concat-star', 'r*r* = r*', joinNodes('CONCAT', items.filter((_, j) => j !== i + 1)));
+    }
+  }
+
+  // r·r* = r*·r = r+ (r puede ser una concatenación de varios elementos)
+  for (let i = 0; i < items.length; i++) {
+    if (items[i].type !== 'STAR') continue;
+
+    const body = items[i].children[0];
+    const bodyKeys = itemsOf(body, 'CONCAT').map(key);
+    const m = bodyKeys.length;
+    const matches = (start: number) =>
+      start >= 0 && start + m <= items.length &&
+      bodyKeys.every((k, offset) => key(items[start + offset]) === k);
+
+    const plus = makeNode('PLUS', [body]);
+    if (matches(i - m)) {
+      return result('plus-intro', 'r·r* = r+', joinNodes('CONCAT', [...items.slice(0, i - m), plus, ...items.slice(i + 1)]));
+    }
+    if (matches(i + 1)) {
+      return result('plus-intro', 'r*·r = r+', joinNodes('CONCAT', [...items.slice(0, i), plus, ...items.slice(i + 1 + m)]));
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Factoriza los elementos de una unión que comparten el primer (o el último)
+ * elemento de su concatenación
+ */
+function factorUnion(items: TreeNode[], side: 'prefix' | 'suffix'): TreeNode[] | null {
+  const edge = (item: TreeNode) => {
+    const parts = itemsOf(item, 'CONCAT');
+    return side === 'prefix' ? parts[0] : parts[parts.length - 1];
+  };
+  const rest = (item: TreeNode) => {
+    const parts = itemsOf(item, 'CONCAT');
+    return joinNodes('CONCAT', side === 'prefix' ? parts.slice(1) : parts.slice(0, -1));
+  };
+
+  for (let i = 0; i < items.length; i++) {
+    if (items[i].type === 'EPSILON') continue;
+
+    const factor = key(edge(items[i]));
+    const group = items
+      .map((item, index) => ({ item, index }))
+      .filter(({ item, index }) => index >= i && item.type !== 'EPSILON' && key(edge(item)) === factor);
+
+    if (group.length < 2) continue;
+
+    const alternatives = joinNodes('UNION', group.map(({ item }) => rest(item)));
+    const factored = joinNodes('CONCAT', side === 'prefix'
+      ? [edge(items[i]), alternatives]
+      : [alternatives, edge(items[i])]);
+
+    const grouped = new Set(group.map(({ index }) => index));
+    return items.flatMap((item, index) => (index === i ? [factored] : grouped.has(index) ? [] : [item]));
+  }
+
+  return null;
+}
+
+/**
+ * Reglas para una unión
+ */
+function rewriteUnion(node: TreeNode): Rewrite | null {
+  const items = node.children;
+  const result = (rule: SimplificationRule, identity: string, replacement: TreeNode): Rewrite =>
+    ({ rule, identity, target: node, replacement: normalize(replacement) });
+
+  if (items.some(item => item.type === 'EMPTY')) {
+    return result('union-empty', '∅|r = r', joinNodes('UNION', items.filter(item => item.type !== 'EMPTY')));
+  }
+
+  const keys = items.map(key);
+  const duplicate = keys.findIndex((k, i) => keys.indexOf(k) !== i);
+  if (duplicate >= 0) {
+    return result('union-duplicate', 'r|r = r', joinNodes('UNION', items.filter((_, i) => i !== duplicate)));
+  }
+
+  // r|r* = r*, r|r+ = r+, r|r? = r?, r+|r* = r*
+  for (let i = 0; i < items.length; i++) {
+    if (!isClosure(items[i])) continue;
+
+    const body = key(items[i].children[0]);
+    const absorbed = items.findIndex((item, j) => j !== i && (
+      key(item) === body ||
+      (items[i].type === 'STAR' && isClosure(item) && key(item.children[0]) === body)
+    ));
+    if (absorbed >= 0) {
+      return result('union-absorb', `r|r${items[i].value} = r${items[i].value}`, joinNodes('UNION', items.filter((_, j) => j !== absorbed)));
+    }
+  }
+
+  const hasEpsilon = items.some(item => item.type === 'EPSILON');
+  const others = items.filter(item => item.type !== 'EPSILON');
+
+  if (hasEpsilon && others.some(item => calculateAnulable(item))) {
+    return result('union-nullable', 'ε|r = r  (si ε ∈ L(r))', joinNodes('UNION', others));
+  }
+
+  const prefixFactored = factorUnion(items, 'prefix');
+  if (prefixFactored) {
+    return result('factor-prefix', 'rs|rt = r(s|t)', joinNodes('UNION', prefixFactored));
+  }
+
+  const suffixFactored = factorUnion(items, 'suffix');
+  if (suffixFactored) {
+    return result('factor-suffix', 'sr|tr = (s|t)r', joinNodes('UNION', suffixFactored));
+  }
+
+  if (hasEpsilon && others.length > 0) {
+    return result('union-optional', 'ε|r = r?', makeNode('OPTIONAL', [joinNodes('UNION', others)]));
+  }
+
+  return null;
+}
+
+/**
+ * Reglas para una cerradura (*, + o ?)
+ */
+function rewriteClosure(node: TreeNode): Rewrite | null {
+  const child = node.children[0];
+  const operator = node.value;
+  const result = (rule: SimplificationRule, identity: string, replacement: TreeNode): Rewrite =>
+    ({ rule, identity, target: node, replacement: normalize(replacement) });
+
+  if (child.type === 'EPSILON' || child.type === 'EMPTY') {
+    // ∅+ = ∅; en los demás casos el resultado es ε
+    const replacement = child.type === 'EMPTY' && node.type === 'PLUS' ? 'EMPTY' : 'EPSILON';
+    return result('closure-trivial', `${child.value}${operator} = ${operatorValues[replacement]}`, makeNode(replacement));
+  }
+
+  if (isClosure(child)) {
+    const type = combineClosures(node.type, child.type);
+    return result(
+      'nested-closure',
+      `(r${child.value})${operator} = r${operatorValues[type]}`,
+      makeNode(type, [child.children[0]])
+    );
+  }
+
+  if (node.type === 'STAR' && child.type === 'UNION') {
+    if (child.children.some(item => item.type === 'EPSILON')) {
+      return result('star-union-epsilon', '(ε|r)* = r*', makeNode('STAR', [
+        joinNodes('UNION', child.children.filter(item => item.type !== 'EPSILON')),
+      ]));
+    }
+
+    if (child.children.some(isClosure)) {
+      return result('star-union-closure', '(r*|s)* = (r|s)*', makeNode('STAR', [
+        joinNodes('UNION', child.children.map(item => (isClosure(item) ? item.children[0] : item))),
+      ]));
+    }
+  }
+
+  if (node.type === 'STAR' && child.type === 'CONCAT' && child.children.every(item => calculateAnulable(item))) {
+    return result('star-concat-nullable', '(rs)* = (r|s)*  (si ε ∈ L(r) y ε ∈ L(s))', makeNode('STAR', [
+      joinNodes('UNION', child.children),
+    ]));
+  }
+
+  if (node.type === 'PLUS' && calculateAnulable(child)) {
+    return result('plus-nullable', 'r+ = r*  (si ε ∈ L(r))', makeNode('STAR', [child]));
+  }
+
+  if (node.type === 'OPTIONAL' && calculateAnulable(child)) {
+    return result('optional-nullable', 'r? = r  (si ε ∈ L(r))', child);
+  }
+
+  return null;
+}
+
+/**
+ * Busca la primera reescritura aplicable, del nodo hacia sus hijos
+ * (de afuera hacia adentro y de izquierda a derecha) y la aplica
+ */
+function rewriteOnce(node: TreeNode): { tree: TreeNode; rewrite: Rewrite } | null {
+  const rewrite = node.type === 'CONCAT'
+    ? rewriteConcat(node)
+    : node.type === 'UNION'
+      ? rewriteUnion(node)
+      : isClosure(node)
+        ? rewriteClosure(node)
+        : null;
+
+  if (rewrite) {
+    return { tree: rewrite.replacement, rewrite };
+  }
+
+  for (let i = 0; i < node.children.length; i++) {
+    const inner = rewriteOnce(node.children[i]);
+    if (inner) {
+      const children = node.children.map((child, j) => (j === i ? inner.tree : child));
+      return { tree: normalize({ ...node, children }), rewrite: inner.rewrite };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Simplifica una expresión regular aplicando identidades algebraicas sobre su
+ * árbol sintáctico y registra cada reescritura
+ */
+export function simplifyRegexAST(
+  regex: string,
+  options: RegexSimplificationOptions = {}
+): RegexSimplification {
+  const { verify = 'steps', maxSteps = MAX_SIMPLIFICATION_STEPS } = options;
+  const alphabet = getAlphabet(regex, options.alphabet);
+
+  let tree = normalize(buildSyntaxTree(regex, alphabet).root);
+  let current = treeToRegex(tree);
+  const steps: SimplificationStep[] = [];
+  let truncated = false;
+
+  for (let next = rewriteOnce(tree); next; next = rewriteOnce(tree)) {
+    if (steps.length >= maxSteps) {
+      truncated = true;
+      break;
+    }
+
+    const { rule, identity } = next.rewrite;
+    const target = treeToRegex(next.rewrite.target);
+    const replacement = treeToRegex(next.rewrite.replacement);
+
+    // Verificación local: si la subexpresión conserva el lenguaje, la expresión completa también
+    let verified: boolean | undefined;
+    if (verify === 'steps') {
+      verified = areRegexEquivalent(target, replacement, alphabet).equivalent;
+      if (!verified) {
+        throw new Error(`La reescritura ${identity} no conserva el lenguaje: ${target} → ${replacement}`);
+      }
+    }
+
+    tree = next.tree;
+    const after = treeToRegex(tree);
+
+    steps.push({
+      stepNumber: steps.length + 1,
+      rule,
+      identity,
+      target,
+      replacement,
+      before: current,
+      after,
+      verified,
+    });
+
+    current = after;
+  }
+
+  return {
+    original: regex,
+    simplified: current,
+    steps,
+    equivalent: verify === 'none' ? undefined : areRegexEquivalent(regex, current, alphabet).equivalent,
+    truncated,
+  };
+}
@@ -0,0 +1,403 @@
+/**
+ * Conversión entre gramáticas regulares y autómatas finitos
+ *
+ * 1. GRAMÁTICA LINEAL POR LA DERECHA → AF:
+ *    - Cada no terminal es un estado; el símbolo inicial es el estado inicial
+ *    - A → aB  ⇒  A --a--> B
+ *    - A → a   ⇒  A --a--> F (nuevo estado final)
+ *    - A → ε   ⇒  A es final
+ *    - A → B   ⇒  A --ε--> B
+ *
+ * 2. GRAMÁTICA LINEAL POR LA IZQUIERDA → AF:
+ *    - Cada no terminal es un estado; se agrega un nuevo estado inicial I
+ *      y el símbolo inicial es el único estado final
+ *    - A → Ba  ⇒  B --a--> A
+ *    - A → a   ⇒  I --a--> A
+ *    - A → ε   ⇒  I --ε--> A
+ *    - A → B   ⇒  B --ε--> A
+ *
+ * Con varios terminales seguidos (A → abB) se agregan estados intermedios.
+ * La conversión inversa (AF → gramática) aplica las mismas reglas al revés.
+ */
+
+import {
+  Automaton,
+  RegularGrammarCheck,
+  RegularGrammarConversion,
+  RegularGrammarKind,
+  RegularGrammarStep,
+  State,
+  Transition,
+} from '@/lib/types/automata';
+import { Grammar, Production } from '@/lib/types/grammar';
+import { isDeterministic } from './afd-construction';
+
+type ProductionShape = 'empty' | 'terminal' | 'unit' | 'right' | 'left' | 'invalid';
+
+/**
+ * Nombres de las formas de gramática regular
+ */
+export const regularGrammarKindLabels: Record<RegularGrammarKind, string> = {
+  'right-linear': 'Lineal por la derecha',
+  'left-linear': 'Lineal por la izquierda',
+};
+
+/**
+ * Texto de una producción: "A → aB"
+ */
+function formatProduction(left: string, right: string[]): string {
+  return `${left} → ${right.join('')}`;
+}
+
+/**
+ * Lado derecho sin ε (A → ε queda vacío)
+ */
+function rightSymbols(production: Production): string[] {
+  return production.right.filter(symbol => symbol !== 'ε');
+}
+
+/**
+ * Clasifica el lado derecho de una producción según la posición de sus no terminales
+ */
+function productionShape(symbols: string[], nonTerminals: Set<string>): ProductionShape {
+  if (symbols.length === 0) return 'empty';
+
+  const positions = symbols
+    .map((symbol, index) => (nonTerminals.has(symbol) ? index : -1))
+    .filter(index => index >= 0);
+
+  if (positions.length === 0) return 'terminal';
+  if (positions.length > 1) return 'invalid';
+  if (symbols.length === 1) return 'unit';
+  if (positions[0] === symbols.length - 1) return 'right';
+  if (positions[0] === 0) return 'left';
+  return 'invalid';
+}
+
+/**
+ * Comprueba si una gramática es regular y, en ese caso, si es lineal por la
+ * derecha o por la izquierda. Las producciones A → a, A → B y A → ε valen
+ * para ambas formas; si solo hay de esas se considera lineal por la derecha.
+ */
+export function checkRegularGrammar(grammar: Grammar): RegularGrammarCheck {
+  const nonTerminals = new Set(grammar.nonTerminals);
+  const issues: RegularGrammarCheck['issues'] = [];
+  const rightLinear: Production[] = [];
+  const leftLinear: Production[] = [];
+
+  for (const production of grammar.productions) {
+    const symbols = rightSymbols(production);
+    const shape = productionShape(symbols, nonTerminals);
+    const text = formatProduction(production.left, production.right);
+
+    if (shape === 'right') rightLinear.push(production);
+    if (shape === 'left') leftLinear.push(production);
+    if (shape === 'invalid') {
+      const count = symbols.filter(symbol => nonTerminals.has(symbol)).length;
+      issues.push({
+        production: text,
+        reason: count > 1
+          ? `Tiene ${count} no terminales en el lado derecho (solo se permite uno)`
+          : 'El no terminal no está ni al principio ni al final del lado derecho',
+      });
+    }
+  }
+
+  // Mezclar ambas formas genera lenguajes que pueden no ser regulares
+  if (rightLinear.length > 0 && leftLinear.length > 0) {
+    const minority = rightLinear.length >= leftLinear.length ? leftLinear : rightLinear;
+    const form = minority === leftLinear ? 'por la izquierda' : 'por la derecha';
+    for (const production of minority) {
+      issues.push({
+        production: formatProduction(production.left, production.right),
+        reason: `Es lineal ${form}, pero el resto de la gramática usa la otra forma`,
+      });
+    }
+  }
+
+  if (issues.length > 0) {
+    return { kind: null, issues };
+  }
+
+  return { kind: leftLinear.length > 0 ? 'left-linear' : 'right-linear', issues };
+}
+
+/**
+ * Nombre que no esté en uso: base, base', base'', ...
+ */
+function freshName(base: string, used: Set<string>): string {
+  let name = base;
+  while (used.has(name)) {
+    name += "'";
+  }
+  used.add(name);
+  return name;
+}
+
+/**
+ * Tipo del autómata según sus transiciones
+ */
+function inferAutomatonType(automaton: Automaton): Automaton['type'] {
+  if (automaton.transitions.some(t => t.symbol === 'ε')) return 'EPSILON_NFA';
+  return isDeterministic(automaton) ? 'DFA' : 'NFA';
+}
+
+/**
+ * Convierte una gramática regular (lineal por la derecha o por la izquierda)
+ * en un autómata finito, con el paso correspondiente a cada producción
+ */
+export function grammarToAutomaton(grammar: Grammar): RegularGrammarConversion {
+  const check = checkRegularGrammar(grammar);
+  if (!check.kind) {
+    throw new Error(
+      `La gramática no es regular: ${check.issues.map(issue => `${issue.production} (${issue.reason})`).join('; ')}`
+    );
+  }
+
+  const kind = check.kind;
+  const usedNames = new Set(grammar.nonTerminals);
+  const stateNames = [...grammar.nonTerminals];
+  const finalStates = new Set<string>();
+  const transitions: Transition[] = [];
+  const steps: RegularGrammarStep[] = [];
+
+  // Estado extra: final (derecha) o inicial (izquierda)
+  const extraState = kind === 'right-linear' ? freshName('F', usedNames) : freshName('I', usedNames);
+  const initialState = kind === 'right-linear' ? grammar.startSymbol : extraState;
+  let extraUsed = false;
+  let intermediateCount = 0;
+
+  if (kind === 'left-linear') {
+    finalStates.add(grammar.startSymbol);
+  }
+
+  const addTransition = (from: string, symbol: string, to: string) => {
+    const transition = { id: `t${transitions.length + 1}`, from, to, symbol };
+    transitions.push(transition);
+    return transition;
+  };
+
+  // Recorre la cadena de terminales creando estados intermedios: from --a--> A1 --b--> to
+  const addChain = (left: string, from: string, terminals: string[], to: string) => {
+    const added: RegularGrammarStep['transitions'] = [];
+    let current = from;
+    terminals.forEach((terminal, index) => {
+      const next = index === terminals.length - 1 ? to : freshName(`${left}${++intermediateCount}`, usedNames);
+      if (next !== to) stateNames.push(next);
+      const { from: source, to: target, symbol } = addTransition(current, terminal, next);
+      added.push({ from: source, to: target, symbol });
+      current = next;
+    });
+    return added;
+  };
+
+  const nonTerminals = new Set(grammar.nonTerminals);
+
+  for (const production of grammar.productions) {
+    const symbols = rightSymbols(production);
+    const shape = productionShape(symbols, nonTerminals);
+    const text = formatProduction(production.left, production.right);
+    const A = production.left;
+
+    if (shape === 'empty') {
+      if (kind === 'right-linear') {
+        finalStates.add(A);
+        steps.push({ production: text, transitions: [], finalState: A, description: `${A} es estado final` });
+      } else {
+        extraUsed = true;
+        const { from, to, symbol } = addTransition(extraState, 'ε', A);
+        steps.push({
+          production: text,
+          transitions: [{ from, to, symbol }],
+          description: `Desde el estado inicial ${extraState} se llega a ${A} sin consumir símbolos`,
+        });
+      }
+      continue;
+    }
+
+    if (shape === 'unit') {
+      const B = symbols[0];
+      const { from, to, symbol } = kind === 'right-linear' ? addTransition(A, 'ε', B) : addTransition(B, 'ε', A);
+      steps.push({
+        production: text,
+        transitions: [{ from, to, symbol }],
+        description: 'Producción unitaria: transición ε',
+      });
+      continue;
+    }
+
+    if (kind === 'right-linear') {
+      const target = shape === 'right' ? symbols[symbols.length - 1] : extraState;
+      const terminals = shape === 'right' ? symbols.slice(0, -1) : symbols;
+      if (target === extraState) extraUsed = true;
+      steps.push({
+        production: text,
+        transitions: addChain(A, A, terminals, target),
+        description: target === extraState
+          ? `Termina la derivación: va al estado final ${extraState}`
+          : `Desde ${A} se consume ${terminals.join('')} y se continúa en ${target}`,
+      });
+    } else {
+      const source = shape === 'left' ? symbols[0] : extraState;
+      const terminals = shape === 'left' ? symbols.slice(1) : symbols;
+      if (source === extraState) extraUsed = true;
+      steps.push({
+        production: text,
+        transitions: addChain(A, source, terminals, A),
+        description: source === extraState
+          ? `Empieza la derivación: desde el estado inicial ${extraState} se consume ${terminals.join('')}`
+          : `Tras reconocer ${source} se consume ${terminals.join('')} y se llega a ${A}`,
+      });
+    }
+  }
+
+  // El estado extra es siempre el inicial de la forma izquierda; en la derecha solo si se usó
+  if (kind === 'left-linear' || extraUsed) {
+    stateNames.push(extraState);
+  }
+  if (kind === 'right-linear' && extraUsed) {
+    finalStates.add(extraState);
+  }
+
+  const states: State[] = stateNames.map(name => ({
+    id: name,
+    label: name,
+    isInitial: name === initialState,
+    isFinal: finalStates.has(name),
+  }));
+
+  const automaton: Automaton = {
+    id: `af-grammar-${Date.now()}`,
+    name: kind === 'right-linear' ? 'AF de gramática lineal por la derecha' : 'AF de gramática lineal por la izquierda',
+    states,
+    transitions,
+    alphabet: [...new Set(transitions.map(t => t.symbol).filter(symbol => symbol !== 'ε'))].sort(),
+    type: 'DFA',
+  };
+  automaton.type = inferAutomatonType(automaton);
+
+  const nonTerminalOf = Object.fromEntries(grammar.nonTerminals.map(nonTerminal => [nonTerminal, nonTerminal]));
+
+  return { kind, grammar, automaton, steps, nonTerminalOf };
+}
+
+/**
+ * Asigna un no terminal a cada estado: primero los indicados en `reserved`
+ * y luego A, B, C, ... (saltando los ya usados); después A', B', ...
+ */
+function nameStates(stateIds: string[], reserved: Map<string, string>): Map<string, string> {
+  const names = new Map(reserved);
+  const used = new Set(reserved.values());
+  const letters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+  const candidate = (index: number) => letters[index % letters.length] + "'".repeat(Math.floor(index / letters.length));
+  let index = 0;
+
+  for (const id of stateIds) {
+    if (names.has(id)) continue;
+    while (used.has(candidate(index))) index++;
+    names.set(id, candidate(index));
+    used.add(candidate(index));
+    index++;
+  }
+
+  return names;
+}
+
+/**
+ * Convierte un autómata finito en una gramática regular lineal por la derecha
+ * o por la izquierda, con el paso correspondiente a cada transición
+ */
+export function automatonToGrammar(automaton: Automaton, kind: RegularGrammarKind): RegularGrammarConversion {
+  const initial = automaton.states.find(state => state.isInitial);
+  if (!initial) {
+    throw new Error('El autómata no tiene estado inicial');
+  }
+
+  const finals = automaton.states.filter(state => state.isFinal);
+  const stateIds = [initial.id, ...automaton.states.map(state => state.id).filter(id => id !== initial.id)];
+  const productions: Production[] = [];
+  const steps: RegularGrammarStep[] = [];
+
+  const addProduction = (left: string, right: string[]) => {
+    const production = { id: `p${productions.length + 1}`, left, right, number: productions.length + 1 };
+    productions.push(production);
+    return formatProduction(left, right);
+  };
+
+  let names: Map<string, string>;
+  let startSymbol: string;
+
+  if (kind === 'right-linear') {
+    // El estado inicial es el símbolo inicial
+    names = nameStates(stateIds, new Map([[initial.id, 'S']]));
+    startSymbol = 'S';
+
+    for (const id of stateIds) {
+      const P = names.get(id)!;
+      for (const t of automaton.transitions.filter(transition => transition.from === id)) {
+        const Q = names.get(t.to)!;
+        const right = t.symbol === 'ε' ? [Q] : [t.symbol, Q];
+        steps.push({
+          production: addProduction(P, right),
+          transitions: [{ from: t.from, to: t.to, symbol: t.symbol }],
+          description: t.symbol === 'ε'
+            ? `Transición ε: ${P} deriva directamente en ${Q}`
+            : `Leer ${t.symbol} en ${P} y continuar en ${Q}`,
+        });
+      }
+      if (finals.some(state => state.id === id)) {
+        steps.push({
+          production: addProduction(P, ['ε']),
+          transitions: [],
+          finalState: id,
+          description: `${P} es final: la derivación puede terminar`,
+        });
+      }
+    }
+  } else {
+    // Un único estado final es el símbolo inicial; con varios se agrega S → F₁ | F₂ | ...
+    const singleFinal = finals.length === 1 ? finals[0].id : null;
+    names = nameStates(stateIds, singleFinal ? new Map([[singleFinal, 'S']]) : new Map());
+    startSymbol = singleFinal ? 'S' : freshName('S', new Set(names.values()));
+
+    for (const id of stateIds) {
+      const Q = names.get(id)!;
+      if (id === initial.id) {
+        steps.push({
+          production: addProduction(Q, ['ε']),
+          transitions: [],
+          description: `${Q} es el estado inicial: se alcanza sin leer nada`,
+        });
+      }
+      for (const t of automaton.transitions.filter(transition => transition.to === id)) {
+        const P = names.get(t.from)!;
+        const right = t.symbol === 'ε' ? [P] : [P, t.symbol];
+        steps.push({
+          production: addProduction(Q, right),
+          transitions: [{ from: t.from, to: t.to, symbol: t.symbol }],
+          description: t.symbol === 'ε'
+            ? `Transición ε: se llega a ${Q} desde ${P} sin leer nada`
+            : `Se llega a ${Q} leyendo ${t.symbol} después de ${P}`,
+        });
+      }
+    }
+
+    if (!singleFinal) {
+      for (const state of finals) {
+        steps.push({
+          production: addProduction(startSymbol, [names.get(state.id)!]),
+          transitions: [],
+          finalState: state.id,
+          description: `${state.label} es final: la cadena puede terminar en ${names.get(state.id)}`,
+        });
+      }
+    }
+  }
+
+  // El símbolo inicial va primero entre los no terminales
+  const nonTerminals = [...new Set([startSymbol, ...stateIds.map(id => names.get(id)!)])];
+  const terminals = [...new Set(automaton.transitions.map(t => t.symbol).filter(symbol => symbol !== 'ε'))].sort();
+  const grammar: Grammar = { terminals, nonTerminals, productions, startSymbol };
+
+  return { kind, grammar, automaton, steps, nonTerminalOf: Object.fromEntries(names) };
+}
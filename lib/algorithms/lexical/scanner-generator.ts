@@ -0,0 +1,484 @@
+/**
+ * Generador de código fuente de escáneres a partir de un AFD
+ *
+ * Produce un programa ejecutable en TypeScript, C o Python con dos estilos:
+ * - Dirigido por tabla: la función de transición es una matriz estado × símbolo
+ * - Con switch: cada estado es un caso con las transiciones codificadas
+ *
+ * Ambos estilos implementan la regla del lexema más largo (longestMatch) y la
+ * aceptación de la cadena completa (accepts). Los símbolos del alfabeto pueden
+ * tener varios caracteres: en cada posición se lee el símbolo más largo que coincida.
+ */
+
+import { Automaton, GeneratedScanner, ScannerLanguage, ScannerStyle, TransitionTable } from '@/lib/types/automata';
+import { isDeterministic } from './afd-construction';
+import { generateTransitionTable } from './er-to-af';
+
+/**
+ * Datos del AFD listos para emitir código
+ */
+interface ScannerModel {
+  name: string;
+  labels: string[]; // Etiqueta de cada estado (por índice)
+  start: number;
+  accepting: boolean[];
+  symbols: string[]; // Símbolos del alfabeto (columnas)
+  symbolOrder: number[]; // Columnas ordenadas por longitud descendente del símbolo
+  delta: number[][]; // delta[estado][columna] = destino o -1
+  table: TransitionTable;
+}
+
+export const scannerLanguageLabels: Record<ScannerLanguage, string> = {
+  typescript: 'TypeScript',
+  c: 'C',
+  python: 'Python',
+};
+
+export const scannerStyleLabels: Record<ScannerStyle, string> = {
+  table: 'Dirigido por tabla',
+  switch: 'Con switch',
+};
+
+const fileExtensions: Record<ScannerLanguage, string> = {
+  typescript: 'ts',
+  c: 'c',
+  python: 'py',
+};
+
+/**
+ * Convierte el autómata en índices numéricos
+ */
+function buildModel(automaton: Automaton): ScannerModel {
+  if (!isDeterministic(automaton)) {
+    throw new Error('El generador de escáneres requiere un AFD (sin transiciones ε ni no determinismo)');
+  }
+
+  const initial = automaton.states.findIndex(s => s.isInitial);
+  if (initial < 0) {
+    throw new Error('El autómata debe tener un estado inicial');
+  }
+
+  const index = new Map(automaton.states.map((s, i) => [s.id, i]));
+  const symbols = automaton.alphabet.filter(s => s !== 'ε');
+  const column = new Map(symbols.map((s, i) => [s, i]));
+
+  const delta = automaton.states.map(() => symbols.map(() => -1));
+  for (const t of automaton.transitions) {
+    const from = index.get(t.from);
+    const to = index.get(t.to);
+    const c = column.get(t.symbol);
+    if (from !== undefined && to !== undefined && c !== undefined) {
+      delta[from][c] = to;
+    }
+  }
+
+  return {
+    name: automaton.name || 'AFD',
+    labels: automaton.states.map(s => s.label),
+    start: initial,
+    accepting: automaton.states.map(s => s.isFinal),
+    symbols,
+    symbolOrder: symbols.map((_, i) => i).sort((a, b) => symbols[b].length - symbols[a].length || a - b),
+    delta,
+    table: generateTransitionTable(automaton),
+  };
+}
+
+/**
+ * Literal de cadena para C (UTF-8 sin escapar)
+ */
+function cString(value: string): string {
+  return `"${value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\t/g, '\\t')
+    .replace(/\r/g, '\\r')}"`;
+}
+
+/**
+ * Literal de cadena para TypeScript y Python
+ */
+function quote(value: string): string {
+  return JSON.stringify(value);
+}
+
+/**
+ * Tabla de transiciones como comentario (una línea por estado)
+ */
+function tableComment(model: ScannerModel, prefix: string): string[] {
+  const headers = model.table.headers;
+  const rows = model.table.rows.map(row =>
+    headers.map((h, i) => String(i === 0 ? row.estado : row[h])));
+  const widths = headers.map((h, i) => Math.max(h.length, ...rows.map(r => r[i].length)));
+  const format = (cells: string[]) => cells.map((c, i) => c.padEnd(widths[i])).join(' | ').trimEnd();
+
+  return [
+    `${prefix}Tabla de transiciones (→ inicial, * final, - sin transición):`,
+    `${prefix}  ${format(headers)}`,
+    ...rows.map(r => `${prefix}  ${format(r)}`),
+  ];
+}
+
+/**
+ * Comentario con los índices de los estados
+ */
+function statesComment(model: ScannerModel, prefix: string): string {
+  return `${prefix}Estados: ${model.labels.map((l, i) => `${i}=${l}`).join(', ')}`;
+}
+
+/**
+ * Encabezado común a todos los lenguajes
+ */
+function header(model: ScannerModel, style: ScannerStyle, prefix: string): string[] {
+  return [
+    `${prefix}Escáner generado a partir de: ${model.name}`,
+    `${prefix}Estilo: ${scannerStyleLabels[style].toLowerCase()}`,
+    prefix.trimEnd(),
+    ...tableComment(model, prefix),
+    prefix.trimEnd(),
+    statesComment(model, prefix),
+  ];
+}
+
+/**
+ * Casos del switch de transiciones: [estado, [columna, destino][]]
+ */
+function switchCases(model: ScannerModel): Array<[number, Array<[number, number]>]> {
+  return model.delta.map((row, state) => [
+    state,
+    row.map((to, c) => [c, to] as [number, number]).filter(([, to]) => to >= 0),
+  ]);
+}
+
+// ============================================
+// TypeScript
+// ============================================
+
+function generateTypeScript(model: ScannerModel, style: ScannerStyle): string {
+  const lines: string[] = [
+    '/**',
+    ...header(model, style, ' * '),
+    ' *',
+    ' * Uso: npx tsx scanner.ts <cadena>',
+    ' */',
+    '',
+    `const SYMBOLS: string[] = [${model.symbols.map(quote).join(', ')}];`,
+    `const SYMBOL_ORDER: number[] = [${model.symbolOrder.join(', ')}]; // Símbolos más largos primero`,
+    `const START = ${model.start};`,
+    `const ACCEPTING: boolean[] = [${model.accepting.join(', ')}];`,
+    '',
+  ];
+
+  if (style === 'table') {
+    lines.push(
+      '// TRANSITIONS[estado][símbolo] = siguiente estado (-1 = error)',
+      'const TRANSITIONS: number[][] = [',
+      ...model.delta.map((row, i) => `  [${row.join(', ')}], // ${model.labels[i]}`),
+      '];',
+      '',
+      'function nextState(state: number, symbol: number): number {',
+      '  return TRANSITIONS[state][symbol];',
+      '}',
+    );
+  } else {
+    lines.push('function nextState(state: number, symbol: number): number {', '  switch (state) {');
+    for (const [state, cases] of switchCases(model)) {
+      lines.push(`    case ${state}: // ${model.labels[state]}`);
+      if (cases.length > 0) {
+        lines.push('      switch (symbol) {');
+        for (const [c, to] of cases) {
+          lines.push(`        case ${c}: return ${to}; // ${quote(model.symbols[c])} → ${model.labels[to]}`);
+        }
+        lines.push('      }');
+      }
+      lines.push('      return -1;');
+    }
+    lines.push('  }', '  return -1;', '}');
+  }
+
+  lines.push(
+    '',
+    '/**',
+    ' * Lee el símbolo más largo del alfabeto en la posición indicada',
+    ' * Retorna [símbolo, longitud] o [-1, 0] si ninguno coincide',
+    ' */',
+    'function readSymbol(input: string, pos: number): [number, number] {',
+    '  for (const symbol of SYMBOL_ORDER) {',
+    '    if (input.startsWith(SYMBOLS[symbol], pos)) return [symbol, SYMBOLS[symbol].length];',
+    '  }',
+    '  return [-1, 0];',
+    '}',
+    '',
+    '/**',
+    ' * Longitud del prefijo aceptado más largo desde start (-1 si no hay ninguno)',
+    ' */',
+    'export function longestMatch(input: string, start = 0): number {',
+    '  let state = START;',
+    '  let pos = start;',
+    '  let last = ACCEPTING[state] ? 0 : -1;',
+    '',
+    '  while (pos < input.length) {',
+    '    const [symbol, length] = readSymbol(input, pos);',
+    '    if (symbol < 0) break;',
+    '    const next = nextState(state, symbol);',
+    '    if (next < 0) break;',
+    '    state = next;',
+    '    pos += length;',
+    '    if (ACCEPTING[state]) last = pos - start;',
+    '  }',
+    '',
+    '  return last;',
+    '}',
+    '',
+    '/**',
+    ' * Indica si la cadena completa pertenece al lenguaje',
+    ' */',
+    'export function accepts(input: string): boolean {',
+    '  return longestMatch(input) === input.length;',
+    '}',
+    '',
+    "const input = process.argv[2] ?? '';",
+    'const match = longestMatch(input);',
+    "console.log(accepts(input) ? 'ACEPTADA' : 'RECHAZADA');",
+    "console.log(match >= 0 ? `Lexema más largo: \"${input.slice(0, match)}\"` : 'Ningún prefijo aceptado');",
+  );
+
+  return lines.join('\n') + '\n';
+}
+
+// ============================================
+// C
+// ============================================
+
+function generateC(model: ScannerModel, style: ScannerStyle): string {
+  const states = model.labels.length;
+  const symbols = model.symbols.length;
+
+  const lines: string[] = [
+    '/*',
+    ...header(model, style, ' * '),
+    ' *',
+    ' * Compilar: cc -std=c99 -o scanner scanner.c',
+    ' * Uso: ./scanner <cadena>',
+    ' */',
+    '',
+    '#include <stdbool.h>',
+    '#include <stdio.h>',
+    '#include <string.h>',
+    '',
+    `#define NUM_STATES ${states}`,
+    `#define NUM_SYMBOLS ${symbols}`,
+    `#define START ${model.start}`,
+    '',
+    `static const char *SYMBOLS[NUM_SYMBOLS > 0 ? NUM_SYMBOLS : 1] = {${symbols > 0 ? model.symbols.map(cString).join(', ') : '""'}};`,
+    `static const int SYMBOL_ORDER[NUM_SYMBOLS > 0 ? NUM_SYMBOLS : 1] = {${symbols > 0 ? model.symbolOrder.join(', ') : '0'}}; /* Símbolos más largos primero */`,
+    `static const bool ACCEPTING[NUM_STATES] = {${model.accepting.join(', ')}};`,
+    '',
+  ];
+
+  if (style === 'table') {
+    lines.push(
+      '/* TRANSITIONS[estado][símbolo] = siguiente estado (-1 = error) */',
+      `static const int TRANSITIONS[NUM_STATES][NUM_SYMBOLS > 0 ? NUM_SYMBOLS : 1] = {`,
+      ...model.delta.map((row, i) => `    {${symbols > 0 ? row.join(', ') : '-1'}}, /* ${model.labels[i]} */`),
+      '};',
+      '',
+      'static int next_state(int state, int symbol) {',
+      '    return TRANSITIONS[state][symbol];',
+      '}',
+    );
+  } else {
+    lines.push('static int next_state(int state, int symbol) {', '    switch (state) {');
+    for (const [state, cases] of switchCases(model)) {
+      lines.push(`    case ${state}: /* ${model.labels[state]} */`);
+      if (cases.length > 0) {
+        lines.push('        switch (symbol) {');
+        for (const [c, to] of cases) {
+          lines.push(`        case ${c}: return ${to}; /* ${cString(model.symbols[c])} -> ${model.labels[to]} */`);
+        }
+        lines.push('        }');
+      }
+      lines.push('        return -1;');
+    }
+    lines.push('    }', '    return -1;', '}');
+  }
+
+  lines.push(
+    '',
+    '/* Lee el símbolo más largo del alfabeto en input; guarda su longitud en *length */',
+    'static int read_symbol(const char *input, size_t *length) {',
+    '    for (int i = 0; i < NUM_SYMBOLS; i++) {',
+    '        const char *symbol = SYMBOLS[SYMBOL_ORDER[i]];',
+    '        size_t n = strlen(symbol);',
+    '        if (strncmp(input, symbol, n) == 0) {',
+    '            *length = n;',
+    '            return SYMBOL_ORDER[i];',
+    '        }',
+    '    }',
+    '    *length = 0;',
+    '    return -1;',
+    '}',
+    '',
+    '/* Longitud del prefijo aceptado más largo (-1 si no hay ninguno) */',
+    'long longest_match(const char *input) {',
+    '    int state = START;',
+    '    size_t pos = 0;',
+    '    long last = ACCEPTING[state] ? 0 : -1;',
+    '',
+    "    while (input[pos] != '\\0') {",
+    '        size_t length;',
+    '        int symbol = read_symbol(input + pos, &length);',
+    '        if (symbol < 0) break;',
+    '        int next = next_state(state, symbol);',
+    '        if (next < 0) break;',
+    '        state = next;',
+    '        pos += length;',
+    '        if (ACCEPTING[state]) last = (long) pos;',
+    '    }',
+    '',
+    '    return last;',
+    '}',
+    '',
+    '/* Indica si la cadena completa pertenece al lenguaje */',
+    'bool accepts(const char *input) {',
+    '    return longest_match(input) == (long) strlen(input);',
+    '}',
+    '',
+    'int main(int argc, char **argv) {',
+    '    const char *input = argc > 1 ? argv[1] : "";',
+    '    long match = longest_match(input);',
+    '    puts(accepts(input) ? "ACEPTADA" : "RECHAZADA");',
+    '    if (match >= 0) {',
+    '        printf("Lexema más largo: \\"%.*s\\"\\n", (int) match, input);',
+    '    } else {',
+    '        puts("Ningún prefijo aceptado");',
+    '    }',
+    '    return 0;',
+    '}',
+  );
+
+  return lines.join('\n') + '\n';
+}
+
+// ============================================
+// Python
+// ============================================
+
+function generatePython(model: ScannerModel, style: ScannerStyle): string {
+  const lines: string[] = [
+    '"""',
+    ...header(model, style, ''),
+    '',
+    'Uso: python3 scanner.py <cadena>',
+    '"""',
+    '',
+    'import sys',
+    '',
+    `SYMBOLS = [${model.symbols.map(quote).join(', ')}]`,
+    `SYMBOL_ORDER = [${model.symbolOrder.join(', ')}]  # Símbolos más largos primero`,
+    `START = ${model.start}`,
+    `ACCEPTING = [${model.accepting.map(a => (a ? 'True' : 'False')).join(', ')}]`,
+    '',
+  ];
+
+  if (style === 'table') {
+    lines.push(
+      '# TRANSITIONS[estado][símbolo] = siguiente estado (-1 = error)',
+      'TRANSITIONS = [',
+      ...model.delta.map((row, i) => `    [${row.join(', ')}],  # ${model.labels[i]}`),
+      ']',
+      '',
+      '',
+      'def next_state(state, symbol):',
+      '    return TRANSITIONS[state][symbol]',
+    );
+  } else {
+    lines.push('', 'def next_state(state, symbol):');
+    const cases = switchCases(model);
+    cases.forEach(([state, transitions], i) => {
+      lines.push(`    ${i === 0 ? 'if' : 'elif'} state == ${state}:  # ${model.labels[state]}`);
+      if (transitions.length === 0) {
+        lines.push('        return -1');
+      }
+      transitions.forEach(([c, to], j) => {
+        lines.push(`        ${j === 0 ? 'if' : 'elif'} symbol == ${c}:  # ${quote(model.symbols[c])} -> ${model.labels[to]}`);
+        lines.push(`            return ${to}`);
+      });
+    });
+    lines.push('    return -1');
+  }
+
+  lines.push(
+    '',
+    '',
+    'def read_symbol(text, pos):',
+    '    """Lee el símbolo más largo del alfabeto en pos; retorna (símbolo, longitud)"""',
+    '    for symbol in SYMBOL_ORDER:',
+    '        if text.startswith(SYMBOLS[symbol], pos):',
+    '            return symbol, len(SYMBOLS[symbol])',
+    '    return -1, 0',
+    '',
+    '',
+    'def longest_match(text, start=0):',
+    '    """Longitud del prefijo aceptado más largo desde start (-1 si no hay ninguno)"""',
+    '    state = START',
+    '    pos = start',
+    '    last = 0 if ACCEPTING[state] else -1',
+    '',
+    '    while pos < len(text):',
+    '        symbol, length = read_symbol(text, pos)',
+    '        if symbol < 0:',
+    '            break',
+    '        nxt = next_state(state, symbol)',
+    '        if nxt < 0:',
+    '            break',
+    '        state = nxt',
+    '        pos += length',
+    '        if ACCEPTING[state]:',
+    '            last = pos - start',
+    '',
+    '    return last',
+    '',
+    '',
+    'def accepts(text):',
+    '    """Indica si la cadena completa pertenece al lenguaje"""',
+    '    return longest_match(text) == len(text)',
+    '',
+    '',
+    'if __name__ == "__main__":',
+    '    text = sys.argv[1] if len(sys.argv) > 1 else ""',
+    '    match = longest_match(text)',
+    '    print("ACEPTADA" if accepts(text) else "RECHAZADA")',
+    '    if match >= 0:',
+    '        print(f\'Lexema más largo: "{text[:match]}"\')',
+    '    else:',
+    '        print("Ningún prefijo aceptado")',
+  );
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Genera el código fuente de un escáner para el AFD indicado
+ */
+export function generateScanner(
+  automaton: Automaton,
+  language: ScannerLanguage,
+  style: ScannerStyle
+): GeneratedScanner {
+  const model = buildModel(automaton);
+
+  const code = language === 'typescript'
+    ? generateTypeScript(model, style)
+    : language === 'c'
+      ? generateC(model, style)
+      : generatePython(model, style);
+
+  return {
+    language,
+    style,
+    code,
+    fileName: `scanner-${style}.${fileExtensions[language]}`,
+  };
+}
@@ -5,14 +5,88 @@
  * Soporta tanto AFD como AFN.
  */
 
-import { Automaton, RecognitionResult, RecognitionStep } from '@/lib/types/automata';
+import {
+  Automaton,
+  ComputationTree,
+  ComputationTreeNode,
+  InputSymbol,
+  RecognitionResult,
+  RecognitionStep,
+} from '@/lib/types/automata';
+import { analyzeLanguage } from './language-analysis';
+
+/**
+ * Divide una cadena de entrada en símbolos del alfabeto, con la posición
+ * (inicio y fin) de cada uno en la cadena original.
+ *
+ * Si todos los símbolos son de un carácter, cada carácter es un símbolo.
+ * Si hay símbolos de varios caracteres (ej: 'id', ':='), se toma en cada
+ * posición el símbolo más largo que coincida y se saltan los espacios que
+ * separan símbolos (quedan como huecos entre posiciones). Los caracteres que no
+ * forman ningún símbolo se devuelven sueltos para que el reconocimiento los
+ * reporte como fuera del alfabeto.
+ */
+export function locateInputSymbols(input: string, alphabet: string[]): InputSymbol[] {
+  const symbols = alphabet.filter(s => s !== 'ε');
+  const result: InputSymbol[] = [];
+
+  if (symbols.every(s => s.length <= 1)) {
+    let start = 0;
+    for (const char of input) {
+      result.push({ symbol: char, start, end: start + char.length });
+      start += char.length;
+    }
+    return result;
+  }
+
+  const sorted = [...symbols].sort((a, b) => b.length - a.length);
+  let i = 0;
+
+  while (i < input.length) {
+    const match = sorted.find(s => s.length > 0 && input.startsWith(s, i));
+
+    if (match) {
+      result.push({ symbol: match, start: i, end: i + match.length });
+      i += match.length;
+    } else if (/\s/.test(input[i])) {
+      i++;
+    } else {
+      result.push({ symbol: input[i], start: i, end: i + 1 });
+      i++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Divide una cadena de entrada en símbolos del alfabeto (ver locateInputSymbols)
+ */
+export function splitInputSymbols(input: string, alphabet: string[]): string[] {
+  return locateInputSymbols(input, alphabet).map(s => s.symbol);
+}
+
+/**
+ * Une una lista de símbolos para mostrarla como entrada restante.
+ * Los símbolos de varios caracteres se separan con espacios.
+ */
+function joinSymbols(symbols: string[]): string {
+  return symbols.join(symbols.some(s => s.length > 1) ? ' ' : '');
+}
 
 /**
  * Simula un AFD para reconocer una cadena
  */
 export function recognizeStringDFA(automaton: Automaton, input: string): RecognitionResult {
+  return recognizeSymbolsDFA(automaton, splitInputSymbols(input, automaton.alphabet));
+}
+
+/**
+ * Simula un AFD sobre una entrada ya dividida en símbolos
+ */
+export function recognizeSymbolsDFA(automaton: Automaton, symbols: string[]): RecognitionResult {
   const steps: RecognitionStep[] = [];
-  
+
   // Encontrar estado inicial
   const initialState = automaton.states.find(s => s.isInitial);
   if (!initialState) {
@@ -20,14 +94,14 @@ export function recognizeStringDFA(automaton: Automaton, input: string): Recogni
       accepted: false,
       transitions: [],
       currentState: '',
-      remainingInput: input,
+      remainingInput: joinSymbols(symbols),
       message: 'Error: No hay estado inicial definido',
       steps: [],
     };
   }
 
   let currentStateId = initialState.id;
-  let remainingInput = input;
+  let remainingInput = joinSymbols(symbols);
   
   // Paso inicial
   steps.push({
@@ -35,13 +109,13 @@ export function recognizeStringDFA(automaton: Automaton, input: string): Recogni
     currentState: initialState.label,
     symbol: '',
     nextState: initialState.label,
-    remainingInput: input,
+    remainingInput,
     action: 'Estado inicial',
   });
 
   // Procesar cada símbolo de la entrada
-  for (let i = 0; i < input.length; i++) {
-    const symbol = input[i];
+  for (let i = 0; i < symbols.length; i++) {
+    const symbol = symbols[i];
 
     // Verificar que el símbolo pertenece al alfabeto
     if (!automaton.alphabet.includes(symbol)) {
@@ -50,7 +124,7 @@ export function recognizeStringDFA(automaton: Automaton, input: string): Recogni
         accepted: false,
         transitions: steps.map(s => ({ from: s.currentState, symbol: s.symbol, to: s.nextState })),
         currentState: currentState?.label || '',
-        remainingInput: remainingInput.substring(1),
+        remainingInput: joinSymbols(symbols.slice(i + 1)),
         message: `Error: El símbolo '${symbol}' no pertenece al alfabeto`,
         steps,
       };
@@ -67,7 +141,7 @@ export function recognizeStringDFA(automaton: Automaton, input: string): Recogni
         accepted: false,
         transitions: steps.map(s => ({ from: s.currentState, symbol: s.symbol, to: s.nextState })),
         currentState: currentState?.label || '',
-        remainingInput: remainingInput.substring(1),
+        remainingInput: joinSymbols(symbols.slice(i + 1)),
         message: `Rechazada: No hay transición desde ${currentState?.label} con '${symbol}'`,
         steps,
       };
@@ -82,13 +156,13 @@ export function recognizeStringDFA(automaton: Automaton, input: string): Recogni
         accepted: false,
         transitions: steps.map(s => ({ from: s.currentState, symbol: s.symbol, to: s.nextState })),
         currentState: currentState?.label || '',
-        remainingInput: remainingInput.substring(1),
+        remainingInput: joinSymbols(symbols.slice(i + 1)),
         message: `Error: Estado destino no encontrado`,
         steps,
       };
     }
 
-    remainingInput = remainingInput.substring(1);
+    remainingInput = joinSymbols(symbols.slice(i + 1));
 
     steps.push({
       stepNumber: i + 1,
@@ -162,7 +236,8 @@ export function recognizeStringNFA(automaton: Automaton, input: string): Recogni
 
   // Conjunto de estados actuales (considerando cerradura-ε)
   let currentStates = epsilonClosureSet(new Set([initialState.id]), automaton);
-  let remainingInput = input;
+  const symbols = splitInputSymbols(input, automaton.alphabet);
+  let remainingInput = joinSymbols(symbols);
 
   // Paso inicial
   const initialStateLabels = Array.from(currentStates).map(id => {
@@ -175,13 +250,13 @@ export function recognizeStringNFA(automaton: Automaton, input: string): Recogni
     currentState: initialStateLabels,
     symbol: '',
     nextState: initialStateLabels,
-    remainingInput: input,
+    remainingInput,
     action: 'Estado inicial (con ε-cerradura)',
   });
 
   // Procesar cada símbolo
-  for (let i = 0; i < input.length; i++) {
-    const symbol = input[i];
+  for (let i = 0; i < symbols.length; i++) {
+    const symbol = symbols[i];
 
     // Verificar alfabeto
     if (!automaton.alphabet.includes(symbol) && symbol !== 'ε') {
@@ -189,7 +264,7 @@ export function recognizeStringNFA(automaton: Automaton, input: string): Recogni
         accepted: false,
         transitions: steps.map(s => ({ from: s.currentState, symbol: s.symbol, to: s.nextState })),
         currentState: Array.from(currentStates).join(', '),
-        remainingInput: remainingInput.substring(1),
+        remainingInput: joinSymbols(symbols.slice(i + 1)),
         message: `Error: El símbolo '${symbol}' no pertenece al alfabeto`,
         steps,
       };
@@ -218,13 +293,13 @@ export function recognizeStringNFA(automaton: Automaton, input: string): Recogni
           const state = automaton.states.find(s => s.id === id);
           return state?.label || id;
         }).join(', '),
-        remainingInput: remainingInput.substring(1),
+        remainingInput: joinSymbols(symbols.slice(i + 1)),
         message: `Rechazada: No hay transición desde los estados actuales con '${symbol}'`,
         steps,
       };
     }
 
-    remainingInput = remainingInput.substring(1);
+    remainingInput = joinSymbols(symbols.slice(i + 1));
 
     const currentStateLabels = Array.from(currentStates).map(id => {
       const state = automaton.states.find(s => s.id === id);
@@ -265,6 +340,94 @@ export function recognizeStringNFA(automaton: Automaton, input: string): Recogni
   };
 }
 
+/**
+ * Construye el árbol de cómputo de un AFN sobre una entrada: cada nodo es una
+ * configuración (estado, símbolos leídos) y cada hijo una transición posible
+ * con ε o con el siguiente símbolo. A diferencia de recognizeStringNFA no se
+ * fusionan las ramas que llegan al mismo estado.
+ *
+ * El árbol se expande en anchura hasta `maxNodes` nodos; las configuraciones
+ * que quedan sin expandir se marcan como 'pruned'. Dentro de una cadena de
+ * movimientos ε no se vuelve a un estado ya visitado, así los ciclos ε no
+ * generan ramas infinitas.
+ */
+export function buildComputationTree(
+  automaton: Automaton,
+  input: string,
+  maxNodes: number = 150
+): ComputationTree {
+  const initialState = automaton.states.find(s => s.isInitial);
+  if (!initialState) {
+    throw new Error('El autómata debe tener un estado inicial');
+  }
+
+  const symbols = splitInputSymbols(input, automaton.alphabet);
+  const finals = new Set(automaton.states.filter(s => s.isFinal).map(s => s.id));
+  const labelOf = (id: string) => automaton.states.find(s => s.id === id)?.label || id;
+
+  let nodeCount = 0;
+  let truncated = false;
+  const createNode = (stateId: string, consumed: number, symbol?: string): ComputationTreeNode => ({
+    id: `config-${nodeCount++}`,
+    stateId,
+    state: labelOf(stateId),
+    consumed,
+    symbol,
+    status: 'branch',
+    leadsToAcceptance: false,
+    children: [],
+  });
+
+  const root = createNode(initialState.id, 0);
+  // Cada configuración pendiente guarda los estados de su cadena ε actual
+  const queue: Array<{ node: ComputationTreeNode; epsilonChain: Set<string> }> = [
+    { node: root, epsilonChain: new Set([initialState.id]) },
+  ];
+
+  while (queue.length > 0) {
+    const { node, epsilonChain } = queue.shift()!;
+    const next = symbols[node.consumed];
+    const accepting = node.consumed === symbols.length && finals.has(node.stateId);
+
+    const moves = automaton.transitions.filter(t =>
+      t.from === node.stateId &&
+      ((t.symbol === 'ε' && !epsilonChain.has(t.to)) || (next !== undefined && t.symbol === next))
+    );
+
+    if (moves.length === 0) {
+      node.status = accepting ? 'accepted' : node.consumed === symbols.length ? 'rejected' : 'dead';
+      continue;
+    }
+
+    if (nodeCount + moves.length > maxNodes) {
+      node.status = accepting ? 'accepted' : 'pruned';
+      truncated = true;
+      continue;
+    }
+
+    if (accepting) node.status = 'accepted';
+    for (const move of moves) {
+      const isEpsilon = move.symbol === 'ε';
+      const child = createNode(move.to, isEpsilon ? node.consumed : node.consumed + 1, move.symbol);
+      node.children.push(child);
+      queue.push({
+        node: child,
+        epsilonChain: isEpsilon ? new Set([...epsilonChain, move.to]) : new Set([move.to]),
+      });
+    }
+  }
+
+  // Marca las ramas que llevan a aceptación (postorden)
+  const markAcceptance = (node: ComputationTreeNode): boolean => {
+    const childAccepts = node.children.map(markAcceptance).some(Boolean);
+    node.leadsToAcceptance = node.status === 'accepted' || childAccepts;
+    return node.leadsToAcceptance;
+  };
+  markAcceptance(root);
+
+  return { input: symbols, root, nodeCount, truncated };
+}
+
 /**
  * Reconoce una cadena usando el autómata apropiado (AFD o AFN)
  */
@@ -293,55 +456,16 @@ export function recognizeString(automaton: Automaton, input: string): Recognitio
 }
 
 /**
- * Genera todas las cadenas aceptadas por el autómata hasta una longitud máxima
- * Útil para pruebas y visualización
+ * Genera las cadenas aceptadas por el autómata hasta una longitud máxima,
+ * en orden longitud-lexicográfico (la cadena vacía se devuelve como 'ε')
  */
 export function generateAcceptedStrings(
   automaton: Automaton,
   maxLength: number = 5,
   maxCount: number = 100
 ): string[] {
-  const acceptedStrings: string[] = [];
-
-  // Generar todas las combinaciones posibles
-  function generateCombinations(length: number): string[] {
-    if (length === 0) return [''];
-    
-    const shorter = generateCombinations(length - 1);
-    const result: string[] = [];
-    
-    for (const str of shorter) {
-      for (const symbol of automaton.alphabet) {
-        if (symbol !== 'ε') {
-          result.push(str + symbol);
-        }
-      }
-    }
-    
-    return result;
-  }
-
-  // Probar cadena vacía
-  const emptyResult = recognizeString(automaton, '');
-  if (emptyResult.accepted) {
-    acceptedStrings.push('ε');
-  }
-
-  // Probar cadenas de longitud creciente
-  for (let len = 1; len <= maxLength && acceptedStrings.length < maxCount; len++) {
-    const combinations = generateCombinations(len);
-    
-    for (const str of combinations) {
-      if (acceptedStrings.length >= maxCount) break;
-      
-      const result = recognizeString(automaton, str);
-      if (result.accepted) {
-        acceptedStrings.push(str);
-      }
-    }
-  }
-
-  return acceptedStrings;
+  const { strings } = analyzeLanguage(automaton, { maxLength, maxStrings: maxCount });
+  return strings.map(symbols => (symbols.length === 0 ? 'ε' : joinSymbols(symbols)));
 }
 
 /**
@@ -47,9 +47,14 @@ const parseAsGrammar = createParser({
 // ============================================
 // Analizador Léxico - AFD Full
 // ============================================
+const postMinimizationModes = ['none', 'moore', 'hopcroft'] as const;
+const afdFullStagesModes = ['direct', 'three-stage'] as const; // Subconjuntos sobre el AFN-ε o AFN-ε → AFN → AFD
+
 export const afdFullSearchParams = {
   regex: parseAsString.withDefault(''),
   languages: parseAsArrayOf(parseAsString).withDefault([]),
+  minimize: parseAsStringLiteral(postMinimizationModes).withDefault('none'),
+  stages: parseAsStringLiteral(afdFullStagesModes).withDefault('direct'),
 };
 
 export type AFDFullSearchParams = inferParserType<typeof afdFullSearchParams>;
@@ -60,16 +65,44 @@ export type AFDFullSearchParams = inferParserType<typeof afdFullSearchParams>;
 export const afdShortSearchParams = {
   regex: parseAsString.withDefault(''),
   languages: parseAsArrayOf(parseAsString).withDefault([]),
+  minimize: parseAsStringLiteral(postMinimizationModes).withDefault('none'),
 };
 
 export type AFDShortSearchParams = inferParserType<typeof afdShortSearchParams>;
 
+// ============================================
+// Analizador Léxico - AFD por derivadas (Brzozowski)
+// ============================================
+export const afdBrzozowskiSearchParams = {
+  regex: parseAsString.withDefault(''),
+  languages: parseAsArrayOf(parseAsString).withDefault([]),
+  minimize: parseAsStringLiteral(postMinimizationModes).withDefault('none'),
+};
+
+export type AFDBrzozowskiSearchParams = inferParserType<typeof afdBrzozowskiSearchParams>;
+
 // ============================================
 // Analizador Léxico - Reconocer
 // ============================================
+const recognitionModes = ['automaton', 'lexer', 'batch'] as const;
+const recognizerAutomata = ['afd', 'afn'] as const;
+const automatonSources = ['regex', 'visual', 'table'] as const; // También en Minimizar y Operaciones
+
 export const reconocerSearchParams = {
+  mode: parseAsStringLiteral(recognitionModes).withDefault('automaton'),
   regex: parseAsString.withDefault(''),
+  recognizer: parseAsStringLiteral(recognizerAutomata).withDefault('afd'), // Autómata que reconoce: AFD óptimo o AFN de Thompson
   testString: parseAsString.withDefault(''),
+  tokens: parseAsString, // JSON stringified token definitions
+  lexerInput: parseAsString.withDefault(''),
+  // Pruebas por lote: A₁ usa `regex` si su origen es una ER; A₂ es opcional
+  sourceA: parseAsStringLiteral(automatonSources).withDefault('regex'),
+  sourceB: parseAsStringLiteral(automatonSources).withDefault('regex'),
+  regexB: parseAsString.withDefault(''),
+  automatonA: parseAsString, // JSON stringified automaton
+  automatonB: parseAsString, // JSON stringified automaton
+  compare: parseAsBoolean.withDefault(false), // Si se prueba también A₂
+  suite: parseAsString.withDefault(''), // Batería de pruebas (una cadena y su resultado esperado por línea)
 };
 
 export type ReconocerSearchParams = inferParserType<typeof reconocerSearchParams>;
@@ -79,16 +112,69 @@ export type ReconocerSearchParams = inferParserType<typeof reconocerSearchParams
 // ============================================
 const inputModes = ['visual', 'table'] as const;
 const alphabetModes = ['auto', 'custom'] as const;
+const eliminationHeuristics = ['definition', 'custom', 'fewest-edges', 'fewest-paths', 'min-weight'] as const;
 
 export const afToErSearchParams = {
   inputMode: parseAsStringLiteral(inputModes).withDefault('visual'),
   alphabetMode: parseAsStringLiteral(alphabetModes).withDefault('auto'),
   customAlphabet: parseAsArrayOf(parseAsString).withDefault([]),
   automaton: parseAsString, // JSON stringified automaton
+  heuristic: parseAsStringLiteral(eliminationHeuristics).withDefault('definition'),
+  eliminationOrder: parseAsArrayOf(parseAsString).withDefault([]), // IDs de estados (orden personalizado)
 };
 
 export type AFToERSearchParams = inferParserType<typeof afToErSearchParams>;
 
+// ============================================
+// Analizador Léxico - Minimizar AFD
+// ============================================
+const minimizationMethods = ['moore', 'hopcroft'] as const;
+
+export const minimizarSearchParams = {
+  source: parseAsStringLiteral(automatonSources).withDefault('regex'),
+  method: parseAsStringLiteral(minimizationMethods).withDefault('hopcroft'),
+  regex: parseAsString.withDefault(''),
+  automaton: parseAsString, // JSON stringified automaton
+};
+
+export type MinimizarSearchParams = inferParserType<typeof minimizarSearchParams>;
+
+// ============================================
+// Analizador Léxico - Operaciones con Autómatas
+// ============================================
+const automatonOperations = [
+  'union',
+  'intersection',
+  'difference',
+  'complement',
+  'reverse',
+  'concatenation',
+  'star',
+] as const;
+
+export const operacionesSearchParams = {
+  operation: parseAsStringLiteral(automatonOperations).withDefault('union'),
+  sourceA: parseAsStringLiteral(automatonSources).withDefault('regex'),
+  sourceB: parseAsStringLiteral(automatonSources).withDefault('regex'),
+  regexA: parseAsString.withDefault(''),
+  regexB: parseAsString.withDefault(''),
+  automatonA: parseAsString, // JSON stringified automaton
+  automatonB: parseAsString, // JSON stringified automaton
+  alphabet: parseAsArrayOf(parseAsString).withDefault([]),
+  minimize: parseAsBoolean.withDefault(false),
+};
+
+export type OperacionesSearchParams = inferParserType<typeof operacionesSearchParams>;
+
+// ============================================
+// Analizador Léxico - Simplificar ER
+// ============================================
+export const simplificarSearchParams = {
+  regex: parseAsString.withDefault(''),
+};
+
+export type SimplificarSearchParams = inferParserType<typeof simplificarSearchParams>;
+
 // ============================================
 // Análisis Sintáctico Descendente (ASD/LL)
 // ============================================
@@ -132,8 +218,12 @@ export type CompilerSearchParams = inferParserType<typeof compilerSearchParams>;
 // ============================================
 export const serializeAFDFull = createSerializer(afdFullSearchParams);
 export const serializeAFDShort = createSerializer(afdShortSearchParams);
+export const serializeAFDBrzozowski = createSerializer(afdBrzozowskiSearchParams);
 export const serializeReconocer = createSerializer(reconocerSearchParams);
 export const serializeAFToER = createSerializer(afToErSearchParams);
+export const serializeMinimizar = createSerializer(minimizarSearchParams);
+export const serializeOperaciones = createSerializer(operacionesSearchParams);
+export const serializeSimplificar = createSerializer(simplificarSearchParams);
 export const serializeASD = createSerializer(asdSearchParams);
 export const serializeASA = createSerializer(asaSearchParams);
 export const serializeCompiler = createSerializer(compilerSearchParams);
@@ -2,6 +2,8 @@
  * Tipos fundamentales para el sistema de autómatas finitos
  */
 
+import type { Grammar } from './grammar';
+
 /**
  * Estado de un autómata finito
  */
@@ -28,6 +30,25 @@ export interface SubsetState {
   constituentStates: Set<string>; // Conjunto de estados originales que componen este estado
 }
 
+/**
+ * Iteración del método de subconjuntos
+ * - initial: Dstates = { ε-cerradura(s0) }
+ * - move: se toma T no marcado y se calcula ε-cerradura(move(T, a))
+ */
+export interface SubsetConstructionStep {
+  stepNumber: number; // Número del paso
+  kind: 'initial' | 'move'; // Tipo de paso
+  description: string; // Descripción del paso
+  current?: string; // Estado T del AFD que se procesa (no marcado)
+  currentStates: string[]; // Estados del AFN que componen T (o {s0} en el paso inicial)
+  symbol?: string; // Símbolo a
+  move: string[]; // move(T, a) (vacío en el paso inicial)
+  closure: string[]; // ε-cerradura(move(T, a)) o ε-cerradura(s0)
+  target?: string; // Estado del AFD resultante (ausente si la cerradura es vacía)
+  isNew: boolean; // Si el estado resultante se agregó a Dstates en este paso
+  unmarked: string[]; // Estados de Dstates aún sin marcar tras el paso
+}
+
 /**
  * Autómata finito completo
  */
@@ -39,6 +60,9 @@ export interface Automaton {
   type: 'NFA' | 'DFA' | 'EPSILON_NFA'; // Tipo de autómata
   name?: string; // Nombre descriptivo opcional
   subsetStates?: SubsetState[]; // Estados subconjuntos (para AFD construido por subconjuntos)
+  subsetSteps?: SubsetConstructionStep[]; // Traza del método de subconjuntos
+  thompson?: ThompsonConstruction; // Traza del método de Thompson (AFN construido desde ER)
+  brzozowski?: BrzozowskiConstruction; // Traza del método de derivadas (AFD construido desde ER)
 }
 
 /**
@@ -47,8 +71,52 @@ export interface Automaton {
 export interface AutomatonConfig {
   languages: string[]; // Lista de lenguajes (ej: ["L={a,d}", "L={a,d}*"])
   regex?: string; // Expresión regular (opcional)
-  algorithm: 'afd-full' | 'afd-short'; // Algoritmo a usar
+  algorithm: DFAConstructionMethod; // Algoritmo a usar
   showSteps?: boolean; // Si se deben mostrar los pasos intermedios
+  alphabet?: string[]; // Alfabeto declarado (opcional, para clases negadas como [^a])
+  minimization?: MinimizationMethod; // Minimización posterior del AFD (opcional)
+}
+
+/**
+ * Métodos de construcción de un AFD desde una expresión regular
+ * - afd-full: Thompson + subconjuntos
+ * - afd-short: árbol sintáctico (siguientes / followpos)
+ * - afd-brzozowski: derivadas de Brzozowski
+ */
+export type DFAConstructionMethod = 'afd-full' | 'afd-short' | 'afd-brzozowski';
+
+/**
+ * Cálculo de una derivada ∂a(r) en el método de Brzozowski
+ */
+export interface DerivativeStep {
+  stepNumber: number; // Número del paso
+  from: string; // Estado cuya expresión se deriva
+  expression: string; // Expresión del estado r
+  symbol: string; // Símbolo a
+  rule: string; // Regla de derivación aplicada en la raíz de r
+  raw: string; // ∂a(r) tal como sale de las reglas, sin simplificar
+  derivative: string; // ∂a(r) normalizada por similitud
+  normalizations: string[]; // Identidades de similitud aplicadas al normalizar
+  target?: string; // Estado resultante (ausente si la derivada es ∅)
+  isNew: boolean; // Si el estado resultante se agregó en este paso
+}
+
+/**
+ * Traza completa del método de derivadas de Brzozowski
+ */
+export interface BrzozowskiConstruction {
+  regex: string; // Expresión regular original
+  states: Array<{ id: string; expression: string; nullable: boolean }>; // Estado ↔ derivada
+  steps: DerivativeStep[]; // Una derivada por estado y símbolo
+}
+
+/**
+ * Resultado de una construcción de AFD en la comparación de métodos
+ */
+export interface DFAConstructionComparison {
+  method: DFAConstructionMethod;
+  automaton: Automaton; // AFD construido por el método
+  equivalent: boolean; // Reconoce el mismo lenguaje que la construcción por derivadas
 }
 
 export interface NFAFragment {
@@ -58,11 +126,44 @@ export interface NFAFragment {
   transitions: Transition[];
 }
 
+/**
+ * Paso del método de Thompson: fragmento de AFN construido en un nodo
+ * del árbol sintáctico (recorrido en postorden)
+ */
+export interface ThompsonStep {
+  stepNumber: number; // Número del paso
+  nodeId: string; // ID del nodo del árbol sintáctico
+  nodeType: TreeNode['type']; // Tipo de nodo (regla aplicada)
+  expression: string; // Subexpresión que reconoce el fragmento
+  rule: string; // Nombre de la regla de Thompson
+  description: string; // Explicación de la construcción
+  fragment: Automaton; // Fragmento N(r) construido en este nodo
+  children: number[]; // Pasos cuyos fragmentos se combinan en este
+}
+
+/**
+ * Traza completa del método de Thompson
+ */
+export interface ThompsonConstruction {
+  tree: SyntaxTree; // Árbol sintáctico usado (sin aumentar)
+  steps: ThompsonStep[]; // Un paso por nodo, en postorden
+}
+
 export interface AutomatonResults {
   automatonAFN?: Automaton;
   automatonAFD: Automaton;
   syntaxTree?: SyntaxTree;
   automatonAFDNonOptimized?: Automaton;
+  minimization?: MinimizationResult; // Resultado de la minimización posterior (si se pidió)
+}
+
+/**
+ * Símbolo de una cadena de entrada con su posición en la cadena original
+ */
+export interface InputSymbol {
+  symbol: string; // Símbolo del alfabeto (o carácter fuera de él)
+  start: number; // Índice del primer carácter
+  end: number; // Índice siguiente al último carácter
 }
 
 /**
@@ -89,18 +190,93 @@ export interface RecognitionStep {
   action: string; // Acción realizada
 }
 
+/**
+ * Caso de una batería de pruebas: cadena y resultado esperado
+ */
+export interface StringTestCase {
+  input: string; // Cadena a probar ('' para la cadena vacía)
+  expected: boolean | null; // true: aceptar, false: rechazar, null: sin etiqueta
+  line: number; // Línea del texto de pruebas (desde 1)
+}
+
+/**
+ * Fila de resultados de una batería de pruebas
+ */
+export interface StringTestRow {
+  testCase: StringTestCase;
+  results: RecognitionResult[]; // Un resultado por autómata probado
+  mismatches: boolean[]; // Por autómata: si el resultado difiere del esperado
+  disagreement: boolean; // Si los autómatas no coinciden entre sí
+}
+
+/**
+ * Aciertos de un autómata en una batería de pruebas
+ */
+export interface StringTestScore {
+  passed: number; // Casos etiquetados con el resultado esperado
+  failed: number; // Casos etiquetados con un resultado distinto
+  accepted: number; // Cadenas aceptadas (con o sin etiqueta)
+}
+
+/**
+ * Resultado de probar una batería de cadenas contra uno o dos autómatas
+ */
+export interface StringTestSuiteResult {
+  rows: StringTestRow[];
+  scores: StringTestScore[]; // Uno por autómata
+  labeled: number; // Casos con resultado esperado
+  disagreements: number; // Casos en que los autómatas no coinciden
+}
+
+/**
+ * Nodo del árbol de cómputo de un AFN: una configuración (estado, símbolos leídos)
+ */
+export interface ComputationTreeNode {
+  id: string;
+  stateId: string;
+  state: string; // Etiqueta del estado
+  consumed: number; // Símbolos de la entrada ya leídos
+  symbol?: string; // Símbolo (o ε) de la transición desde el padre; la raíz no tiene
+  status: 'branch' | 'accepted' | 'rejected' | 'dead' | 'pruned';
+  leadsToAcceptance: boolean; // Si alguna rama de este subárbol termina aceptando
+  children: ComputationTreeNode[];
+}
+
+/**
+ * Árbol de cómputo con todas las ramas de un AFN sobre una entrada
+ * (alternativa a la simulación por conjuntos de estados)
+ */
+export interface ComputationTree {
+  input: string[]; // Símbolos de la entrada
+  root: ComputationTreeNode;
+  nodeCount: number;
+  truncated: boolean; // Si se dejaron ramas sin expandir por el máximo de nodos
+}
+
 /**
  * Nodo del árbol sintáctico para expresiones regulares
  */
 export interface TreeNode {
   id: string; // ID único del nodo
-  type: 'SYMBOL' | 'CONCAT' | 'UNION' | 'STAR' | 'PLUS' | 'OPTIONAL' | 'EPSILON'; // Tipo de nodo
+  type: 'SYMBOL' | 'CONCAT' | 'UNION' | 'STAR' | 'PLUS' | 'OPTIONAL' | 'EPSILON' | 'EMPTY'; // Tipo de nodo
   value: string; // Valor del nodo (símbolo u operador)
   children: TreeNode[]; // Hijos del nodo
   position?: number; // Posición en el árbol (para algoritmo de posiciones)
   nullable?: boolean; // Si el nodo puede generar epsilon
   firstpos?: Set<number>; // Conjunto de primeras posiciones
   lastpos?: Set<number>; // Conjunto de últimas posiciones
+  repetition?: Repetition; // Cuantificador {n,m} original si el nodo es su expansión
+}
+
+/**
+ * Cuantificador de repetición acotada {n}, {n,} o {n,m}.
+ * El árbol sintáctico contiene su expansión; aquí se conserva la forma original
+ * para poder mostrarla en el grafo.
+ */
+export interface Repetition {
+  min: number; // Mínimo de repeticiones
+  max: number | null; // Máximo de repeticiones (null = sin límite)
+  operand?: TreeNode; // Subárbol al que se aplica el cuantificador (primera copia; ausente en r{1}, cuya expansión es el propio operando)
 }
 
 /**
@@ -149,6 +325,164 @@ export interface EquationStep {
   explanation?: string; // Explicación adicional
 }
 
+/**
+ * Transición etiquetada con una expresión regular (AFN generalizado)
+ */
+export interface RegexTransition {
+  from: string;
+  to: string;
+  regex: string;
+}
+
+/**
+ * Criterio para elegir el siguiente estado a eliminar
+ * - definition: orden en que se definieron los estados
+ * - custom: orden indicado por el usuario
+ * - fewest-edges: menos aristas entrantes + salientes
+ * - fewest-paths: menos caminos nuevos (entrantes × salientes)
+ * - min-weight: menor aumento del tamaño de las expresiones
+ */
+export type EliminationHeuristic = 'definition' | 'custom' | 'fewest-edges' | 'fewest-paths' | 'min-weight';
+
+/**
+ * Paso en el proceso de eliminación de estados
+ */
+export interface StateEliminationStep {
+  stepNumber: number;
+  description: string;
+  action: 'init' | 'add-states' | 'eliminate' | 'final';
+  eliminatedState?: string;
+  transitions: RegexTransition[];
+  currentStates: string[];
+  explanation: string;
+  gnfa?: Automaton; // AFN generalizado tras el paso (aristas con expresiones regulares)
+  updatedTransitions?: RegexTransition[]; // Aristas creadas o modificadas en el paso
+}
+
+/**
+ * Opciones del método de eliminación de estados
+ */
+export interface StateEliminationOptions {
+  heuristic?: EliminationHeuristic;
+  order?: string[]; // IDs de estados para el orden personalizado (los omitidos se agregan al final)
+  simplify?: boolean; // Simplificar la ER final con identidades algebraicas (por defecto true)
+}
+
+/**
+ * Resultado de la conversión AF → ER por eliminación de estados
+ */
+export interface StateEliminationResult {
+  regex: string;
+  steps: StateEliminationStep[];
+  ardenEquations: Equation[];
+  heuristic: EliminationHeuristic;
+  order: string[]; // Estados en el orden en que se eliminaron
+  simplification?: RegexSimplification; // Presente si la ER final se simplificó
+}
+
+/**
+ * Tamaño de la expresión obtenida con un orden de eliminación
+ */
+export interface EliminationOrderComparison {
+  heuristic: EliminationHeuristic | 'exhaustive-best' | 'exhaustive-worst';
+  order: string[];
+  regex: string;
+  length: number; // Caracteres de la expresión
+  symbolCount: number; // Apariciones de símbolos del alfabeto
+}
+
+/**
+ * Identidades algebraicas que aplica el simplificador de expresiones regulares
+ */
+export type SimplificationRule =
+  | 'concat-empty' // ∅·r = r·∅ = ∅
+  | 'concat-epsilon' // ε·r = r·ε = r
+  | 'concat-star' // r*r* = r*
+  | 'plus-intro' // r·r* = r*·r = r+
+  | 'union-empty' // ∅|r = r
+  | 'union-duplicate' // r|r = r
+  | 'union-absorb' // r|r* = r*
+  | 'union-nullable' // ε|r = r si ε ∈ L(r)
+  | 'factor-prefix' // rs|rt = r(s|t)
+  | 'factor-suffix' // sr|tr = (s|t)r
+  | 'union-optional' // ε|r = r?
+  | 'closure-trivial' // ε* = ∅* = ε
+  | 'nested-closure' // (r*)* = r*, (r?)+ = r*, ...
+  | 'star-union-epsilon' // (ε|r)* = r*
+  | 'star-union-closure' // (r*|s)* = (r|s)*
+  | 'star-concat-nullable' // (rs)* = (r|s)* si ε ∈ L(r) y ε ∈ L(s)
+  | 'plus-nullable' // r+ = r* si ε ∈ L(r)
+  | 'optional-nullable'; // r? = r si ε ∈ L(r)
+
+/**
+ * Reescritura aplicada por el simplificador
+ */
+export interface SimplificationStep {
+  stepNumber: number;
+  rule: SimplificationRule;
+  identity: string; // Identidad aplicada, ej: "ε·r = r"
+  target: string; // Subexpresión reescrita
+  replacement: string; // Subexpresión resultante
+  before: string; // Expresión completa antes del paso
+  after: string; // Expresión completa después del paso
+  verified?: boolean; // target ≡ replacement por equivalencia de autómatas (si se verificó)
+}
+
+/**
+ * Opciones del simplificador de expresiones regulares
+ * - verify: 'steps' verifica cada reescritura y el resultado, 'result' solo el
+ *   resultado y 'none' no verifica (más rápido, para comparaciones masivas)
+ */
+export interface RegexSimplificationOptions {
+  alphabet?: string[];
+  verify?: 'steps' | 'result' | 'none';
+  maxSteps?: number;
+}
+
+/**
+ * Resultado de simplificar una expresión regular
+ */
+export interface RegexSimplification {
+  original: string;
+  simplified: string;
+  steps: SimplificationStep[];
+  equivalent?: boolean; // original ≡ simplified (si se verificó)
+  truncated: boolean; // Se alcanzó el máximo de pasos
+}
+
+/**
+ * Tabla R(i,j,k) del método de Kleene: expresiones de los caminos de i a j
+ * cuyos estados intermedios están entre los k primeros
+ */
+export interface KleeneTable {
+  k: number;
+  pivot?: string; // Estado que se admite como intermedio en esta tabla (k ≥ 1)
+  entries: string[][]; // entries[i][j] = R(i,j,k)
+  changed: boolean[][]; // Entradas que cambian respecto de la tabla k-1
+}
+
+/**
+ * Reducción aplicada al autómata antes de construir las tablas de Kleene
+ * - none: el autómata tal cual
+ * - trimmed: sin estados inalcanzables ni estados desde los que no se llega a un final
+ * - minimized: AFD mínimo (determinizado si era un AFN)
+ */
+export type KleeneReduction = 'none' | 'trimmed' | 'minimized';
+
+/**
+ * Resultado de la conversión AF → ER por el método de Kleene (McNaughton–Yamada)
+ */
+export interface KleeneResult {
+  regex: string;
+  automaton: Automaton; // Autómata sobre el que se construyeron las tablas
+  reduction: KleeneReduction;
+  removedStates: string[]; // Etiquetas de los estados descartados al recortar (reducción trimmed)
+  states: string[]; // IDs en el orden de numeración 1..n (el inicial es el 1)
+  tables: KleeneTable[]; // Tablas k = 0..n
+  finalTerms: Array<{ state: string; regex: string }>; // R(1,f,n) por cada estado final f
+  simplification?: RegexSimplification; // Presente si la ER final se simplificó
+}
+
 /**
  * Tabla de transiciones para construcción de autómatas
  */
@@ -175,3 +509,255 @@ export interface SyntaxTree {
   alphabet: string[]; // Alfabeto extraído
   positions: Map<number, string>; // Mapa de posiciones a símbolos
 }
+
+/**
+ * Algoritmo de minimización de AFD
+ * - moore: refinamiento por rondas (todas las clases se dividen a la vez)
+ * - hopcroft: refinamiento con lista de espera de divisores (bloque, símbolo)
+ */
+export type MinimizationMethod = 'moore' | 'hopcroft';
+
+/**
+ * División de un bloque de la partición durante la minimización
+ */
+export interface PartitionSplit {
+  block: string[]; // Bloque original (etiquetas de estados)
+  into: string[][]; // Bloques resultantes
+  symbol: string; // Símbolo que distingue a los estados
+  reason: string; // Explicación de la división
+}
+
+/**
+ * Paso (ronda de refinamiento) de la minimización
+ */
+export interface MinimizationStep {
+  stepNumber: number; // Número del paso
+  round: number; // Ronda de refinamiento (0 = partición inicial)
+  description: string; // Descripción del paso
+  partitions: string[][]; // Partición resultante (etiquetas de estados)
+  splitter?: { block: string[]; symbol: string }; // Divisor usado (Hopcroft)
+  splits: PartitionSplit[]; // Divisiones realizadas en este paso
+}
+
+/**
+ * Resultado de la minimización de un AFD
+ */
+export interface MinimizationResult {
+  method: MinimizationMethod; // Algoritmo utilizado
+  original: Automaton; // AFD de entrada (o el obtenido al determinizar el AFN de entrada)
+  nfa?: Automaton; // AFN de entrada, si hubo que determinizarlo antes de minimizar
+  automaton: Automaton; // AFD mínimo
+  unreachableStates: string[]; // Estados inalcanzables eliminados
+  deadStates: string[]; // Estados sin camino a un final eliminados (equivalentes al estado trampa)
+  partitions: string[][]; // Partición final (etiquetas de estados)
+  stateMapping: Record<string, string>; // Estado original → estado del AFD mínimo
+  steps: MinimizationStep[]; // Rondas de refinamiento
+}
+
+/**
+ * Celda de la tabla de distinguibilidad (par de estados)
+ */
+export interface DistinguishabilityCell {
+  pair: [string, string]; // Estados de la fila y de la columna (etiquetas)
+  round: number | null; // Ronda en que se marcó (null = equivalentes)
+  symbol?: string; // Símbolo con el que se marcó (rondas ≥ 1)
+  target?: [string, string]; // Par al que llevan con ese símbolo, ya marcado antes
+  suffix: string[] | null; // Sufijo distinguidor más corto (null = equivalentes)
+  acceptedBy?: string; // Estado del par que acepta el sufijo
+}
+
+/**
+ * Tabla de distinguibilidad (llenado de tabla de Myhill–Nerode)
+ */
+export interface DistinguishabilityTable {
+  states: string[]; // Estados en el orden de la tabla (incluye ∅ si el AFD es parcial)
+  cells: DistinguishabilityCell[][]; // cells[i][j] con j < i (triángulo inferior)
+  rounds: number; // Última ronda en la que se marcó algún par
+  classes: string[][]; // Clases de equivalencia (pares sin marcar)
+  unreachableStates: string[]; // Estados inalcanzables (no entran en la tabla)
+  hasTrap: boolean; // Se añadió el estado trampa ∅ para completar el AFD
+}
+
+/**
+ * Resultado de la comprobación de equivalencia de dos lenguajes
+ * (exploración del autómata producto de sus AFD)
+ */
+export interface EquivalenceResult {
+  equivalent: boolean; // Si ambos reconocen el mismo lenguaje
+  alphabet: string[]; // Alfabeto común usado en el producto
+  counterexample?: string[]; // Cadena distinguidora más corta (símbolos), si no son equivalentes
+  acceptedBy?: 'first' | 'second'; // Cuál de los dos acepta el contraejemplo
+  exploredPairs: number; // Pares de estados alcanzables visitados en el producto
+}
+
+/**
+ * Resumen del lenguaje reconocido por un autómata
+ * (recorrido en anchura de su AFD en orden longitud-lexicográfico)
+ */
+export interface LanguageAnalysis {
+  alphabet: string[]; // Alfabeto ordenado (sin ε)
+  kind: 'empty' | 'finite' | 'infinite';
+  size?: number; // Número de cadenas aceptadas, si el lenguaje es finito
+  longestLength?: number; // Longitud de la cadena más larga, si el lenguaje es finito y no vacío
+  shortestAccepted: string[] | null; // Cadena aceptada más corta (símbolos), null si el lenguaje es vacío
+  shortestRejected: string[] | null; // Cadena rechazada más corta (símbolos), null si se aceptan todas (Σ*)
+  countsByLength: number[]; // countsByLength[n] = cadenas aceptadas de longitud n
+  strings: string[][]; // Primeras cadenas aceptadas en orden longitud-lexicográfico
+  truncated: boolean; // Si hay cadenas aceptadas que no aparecen en `strings`
+}
+
+/**
+ * Formatos de archivo para importar y exportar autómatas
+ */
+export type AutomatonFileFormat = 'json' | 'jff' | 'dot';
+
+/**
+ * Documento JSON versionado de un autómata (formato de intercambio de compiMC,
+ * descrito en docs/FORMATO_AUTOMATAS.md)
+ */
+export interface AutomatonDocument {
+  format: 'compimc-automaton';
+  version: number; // Versión del esquema
+  name?: string;
+  type: Automaton['type'];
+  alphabet: string[];
+  states: Array<{
+    id: string;
+    label: string;
+    initial: boolean;
+    final: boolean;
+    position?: { x: number; y: number };
+  }>;
+  transitions: Array<{ from: string; to: string; symbol: string }>; // symbol 'ε' para transiciones vacías
+}
+
+/**
+ * Problemas que puede detectar el análisis de un autómata
+ */
+export type AutomatonIssueCode =
+  | 'missing-initial'
+  | 'multiple-initial'
+  | 'no-final'
+  | 'unreachable'
+  | 'dead'
+  | 'incomplete'
+  | 'epsilon-in-dfa'
+  | 'nondeterministic-dfa'
+  | 'duplicate-transition'
+  | 'duplicate-label';
+
+/**
+ * Correcciones automáticas que se ofrecen para un problema
+ */
+export type AutomatonQuickFix =
+  | 'set-initial'
+  | 'remove-unreachable'
+  | 'remove-dead'
+  | 'add-trap'
+  | 'mark-nfa'
+  | 'remove-duplicates';
+
+/**
+ * Problema detectado en un autómata
+ */
+export interface AutomatonIssue {
+  code: AutomatonIssueCode;
+  severity: 'error' | 'warning' | 'info'; // error: los algoritmos darán resultados incorrectos
+  message: string;
+  states: string[]; // IDs de los estados involucrados
+  transitions: string[]; // IDs de las transiciones involucradas
+  fixes: AutomatonQuickFix[]; // Correcciones disponibles
+}
+
+/**
+ * Forma de una gramática regular: lineal por la derecha (A → aB | a | ε)
+ * o lineal por la izquierda (A → Ba | a | ε)
+ */
+export type RegularGrammarKind = 'right-linear' | 'left-linear';
+
+/**
+ * Resultado de comprobar si una gramática es regular
+ */
+export interface RegularGrammarCheck {
+  kind: RegularGrammarKind | null; // null si la gramática no es regular
+  issues: Array<{ production: string; reason: string }>; // Producciones que impiden que lo sea
+}
+
+/**
+ * Paso de la conversión gramática regular ↔ autómata finito:
+ * una producción y las transiciones que le corresponden
+ */
+export interface RegularGrammarStep {
+  production: string; // Ej: "A → aB"
+  transitions: Array<Pick<Transition, 'from' | 'to' | 'symbol'>>; // Ej: A --a--> B
+  finalState?: string; // Estado final que representa la producción (A → ε)
+  description: string;
+}
+
+/**
+ * Resultado de convertir una gramática regular en un autómata o viceversa
+ */
+export interface RegularGrammarConversion {
+  kind: RegularGrammarKind;
+  grammar: Grammar;
+  automaton: Automaton;
+  steps: RegularGrammarStep[];
+  nonTerminalOf: Record<string, string>; // ID de estado → no terminal que lo representa
+}
+
+/**
+ * Paso de la eliminación de transiciones ε: ε-cerradura de un estado del AFN-ε
+ * y transiciones que genera en el AFN
+ */
+export interface EpsilonEliminationStep {
+  state: string; // Estado p procesado
+  closure: string[]; // ε-cerradura(p)
+  transitions: Pick<Transition, 'from' | 'to' | 'symbol'>[]; // δ'(p, a) = move(ε-cerradura(p), a) para cada a
+  added: Pick<Transition, 'from' | 'to' | 'symbol'>[]; // Las de `transitions` que no estaban en el AFN-ε
+  removedEpsilon: number; // Transiciones ε que salían de p
+  becomesFinal: boolean; // Si p pasa a ser final porque su cerradura contiene un estado final
+  unreachable: boolean; // Si p queda inalcanzable en el AFN y se elimina
+  description: string;
+}
+
+/**
+ * Resultado de eliminar las transiciones ε de un autómata (AFN-ε → AFN)
+ */
+export interface EpsilonElimination {
+  automaton: Automaton; // AFN equivalente sin transiciones ε
+  steps: EpsilonEliminationStep[];
+  removedEpsilon: number; // Total de transiciones ε eliminadas
+  removedStates: string[]; // Estados que quedaron inalcanzables
+}
+
+/**
+ * Operaciones de clausura sobre autómatas finitos
+ */
+export type AutomatonOperation =
+  | 'union'
+  | 'intersection'
+  | 'difference'
+  | 'complement'
+  | 'reverse'
+  | 'concatenation'
+  | 'star';
+
+/**
+ * Lenguaje de salida del generador de escáneres
+ */
+export type ScannerLanguage = 'typescript' | 'c' | 'python';
+
+/**
+ * Estilo del escáner generado: matriz de transiciones o switch por estado
+ */
+export type ScannerStyle = 'table' | 'switch';
+
+/**
+ * Código fuente de un escáner generado a partir de un AFD
+ */
+export interface GeneratedScanner {
+  language: ScannerLanguage;
+  style: ScannerStyle;
+  code: string; // Programa completo y ejecutable
+  fileName: string; // Nombre sugerido para la descarga
+}
@@ -2,14 +2,21 @@
  * Tipos para el historial de análisis
  */
 
+import type { LexerTokenDefinition } from './token';
+import type { EliminationHeuristic } from './automata';
+
 /**
  * Tipos de análisis disponibles con sus subtipos
  */
 export type HistoryType = 
   | 'lexical-afd-full'      // AFD Full (Thompson + Subconjuntos)
   | 'lexical-afd-short'     // AFD Óptimo (Árbol Sintáctico)
+  | 'lexical-afd-brzozowski' // AFD por derivadas de Brzozowski
   | 'lexical-reconocer'     // Reconocimiento de cadenas
   | 'lexical-af-to-er'      // Conversión AF → ER
+  | 'lexical-minimize'      // Minimización de AFD (Moore / Hopcroft)
+  | 'lexical-operations'    // Operaciones con autómatas (unión, intersección, ...)
+  | 'lexical-simplify'      // Simplificación de expresiones regulares
   | 'syntax-ll'             // Análisis Descendente LL(1)
   | 'syntax-lr'             // Análisis Ascendente LR
   | 'syntax-precedence'     // Análisis Ascendente Precedencia
@@ -21,8 +28,12 @@ export type HistoryType =
 export const historyTypeToPath: Record<HistoryType, string> = {
   'lexical-afd-full': '/analizador-lexico/afd-full',
   'lexical-afd-short': '/analizador-lexico/afd-short',
+  'lexical-afd-brzozowski': '/analizador-lexico/afd-brzozowski',
   'lexical-reconocer': '/analizador-lexico/reconocer',
   'lexical-af-to-er': '/analizador-lexico/af-to-er',
+  'lexical-minimize': '/analizador-lexico/minimizar',
+  'lexical-operations': '/analizador-lexico/operaciones',
+  'lexical-simplify': '/analizador-lexico/simplificar',
   'syntax-ll': '/asd',
   'syntax-lr': '/asa',
   'syntax-precedence': '/asa',
@@ -35,8 +46,12 @@ export const historyTypeToPath: Record<HistoryType, string> = {
 export const historyTypeLabels: Record<HistoryType, string> = {
   'lexical-afd-full': 'AFD Full',
   'lexical-afd-short': 'AFD Óptimo',
+  'lexical-afd-brzozowski': 'AFD Derivadas',
   'lexical-reconocer': 'Reconocer',
   'lexical-af-to-er': 'AF → ER',
+  'lexical-minimize': 'Minimizar AFD',
+  'lexical-operations': 'Operaciones AF',
+  'lexical-simplify': 'Simplificar ER',
   'syntax-ll': 'Sint. LL',
   'syntax-lr': 'Sint. LR',
   'syntax-precedence': 'Precedencia',
@@ -49,8 +64,12 @@ export const historyTypeLabels: Record<HistoryType, string> = {
 export const historyTypeColors: Record<HistoryType, string> = {
   'lexical-afd-full': 'bg-blue-500/10 text-blue-700 dark:text-blue-400',
   'lexical-afd-short': 'bg-cyan-500/10 text-cyan-700 dark:text-cyan-400',
+  'lexical-afd-brzozowski': 'bg-amber-500/10 text-amber-700 dark:text-amber-400',
   'lexical-reconocer': 'bg-teal-500/10 text-teal-700 dark:text-teal-400',
   'lexical-af-to-er': 'bg-indigo-500/10 text-indigo-700 dark:text-indigo-400',
+  'lexical-minimize': 'bg-emerald-500/10 text-emerald-700 dark:text-emerald-400',
+  'lexical-operations': 'bg-sky-500/10 text-sky-700 dark:text-sky-400',
+  'lexical-simplify': 'bg-fuchsia-500/10 text-fuchsia-700 dark:text-fuchsia-400',
   'syntax-ll': 'bg-green-500/10 text-green-700 dark:text-green-400',
   'syntax-lr': 'bg-purple-500/10 text-purple-700 dark:text-purple-400',
   'syntax-precedence': 'bg-violet-500/10 text-violet-700 dark:text-violet-400',
@@ -87,12 +106,28 @@ export interface HistoryMetadata {
   regex?: string; // Expresión regular
   languages?: string[]; // Lenguajes/alfabeto
   testString?: string; // Cadena a reconocer
+  minimizationMethod?: 'moore' | 'hopcroft'; // Minimización de AFD (también posterior en AFD Full/Short)
+  recognitionMode?: 'automaton' | 'lexer' | 'batch'; // Reconocer: una expresión, analizador con varios tokens o pruebas por lote
+  testSuite?: string; // Batería de pruebas por lote (Reconocer)
+  tokenDefinitions?: LexerTokenDefinition[]; // Tokens del analizador léxico (Reconocer)
+  
+  // Analizador Léxico (Minimizar AFD)
+  automatonSource?: 'regex' | 'visual' | 'table'; // Origen del AFD a minimizar
+  
+  // Analizador Léxico (Operaciones con autómatas)
+  automatonOperation?: 'union' | 'intersection' | 'difference' | 'complement' | 'reverse' | 'concatenation' | 'star';
+  secondAutomatonSource?: 'regex' | 'visual' | 'table'; // Origen del segundo operando
+  secondRegex?: string; // Expresión regular del segundo operando
+  secondAutomatonJson?: string; // Segundo autómata serializado en JSON
+  minimizeResult?: boolean; // Si se minimiza el resultado
   
   // Analizador Léxico (AF → ER)
   inputMode?: 'visual' | 'table'; // Modo de entrada del autómata
   alphabetMode?: 'auto' | 'custom'; // Modo del alfabeto
   customAlphabet?: string[]; // Alfabeto personalizado
   automatonJson?: string; // Autómata serializado en JSON
+  eliminationHeuristic?: EliminationHeuristic; // Criterio del orden de eliminación de estados
+  eliminationOrder?: string[]; // Orden personalizado de eliminación (IDs de estados)
   
   // Análisis Sintáctico (LL y LR)
   grammarText?: string; // Texto de la gramática
@@ -2,6 +2,8 @@
  * Tipos para tokens y análisis léxico
  */
 
+import type { Automaton, RecognitionResult } from './automata';
+
 /**
  * Token generado por el analizador léxico
  */
@@ -53,3 +55,55 @@ export interface TokenPattern {
   category: 'identificador' | 'numero' | 'operacion';
   symbol?: string; // Símbolo para mostrar (ej: "POT", "MUL")
 }
+
+/**
+ * Definición de un token para el generador de analizadores léxicos (estilo lex)
+ */
+export interface LexerTokenDefinition {
+  name: string; // Nombre del token (ej: "ID", "NUM", "IF")
+  regex: string; // Expresión regular del token
+  priority: number; // Prioridad ante lexemas de igual longitud (mayor = más alta)
+  ignore?: boolean; // Si se reconoce pero no se emite (ej: espacios, comentarios)
+}
+
+/**
+ * Analizador léxico construido a partir de varias definiciones de tokens
+ */
+export interface CompiledLexer {
+  definitions: LexerTokenDefinition[]; // Definiciones de tokens usadas
+  nfa: Automaton; // AFN combinado (un estado inicial con ε a cada AFN de Thompson)
+  dfa: Automaton; // AFD obtenido por subconjuntos
+  alphabet: string[]; // Alfabeto común de todas las expresiones
+  acceptingTokens: Record<string, string>; // Estado del AFD → token ganador
+  candidateTokens: Record<string, string[]>; // Estado del AFD → tokens que acepta (por prioridad)
+  finalStateTokens: Record<string, string>; // Estado final del AFN → token al que pertenece
+}
+
+/**
+ * Paso del escaneo con la regla del lexema más largo
+ */
+export interface LexerScanStep {
+  stepNumber: number; // Número del paso
+  position: number; // Índice del primer símbolo del lexema
+  line: number; // Línea donde empieza el lexema
+  column: number; // Columna donde empieza el lexema
+  path: string[]; // Estados del AFD recorridos desde el inicial
+  pathTokens: (string | null)[]; // Token aceptado en cada estado del recorrido
+  acceptIndex: number; // Posición en el recorrido del último estado de aceptación (-1 si no hay)
+  stopReason: string; // Por qué se detuvo el recorrido
+  lexeme: string; // Lexema reconocido (o símbolo erróneo)
+  token?: string; // Token emitido
+  candidates: string[]; // Tokens que aceptan el lexema (el primero gana)
+  action: 'token' | 'ignored' | 'skipped' | 'error'; // Resultado del paso
+  description: string; // Explicación del paso
+  recognition: RecognitionResult; // Simulación del AFD sobre la entrada restante
+}
+
+/**
+ * Resultado de tokenizar una entrada con un analizador léxico construido
+ */
+export interface LexerRunResult {
+  tokens: Token[]; // Flujo de tokens (sin los ignorados)
+  steps: LexerScanStep[]; // Traza del escaneo
+  errors: string[]; // Símbolos que no forman ningún token
+}
@@ -0,0 +1,333 @@
+/**
+ * Exportación de grafos de Cytoscape a SVG, TikZ y forest
+ *
+ * Todas las funciones trabajan sobre el grafo ya dibujado (posiciones del
+ * layout y estilos calculados), así la figura exportada coincide con la de
+ * pantalla:
+ * - SVG: nodos, aristas (con las curvas de Cytoscape), flechas y etiquetas.
+ * - TikZ con la librería `automata`, para autómatas.
+ * - `forest`, para árboles (raíz = nodo sin aristas entrantes).
+ * La exportación a PNG usa directamente `cy.png({ scale })`.
+ */
+
+import type cytoscape from 'cytoscape';
+
+type Point = { x: number; y: number };
+
+/**
+ * Escala de TikZ: píxeles de Cytoscape por centímetro
+ */
+const PIXELS_PER_CM = 60;
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Trazo de una arista igual al de Cytoscape: con puntos de control dibuja
+ * curvas cuadráticas encadenadas por los puntos medios
+ */
+function edgePath(source: Point, control: Point[], target: Point): string {
+  let d = `M ${round(source.x)} ${round(source.y)}`;
+  if (control.length === 0) {
+    return `${d} L ${round(target.x)} ${round(target.y)}`;
+  }
+
+  control.forEach((point, i) => {
+    const end = i === control.length - 1
+      ? target
+      : { x: (point.x + control[i + 1].x) / 2, y: (point.y + control[i + 1].y) / 2 };
+    d += ` Q ${round(point.x)} ${round(point.y)} ${round(end.x)} ${round(end.y)}`;
+  });
+  return d;
+}
+
+/**
+ * Texto multilínea centrado en (x, y)
+ */
+function svgText(lines: string[], x: number, y: number, attributes: string, fontSize: number): string {
+  const lineHeight = fontSize * 1.2;
+  const top = y - ((lines.length - 1) * lineHeight) / 2;
+  const spans = lines
+    .map((line, i) => `<tspan x="${round(x)}" y="${round(top + i * lineHeight)}">${escapeXml(line)}</tspan>`)
+    .join('');
+  return `<text text-anchor="middle" dominant-baseline="central" font-size="${fontSize}" ${attributes}>${spans}</text>`;
+}
+
+/**
+ * Serializa el grafo dibujado a SVG
+ */
+export function cytoscapeToSvg(cy: cytoscape.Core, background = '#ffffff'): string {
+  const padding = 20;
+  const box = cy.elements().boundingBox({});
+  const x0 = box.x1 - padding;
+  const y0 = box.y1 - padding;
+  const width = box.w + padding * 2;
+  const height = box.h + padding * 2;
+
+  const parts: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${round(width)}" height="${round(height)}" viewBox="${round(x0)} ${round(y0)} ${round(width)} ${round(height)}">`,
+    `<rect x="${round(x0)}" y="${round(y0)}" width="${round(width)}" height="${round(height)}" fill="${background}"/>`,
+  ];
+
+  // Aristas primero, para que los nodos queden por encima
+  cy.edges().forEach(edge => {
+    const source = edge.sourceEndpoint();
+    const target = edge.targetEndpoint();
+    if (!source || !target) return;
+
+    const control = edge.controlPoints() ?? edge.segmentPoints() ?? [];
+    const color = edge.style('line-color');
+    const width = edge.numericStyle('width');
+    const dash = edge.style('line-style') === 'dashed' ? ` stroke-dasharray="${width * 3} ${width * 2}"` : '';
+    const opacity = edge.effectiveOpacity();
+
+    parts.push(`<g opacity="${round(opacity)}">`);
+    parts.push(`<path d="${edgePath(source, control, target)}" fill="none" stroke="${color}" stroke-width="${width}"${dash}/>`);
+
+    if (edge.style('target-arrow-shape') !== 'none') {
+      const from = control.length > 0 ? control[control.length - 1] : source;
+      const angle = Math.atan2(target.y - from.y, target.x - from.x);
+      const size = (width * 3 + 6) * (edge.numericStyle('arrow-scale') || 1);
+      const corner = (side: number) => ({
+        x: target.x - size * Math.cos(angle) + side * (size / 2) * Math.sin(angle),
+        y: target.y - size * Math.sin(angle) - side * (size / 2) * Math.cos(angle),
+      });
+      const points = [target, corner(1), corner(-1)].map(p => `${round(p.x)},${round(p.y)}`).join(' ');
+      parts.push(`<polygon points="${points}" fill="${edge.style('target-arrow-color')}"/>`);
+    }
+
+    const label = String(edge.style('label') ?? '');
+    if (label) {
+      const mid = edge.midpoint();
+      const fontSize = edge.numericStyle('font-size');
+      const lines = label.split('\n');
+      if (Number(edge.style('text-background-opacity')) > 0) {
+        const w = Math.max(...lines.map(l => l.length)) * fontSize * 0.62 + 6;
+        const h = lines.length * fontSize * 1.2 + 4;
+        parts.push(`<rect x="${round(mid.x - w / 2)}" y="${round(mid.y - h / 2)}" width="${round(w)}" height="${round(h)}" rx="3" fill="${edge.style('text-background-color')}"/>`);
+      }
+      parts.push(svgText(lines, mid.x, mid.y, `fill="${edge.style('color')}" font-family="${escapeXml(edge.style('font-family'))}" font-weight="${edge.style('font-weight')}"`, fontSize));
+    }
+    parts.push('</g>');
+  });
+
+  cy.nodes().forEach(node => {
+    const { x, y } = node.position();
+    const w = node.width();
+    const h = node.height();
+    const shape = String(node.style('shape'));
+    const borderWidth = node.numericStyle('border-width');
+    const fill = node.style('background-color');
+    const stroke = node.style('border-color');
+    const dash = node.style('border-style') === 'dashed' ? ` stroke-dasharray="${borderWidth * 3} ${borderWidth * 2}"` : '';
+    const paint = `fill="${fill}" stroke="${stroke}" stroke-width="${borderWidth}"${dash}`;
+    const isRectangle = shape.includes('rectangle');
+
+    const outline = (inset: number, attributes: string) => isRectangle
+      ? `<rect x="${round(x - w / 2 + inset)}" y="${round(y - h / 2 + inset)}" width="${round(w - inset * 2)}" height="${round(h - inset * 2)}" rx="${shape.startsWith('round') ? round(Math.min(w, h) / 4) : 0}" ${attributes}/>`
+      : `<ellipse cx="${round(x)}" cy="${round(y)}" rx="${round(w / 2 - inset)}" ry="${round(h / 2 - inset)}" ${attributes}/>`;
+
+    parts.push(`<g opacity="${round(node.effectiveOpacity())}">`);
+    parts.push(outline(0, paint));
+    if (node.style('border-style') === 'double') {
+      parts.push(outline(borderWidth + 3, `fill="none" stroke="${stroke}" stroke-width="${borderWidth}"`));
+    }
+
+    const label = String(node.style('label') ?? '');
+    if (label) {
+      parts.push(svgText(label.split('\n'), x, y, `fill="${node.style('color')}" font-family="${escapeXml(node.style('font-family'))}" font-weight="${node.style('font-weight')}"`, node.numericStyle('font-size')));
+    }
+    parts.push('</g>');
+  });
+
+  parts.push('</svg>');
+  return parts.join('\n');
+}
+
+// ============================================
+// LaTeX
+// ============================================
+
+const latexSymbols: Record<string, string> = {
+  'ε': '$\\varepsilon$',
+  'λ': '$\\lambda$',
+  '∅': '$\\emptyset$',
+  '•': '$\\bullet$',
+  '·': '$\\cdot$',
+  '→': '$\\to$',
+  '∪': '$\\cup$',
+  '∩': '$\\cap$',
+  '∗': '$^*$',
+};
+
+const subscriptDigits = '₀₁₂₃₄₅₆₇₈₉';
+
+/**
+ * Escapa texto para LaTeX (modo texto) y traduce los símbolos matemáticos
+ */
+function escapeLatex(text: string): string {
+  // Subíndices: q₁₂ y a₍3₎ (posición en el árbol sintáctico) → $_{12}$, $_{3}$
+  const subscript = /₍([^₎]*)₎|[₀-₉]+/g;
+  let result = '';
+  let last = 0;
+  for (const match of text.matchAll(subscript)) {
+    const content = match[1] ?? [...match[0]].map(d => subscriptDigits.indexOf(d)).join('');
+    result += escapeLatexChars(text.slice(last, match.index)) + `$_{${escapeLatexChars(content)}}$`;
+    last = match.index + match[0].length;
+  }
+  return result + escapeLatexChars(text.slice(last));
+}
+
+function escapeLatexChars(text: string): string {
+  return [...text]
+    .map(char => {
+      if (latexSymbols[char]) return latexSymbols[char];
+      switch (char) {
+        case '\\': return '\\textbackslash{}';
+        case '{': case '}': case '$': case '&': case '%': case '#': case '_':
+          return `\\${char}`;
+        case '~': return '\\textasciitilde{}';
+        case '^': return '\\textasciicircum{}';
+        case '|': return '\\textbar{}';
+        case '<': return '\\textless{}';
+        case '>': return '\\textgreater{}';
+        default: return char;
+      }
+    })
+    .join('');
+}
+
+/**
+ * Etiqueta multilínea de LaTeX (líneas separadas con \\)
+ */
+function latexLabel(label: string): string {
+  return label.split('\n').map(escapeLatex).join(' \\\\ ');
+}
+
+/**
+ * Opciones para exportar un autómata a TikZ
+ */
+export interface TikzOptions {
+  initialSelector?: string; // Selector de Cytoscape del estado inicial (por defecto '.initial')
+  acceptingSelector?: string; // Selector de los estados de aceptación (por defecto '.final, .accepting')
+}
+
+/**
+ * Exporta un autómata dibujado a TikZ con la librería `automata`, usando las
+ * posiciones del layout. Las aristas paralelas se agrupan en una etiqueta y
+ * las que tienen arista de vuelta se curvan.
+ */
+export function cytoscapeToTikz(cy: cytoscape.Core, options: TikzOptions = {}): string {
+  const initialSelector = options.initialSelector ?? '.initial';
+  const acceptingSelector = options.acceptingSelector ?? '.final, .accepting';
+
+  const nodes = cy.nodes();
+  const names = new Map<string, string>(nodes.map((node, i) => [node.id(), `s${i}`]));
+  const origin = nodes.length > 0 ? nodes[0].position() : { x: 0, y: 0 };
+  const multiline = nodes.some(node => String(node.data('label') ?? '').includes('\n'));
+
+  const lines = [
+    '% \\usepackage{tikz}',
+    '% \\usetikzlibrary{automata, positioning, arrows.meta}',
+    `\\begin{tikzpicture}[>={Stealth[round]}, shorten >=1pt, auto, every state/.style={minimum size=1cm${multiline ? ', rectangle, rounded corners, align=left' : ''}}]`,
+  ];
+
+  nodes.forEach(node => {
+    const { x, y } = node.position();
+    const flags = [
+      'state',
+      node.is(initialSelector) ? 'initial' : '',
+      node.is(acceptingSelector) ? 'accepting' : '',
+    ].filter(Boolean).join(', ');
+    const cx = round((x - origin.x) / PIXELS_PER_CM);
+    const cyCoord = round(-(y - origin.y) / PIXELS_PER_CM);
+    lines.push(`  \\node[${flags}] (${names.get(node.id())}) at (${cx}, ${cyCoord}) {${latexLabel(String(node.data('label') ?? node.id()))}};`);
+  });
+
+  // Agrupar aristas paralelas
+  const edges = new Map<string, { source: string; target: string; labels: string[] }>();
+  cy.edges().forEach(edge => {
+    const source = edge.source().id();
+    const target = edge.target().id();
+    const key = JSON.stringify([source, target]);
+    const entry = edges.get(key) ?? { source, target, labels: [] };
+    const label = String(edge.data('label') ?? '');
+    if (label && !entry.labels.includes(label)) entry.labels.push(label);
+    edges.set(key, entry);
+  });
+
+  if (edges.size > 0) {
+    lines.push('  \\path[->]');
+    const entries = [...edges.values()];
+    entries.forEach(({ source, target, labels }, i) => {
+      const reverse = edges.has(JSON.stringify([target, source]));
+      const shape = source === target ? ' [loop above]' : reverse ? ' [bend left]' : '';
+      const end = i === entries.length - 1 ? ';' : '';
+      const to = source === target ? '()' : `(${names.get(target)})`;
+      lines.push(`    (${names.get(source)}) edge${shape} node {${latexLabel(labels.join(', '))}} ${to}${end}`);
+    });
+  }
+
+  lines.push('\\end{tikzpicture}');
+  return lines.join('\n');
+}
+
+/**
+ * Exporta un árbol dibujado al formato del paquete `forest`. Los hijos se
+ * ordenan de izquierda a derecha según su posición en el layout.
+ */
+export function cytoscapeTreeToForest(cy: cytoscape.Core): string {
+  const roots = cy.nodes().filter(node => node.incomers('edge').length === 0);
+  if (roots.length !== 1) {
+    throw new Error('El grafo no es un árbol: debe tener exactamente una raíz');
+  }
+
+  const visited = new Set<string>();
+  const lines = ['% \\usepackage{forest}', '\\begin{forest}', '  for tree={align=center, draw, rounded corners}'];
+
+  const visit = (node: cytoscape.NodeSingular, depth: number) => {
+    visited.add(node.id());
+    const indent = '  '.repeat(depth + 1);
+    const children = node
+      .outgoers('node')
+      .filter(child => !visited.has(child.id()))
+      .toArray()
+      .map(child => child as cytoscape.NodeSingular)
+      .sort((a, b) => a.position().x - b.position().x);
+
+    const label = `{${latexLabel(String(node.data('label') ?? node.id()))}}`;
+    if (children.length === 0) {
+      lines.push(`${indent}[${label}]`);
+      return;
+    }
+    lines.push(`${indent}[${label}`);
+    children.forEach(child => visit(child, depth + 1));
+    lines.push(`${indent}]`);
+  };
+
+  visit(roots[0], 0);
+  lines.push('\\end{forest}');
+  return lines.join('\n');
+}
+
+/**
+ * Descarga un texto o una imagen (data URL) como archivo
+ */
+export function downloadFile(content: string, fileName: string, mimeType?: string): void {
+  const isDataUrl = content.startsWith('data:');
+  const url = isDataUrl ? content : URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  if (!isDataUrl) URL.revokeObjectURL(url);
+}
@@ -7,9 +7,13 @@
 import { HistoryEntry, historyTypeToPath } from '@/lib/types';
 import { 
   serializeAFDFull, 
-  serializeAFDShort, 
+  serializeAFDShort,
+  serializeAFDBrzozowski, 
   serializeReconocer, 
   serializeAFToER,
+  serializeMinimizar,
+  serializeOperaciones,
+  serializeSimplificar,
   serializeASD,
   serializeASA,
   serializeCompiler,
@@ -31,6 +35,7 @@ export function generateHistoryEntryUrl(entry: HistoryEntry): string {
       queryString = serializeAFDFull({
         regex: metadata.regex || '',
         languages: metadata.languages || [],
+        minimize: metadata.minimizationMethod || 'none',
       });
       break;
 
@@ -38,13 +43,32 @@ export function generateHistoryEntryUrl(entry: HistoryEntry): string {
       queryString = serializeAFDShort({
         regex: metadata.regex || '',
         languages: metadata.languages || [],
+        minimize: metadata.minimizationMethod || 'none',
+      });
+      break;
+
+    case 'lexical-afd-brzozowski':
+      queryString = serializeAFDBrzozowski({
+        regex: metadata.regex || '',
+        languages: metadata.languages || [],
+        minimize: metadata.minimizationMethod || 'none',
       });
       break;
 
     case 'lexical-reconocer':
       queryString = serializeReconocer({
+        mode: metadata.recognitionMode || 'automaton',
         regex: metadata.regex || '',
-        testString: metadata.testString || '',
+        testString: metadata.recognitionMode === 'lexer' ? '' : metadata.testString || '',
+        tokens: metadata.tokenDefinitions ? JSON.stringify(metadata.tokenDefinitions) : null,
+        lexerInput: metadata.recognitionMode === 'lexer' ? metadata.testString || '' : '',
+        sourceA: metadata.automatonSource || 'regex',
+        sourceB: metadata.secondAutomatonSource || 'regex',
+        regexB: metadata.secondRegex || '',
+        automatonA: metadata.automatonJson || null,
+        automatonB: metadata.secondAutomatonJson || null,
+        compare: metadata.recognitionMode === 'batch' && !!metadata.secondAutomatonSource,
+        suite: metadata.testSuite || '',
       });
       break;
 
@@ -54,6 +78,37 @@ export function generateHistoryEntryUrl(entry: HistoryEntry): string {
         alphabetMode: metadata.alphabetMode || 'auto',
         customAlphabet: metadata.customAlphabet || [],
         automaton: metadata.automatonJson || null,
+        heuristic: metadata.eliminationHeuristic || 'definition',
+        eliminationOrder: metadata.eliminationOrder || [],
+      });
+      break;
+
+    case 'lexical-minimize':
+      queryString = serializeMinimizar({
+        source: metadata.automatonSource || 'regex',
+        method: metadata.minimizationMethod || 'hopcroft',
+        regex: metadata.regex || '',
+        automaton: metadata.automatonJson || null,
+      });
+      break;
+
+    case 'lexical-operations':
+      queryString = serializeOperaciones({
+        operation: metadata.automatonOperation || 'union',
+        sourceA: metadata.automatonSource || 'regex',
+        sourceB: metadata.secondAutomatonSource || 'regex',
+        regexA: metadata.regex || '',
+        regexB: metadata.secondRegex || '',
+        automatonA: metadata.automatonJson || null,
+        automatonB: metadata.secondAutomatonJson || null,
+        alphabet: metadata.customAlphabet || [],
+        minimize: metadata.minimizeResult ?? false,
+      });
+      break;
+
+    case 'lexical-simplify':
+      queryString = serializeSimplificar({
+        regex: metadata.regex || '',
       });
       break;
 